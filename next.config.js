@@ -77,6 +77,10 @@ const nextConfig = {
       },
     ],
   },
+  // Invoice PDFs embed DejaVu Sans, which is read from disk at runtime
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf"],
+  },
   turbopack: {
     rules: {
       "*.svg": {
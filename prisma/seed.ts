@@ -57,6 +57,7 @@ async function main() {
         "events.create",
         "events.update",
         "events.manage_registrations",
+        "events.check_in",
         "events.export_data",
         "users.view_registrations",
         "profile.update",
@@ -80,6 +81,7 @@ async function main() {
         "events.update",
         "events.delete",
         "events.manage_registrations",
+        "events.check_in",
         "events.export_data",
         "users.view",
         "users.moderate",
@@ -211,6 +213,74 @@ async function main() {
       category: "registration",
       isPublic: false,
     },
+    {
+      key: "registration.max_group_size",
+      value: "10",
+      description: "Largest group one attendee can register, including themselves",
+      type: "number",
+      category: "registration",
+      isPublic: true,
+    },
+    {
+      key: "registration.guest_verification_hours",
+      value: "24",
+      description:
+        "Hours a guest has to verify their email before the registration request expires",
+      type: "number",
+      category: "registration",
+      isPublic: false,
+    },
+    {
+      key: "waiting_list.claim_window_hours",
+      value: "48",
+      description: "Hours a promoted waiting list attendee has to claim their seat",
+      type: "number",
+      category: "registration",
+      isPublic: false,
+    },
+    {
+      key: "payments.pending_payment_days",
+      value: "7",
+      description: "Days an attendee has to pay before the held seat is released",
+      type: "number",
+      category: "payments",
+      isPublic: false,
+    },
+    {
+      key: "payments.reminder_days_before_expiry",
+      value: "2",
+      description: "Days before the payment deadline to send a reminder (0 disables reminders)",
+      type: "number",
+      category: "payments",
+      isPublic: false,
+    },
+    {
+      key: "roles.reminder_days_before_expiry",
+      value: "3",
+      description:
+        "Days before a temporary role grant lapses to remind its holder (0 disables reminders)",
+      type: "number",
+      category: "roles",
+      isPublic: false,
+    },
+    {
+      key: "users.cancel_registrations_on_suspension",
+      value: "false",
+      description:
+        "Cancel a user's registrations for upcoming events when their account is suspended",
+      type: "boolean",
+      category: "users",
+      isPublic: false,
+    },
+    {
+      key: "payments.claim_escalation_hours",
+      value: "48",
+      description:
+        "Hours a payment claim may wait for verification before the event manager is alerted (0 disables)",
+      type: "number",
+      category: "payments",
+      isPublic: false,
+    },
     {
       key: "payments.qr_code_enabled",
       value: "true",
@@ -219,6 +289,78 @@ async function main() {
       category: "payments",
       isPublic: false,
     },
+    {
+      key: "payments.variable_symbol_scheme",
+      value: "event",
+      description: "Variable symbol scheme: event (event prefix + sequence), year or sequence",
+      type: "string",
+      category: "payments",
+      isPublic: false,
+    },
+    {
+      key: "invoices.number_prefix",
+      value: "",
+      description: "Text put before invoice numbers (e.g. FA gives FA2026-00001)",
+      type: "string",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.supplier_name",
+      value: "",
+      description: "Organiser name printed on invoices",
+      type: "string",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.supplier_address",
+      value: "",
+      description: "Organiser address printed on invoices (one line per row)",
+      type: "string",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.supplier_company_id",
+      value: "",
+      description: "Organiser company registration number (IČO)",
+      type: "string",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.supplier_vat_id",
+      value: "",
+      description: "Organiser VAT number (DIČ)",
+      type: "string",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.vat_payer",
+      value: "false",
+      description: "Whether the organiser is a VAT payer (invoices show the VAT breakdown)",
+      type: "boolean",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "invoices.vat_rate",
+      value: "21",
+      description: "VAT rate in percent included in ticket prices",
+      type: "number",
+      category: "invoices",
+      isPublic: false,
+    },
+    {
+      key: "reports.base_currency",
+      value: "EUR",
+      description: "Currency revenue reports convert payments to (ECB reference rates)",
+      type: "string",
+      category: "reports",
+      isPublic: false,
+    },
     {
       key: "email.notifications_enabled",
       value: "true",
@@ -255,6 +397,9 @@ async function main() {
             <li>Time: {{eventTime}}</li>
             <li>Venue: {{eventVenue}}</li>
           </ul>
+          <p><strong>Your ticket:</strong> show this QR code at the entrance.</p>
+          <p><img src="{{ticketQrUrl}}" alt="Ticket QR code" width="240" height="240" /></p>
+          <p><a href="{{ticketUrl}}">Open Ticket</a></p>
           <p>We look forward to seeing you there!</p>
         `,
         cs: `
@@ -267,10 +412,67 @@ async function main() {
             <li>Čas: {{eventTime}}</li>
             <li>Místo: {{eventVenue}}</li>
           </ul>
+          <p><strong>Vaše vstupenka:</strong> u vstupu prosím ukažte tento QR kód.</p>
+          <p><img src="{{ticketQrUrl}}" alt="QR kód vstupenky" width="240" height="240" /></p>
+          <p><a href="{{ticketUrl}}">Otevřít vstupenku</a></p>
           <p>Těšíme se na Vás!</p>
         `,
       },
-      variables: ["userName", "eventTitle", "eventDate", "eventTime", "eventVenue"],
+      variables: [
+        "userName",
+        "eventTitle",
+        "eventDate",
+        "eventTime",
+        "eventVenue",
+        "ticketUrl",
+        "ticketQrUrl",
+      ],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "registration_approved",
+      type: NotificationType.EMAIL,
+      subject: "Registration approved - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Registration Approved</h1>
+          <p>Hello {{userName}},</p>
+          <p>Your registration for <strong>{{eventTitle}}</strong> on {{eventDate}} has been approved.</p>
+          <p>If the event is paid, your seat is confirmed once we receive your payment.</p>
+          <p><a href="{{eventUrl}}">View Event</a></p>
+        `,
+        cs: `
+          <h1>Registrace schválena</h1>
+          <p>Dobrý den {{userName}},</p>
+          <p>Vaše registrace na akci <strong>{{eventTitle}}</strong> dne {{eventDate}} byla schválena.</p>
+          <p>U placených akcí je místo potvrzeno po přijetí platby.</p>
+          <p><a href="{{eventUrl}}">Zobrazit akci</a></p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "eventUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "registration_rejected",
+      type: NotificationType.EMAIL,
+      subject: "Registration not approved - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Registration Not Approved</h1>
+          <p>Hello {{userName}},</p>
+          <p>Unfortunately, your registration for <strong>{{eventTitle}}</strong> on {{eventDate}} was not approved.</p>
+          <p>Reason: {{reason}}</p>
+        `,
+        cs: `
+          <h1>Registrace nebyla schválena</h1>
+          <p>Dobrý den {{userName}},</p>
+          <p>bohužel Vaše registrace na akci <strong>{{eventTitle}}</strong> dne {{eventDate}} nebyla schválena.</p>
+          <p>Důvod: {{reason}}</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "reason"],
       isActive: true,
       isSystem: true,
     },
@@ -282,21 +484,402 @@ async function main() {
         en: `
           <h1>Great News!</h1>
           <p>Hello {{userName}},</p>
-          <p>A spot has opened up for <strong>{{eventTitle}}</strong>!</p>
-          <p>You have been moved from the waiting list to confirmed registration.</p>
-          <p>Please confirm your attendance by clicking the link below:</p>
-          <p><a href="{{confirmationUrl}}">Confirm Attendance</a></p>
+          <p>A spot has opened up for <strong>{{eventTitle}}</strong> on {{eventDate}} and we are holding it for you.</p>
+          <p>Please claim your spot by <strong>{{claimDeadline}}</strong>, otherwise it will be offered to the next person on the waiting list.</p>
+          <p><a href="{{confirmationUrl}}">Claim My Spot</a></p>
         `,
         cs: `
           <h1>Skvělé zprávy!</h1>
           <p>Ahoj {{userName}},</p>
-          <p>Uvolnilo se místo na akci <strong>{{eventTitle}}</strong>!</p>
-          <p>Byli jste přesunuti z čekací listiny mezi potvrzené účastníky.</p>
-          <p>Prosím potvrďte svou účast kliknutím na odkaz níže:</p>
-          <p><a href="{{confirmationUrl}}">Potvrdit účast</a></p>
+          <p>Uvolnilo se místo na akci <strong>{{eventTitle}}</strong> dne {{eventDate}} a držíme ho pro Vás.</p>
+          <p>Prosím potvrďte své místo do <strong>{{claimDeadline}}</strong>, jinak bude nabídnuto dalšímu v pořadí na čekací listině.</p>
+          <p><a href="{{confirmationUrl}}">Potvrdit místo</a></p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "claimDeadline", "confirmationUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "group_friend_invitation",
+      type: NotificationType.EMAIL,
+      subject: "{{leaderName}} saved you a seat - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>You're on the list!</h1>
+          <p>Hello {{userName}},</p>
+          <p>{{leaderName}} registered you for <strong>{{eventTitle}}</strong> on {{eventDate}}.</p>
+          <p>Claim your seat to get event updates directly and manage your own registration.</p>
+          <p><a href="{{claimUrl}}">Claim My Seat</a></p>
+        `,
+        cs: `
+          <h1>Jste na seznamu!</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>{{leaderName}} Vás přihlásil(a) na akci <strong>{{eventTitle}}</strong> dne {{eventDate}}.</p>
+          <p>Převezměte své místo, abyste dostávali novinky o akci přímo a mohli spravovat svou registraci.</p>
+          <p><a href="{{claimUrl}}">Převzít místo</a></p>
+        `,
+      },
+      variables: ["userName", "leaderName", "eventTitle", "eventDate", "claimUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "guest_registration_verification",
+      type: NotificationType.EMAIL,
+      subject: "Confirm your registration - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Confirm Your Registration</h1>
+          <p>Hello {{userName}},</p>
+          <p>Please confirm your email to register for <strong>{{eventTitle}}</strong> on {{eventDate}}.</p>
+          <p>Your seat is not reserved until you confirm. This link expires on {{expiresAt}}.</p>
+          <p><a href="{{verifyUrl}}">Confirm Registration</a></p>
+          <p>If you did not request this, you can ignore this email.</p>
+        `,
+        cs: `
+          <h1>Potvrďte svou registraci</h1>
+          <p>Dobrý den {{userName}},</p>
+          <p>potvrďte prosím svůj e-mail pro registraci na akci <strong>{{eventTitle}}</strong> dne {{eventDate}}.</p>
+          <p>Místo je rezervováno až po potvrzení. Odkaz vyprší {{expiresAt}}.</p>
+          <p><a href="{{verifyUrl}}">Potvrdit registraci</a></p>
+          <p>Pokud jste o registraci nežádali, můžete tento e-mail ignorovat.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "expiresAt", "verifyUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "guest_registration_received",
+      type: NotificationType.EMAIL,
+      subject: "You're registered - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>You're Registered!</h1>
+          <p>Hello {{userName}},</p>
+          <p>Your registration for <strong>{{eventTitle}}</strong> on {{eventDate}} has been received.</p>
+          <p><a href="{{eventUrl}}">View Event</a></p>
+          <p>Can't make it? <a href="{{cancelUrl}}">Cancel your registration</a> so someone else can take your seat.</p>
+        `,
+        cs: `
+          <h1>Jste registrováni!</h1>
+          <p>Dobrý den {{userName}},</p>
+          <p>Vaše registrace na akci <strong>{{eventTitle}}</strong> dne {{eventDate}} byla přijata.</p>
+          <p><a href="{{eventUrl}}">Zobrazit akci</a></p>
+          <p>Nemůžete přijít? <a href="{{cancelUrl}}">Zrušte svou registraci</a>, ať může místo využít někdo jiný.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "eventUrl", "cancelUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "guest_waiting_list_joined",
+      type: NotificationType.EMAIL,
+      subject: "You're on the waiting list - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>You're on the Waiting List</h1>
+          <p>Hello {{userName}},</p>
+          <p><strong>{{eventTitle}}</strong> on {{eventDate}} is full, so we added you to the waiting list.</p>
+          <p>We will email you if a seat opens up.</p>
+          <p><a href="{{eventUrl}}">View Event</a></p>
+          <p>Changed your mind? <a href="{{cancelUrl}}">Leave the waiting list</a>.</p>
+        `,
+        cs: `
+          <h1>Jste na čekací listině</h1>
+          <p>Dobrý den {{userName}},</p>
+          <p>Akce <strong>{{eventTitle}}</strong> dne {{eventDate}} je plná, proto jsme Vás zařadili na čekací listinu.</p>
+          <p>Pokud se uvolní místo, dáme Vám vědět e-mailem.</p>
+          <p><a href="{{eventUrl}}">Zobrazit akci</a></p>
+          <p>Rozmysleli jste si to? <a href="{{cancelUrl}}">Opustit čekací listinu</a>.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "eventUrl", "cancelUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_reminder",
+      type: NotificationType.EMAIL,
+      subject: "Payment reminder - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Payment Reminder</h1>
+          <p>Hello {{userName}},</p>
+          <p>We are still waiting for your payment of <strong>{{amount}}</strong> for <strong>{{eventTitle}}</strong> on {{eventDate}}.</p>
+          <p>Please pay by <strong>{{paymentDeadline}}</strong> using the variable symbol <strong>{{variableSymbol}}</strong>, otherwise your seat will be released.</p>
+          <p><a href="{{eventUrl}}">View payment details</a></p>
+          <p>If you have already paid, please ignore this email.</p>
+        `,
+        cs: `
+          <h1>Připomínka platby</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Stále čekáme na Vaši platbu <strong>{{amount}}</strong> za akci <strong>{{eventTitle}}</strong> dne {{eventDate}}.</p>
+          <p>Zaplaťte prosím do <strong>{{paymentDeadline}}</strong> s variabilním symbolem <strong>{{variableSymbol}}</strong>, jinak bude Vaše místo uvolněno.</p>
+          <p><a href="{{eventUrl}}">Zobrazit platební údaje</a></p>
+          <p>Pokud jste již zaplatili, tento e-mail prosím ignorujte.</p>
+        `,
+      },
+      variables: [
+        "userName",
+        "eventTitle",
+        "eventDate",
+        "amount",
+        "variableSymbol",
+        "paymentDeadline",
+        "eventUrl",
+      ],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "pending_payment_expired",
+      type: NotificationType.EMAIL,
+      subject: "Registration cancelled - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Registration Cancelled</h1>
+          <p>Hello {{userName}},</p>
+          <p>We did not receive your payment for <strong>{{eventTitle}}</strong> on {{eventDate}} by the deadline, so your registration has been cancelled and your seat released.</p>
+          <p>If you still want to attend, you can <a href="{{eventUrl}}">register again</a> while seats are available.</p>
+        `,
+        cs: `
+          <h1>Registrace zrušena</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vaši platbu za akci <strong>{{eventTitle}}</strong> dne {{eventDate}} jsme do termínu splatnosti neobdrželi, proto byla Vaše registrace zrušena a místo uvolněno.</p>
+          <p>Pokud se chcete akce i tak zúčastnit, můžete se <a href="{{eventUrl}}">znovu registrovat</a>, dokud jsou volná místa.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "eventUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "role_grant_expiring",
+      type: NotificationType.EMAIL,
+      subject: "Your {{roleName}} role expires soon",
+      content: {
+        en: `
+          <h1>Role Expiring</h1>
+          <p>Hello {{userName}},</p>
+          <p>Your <strong>{{roleName}}</strong> role expires on <strong>{{expiresAt}}</strong>, after which you will lose the access it gives you.</p>
+          <p>If you still need it, please ask an administrator to extend it.</p>
+          <p><a href="{{dashboardUrl}}">Go to your dashboard</a></p>
+        `,
+        cs: `
+          <h1>Role brzy vyprší</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vaše role <strong>{{roleName}}</strong> vyprší <strong>{{expiresAt}}</strong> a poté ztratíte přístup, který Vám dává.</p>
+          <p>Pokud ji stále potřebujete, požádejte prosím administrátora o prodloužení.</p>
+          <p><a href="{{dashboardUrl}}">Přejít na nástěnku</a></p>
+        `,
+      },
+      variables: ["userName", "roleName", "expiresAt", "dashboardUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "role_grant_expired",
+      type: NotificationType.EMAIL,
+      subject: "Your {{roleName}} role has expired",
+      content: {
+        en: `
+          <h1>Role Expired</h1>
+          <p>Hello {{userName}},</p>
+          <p>Your <strong>{{roleName}}</strong> role expired on {{expiresAt}} and the access it gave you has been removed.</p>
+          <p>If you still need it, please ask an administrator to grant it again.</p>
+          <p><a href="{{dashboardUrl}}">Go to your dashboard</a></p>
+        `,
+        cs: `
+          <h1>Role vypršela</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vaše role <strong>{{roleName}}</strong> vypršela {{expiresAt}} a přístup, který Vám dávala, byl odebrán.</p>
+          <p>Pokud ji stále potřebujete, požádejte prosím administrátora o její opětovné přidělení.</p>
+          <p><a href="{{dashboardUrl}}">Přejít na nástěnku</a></p>
+        `,
+      },
+      variables: ["userName", "roleName", "expiresAt", "dashboardUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_claim_rejected",
+      type: NotificationType.EMAIL,
+      subject: "Payment not found - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Payment Not Found</h1>
+          <p>Hello {{userName}},</p>
+          <p>We could not confirm your payment of <strong>{{amount}}</strong> for <strong>{{eventTitle}}</strong> on {{eventDate}}.</p>
+          <p>{{reason}}</p>
+          <p>Your seat is still reserved. Please check the transfer and make sure the payment arrives by {{paymentDeadline}}. You can find the payment details on the <a href="{{eventUrl}}">event page</a>.</p>
+        `,
+        cs: `
+          <h1>Platbu jsme nenašli</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vaši platbu <strong>{{amount}}</strong> za akci <strong>{{eventTitle}}</strong> dne {{eventDate}} se nám nepodařilo ověřit.</p>
+          <p>{{reason}}</p>
+          <p>Vaše místo je stále rezervováno. Zkontrolujte prosím převod a zajistěte, aby platba dorazila do {{paymentDeadline}}. Platební údaje najdete na <a href="{{eventUrl}}">stránce akce</a>.</p>
+        `,
+      },
+      variables: [
+        "userName",
+        "eventTitle",
+        "eventDate",
+        "amount",
+        "reason",
+        "paymentDeadline",
+        "eventUrl",
+      ],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_claim_rejected_cancelled",
+      type: NotificationType.EMAIL,
+      subject: "Registration cancelled - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Registration Cancelled</h1>
+          <p>Hello {{userName}},</p>
+          <p>We could not confirm your payment of <strong>{{amount}}</strong> for <strong>{{eventTitle}}</strong> on {{eventDate}}, so your registration has been cancelled and your seat released.</p>
+          <p>{{reason}}</p>
+          <p>If you believe this is a mistake, please reply to this email with the details of your transfer.</p>
+        `,
+        cs: `
+          <h1>Registrace zrušena</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vaši platbu <strong>{{amount}}</strong> za akci <strong>{{eventTitle}}</strong> dne {{eventDate}} se nám nepodařilo ověřit, proto byla Vaše registrace zrušena a místo uvolněno.</p>
+          <p>{{reason}}</p>
+          <p>Pokud jde podle Vás o omyl, odpovězte prosím na tento e-mail a připojte údaje o převodu.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "amount", "reason"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_claim_escalated",
+      type: NotificationType.EMAIL,
+      subject: "Unverified payment claim - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Payment Claim Awaits Verification</h1>
+          <p>Hello {{userName}},</p>
+          <p>{{attendee}} reported paying <strong>{{amount}}</strong> for <strong>{{eventTitle}}</strong> on {{claimedAt}}, and the payment has not been verified yet.</p>
+          <p>Their seat stays reserved until the claim is reviewed. Please <a href="{{reviewUrl}}">verify or reject the claim</a>.</p>
+        `,
+        cs: `
+          <h1>Nahlášená platba čeká na ověření</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>{{attendee}} nahlásil(a) {{claimedAt}} platbu <strong>{{amount}}</strong> za akci <strong>{{eventTitle}}</strong> a platba zatím nebyla ověřena.</p>
+          <p>Místo zůstává rezervováno, dokud nahlášení nezkontrolujete. <a href="{{reviewUrl}}">Ověřte nebo zamítněte platbu</a>.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "attendee", "amount", "claimedAt", "reviewUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_receipt",
+      type: NotificationType.EMAIL,
+      subject: "Payment received - invoice {{invoiceNumber}}",
+      content: {
+        en: `
+          <h1>Payment Received</h1>
+          <p>Hello {{userName}},</p>
+          <p>Thank you, we have received your payment of <strong>{{amount}}</strong> for <strong>{{description}}</strong>.</p>
+          <p>Your invoice {{invoiceNumber}} is attached. You can also <a href="{{invoiceUrl}}">download it</a> from your dashboard at any time.</p>
+        `,
+        cs: `
+          <h1>Platba přijata</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Děkujeme, přijali jsme Vaši platbu <strong>{{amount}}</strong> za <strong>{{description}}</strong>.</p>
+          <p>Fakturu {{invoiceNumber}} najdete v příloze. Kdykoli si ji také můžete <a href="{{invoiceUrl}}">stáhnout</a> ve svém přehledu.</p>
+        `,
+      },
+      variables: ["userName", "invoiceNumber", "description", "amount", "invoiceUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "payment_refunded",
+      type: NotificationType.EMAIL,
+      subject: "Refund sent - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Refund Sent</h1>
+          <p>Hello {{userName}},</p>
+          <p>We have sent you a refund of <strong>{{amount}}</strong> for <strong>{{eventTitle}}</strong> on {{eventDate}}.</p>
+          <p>The money was sent to account {{recipientAccount}} with reference {{bankReference}}. Depending on your bank it may take a few days to arrive.</p>
+        `,
+        cs: `
+          <h1>Platba vrácena</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Vrátili jsme Vám <strong>{{amount}}</strong> za akci <strong>{{eventTitle}}</strong> dne {{eventDate}}.</p>
+          <p>Peníze byly odeslány na účet {{recipientAccount}} s referencí {{bankReference}}. V závislosti na Vaší bance mohou dorazit až za několik dní.</p>
+        `,
+      },
+      variables: [
+        "userName",
+        "eventTitle",
+        "eventDate",
+        "amount",
+        "recipientAccount",
+        "bankReference",
+      ],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "event_cancelled",
+      type: NotificationType.EMAIL,
+      subject: "Event Cancelled - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Event Cancelled</h1>
+          <p>Hello {{userName}},</p>
+          <p>We are sorry to let you know that <strong>{{eventTitle}}</strong> planned for {{eventDate}} has been cancelled.</p>
+          <p>{{reason}}</p>
+          <p>Your registration has been cancelled. If you already paid, we will contact you about a refund.</p>
+        `,
+        cs: `
+          <h1>Akce zrušena</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>S lítostí Vám oznamujeme, že akce <strong>{{eventTitle}}</strong> plánovaná na {{eventDate}} byla zrušena.</p>
+          <p>{{reason}}</p>
+          <p>Vaše registrace byla zrušena. Pokud jste již zaplatili, ozveme se Vám ohledně vrácení peněz.</p>
+        `,
+      },
+      variables: ["userName", "eventTitle", "eventDate", "reason", "eventUrl"],
+      isActive: true,
+      isSystem: true,
+    },
+    {
+      name: "event_postponed",
+      type: NotificationType.EMAIL,
+      subject: "Event Postponed - {{eventTitle}}",
+      content: {
+        en: `
+          <h1>Event Postponed</h1>
+          <p>Hello {{userName}},</p>
+          <p><strong>{{eventTitle}}</strong> has been postponed.</p>
+          <p><strong>New date:</strong> {{eventDate}} at {{eventTime}}</p>
+          <p>{{reason}}</p>
+          <p>Your registration remains valid. <a href="{{eventUrl}}">View event details</a></p>
+        `,
+        cs: `
+          <h1>Akce odložena</h1>
+          <p>Ahoj {{userName}},</p>
+          <p>Akce <strong>{{eventTitle}}</strong> byla odložena.</p>
+          <p><strong>Nový termín:</strong> {{eventDate}} v {{eventTime}}</p>
+          <p>{{reason}}</p>
+          <p>Vaše registrace zůstává platná. <a href="{{eventUrl}}">Zobrazit detail akce</a></p>
         `,
       },
-      variables: ["userName", "eventTitle", "confirmationUrl"],
+      variables: ["userName", "eventTitle", "eventDate", "eventTime", "reason", "eventUrl"],
       isActive: true,
       isSystem: true,
     },
@@ -0,0 +1,60 @@
+import { getTranslations } from "next-intl/server";
+import { redirect } from "next/navigation";
+import { Alert } from "@/components/ui/alert";
+import { LogoutButton } from "@/components/auth";
+import { getCurrentAccount } from "@/lib/users";
+import { getAccountRestriction } from "@/lib/user-status";
+import { loginUrl } from "@/lib/auth-routes";
+import { formatDateTime } from "@/lib/formatters";
+import type { Locale } from "@/i18n/routing";
+
+interface AccountSuspendedPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function AccountSuspendedPage({ params }: AccountSuspendedPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("AccountStatus");
+
+  const account = await getCurrentAccount();
+  if (!account) {
+    redirect(loginUrl(locale as Locale, `/${locale}/account-suspended`));
+  }
+
+  const restriction = getAccountRestriction(account);
+  if (!restriction) {
+    redirect(`/${locale}/dashboard`);
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-xl px-4 py-16">
+        <div className="space-y-6 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+          {restriction === "SUSPENDED" ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900">{t("suspendedTitle")}</h1>
+              <Alert variant="error">
+                {account.suspendedUntil
+                  ? t("suspendedUntil", { date: formatDateTime(account.suspendedUntil, locale) })
+                  : t("suspended")}
+              </Alert>
+              {account.suspensionReason && (
+                <div>
+                  <h2 className="text-sm font-medium text-gray-500">{t("reason")}</h2>
+                  <p className="text-gray-800">{account.suspensionReason}</p>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900">{t("inactiveTitle")}</h1>
+              <Alert variant="error">{t("inactive")}</Alert>
+            </>
+          )}
+          <p className="text-sm text-gray-600">{t("contact")}</p>
+          <LogoutButton size="sm" variant="outline" />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { ApprovalQueue, type ApprovalQueueEventItem } from "@/components/dashboard";
+import { getApprovalQueue } from "@/lib/registration-approvals";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatDate, formatDateTime } from "@/lib/formatters";
+
+interface ApprovalsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function ApprovalsPage({ params }: ApprovalsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("Approvals");
+
+  const { authorized: canReview } = await requirePageAuth(`/${locale}/dashboard/approvals`, {
+    permissions: ["events.manage_registrations"],
+  });
+  const events: ApprovalQueueEventItem[] = canReview
+    ? (await getApprovalQueue()).map(({ event, approvedSeats, registrations }) => ({
+        id: event.id,
+        title: event.title,
+        date: formatDate(event.startDate, locale, event.timezone),
+        capacity: event.capacity,
+        approvedSeats,
+        registrations: registrations.map((registration) => ({
+          id: registration.id,
+          attendee: registration.user?.name ?? registration.guestName ?? t("unknownAttendee"),
+          email: registration.user?.email ?? registration.guestEmail,
+          groupSize: registration.groupSize,
+          registeredAt: formatDateTime(registration.registeredAt, locale, event.timezone),
+          notes: registration.notes,
+        })),
+      }))
+    : [];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {canReview ? (
+          <ApprovalQueue events={events} />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,62 @@
+import { notFound } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { CheckInScanner } from "@/components/dashboard";
+import { findEvent, localizeEvent } from "@/lib/events";
+import { getCheckInStats } from "@/lib/tickets";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { formatDateTime } from "@/lib/formatters";
+
+interface CheckInPageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+export default async function CheckInPage({ params }: CheckInPageProps) {
+  const { locale, id } = await params;
+  const t = await getTranslations("CheckIn");
+
+  const { access, authorized: canCheckIn } = await requirePageAuth(
+    `/${locale}/dashboard/events/${id}/check-in`,
+    { permissions: ["events.check_in"] }
+  );
+  const canManage = grantsPermission(access.grants, "events.manage_registrations");
+
+  const event = canCheckIn ? await findEvent(id) : null;
+  if (canCheckIn && !event) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-3xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+
+        {event ? (
+          <>
+            <header className="mb-6 mt-4">
+              <h1 className="text-3xl font-bold text-gray-900">
+                {t("title", { event: localizeEvent(event, locale).title })}
+              </h1>
+              <p className="mt-1 text-gray-600">
+                {formatDateTime(event.startDate, locale, event.timezone)}
+              </p>
+            </header>
+            <CheckInScanner
+              eventId={event.id}
+              stats={await getCheckInStats(event.id)}
+              canClose={canManage && event.startDate <= new Date()}
+            />
+          </>
+        ) : (
+          <Alert variant="error" className="mt-4">
+            {t("forbidden")}
+          </Alert>
+        )}
+      </div>
+    </main>
+  );
+}
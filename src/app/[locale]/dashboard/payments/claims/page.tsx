@@ -0,0 +1,84 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { PaymentClaimQueue, type PaymentClaimItem } from "@/components/dashboard";
+import { getPaymentClaims } from "@/lib/payment-claims";
+import { OPEN_PAYMENT_CLAIM } from "@/lib/payments";
+import { paymentClaimQuerySchema } from "@/lib/validations/payment";
+import { prisma } from "@/lib/prisma";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatCurrency, formatDateTime } from "@/lib/formatters";
+
+interface PaymentClaimsPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ eventId?: string; minAgeHours?: string }>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export default async function PaymentClaimsPage({ params, searchParams }: PaymentClaimsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("PaymentClaims");
+
+  const { authorized: canVerify } = await requirePageAuth(`/${locale}/dashboard/payments/claims`, {
+    permissions: ["payments.verify"],
+  });
+  const query = await searchParams;
+  const parsed = paymentClaimQuerySchema.safeParse(query);
+  const filter = parsed.success ? parsed.data : {};
+
+  let claims: PaymentClaimItem[] = [];
+  let events: { id: string; title: string }[] = [];
+  if (canVerify) {
+    const now = new Date();
+    const [openClaims, claimEvents] = await Promise.all([
+      getPaymentClaims({ ...filter, now }),
+      prisma.event.findMany({
+        where: { payments: { some: OPEN_PAYMENT_CLAIM } },
+        select: { id: true, title: true },
+        orderBy: { startDate: "asc" },
+      }),
+    ]);
+
+    events = claimEvents;
+    claims = openClaims.map((claim) => {
+      const claimedAt = claim.claimedAt ?? claim.createdAt;
+      return {
+        id: claim.id,
+        attendee: claim.user?.name ?? claim.user?.email ?? "",
+        email: claim.user?.email ?? "",
+        event: claim.event?.title ?? "",
+        amount: formatCurrency(Number(claim.amount), claim.currency, locale),
+        variableSymbol: claim.pendingPayment?.variableSymbol ?? null,
+        claimedAt: formatDateTime(claimedAt, locale),
+        ageHours: Math.floor((now.getTime() - claimedAt.getTime()) / HOUR_MS),
+        escalated: claim.escalatedAt !== null,
+        note: claim.notes,
+      };
+    });
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {canVerify ? (
+          <PaymentClaimQueue
+            claims={claims}
+            events={events}
+            filter={{
+              eventId: filter.eventId ?? "",
+              minAgeHours: filter.minAgeHours?.toString() ?? "",
+            }}
+          />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
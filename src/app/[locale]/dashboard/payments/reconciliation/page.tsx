@@ -0,0 +1,79 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import {
+  BankReconciliation,
+  type ReconciliationBankAccount,
+  type ReconciliationTransaction,
+} from "@/components/dashboard";
+import { getReconciliationQueue } from "@/lib/bank-reconciliation";
+import { prisma } from "@/lib/prisma";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+
+interface ReconciliationPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function ReconciliationPage({ params }: ReconciliationPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("Reconciliation");
+
+  const { authorized: canReconcile } = await requirePageAuth(
+    `/${locale}/dashboard/payments/reconciliation`,
+    { permissions: ["payments.verify"] }
+  );
+
+  let bankAccounts: ReconciliationBankAccount[] = [];
+  let transactions: ReconciliationTransaction[] = [];
+  if (canReconcile) {
+    const [accounts, queue] = await Promise.all([
+      prisma.bankAccount.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true },
+        orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+      }),
+      getReconciliationQueue(),
+    ]);
+
+    bankAccounts = accounts;
+    transactions = queue.map((transaction) => ({
+      id: transaction.id,
+      bookingDate: formatDate(transaction.bookingDate, locale),
+      amount: formatCurrency(Number(transaction.amount), transaction.currency, locale),
+      variableSymbol: transaction.variableSymbol,
+      counterparty: transaction.counterpartyName ?? transaction.counterpartyAccount,
+      message: transaction.message,
+      reviewReason: transaction.reviewReason,
+      suggestion: transaction.pendingPayment && {
+        id: transaction.pendingPayment.id,
+        label: [
+          transaction.pendingPayment.user.name ?? transaction.pendingPayment.user.email,
+          transaction.pendingPayment.event.title,
+          formatCurrency(
+            Number(transaction.pendingPayment.amount),
+            transaction.pendingPayment.currency,
+            locale
+          ),
+        ].join(" · "),
+      },
+    }));
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {canReconcile ? (
+          <BankReconciliation bankAccounts={bankAccounts} transactions={transactions} />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,102 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { RevenueReport, type RevenueReportRow } from "@/components/dashboard";
+import { getRevenueReport, type RevenueReport as Report } from "@/lib/revenue-reports";
+import { SUPPORTED_CURRENCIES } from "@/lib/currencies";
+import { getStringConfig } from "@/lib/system-config";
+import { revenueReportQuerySchema } from "@/lib/validations/payment";
+import { prisma } from "@/lib/prisma";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+
+interface RevenuePageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ from?: string; to?: string; currency?: string }>;
+}
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export default async function RevenuePage({ params, searchParams }: RevenuePageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("RevenueReport");
+
+  const { access, authorized: canView } = await requirePageAuth(
+    `/${locale}/dashboard/payments/revenue`,
+    { permissions: ["payments.view"] }
+  );
+  const canImportRates = grantsPermission(access.grants, "payments.verify");
+
+  // The current month by default
+  const today = new Date();
+  const query = await searchParams;
+  const parsed = revenueReportQuerySchema.safeParse({
+    from: query.from ?? `${toDay(today).slice(0, 8)}01`,
+    to: query.to ?? toDay(today),
+    currency: query.currency ?? (await getStringConfig("reports.base_currency", "EUR")),
+  });
+
+  let report: Report | null = null;
+  let latestRateDate: string | null = null;
+  if (canView && parsed.success) {
+    const [result, latestRate] = await Promise.all([
+      getRevenueReport(parsed.data),
+      prisma.exchangeRate.findFirst({ orderBy: { date: "desc" }, select: { date: true } }),
+    ]);
+    report = result;
+    latestRateDate = latestRate && formatDate(latestRate.date, locale, "UTC");
+  }
+
+  const money = (amount: { toNumber(): number }) =>
+    formatCurrency(amount.toNumber(), report?.currency ?? "EUR", locale);
+  const rows: RevenueReportRow[] = (report?.events ?? []).map((event) => ({
+    eventId: event.eventId,
+    title: event.title,
+    startDate: formatDate(event.startDate, locale),
+    payments: event.payments,
+    received: money(event.received),
+    refunded: money(event.refunded),
+    net: money(event.net),
+    currencies: event.currencies,
+  }));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {!canView ? (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        ) : (
+          <>
+            {!parsed.success && <Alert variant="error">{t("invalidPeriod")}</Alert>}
+            <RevenueReport
+              filter={{
+                from: query.from ?? toDay(report?.from ?? today),
+                to: query.to ?? toDay(report?.to ?? today),
+                currency: report?.currency ?? query.currency ?? "EUR",
+              }}
+              currencies={SUPPORTED_CURRENCIES}
+              rows={rows}
+              totals={{
+                payments: report?.totals.payments ?? 0,
+                received: report ? money(report.totals.received) : "",
+                refunded: report ? money(report.totals.refunded) : "",
+                net: report ? money(report.totals.net) : "",
+              }}
+              unconverted={(report?.unconverted ?? []).map(
+                (amount) => `${amount.currency} ${toDay(amount.date)}`
+              )}
+              latestRateDate={latestRateDate}
+              canImportRates={canImportRates}
+            />
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,67 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { RoleGrantManager, type RoleGrantItem } from "@/components/dashboard";
+import { listRoleGrants } from "@/lib/role-grants";
+import { getNumberConfig } from "@/lib/system-config";
+import { prisma } from "@/lib/prisma";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatDate, formatDateTime } from "@/lib/formatters";
+
+interface RoleGrantsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default async function RoleGrantsPage({ params }: RoleGrantsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("RoleGrants");
+
+  const { authorized: canManage } = await requirePageAuth(`/${locale}/dashboard/role-grants`, {
+    permissions: ["users.manage_roles"],
+  });
+
+  let grants: RoleGrantItem[] = [];
+  let roles: { id: string; displayName: string }[] = [];
+  if (canManage) {
+    const [activeGrants, allRoles, reminderDays] = await Promise.all([
+      listRoleGrants(),
+      prisma.role.findMany({
+        select: { id: true, displayName: true },
+        orderBy: [{ priority: "desc" }, { displayName: "asc" }],
+      }),
+      getNumberConfig("roles.reminder_days_before_expiry", 3),
+    ]);
+
+    const soon = Date.now() + reminderDays * DAY_MS;
+    roles = allRoles;
+    grants = activeGrants.map((grant) => ({
+      id: grant.id,
+      user: grant.user.name ?? grant.user.email,
+      email: grant.user.email,
+      role: grant.role.displayName,
+      color: grant.role.color,
+      assignedAt: formatDate(grant.assignedAt, locale),
+      expiresAt: grant.expiresAt ? formatDateTime(grant.expiresAt, locale) : null,
+      expiringSoon: grant.expiresAt !== null && grant.expiresAt.getTime() <= soon,
+    }));
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {canManage ? (
+          <RoleGrantManager grants={grants} roles={roles} />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
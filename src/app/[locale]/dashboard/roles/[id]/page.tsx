@@ -0,0 +1,126 @@
+import { notFound } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { RoleEditor } from "@/components/dashboard";
+import { getRoleHolders, getRolePermissionHistory } from "@/lib/role-management";
+import { parseRolePermissions } from "@/lib/roles";
+import { getPermissionGroups, isPermissionGrant } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatDate, formatDateTime } from "@/lib/formatters";
+
+interface RolePageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+export default async function RolePage({ params }: RolePageProps) {
+  const { locale, id } = await params;
+  const t = await getTranslations("Roles");
+
+  const { authorized: canManage } = await requirePageAuth(`/${locale}/dashboard/roles/${id}`, {
+    permissions: ["admin.roles"],
+  });
+  if (!canManage) {
+    return (
+      <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+        <div className="container mx-auto max-w-5xl px-4 py-8">
+          <Alert variant="error">{t("forbidden")}</Alert>
+        </div>
+      </main>
+    );
+  }
+
+  const role = await prisma.role.findUnique({ where: { id } });
+  if (!role) {
+    notFound();
+  }
+
+  const [holders, history] = await Promise.all([
+    getRoleHolders(role.id),
+    getRolePermissionHistory(role.id),
+  ]);
+  const grants = parseRolePermissions(role.permissions);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard/roles" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToRoles")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{role.displayName}</h1>
+
+        <RoleEditor
+          role={{
+            id: role.id,
+            name: role.name,
+            displayName: role.displayName,
+            description: role.description,
+            color: role.color,
+            priority: role.priority,
+            isDefault: role.isDefault,
+            isSystem: role.isSystem,
+            permissions: grants.filter(isPermissionGrant),
+          }}
+          permissionGroups={getPermissionGroups()}
+          unknownPermissions={grants.filter((grant) => !isPermissionGrant(grant))}
+        />
+
+        <section className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            {t("holders", { count: holders.length })}
+          </h2>
+          {holders.length === 0 ? (
+            <p className="text-gray-600">{t("noHolders")}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {holders.map((holder) => (
+                <li key={holder.grantId} className="flex flex-wrap justify-between gap-2 py-2">
+                  <span className="text-gray-900">
+                    {holder.name ?? holder.email}{" "}
+                    <span className="text-sm text-gray-600">{holder.email}</span>
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {holder.expiresAt
+                      ? t("holderUntil", { date: formatDate(holder.expiresAt, locale) })
+                      : t("holderSince", { date: formatDate(holder.assignedAt, locale) })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">{t("history")}</h2>
+          {history.length === 0 ? (
+            <p className="text-gray-600">{t("noHistory")}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {history.map((change) => (
+                <li key={change.id} className="space-y-1 py-3">
+                  <p className="text-sm text-gray-600">
+                    {formatDateTime(change.timestamp, locale)} ·{" "}
+                    {change.changedBy?.name ?? change.changedBy?.email ?? t("system")}
+                  </p>
+                  <p className="font-mono text-sm">
+                    {change.added.map((permission) => (
+                      <span key={`+${permission}`} className="mr-2 text-green-700">
+                        +{permission}
+                      </span>
+                    ))}
+                    {change.removed.map((permission) => (
+                      <span key={`-${permission}`} className="mr-2 text-red-700">
+                        −{permission}
+                      </span>
+                    ))}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
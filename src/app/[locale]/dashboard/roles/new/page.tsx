@@ -0,0 +1,36 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { RoleEditor } from "@/components/dashboard";
+import { getPermissionGroups } from "@/lib/permissions";
+import { requirePageAuth } from "@/lib/auth-guards";
+
+interface NewRolePageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function NewRolePage({ params }: NewRolePageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("Roles");
+
+  const { authorized: canManage } = await requirePageAuth(`/${locale}/dashboard/roles/new`, {
+    permissions: ["admin.roles"],
+  });
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard/roles" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToRoles")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("newRole")}</h1>
+
+        {canManage ? (
+          <RoleEditor permissionGroups={getPermissionGroups()} />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,92 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { listRoles, type RoleWithHolders } from "@/lib/role-management";
+import { parseRolePermissions } from "@/lib/roles";
+import { requirePageAuth } from "@/lib/auth-guards";
+
+interface RolesPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function RolesPage({ params }: RolesPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("Roles");
+
+  const { authorized: canManage } = await requirePageAuth(`/${locale}/dashboard/roles`, {
+    permissions: ["admin.roles"],
+  });
+
+  const roles: RoleWithHolders[] = canManage ? await listRoles() : [];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <div className="mb-6 mt-4 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">{t("title")}</h1>
+          {canManage && (
+            <Link
+              href="/dashboard/roles/new"
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              {t("newRole")}
+            </Link>
+          )}
+        </div>
+
+        {canManage ? (
+          <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+            <ul className="divide-y divide-gray-100">
+              {roles.map((role) => (
+                <li
+                  key={role.id}
+                  className="flex flex-wrap items-center justify-between gap-3 py-3"
+                >
+                  <div className="flex items-center gap-3">
+                    <span
+                      className="size-3 rounded-full"
+                      style={{ backgroundColor: role.color ?? "#6B7280" }}
+                    />
+                    <div>
+                      <Link
+                        href={`/dashboard/roles/${role.id}`}
+                        className="font-medium text-gray-900 hover:underline"
+                      >
+                        {role.displayName}
+                      </Link>
+                      <p className="text-sm text-gray-600">
+                        {role.name} ·{" "}
+                        {t("summary", {
+                          priority: role.priority,
+                          holders: role.holders,
+                          permissions: parseRolePermissions(role.permissions).length,
+                        })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {role.isDefault && (
+                      <span className="rounded bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">
+                        {t("default")}
+                      </span>
+                    )}
+                    {role.isSystem && (
+                      <span className="rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                        {t("system")}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,48 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { UserSuspensionManager, type SuspendedUserItem } from "@/components/dashboard";
+import { listSuspendedUsers } from "@/lib/user-suspensions";
+import { requirePageAuth } from "@/lib/auth-guards";
+import { formatDate, formatDateTime } from "@/lib/formatters";
+
+interface SuspensionsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function SuspensionsPage({ params }: SuspensionsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations("UserSuspensions");
+
+  const { authorized: canModerate } = await requirePageAuth(`/${locale}/dashboard/suspensions`, {
+    permissions: ["users.moderate"],
+  });
+
+  const users: SuspendedUserItem[] = canModerate
+    ? (await listSuspendedUsers()).map((user) => ({
+        id: user.id,
+        user: user.name ?? user.email,
+        email: user.email,
+        reason: user.suspensionReason,
+        suspendedAt: user.suspendedAt ? formatDate(user.suspendedAt, locale) : null,
+        suspendedUntil: user.suspendedUntil ? formatDateTime(user.suspendedUntil, locale) : null,
+      }))
+    : [];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-5xl px-4 py-8">
+        <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToDashboard")}
+        </Link>
+        <h1 className="mb-6 mt-4 text-3xl font-bold text-gray-900">{t("title")}</h1>
+
+        {canModerate ? (
+          <UserSuspensionManager users={users} />
+        ) : (
+          <Alert variant="error">{t("forbidden")}</Alert>
+        )}
+      </div>
+    </main>
+  );
+}
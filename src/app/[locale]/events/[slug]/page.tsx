@@ -0,0 +1,332 @@
+import { cache } from "react";
+import { RegistrationStatus } from "@prisma/client";
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { routing } from "@/i18n/routing";
+import { EventAvailability, RegistrationPanel } from "@/components/events";
+import { findEvent, getEventPublicContent, localizeEvent } from "@/lib/events";
+import { countTakenSeats, getRegistrationWindowState } from "@/lib/event-availability";
+import { getEventAttendance } from "@/lib/registrations";
+import { getMaxGroupSize } from "@/lib/group-registrations";
+import { parseGroupFriends } from "@/lib/group-friends";
+import { isPaidEvent } from "@/lib/pending-payments";
+import { getAdvertisedPriceTiers, ticketTypeOf } from "@/lib/pricing";
+import { getPaymentInstructions } from "@/lib/payment-qr";
+import { createTicketCode } from "@/lib/tickets";
+import { getCurrentAppUser } from "@/lib/users";
+import { formatCurrency, formatDate, formatDateTime } from "@/lib/formatters";
+import { getBaseUrl } from "@/lib/auth";
+
+interface EventPageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// Shared between generateMetadata and the page within one request
+const getEvent = cache((slug: string) => findEvent(slug));
+
+export async function generateMetadata({ params }: EventPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const event = await getEvent(slug);
+
+  if (!event) {
+    return {};
+  }
+
+  const localized = localizeEvent(event, locale);
+  const description = localized.shortDescription ?? localized.description?.slice(0, 200);
+  const url = `${getBaseUrl()}/${locale}/events/${event.slug}`;
+
+  return {
+    title: localized.title,
+    ...(description && { description }),
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        routing.locales.map((alternate) => [
+          alternate,
+          `${getBaseUrl()}/${alternate}/events/${event.slug}`,
+        ])
+      ),
+    },
+    openGraph: {
+      title: localized.title,
+      ...(description && { description }),
+      url,
+      type: "website",
+      locale,
+      ...(event.imageUrl && { images: [{ url: event.imageUrl }] }),
+    },
+    twitter: {
+      card: event.imageUrl ? "summary_large_image" : "summary",
+      title: localized.title,
+      ...(description && { description }),
+      ...(event.imageUrl && { images: [event.imageUrl] }),
+    },
+  };
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default async function EventPage({ params }: EventPageProps) {
+  const { locale, slug } = await params;
+  const event = await getEvent(slug);
+
+  if (!event) {
+    notFound();
+  }
+
+  // Old slugs and IDs resolve to the event; send visitors to the canonical URL
+  if (event.slug !== slug) {
+    permanentRedirect(`/${locale}/events/${event.slug}`);
+  }
+
+  const t = await getTranslations("Events");
+  const localized = localizeEvent(event, locale);
+  const isPaid = isPaidEvent(event);
+  const [takenSeats, content, user, maxGroupSize, priceTiers] = await Promise.all([
+    countTakenSeats([event.id]),
+    getEventPublicContent(event.id),
+    getCurrentAppUser(),
+    getMaxGroupSize(),
+    isPaid ? getAdvertisedPriceTiers(event.id) : [],
+  ]);
+  const attendance = user
+    ? await getEventAttendance(event.id, user.id)
+    : { registration: null, waitingListEntry: null };
+  const friends = parseGroupFriends(attendance.registration?.friendsData).map((friend) => ({
+    id: friend.id,
+    name: friend.name,
+    email: friend.email ?? null,
+    claimed: Boolean(friend.registrationId),
+  }));
+
+  const ticketCode =
+    attendance.registration?.status === RegistrationStatus.CONFIRMED
+      ? createTicketCode(attendance.registration, event)
+      : null;
+
+  const pendingPaymentId =
+    attendance.registration?.status === RegistrationStatus.PENDING
+      ? attendance.registration.pendingPaymentId
+      : null;
+  const instructions =
+    user && pendingPaymentId ? await getPaymentInstructions(pendingPaymentId, user.id) : null;
+  const payment = instructions && {
+    ...instructions,
+    amount: formatCurrency(Number(instructions.amount), instructions.currency, locale),
+    dueDate: formatDateTime(instructions.dueDate, locale, event.timezone),
+    claimedAt:
+      instructions.claimedAt && formatDateTime(instructions.claimedAt, locale, event.timezone),
+  };
+
+  const location = [event.venue, event.address, event.city, event.country].filter(Boolean);
+  const price = event.price ? Number(event.price) : 0;
+  const ticketTypes = [
+    ...new Set(priceTiers.flatMap((tier) => ticketTypeOf(tier.registrationType) ?? [])),
+  ];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-4xl px-4 py-8">
+        <Link href="/events" className="text-sm text-blue-600 hover:underline">
+          ← {t("backToEvents")}
+        </Link>
+
+        <article className="mt-4 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+          {event.imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={event.imageUrl} alt="" className="h-64 w-full object-cover" />
+          )}
+
+          <div className="space-y-6 p-8">
+            <header className="space-y-3">
+              {localized.category && (
+                <span
+                  className="text-sm font-semibold uppercase tracking-wide text-gray-500"
+                  style={localized.category.color ? { color: localized.category.color } : undefined}
+                >
+                  {localized.category.name}
+                </span>
+              )}
+              <h1 className="text-3xl font-bold text-gray-900">{localized.title}</h1>
+              {localized.shortDescription && (
+                <p className="text-lg text-gray-600">{localized.shortDescription}</p>
+              )}
+              <EventAvailability
+                event={event}
+                takenSeats={takenSeats.get(event.id) ?? 0}
+                locale={locale}
+              />
+            </header>
+
+            <dl className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("when")}</dt>
+                <dd className="font-medium text-gray-900">
+                  {formatDateTime(event.startDate, locale, event.timezone)}
+                  {event.endDate && ` – ${formatDateTime(event.endDate, locale, event.timezone)}`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("where")}</dt>
+                <dd className="font-medium text-gray-900">
+                  {event.isOnline ? (
+                    event.onlineUrl ? (
+                      <a
+                        href={event.onlineUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {t("joinOnline")}
+                      </a>
+                    ) : (
+                      t("online")
+                    )
+                  ) : (
+                    location.join(", ")
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("price")}</dt>
+                <dd className="font-medium text-gray-900">
+                  {price > 0 ? formatCurrency(price, event.currency, locale) : t("free")}
+                  {priceTiers.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-sm font-normal text-gray-600">
+                      {priceTiers.map((tier) => {
+                        const tierPrice = formatCurrency(
+                          Number(tier.price),
+                          event.currency,
+                          locale
+                        );
+                        return (
+                          <li key={tier.id}>
+                            {tier.validUntil
+                              ? t("priceTierUntil", {
+                                  name: tier.name,
+                                  price: tierPrice,
+                                  date: formatDateTime(tier.validUntil, locale, event.timezone),
+                                })
+                              : t("priceTier", { name: tier.name, price: tierPrice })}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("capacity")}</dt>
+                <dd className="font-medium text-gray-900">{event.capacity}</dd>
+              </div>
+            </dl>
+
+            <section className="rounded-lg border border-gray-200 p-6">
+              <h2 className="mb-3 text-xl font-semibold text-gray-900">{t("registration")}</h2>
+              <RegistrationPanel
+                eventId={event.id}
+                windowState={getRegistrationWindowState(event)}
+                signedIn={user !== null}
+                registration={attendance.registration}
+                waitingListEntry={attendance.waitingListEntry}
+                friends={friends}
+                maxGroupSize={maxGroupSize}
+                isPaid={isPaid}
+                ticketTypes={ticketTypes}
+                ticketCode={ticketCode}
+                payment={payment}
+              />
+            </section>
+
+            {localized.description && (
+              <div className="whitespace-pre-line leading-relaxed text-gray-700">
+                {localized.description}
+              </div>
+            )}
+
+            {event.websiteUrl && (
+              <a
+                href={event.websiteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block text-blue-600 hover:underline"
+              >
+                {t("website")}
+              </a>
+            )}
+
+            {content.documents.length > 0 && (
+              <section>
+                <h2 className="mb-3 text-xl font-semibold text-gray-900">{t("documents")}</h2>
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {content.documents.map((document) => (
+                    <li key={document.id} className="flex items-center justify-between p-4">
+                      <div>
+                        <a
+                          href={document.filePath}
+                          download={document.fileName}
+                          className="font-medium text-blue-600 hover:underline"
+                        >
+                          {document.title}
+                        </a>
+                        {document.description && (
+                          <p className="text-sm text-gray-600">{document.description}</p>
+                        )}
+                      </div>
+                      <span className="text-sm text-gray-500">
+                        {formatFileSize(document.fileSize)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {content.feedback.length > 0 && (
+              <section>
+                <h2 className="mb-1 text-xl font-semibold text-gray-900">{t("feedback")}</h2>
+                {content.averageRating !== null && (
+                  <p className="mb-3 text-sm text-gray-600">
+                    {t("averageRating", {
+                      rating: content.averageRating.toFixed(1),
+                      count: content.feedbackCount,
+                    })}
+                  </p>
+                )}
+                <ul className="space-y-4">
+                  {content.feedback.map((feedback) => (
+                    <li key={feedback.id} className="rounded-lg border border-gray-200 p-4">
+                      <div className="flex items-center justify-between">
+                        <span className="text-yellow-500" aria-label={`${feedback.rating} / 5`}>
+                          {"★".repeat(feedback.rating)}
+                          <span className="text-gray-300">
+                            {"★".repeat(Math.max(0, 5 - feedback.rating))}
+                          </span>
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          {feedback.user.name ?? t("anonymous")} ·{" "}
+                          {formatDate(feedback.createdAt, locale, event.timezone)}
+                        </span>
+                      </div>
+                      {feedback.title && (
+                        <p className="mt-2 font-medium text-gray-900">{feedback.title}</p>
+                      )}
+                      {feedback.comment && <p className="mt-1 text-gray-700">{feedback.comment}</p>}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </article>
+      </div>
+    </main>
+  );
+}
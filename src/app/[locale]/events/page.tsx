@@ -0,0 +1,108 @@
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+import { EventStatus } from "@prisma/client";
+import { Link } from "@/i18n/navigation";
+import { routing } from "@/i18n/routing";
+import { EventCard } from "@/components/events";
+import { listEvents, localizeEvent } from "@/lib/events";
+import { countTakenSeats } from "@/lib/event-availability";
+import { getBaseUrl } from "@/lib/auth";
+
+const EVENTS_PER_PAGE = 12;
+
+interface EventsPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+export async function generateMetadata({ params }: EventsPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "Events" });
+  const url = `${getBaseUrl()}/${locale}/events`;
+
+  return {
+    title: t("title"),
+    description: t("description"),
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        routing.locales.map((alternate) => [alternate, `${getBaseUrl()}/${alternate}/events`])
+      ),
+    },
+    openGraph: {
+      title: t("title"),
+      description: t("description"),
+      url,
+      type: "website",
+      locale,
+    },
+  };
+}
+
+export default async function EventsPage({ params, searchParams }: EventsPageProps) {
+  const { locale } = await params;
+  const { page } = await searchParams;
+  const t = await getTranslations("Events");
+
+  const { data, pagination } = await listEvents({
+    status: EventStatus.PUBLISHED,
+    from: new Date(),
+    page: Math.max(1, Number(page) || 1),
+    limit: EVENTS_PER_PAGE,
+  });
+
+  const events = data.map((event) => localizeEvent(event, locale));
+  const takenSeats = await countTakenSeats(events.map((event) => event.id));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">{t("title")}</h1>
+          <p className="mt-2 text-gray-600">{t("description")}</p>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="rounded-xl border border-gray-200 bg-white p-8 text-center text-gray-600">
+            {t("noEvents")}
+          </div>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {events.map((event) => (
+              <EventCard
+                key={event.id}
+                event={event}
+                takenSeats={takenSeats.get(event.id) ?? 0}
+                locale={locale}
+              />
+            ))}
+          </div>
+        )}
+
+        {pagination.totalPages > 1 && (
+          <nav className="mt-8 flex items-center justify-center gap-4">
+            {pagination.hasPrev && (
+              <Link
+                href={`/events?page=${pagination.page - 1}`}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                {t("previous")}
+              </Link>
+            )}
+            <span className="text-sm text-gray-600">
+              {t("pageOf", { page: pagination.page, totalPages: pagination.totalPages })}
+            </span>
+            {pagination.hasNext && (
+              <Link
+                href={`/events?page=${pagination.page + 1}`}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                {t("next")}
+              </Link>
+            )}
+          </nav>
+        )}
+      </div>
+    </main>
+  );
+}
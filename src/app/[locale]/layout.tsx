@@ -8,7 +8,8 @@ import { Inter } from "next/font/google";
 import { routing, type Locale } from "@/i18n/routing";
 import { Navigation } from "@/components/layout/navigation";
 import { SessionProvider } from "@/components/auth";
-import { getCurrentUser, getUserPermissions } from "@/lib/kinde-auth";
+import { getCurrentUser } from "@/lib/kinde-auth";
+import { getCurrentAccess, getUserPermissions } from "@/lib/authorization";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -40,6 +41,7 @@ export default async function LocaleLayout({ children, params }: LocaleLayoutPro
   // Get server-side session data to prevent hydration mismatches
   const serverUser = await getCurrentUser();
   const serverPermissions = serverUser ? await getUserPermissions() : [];
+  const serverAccess = serverUser ? await getCurrentAccess() : null;
 
   const initialSession = {
     user: serverUser,
@@ -48,6 +50,7 @@ export default async function LocaleLayout({ children, params }: LocaleLayoutPro
     error: null,
     permissions: serverPermissions,
     organization: null, // This could be fetched server-side too if needed
+    accountRestriction: serverAccess?.restriction ?? null,
   };
 
   return (
@@ -0,0 +1,67 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { LoginButton } from "@/components/auth";
+import { ClaimFriendSeatButton } from "@/components/events";
+import { getFriendSeatClaim } from "@/lib/group-registrations";
+import { getCurrentAppUser } from "@/lib/users";
+import { formatDate } from "@/lib/formatters";
+
+interface ClaimPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function GroupSeatClaimPage({ params, searchParams }: ClaimPageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  const t = await getTranslations("GroupClaim");
+
+  const [details, user] = await Promise.all([
+    token ? getFriendSeatClaim(token) : null,
+    getCurrentAppUser(),
+  ]);
+  const { friend, event } = details ?? {};
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-xl px-4 py-16">
+        <div className="space-y-6 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+          <h1 className="text-2xl font-bold text-gray-900">{t("title")}</h1>
+
+          {!token || !friend || !event ? (
+            <Alert variant="error">{t("invalidLink")}</Alert>
+          ) : friend.registrationId ? (
+            <Alert variant="success">{t("alreadyClaimed")}</Alert>
+          ) : (
+            <>
+              <p className="text-gray-700">
+                {t("description", {
+                  name: friend.name,
+                  eventTitle: event.title,
+                  eventDate: formatDate(event.startDate, locale, event.timezone),
+                })}
+              </p>
+              {!user && (
+                <div className="flex flex-wrap items-center gap-4">
+                  <p className="text-sm text-gray-600">{t("signInHint")}</p>
+                  <LoginButton size="sm" variant="outline" />
+                </div>
+              )}
+              <ClaimFriendSeatButton token={token} />
+            </>
+          )}
+
+          {event && (
+            <Link
+              href={`/events/${event.slug}`}
+              className="inline-block text-blue-600 hover:underline"
+            >
+              {t("viewEvent")}
+            </Link>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
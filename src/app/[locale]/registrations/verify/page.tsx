@@ -0,0 +1,56 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { GuestLinkButton } from "@/components/events";
+import { getGuestRequest } from "@/lib/guest-registrations";
+import { formatDate } from "@/lib/formatters";
+
+interface VerifyPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function GuestVerifyPage({ params, searchParams }: VerifyPageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  const t = await getTranslations("GuestRegistration");
+
+  const details = token ? await getGuestRequest(token, "guest-verification") : null;
+  const { request, event } = details ?? {};
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-xl px-4 py-16">
+        <div className="space-y-6 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+          <h1 className="text-2xl font-bold text-gray-900">{t("verifyTitle")}</h1>
+
+          {!token || !request || !event ? (
+            <Alert variant="error">{t("invalidLink")}</Alert>
+          ) : request.verifiedAt ? (
+            <Alert variant="success">{t("alreadyUsed")}</Alert>
+          ) : (
+            <>
+              <p className="text-gray-700">
+                {t("verifyDescription", {
+                  name: request.name,
+                  eventTitle: event.title,
+                  eventDate: formatDate(event.startDate, locale, event.timezone),
+                })}
+              </p>
+              <GuestLinkButton token={token} action="verify" />
+            </>
+          )}
+
+          {event && (
+            <Link
+              href={`/events/${event.slug}`}
+              className="inline-block text-blue-600 hover:underline"
+            >
+              {t("viewEvent")}
+            </Link>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,85 @@
+import { RegistrationStatus } from "@prisma/client";
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { getTicket } from "@/lib/tickets";
+import { formatDateTime } from "@/lib/formatters";
+
+interface TicketPageProps {
+  params: Promise<{ locale: string; code: string }>;
+}
+
+export default async function TicketPage({ params }: TicketPageProps) {
+  const { locale, code } = await params;
+  const t = await getTranslations("Ticket");
+  const ticket = await getTicket(code);
+
+  const status = !ticket
+    ? null
+    : ticket.status === RegistrationStatus.CONFIRMED
+      ? "valid"
+      : ticket.status === RegistrationStatus.ATTENDED
+        ? "used"
+        : "invalid";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-md px-4 py-16">
+        {!ticket ? (
+          <Alert variant="error">{t("notFound")}</Alert>
+        ) : (
+          <div className="space-y-6 rounded-xl border border-gray-200 bg-white p-8 text-center shadow-sm">
+            <div>
+              <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+                {t("title")}
+              </p>
+              <h1 className="mt-1 text-2xl font-bold text-gray-900">{ticket.event.title}</h1>
+              <p className="mt-1 text-gray-600">
+                {formatDateTime(ticket.event.startDate, locale, ticket.event.timezone)}
+              </p>
+              {!ticket.event.isOnline && ticket.event.venue && (
+                <p className="text-gray-600">
+                  {[ticket.event.venue, ticket.event.city].filter(Boolean).join(", ")}
+                </p>
+              )}
+            </div>
+
+            {status === "valid" ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={`/api/tickets/${code}/qr`}
+                alt={t("qrAlt")}
+                width={240}
+                height={240}
+                className="mx-auto"
+              />
+            ) : (
+              <Alert variant={status === "used" ? "info" : "error"}>
+                {status === "used" ? t("used") : t("invalid")}
+              </Alert>
+            )}
+
+            <dl className="space-y-1">
+              <dt className="text-sm text-gray-500">{t("attendee")}</dt>
+              <dd className="font-medium text-gray-900">
+                {ticket.user?.name ?? ticket.guestName ?? ticket.user?.email ?? ticket.guestEmail}
+              </dd>
+              {ticket.groupSize > 1 && (
+                <dd className="text-sm text-gray-600">
+                  {t("groupSize", { count: ticket.groupSize })}
+                </dd>
+              )}
+            </dl>
+
+            <Link
+              href={`/events/${ticket.event.slug}`}
+              className="inline-block text-blue-600 hover:underline"
+            >
+              {t("viewEvent")}
+            </Link>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,69 @@
+import { getTranslations } from "next-intl/server";
+import { Link } from "@/i18n/navigation";
+import { Alert } from "@/components/ui/alert";
+import { ClaimSpotButton } from "@/components/events";
+import { getPromotionForClaim } from "@/lib/waiting-list";
+import { formatDate, formatDateTime } from "@/lib/formatters";
+
+interface ClaimPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function WaitingListClaimPage({ params, searchParams }: ClaimPageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  const t = await getTranslations("WaitingListClaim");
+
+  const details = token ? await getPromotionForClaim(token) : null;
+  const { entry, event } = details ?? {};
+  const expired =
+    entry &&
+    !entry.claimedAt &&
+    (entry.skippedAt !== null ||
+      (entry.claimExpiresAt !== null && entry.claimExpiresAt <= new Date()));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50">
+      <div className="container mx-auto max-w-xl px-4 py-16">
+        <div className="space-y-6 rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+          <h1 className="text-2xl font-bold text-gray-900">{t("title")}</h1>
+
+          {!token || !entry || !event ? (
+            <Alert variant="error">{t("invalidLink")}</Alert>
+          ) : entry.claimedAt ? (
+            <Alert variant="success">{t("alreadyClaimed")}</Alert>
+          ) : expired ? (
+            <Alert variant="warning">{t("expired")}</Alert>
+          ) : (
+            <>
+              <p className="text-gray-700">
+                {t("description", {
+                  eventTitle: event.title,
+                  eventDate: formatDate(event.startDate, locale, event.timezone),
+                })}
+              </p>
+              {entry.claimExpiresAt && (
+                <p className="text-gray-700">
+                  {t("deadline", {
+                    deadline: formatDateTime(entry.claimExpiresAt, locale, event.timezone),
+                  })}
+                </p>
+              )}
+              <ClaimSpotButton token={token} />
+            </>
+          )}
+
+          {event && (
+            <Link
+              href={`/events/${event.slug}`}
+              className="inline-block text-blue-600 hover:underline"
+            >
+              {t("viewEvent")}
+            </Link>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,5 +1,8 @@
 
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('@/lib/users', () => ({ getCurrentAccount: vi.fn().mockResolvedValue(null) }))
+
 import { GET } from '@/app/api/auth/me/route'
 
 // Mock is already set up in setup.ts
@@ -1,10 +1,14 @@
 import { getCurrentUser } from "@/lib/kinde-auth";
+import { getCurrentAccount } from "@/lib/users";
+import { getAccountRestriction } from "@/lib/user-status";
 import { NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
 
 /**
  * GET /api/auth/me
- * Returns the current user's authentication information
+ * Returns the current user's authentication information and their account,
+ * null until the account is synced on login; `account.restriction` is set
+ * while the account is suspended or inactive
  */
 export async function GET() {
   try {
@@ -14,6 +18,8 @@ export async function GET() {
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
+    const account = await getCurrentAccount();
+
     // Return user information (excluding sensitive data)
     return NextResponse.json({
       id: user.id,
@@ -21,6 +27,17 @@ export async function GET() {
       given_name: user.given_name,
       family_name: user.family_name,
       picture: user.picture,
+      account: account && {
+        id: account.id,
+        email: account.email,
+        name: account.name,
+        status: account.status,
+        preferredLocale: account.preferredLocale,
+        primaryRoleId: account.primaryRoleId,
+        lastLoginAt: account.lastLoginAt,
+        restriction: getAccountRestriction(account),
+        suspendedUntil: account.suspendedUntil,
+      },
     });
   } catch (error) {
     logger.error("Error fetching current user:", error);
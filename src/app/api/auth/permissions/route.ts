@@ -1,10 +1,13 @@
 import { getKindeServerSession } from "@kinde-oss/kinde-auth-nextjs/server";
 import { NextResponse } from "next/server";
+import { getCurrentAccess } from "@/lib/authorization";
+import { expandPermissions } from "@/lib/permissions";
 import { logger } from "@/lib/logger";
 
 /**
  * GET /api/auth/permissions
- * Returns the current user's permissions
+ * Returns the current user's permissions and roles, from both their database
+ * roles and their Kinde claims
  */
 export async function GET() {
   try {
@@ -15,11 +18,12 @@ export async function GET() {
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
-    const permissions = await getPermissions();
+    const [access, kindePermissions] = await Promise.all([getCurrentAccess(), getPermissions()]);
 
     return NextResponse.json({
-      permissions: permissions?.permissions ?? [],
-      orgCode: permissions?.orgCode ?? null,
+      permissions: access ? expandPermissions(access.grants) : [],
+      roles: access?.roles ?? [],
+      orgCode: kindePermissions?.orgCode ?? null,
     });
   } catch (error) {
     logger.error("Error fetching user permissions:", error);
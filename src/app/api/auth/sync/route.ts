@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { recordCurrentUserLogin } from "@/lib/users";
+import { sameSitePath } from "@/lib/auth-routes";
+import { getRequestContext } from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/auth/sync
+ * Where Kinde sends users after login: creates or updates their account and
+ * records the login, then continues to `returnTo` (a same-site path, the
+ * dashboard by default)
+ */
+export async function GET(request: NextRequest) {
+  const returnTo = sameSitePath(request.nextUrl.searchParams.get("returnTo")) ?? "/dashboard";
+
+  try {
+    await recordCurrentUserLogin(getRequestContext(request));
+  } catch (error) {
+    // The session is valid either way; the account is synced on the next login
+    logger.error("Error syncing user after login:", error);
+  }
+
+  return NextResponse.redirect(new URL(returnTo, request.url));
+}
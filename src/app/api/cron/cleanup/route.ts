@@ -35,6 +35,9 @@ export async function GET(request: NextRequest) {
       // Remove expired waiting list entries (event ended + 7 days)
       expiredWaitingList: true,
 
+      // Remove unverified guest registration requests past their link expiry
+      expiredGuestRequests: true,
+
       // Remove cancelled registrations (older than 30 days)
       cancelledRegistrations: true,
 
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyVercelCronSecret } from "@/lib/auth";
+import {
+  expireOverduePendingPayments,
+  sendPendingPaymentReminders,
+} from "@/lib/pending-payment-expiry";
+import { escalateStalePaymentClaims } from "@/lib/payment-claims";
+import { logger } from "@/lib/logger";
+
+/**
+ * Pending Payments Cron Job
+ * Runs every hour
+ * Sends payment reminders, expires overdue pending payments and releases their seats,
+ * and escalates payment claims that staff have not verified in time
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyVercelCronSecret(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const reminders = await sendPendingPaymentReminders();
+    const expiry = await expireOverduePendingPayments();
+    const escalatedClaims = await escalateStalePaymentClaims();
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        duration: `${Date.now() - startTime}ms`,
+        results: { reminders, ...expiry, escalatedClaims },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error("❌ Pending payments job failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        message: "Pending payments job failed",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
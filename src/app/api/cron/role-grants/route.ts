@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyVercelCronSecret } from "@/lib/auth";
+import { expireRoleGrants, sendRoleGrantExpiryReminders } from "@/lib/role-grants";
+import { logger } from "@/lib/logger";
+
+/**
+ * Role Grants Cron Job
+ * Runs every hour
+ * Reminds holders of temporary roles before they lapse, then deactivates the
+ * lapsed grants and recalculates the holders' primary roles
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyVercelCronSecret(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const reminders = await sendRoleGrantExpiryReminders();
+    const expired = await expireRoleGrants();
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        duration: `${Date.now() - startTime}ms`,
+        results: { reminders, expired },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error("❌ Role grants job failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        message: "Role grants job failed",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
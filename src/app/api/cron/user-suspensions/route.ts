@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyVercelCronSecret } from "@/lib/auth";
+import { liftExpiredSuspensions } from "@/lib/user-suspensions";
+import { logger } from "@/lib/logger";
+
+/**
+ * User Suspensions Cron Job
+ * Runs every hour
+ * Reactivates accounts whose suspension has reached its end date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyVercelCronSecret(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const lifted = await liftExpiredSuspensions();
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        duration: `${Date.now() - startTime}ms`,
+        results: { lifted },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error("❌ User suspensions job failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        message: "User suspensions job failed",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyVercelCronSecret } from "@/lib/auth";
+import { expireUnclaimedPromotions } from "@/lib/waiting-list";
+import { logger } from "@/lib/logger";
+
+/**
+ * Waiting List Cron Job
+ * Runs every 15 minutes
+ * Releases promoted seats that were not claimed in time and promotes the next entries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyVercelCronSecret(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: authResult.error },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const results = await expireUnclaimedPromotions();
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        duration: `${Date.now() - startTime}ms`,
+        results,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error("❌ Waiting list job failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        message: "Waiting list job failed",
+        error:
+          process.env.NODE_ENV === "development"
+            ? (error as Error).message
+            : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { deleteDiscountCode, updateDiscountCode } from "@/lib/discount-codes";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { updateDiscountCodeSchema } from "@/lib/validations/pricing";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * PATCH /api/discount-codes/[id]
+ * Partially updates a discount code. Requires `events.update`.
+ */
+export const PATCH = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (request, { params }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = updateDiscountCodeSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await updateDiscountCode(id, parsed.data);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error updating discount code:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/discount-codes/[id]
+ * Deletes a discount code that was never used. Requires `events.update`.
+ */
+export const DELETE = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const result = await deleteDiscountCode(id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      logger.error("Error deleting discount code:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
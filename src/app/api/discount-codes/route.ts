@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createDiscountCode, listDiscountCodes } from "@/lib/discount-codes";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { createDiscountCodeSchema, discountCodeListQuerySchema } from "@/lib/validations/pricing";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/discount-codes
+ * Lists discount codes with their number of uses. Requires `events.update`.
+ *
+ * Query: eventId?
+ */
+export const GET = withApiAuth({ permissions: ["events.update"] }, async (request) => {
+  try {
+    const query = discountCodeListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return validationErrorResponse(query.error);
+    }
+
+    const codes = await listDiscountCodes(query.data);
+
+    return NextResponse.json({ success: true, data: codes });
+  } catch (error) {
+    logger.error("Error fetching discount codes:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
+
+/**
+ * POST /api/discount-codes
+ * Creates a discount code. Requires `events.update`.
+ *
+ * Body: { code, description?, eventId?, percentOff?, amountOff?, currency?,
+ *         maxUses?, validFrom?, validUntil?, isActive? }
+ */
+export const POST = withApiAuth(
+  { permissions: ["events.update"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = createDiscountCodeSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await createDiscountCode(parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error creating discount code:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { closeCheckIn } from "@/lib/tickets";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/events/[id]/check-in/close
+ * Marks every confirmed registration that did not check in as NO_SHOW once
+ * the event has started. Requires the `events.manage_registrations` permission.
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["events.manage_registrations"] },
+  async (_request, { params }, { user }) => {
+    try {
+      const { id } = await params;
+      const result = await closeCheckIn(id, user.id);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error closing check-in:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { checkInTicket } from "@/lib/tickets";
+import { checkInSchema } from "@/lib/validations/registration";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/events/[id]/check-in
+ * Checks in the attendee of a scanned or typed ticket. Requires the
+ * `events.check_in` permission.
+ *
+ * Body: { code }. Responds with the attendee and, for group leaders, the
+ * group's friends.
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["events.check_in"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = checkInSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await checkInTicket({
+        eventId: id,
+        code: parsed.data.code,
+        performedById: user.id,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error checking in ticket:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
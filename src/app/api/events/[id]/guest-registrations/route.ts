@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requestGuestRegistration } from "@/lib/guest-registrations";
+import { guestRegistrationSchema } from "@/lib/validations/registration";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/events/[id]/guest-registrations
+ * Starts a registration without an account. Nothing is reserved until the
+ * guest opens the verification link sent to their email.
+ *
+ * Body: { name, email, phone?, locale?, notes?, dietaryRequirements?, specialRequests?, friends? }
+ * Responds with 202 and `{ expiresAt }` of the verification link.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = guestRegistrationSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { id } = await params;
+    const result = await requestGuestRegistration({ eventId: id, ...parsed.data });
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 202 });
+  } catch (error) {
+    logger.error("Error requesting guest registration:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { deletePriceTier, updatePriceTier } from "@/lib/pricing";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { updatePriceTierSchema } from "@/lib/validations/pricing";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * PATCH /api/events/[id]/price-tiers/[tierId]
+ * Partially updates a price tier. Requires `events.update`.
+ */
+export const PATCH = withApiAuth<{ id: string; tierId: string }>(
+  { permissions: ["events.update"] },
+  async (request, { params }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = updatePriceTierSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id, tierId } = await params;
+      const result = await updatePriceTier(id, tierId, parsed.data);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error updating price tier:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/events/[id]/price-tiers/[tierId]
+ * Deletes a price tier. Requires `events.update`.
+ */
+export const DELETE = withApiAuth<{ id: string; tierId: string }>(
+  { permissions: ["events.update"] },
+  async (_request, { params }) => {
+    try {
+      const { id, tierId } = await params;
+      const result = await deletePriceTier(id, tierId);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      logger.error("Error deleting price tier:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createPriceTier, listPriceTiers } from "@/lib/pricing";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { createPriceTierSchema } from "@/lib/validations/pricing";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/events/[id]/price-tiers
+ * Lists an event's price tiers, inactive ones included.
+ * Requires `events.update`.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const tiers = await listPriceTiers(id);
+
+      return NextResponse.json({ success: true, data: tiers });
+    } catch (error) {
+      logger.error("Error fetching price tiers:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * POST /api/events/[id]/price-tiers
+ * Adds a price tier to an event. Requires `events.update`.
+ *
+ * Body: { name, price, validUntil?, registrationType?, roleId?, minGroupSize?, isActive? }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (request, { params }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = createPriceTierSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await createPriceTier(id, parsed.data);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error creating price tier:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { previewRegistrationPrice } from "@/lib/pricing";
+import { errorResponse, serviceErrorResponse, validationErrorResponse } from "@/lib/api-utils";
+import { priceQuoteQuerySchema } from "@/lib/validations/pricing";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/events/[id]/price
+ * Previews what the current user would pay for registering, with the
+ * applicable price tier and discount.
+ *
+ * Query: seats?, ticketType?, discountCode?
+ */
+export const GET = withApiAuth<{ id: string }>({}, async (request, { params }, { user }) => {
+  try {
+    const query = priceQuoteQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!query.success) {
+      return validationErrorResponse(query.error);
+    }
+
+    const { id } = await params;
+    const result = await previewRegistrationPrice(id, user.id, query.data);
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error quoting registration price:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { refundEventPayments } from "@/lib/refunds";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { refundEventPaymentsSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/events/[id]/refunds
+ * Requests a full refund of every completed payment for a cancelled event.
+ * Requires `payments.refund`.
+ *
+ * Body: { reason }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["payments.refund"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = refundEventPaymentsSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await refundEventPayments({
+        ...parsed.data,
+        eventId: id,
+        requestedById: user.id,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error refunding event payments:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { listEventRegistrations, registerForEvent } from "@/lib/registrations";
+import {
+  createRegistrationSchema,
+  registrationListQuerySchema,
+} from "@/lib/validations/registration";
+import {
+  errorResponse,
+  getRequestContext,
+  readJsonBody,
+  searchParamsToObject,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/events/[id]/registrations
+ * Lists the event's registrations, optionally filtered by `status`.
+ * Requires the `events.manage_registrations` permission.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  { permissions: ["events.manage_registrations"] },
+  async (request, { params }) => {
+    try {
+      const parsed = registrationListQuerySchema.safeParse(
+        searchParamsToObject(request.nextUrl.searchParams)
+      );
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await listEventRegistrations(id, parsed.data);
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      logger.error("Error listing registrations:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * POST /api/events/[id]/registrations
+ * Registers the current user for the event. Requires the `events.register` permission.
+ *
+ * Body: { notes?, dietaryRequirements?, specialRequests?, friends?, ticketType?, discountCode? }
+ *
+ * Responds with 201 and `{ outcome: "REGISTERED", registration, pendingPayment }`,
+ * or 202 and `{ outcome: "WAITING_LIST", waitingListEntry }` when the event is full.
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["events.register"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = createRegistrationSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await registerForEvent({
+        eventId: id,
+        userId: user.id,
+        ...parsed.data,
+        ...getRequestContext(request),
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json(
+        { success: true, data: result.data },
+        { status: result.data.outcome === "REGISTERED" ? 201 : 202 }
+      );
+    } catch (error) {
+      logger.error("Error registering for event:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
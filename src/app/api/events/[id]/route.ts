@@ -0,0 +1,91 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { deleteEvent, findEvent, updateEvent } from "@/lib/events";
+import { updateEventSchema } from "@/lib/validations/event";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { hasPermission } from "@/lib/authorization";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/events/[id]
+ * Returns a single event by id or slug
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const includeDrafts = await hasPermission("events.update");
+    const event = await findEvent(id, { includeDrafts });
+
+    if (!event) {
+      return errorResponse("Event not found", 404);
+    }
+
+    return NextResponse.json({ success: true, data: event });
+  } catch (error) {
+    logger.error("Error fetching event:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * PATCH /api/events/[id]
+ * Partially updates an event. Requires the `events.update` permission.
+ */
+export const PATCH = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (request, { params }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = updateEventSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await updateEvent(id, parsed.data);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error updating event:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/events/[id]
+ * Deletes an event without registrations. Requires the `events.delete` permission.
+ */
+export const DELETE = withApiAuth<{ id: string }>(
+  { permissions: ["events.delete"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const result = await deleteEvent(id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      logger.error("Error deleting event:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
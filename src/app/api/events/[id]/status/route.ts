@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { transitionEventStatus } from "@/lib/event-status";
+import { eventStatusTransitionSchema } from "@/lib/validations/event";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/events/[id]/status
+ * Moves an event through its status lifecycle. Requires the `events.update` permission.
+ *
+ * Body: { status, reason?, startDate?, endDate? } — dates only apply when postponing.
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["events.update"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = eventStatusTransitionSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await transitionEventStatus({
+        eventId: id,
+        performedById: user.id,
+        ...parsed.data,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error changing event status:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createEvent, listEvents } from "@/lib/events";
+import { createEventSchema, eventListQuerySchema } from "@/lib/validations/event";
+import {
+  errorResponse,
+  readJsonBody,
+  searchParamsToObject,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { hasPermission } from "@/lib/authorization";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/events
+ * Lists events with filtering by status, type, category, city, online flag,
+ * start date range (`from`/`to`) and tags. Drafts are only visible to event managers.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = eventListQuerySchema.safeParse(
+      searchParamsToObject(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const includeDrafts = await hasPermission("events.update");
+    const result = await listEvents(parsed.data, { includeDrafts });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    logger.error("Error listing events:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * POST /api/events
+ * Creates an event. Requires the `events.create` permission.
+ */
+export const POST = withApiAuth(
+  { permissions: ["events.create"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = createEventSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await createEvent(parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error creating event:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,42 @@
+import { getInvoiceFileName, getInvoiceForDownload, toInvoiceDocument } from "@/lib/invoices";
+import { renderInvoicePdf } from "@/lib/invoice-pdf";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/invoices/[id]/pdf
+ * Downloads an invoice as PDF. Payers may download their own; users with
+ * `payments.view` may download any.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  {},
+  async (_request, { params }, { user, access }) => {
+    try {
+      const { id } = await params;
+      const result = await getInvoiceForDownload({
+        invoiceId: id,
+        userId: user.id,
+        canViewAll: grantsPermission(access.grants, "payments.view"),
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      const pdf = await renderInvoicePdf(toInvoiceDocument(result.data));
+
+      return new Response(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${getInvoiceFileName(result.data)}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error) {
+      logger.error("Error rendering invoice PDF:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { getPaymentQr, renderPaymentQr } from "@/lib/payment-qr";
+import { errorResponse, serviceErrorResponse, validationErrorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+const querySchema = z.object({
+  format: z.enum(["svg", "png"]).default("svg"),
+});
+
+const CONTENT_TYPES = { svg: "image/svg+xml", png: "image/png" } as const;
+
+/**
+ * GET /api/payments/[id]/qr
+ * Renders the payment QR code (PAY by square or SPD, depending on the bank
+ * account) of an unpaid payment. Payers may load their own; users with
+ * `payments.view` may load any.
+ *
+ * Query: format=svg|png (default svg)
+ */
+export const GET = withApiAuth<{ id: string }>(
+  {},
+  async (request, { params }, { user, access }) => {
+    try {
+      const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+      if (!query.success) {
+        return validationErrorResponse(query.error);
+      }
+
+      const { id } = await params;
+      const result = await getPaymentQr({
+        source: "payment",
+        id,
+        userId: user.id,
+        canViewAll: grantsPermission(access.grants, "payments.view"),
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      const image = await renderPaymentQr(result.data.payload, query.data.format);
+
+      return new Response(new Uint8Array(image), {
+        headers: {
+          "Content-Type": CONTENT_TYPES[query.data.format],
+          // The code changes when the payment does, so it is never cached
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error) {
+      logger.error("Error rendering payment QR code:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
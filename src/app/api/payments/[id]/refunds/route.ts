@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getPaymentRefunds, requestRefund } from "@/lib/refunds";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { requestRefundSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/[id]/refunds
+ * Lists the refunds of a payment. Requires `payments.view`.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  { permissions: ["payments.view"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const result = await getPaymentRefunds(id);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error fetching refunds:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * POST /api/payments/[id]/refunds
+ * Requests a full or partial refund of a completed payment.
+ * Requires `payments.refund`.
+ *
+ * Body: { amount?, reason, recipientName?, recipientAccount? }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["payments.refund"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = requestRefundSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await requestRefund({ ...parsed.data, paymentId: id, requestedById: user.id });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error requesting refund:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
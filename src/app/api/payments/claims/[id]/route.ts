@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { reviewPaymentClaim } from "@/lib/payment-claims";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { reviewPaymentClaimSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/payments/claims/[id]
+ * Verifies a payment claim (completing the payment and confirming the
+ * registration) or rejects it, optionally cancelling the registration.
+ * Requires `payments.verify`.
+ *
+ * Body: { action: "VERIFY", notes? } | { action: "REJECT", notes, cancelRegistration? }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["payments.verify"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = reviewPaymentClaimSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await reviewPaymentClaim({
+        ...parsed.data,
+        paymentId: id,
+        performedById: user.id,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error reviewing payment claim:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getPaymentClaims } from "@/lib/payment-claims";
+import { errorResponse, validationErrorResponse } from "@/lib/api-utils";
+import { paymentClaimQuerySchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/claims
+ * Lists payment claims awaiting verification, oldest first.
+ * Requires `payments.verify`.
+ *
+ * Query: eventId?, minAgeHours?
+ */
+export const GET = withApiAuth({ permissions: ["payments.verify"] }, async (request) => {
+  try {
+    const query = paymentClaimQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return validationErrorResponse(query.error);
+    }
+
+    const claims = await getPaymentClaims(query.data);
+
+    return NextResponse.json({ success: true, data: claims });
+  } catch (error) {
+    logger.error("Error fetching payment claims:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
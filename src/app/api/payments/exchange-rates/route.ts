@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { importEcbRates } from "@/lib/exchange-rates";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { MAX_EXCHANGE_RATES_SIZE } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/payments/exchange-rates
+ * Imports an ECB euro reference rate XML file (daily, 90-day or full
+ * history) for converting revenue reports. Requires `payments.verify`.
+ *
+ * Body (multipart/form-data): file
+ */
+export const POST = withApiAuth({ permissions: ["payments.verify"] }, async (request) => {
+  try {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return errorResponse("Expected a multipart form with the rates file", 400);
+    }
+
+    const file = form.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return errorResponse("A rates file is required", 400);
+    }
+    if (file.size > MAX_EXCHANGE_RATES_SIZE) {
+      return errorResponse("The rates file is too large", 413);
+    }
+
+    const result = await importEcbRates(await file.text());
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    logger.error("Error importing exchange rates:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
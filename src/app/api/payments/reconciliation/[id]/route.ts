@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { resolveBankTransaction } from "@/lib/bank-reconciliation";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { resolveBankTransactionSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/payments/reconciliation/[id]
+ * Resolves a transfer on the review list: matches it to a pending payment
+ * (completing the payment with the amount received) or ignores it.
+ * Requires `payments.verify`.
+ *
+ * Body: { action: "MATCH", pendingPaymentId, note? } | { action: "IGNORE", note }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["payments.verify"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = resolveBankTransactionSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await resolveBankTransaction({
+        ...parsed.data,
+        transactionId: id,
+        performedById: user.id,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error resolving bank transaction:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
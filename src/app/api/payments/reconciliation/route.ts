@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getReconciliationQueue } from "@/lib/bank-reconciliation";
+import { errorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/reconciliation
+ * Lists imported transfers waiting for a manual decision (unmatched,
+ * partial, over-paid, wrong currency or for a closed payment).
+ * Requires `payments.verify`.
+ */
+export const GET = withApiAuth({ permissions: ["payments.verify"] }, async () => {
+  try {
+    const transactions = await getReconciliationQueue();
+
+    return NextResponse.json({ success: true, data: transactions });
+  } catch (error) {
+    logger.error("Error fetching reconciliation queue:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
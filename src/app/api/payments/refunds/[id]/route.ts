@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { updateRefund } from "@/lib/refunds";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { updateRefundSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/payments/refunds/[id]
+ * Records the outbound bank transfer of a pending refund, or cancels it.
+ * Requires `payments.refund`.
+ *
+ * Body: { action: "COMPLETE", bankReference, transferredAt?, recipientAccount?, notes? }
+ *     | { action: "CANCEL", notes }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  { permissions: ["payments.refund"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = updateRefundSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await updateRefund({ ...parsed.data, refundId: id, performedById: user.id });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error updating refund:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
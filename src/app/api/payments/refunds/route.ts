@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getPendingRefunds } from "@/lib/refunds";
+import { errorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/refunds
+ * Refunds waiting for their outbound bank transfer. Requires `payments.refund`.
+ */
+export const GET = withApiAuth({ permissions: ["payments.refund"] }, async () => {
+  try {
+    const refunds = await getPendingRefunds();
+    return NextResponse.json({ success: true, data: refunds });
+  } catch (error) {
+    logger.error("Error fetching pending refunds:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
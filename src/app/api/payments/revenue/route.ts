@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getRevenueReport } from "@/lib/revenue-reports";
+import { errorResponse, validationErrorResponse } from "@/lib/api-utils";
+import { revenueReportQuerySchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/revenue
+ * Revenue per event in a period, converted to one currency at the stored
+ * ECB reference rates. Requires `payments.view`.
+ *
+ * Query: from, to (YYYY-MM-DD, inclusive), currency?, eventId?
+ */
+export const GET = withApiAuth({ permissions: ["payments.view"] }, async (request) => {
+  try {
+    const query = revenueReportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return validationErrorResponse(query.error);
+    }
+
+    const report = await getRevenueReport(query.data);
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    logger.error("Error building revenue report:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { importBankStatement } from "@/lib/bank-reconciliation";
+import { decodeStatement } from "@/lib/bank-statement-parsers";
+import { errorResponse, serviceErrorResponse, validationErrorResponse } from "@/lib/api-utils";
+import { importBankStatementSchema, MAX_STATEMENT_SIZE } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/payments/statements
+ * Imports a bank statement (CAMT.053, MT940 or CSV) and reconciles its
+ * incoming transfers with pending payments. Requires `payments.verify`.
+ *
+ * Body (multipart/form-data): file, format?, bankAccountId?
+ */
+export const POST = withApiAuth(
+  { permissions: ["payments.verify"] },
+  async (request, _context, { user }) => {
+    try {
+      let form: FormData;
+      try {
+        form = await request.formData();
+      } catch {
+        return errorResponse("Expected a multipart form with the statement file", 400);
+      }
+
+      const file = form.get("file");
+      if (!(file instanceof File) || file.size === 0) {
+        return errorResponse("A statement file is required", 400);
+      }
+      if (file.size > MAX_STATEMENT_SIZE) {
+        return errorResponse("The statement file is too large", 413);
+      }
+
+      const parsed = importBankStatementSchema.safeParse({
+        format: form.get("format") || undefined,
+        bankAccountId: form.get("bankAccountId") || undefined,
+      });
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await importBankStatement({
+        content: decodeStatement(new Uint8Array(await file.arrayBuffer())),
+        fileName: file.name,
+        ...(parsed.data.format && { format: parsed.data.format }),
+        bankAccountId: parsed.data.bankAccountId ?? null,
+        importedById: user.id,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error importing bank statement:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { findVariableSymbolOwner } from "@/lib/variable-symbols";
+import { errorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/payments/variable-symbols/[symbol]
+ * Finds the registration and payments a variable symbol was issued for,
+ * e.g. to match a bank transfer by hand. Requires `payments.view`.
+ */
+export const GET = withApiAuth<{ symbol: string }>(
+  { permissions: ["payments.view"] },
+  async (_request, { params }) => {
+    try {
+      const { symbol } = await params;
+      const owner = await findVariableSymbolOwner(symbol);
+      if (!owner) {
+        return errorResponse("Variable symbol not found", 404);
+      }
+
+      return NextResponse.json({ success: true, data: owner });
+    } catch (error) {
+      logger.error("Error looking up variable symbol:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { claimPayment } from "@/lib/payment-claims";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { claimPaymentSchema } from "@/lib/validations/payment";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/pending-payments/[id]/claim
+ * Tells the organiser that the payment was sent ("I have paid"). The seats
+ * stay held until staff verify or reject the claim. Only the payer may claim.
+ *
+ * Body: { note? }
+ */
+export const POST = withApiAuth<{ id: string }>({}, async (request, { params }, { user }) => {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = claimPaymentSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { id } = await params;
+    const result = await claimPayment({ ...parsed.data, pendingPaymentId: id, userId: user.id });
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    logger.error("Error claiming payment:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { removeGroupFriend } from "@/lib/group-registrations";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+const removeFriendSchema = z.object({
+  reason: z.string().trim().min(1).max(1000).optional(),
+});
+
+/**
+ * DELETE /api/registrations/[id]/friends/[friendId]
+ * Removes a friend from a group registration and frees their seat. Also
+ * cancels the friend's own registration if they claimed the seat.
+ *
+ * Body (optional): { reason? }
+ */
+export const DELETE = withApiAuth<{ id: string; friendId: string }>(
+  {},
+  async (request, { params }, { user, access }) => {
+    try {
+      // The body is optional; an empty or missing body removes without a reason
+      const body = (await readJsonBody(request)) ?? {};
+      const parsed = removeFriendSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id, friendId } = await params;
+      const result = await removeGroupFriend({
+        registrationId: id,
+        friendId,
+        performedById: user.id,
+        asManager: grantsPermission(access.grants, "events.manage_registrations"),
+        reason: parsed.data.reason,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error removing friend from group registration:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { addGroupFriend } from "@/lib/group-registrations";
+import { groupFriendSchema } from "@/lib/validations/registration";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/registrations/[id]/friends
+ * Adds a friend to a group registration, taking one more seat. The group
+ * leader may add friends to their own group; users with
+ * `events.manage_registrations` to any group.
+ *
+ * Body: { name, email?, phone?, dietaryRequirements?, specialRequests? }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  {},
+  async (request, { params }, { user, access }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = groupFriendSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await addGroupFriend({
+        registrationId: id,
+        performedById: user.id,
+        asManager: grantsPermission(access.grants, "events.manage_registrations"),
+        friend: parsed.data,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error adding friend to group registration:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { cancelRegistration } from "@/lib/registrations";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+const cancelSchema = z.object({
+  reason: z.string().trim().min(1).max(1000).optional(),
+});
+
+/**
+ * DELETE /api/registrations/[id]
+ * Cancels a registration. Attendees may cancel their own registration;
+ * users with `events.manage_registrations` may cancel any.
+ *
+ * Body (optional): { reason? }
+ */
+export const DELETE = withApiAuth<{ id: string }>(
+  {},
+  async (request, { params }, { user, access }) => {
+    try {
+      // The body is optional; an empty or missing body cancels without a reason
+      const body = (await readJsonBody(request)) ?? {};
+      const parsed = cancelSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await cancelRegistration({
+        registrationId: id,
+        performedById: user.id,
+        asManager: grantsPermission(access.grants, "events.manage_registrations"),
+        reason: parsed.data.reason,
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error cancelling registration:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { transferGroupLeadership } from "@/lib/group-registrations";
+import { transferGroupLeadershipSchema } from "@/lib/validations/registration";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { grantsPermission } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/registrations/[id]/transfer
+ * Hands leadership of a group registration to a friend who claimed their
+ * seat. Responds with the new leader's registration.
+ *
+ * Body: { friendId }
+ */
+export const POST = withApiAuth<{ id: string }>(
+  {},
+  async (request, { params }, { user, access }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = transferGroupLeadershipSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await transferGroupLeadership({
+        registrationId: id,
+        friendId: parsed.data.friendId,
+        performedById: user.id,
+        asManager: grantsPermission(access.grants, "events.manage_registrations"),
+      });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error transferring group leadership:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
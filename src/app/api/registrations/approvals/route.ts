@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getApprovalQueue, reviewRegistrations } from "@/lib/registration-approvals";
+import { reviewRegistrationsSchema } from "@/lib/validations/registration";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/registrations/approvals
+ * Lists registrations awaiting approval, grouped by event.
+ * Requires the `events.manage_registrations` permission.
+ */
+export const GET = withApiAuth({ permissions: ["events.manage_registrations"] }, async () => {
+  try {
+    return NextResponse.json({ success: true, data: await getApprovalQueue() });
+  } catch (error) {
+    logger.error("Error listing registrations awaiting approval:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
+
+/**
+ * POST /api/registrations/approvals
+ * Approves or rejects registrations in bulk. Requires the
+ * `events.manage_registrations` permission.
+ *
+ * Body: { registrationIds, decision: "APPROVE" | "REJECT", reason? } (reason is
+ * required when rejecting). Responds with `{ approved, rejected, failed }`.
+ */
+export const POST = withApiAuth(
+  { permissions: ["events.manage_registrations"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = reviewRegistrationsSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await reviewRegistrations({ ...parsed.data, performedById: user.id });
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error reviewing registrations:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
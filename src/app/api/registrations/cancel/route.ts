@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { cancelGuestRegistration } from "@/lib/guest-registrations";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+const cancelSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/registrations/cancel
+ * Cancels a guest registration (or waiting list place) with the token from
+ * the guest's confirmation email. No login is required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = cancelSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await cancelGuestRegistration(parsed.data.token);
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error cancelling guest registration:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { claimFriendSeat } from "@/lib/group-registrations";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { getCurrentAppUser } from "@/lib/users";
+import { logger } from "@/lib/logger";
+
+const claimSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/registrations/claim
+ * Claims a friend's seat in a group registration with the token from the
+ * invitation email. Signed-in users get the registration on their account;
+ * anonymous claims are recorded with the friend's name and email.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = claimSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const user = await getCurrentAppUser();
+    const result = await claimFriendSeat(parsed.data.token, user?.id ?? null);
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error claiming group seat:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
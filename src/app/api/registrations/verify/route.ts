@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { verifyGuestRegistration } from "@/lib/guest-registrations";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+const verifySchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/registrations/verify
+ * Verifies a guest's email with the token from the verification email and
+ * registers them. Responds like event registration: 201 when registered,
+ * 202 when placed on the waiting list.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = verifySchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await verifyGuestRegistration(parsed.data.token);
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { status: result.data.outcome === "REGISTERED" ? 201 : 202 }
+    );
+  } catch (error) {
+    logger.error("Error verifying guest registration:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
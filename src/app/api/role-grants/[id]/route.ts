@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { revokeRoleGrant } from "@/lib/role-grants";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * DELETE /api/role-grants/[id]
+ * Revokes a role grant. Requires `users.manage_roles`.
+ */
+export const DELETE = withApiAuth<{ id: string }>(
+  { permissions: ["users.manage_roles"] },
+  async (_request, { params }, { user }) => {
+    try {
+      const { id } = await params;
+      const result = await revokeRoleGrant(id, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      logger.error("Error revoking role grant:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { grantRole, listRoleGrants } from "@/lib/role-grants";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { grantRoleSchema, roleGrantListQuerySchema } from "@/lib/validations/role";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/role-grants
+ * Lists active role grants, soonest expiry first. Requires `users.manage_roles`.
+ *
+ * Query: userId?, roleId?, temporary?
+ */
+export const GET = withApiAuth({ permissions: ["users.manage_roles"] }, async (request) => {
+  try {
+    const query = roleGrantListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return validationErrorResponse(query.error);
+    }
+
+    const grants = await listRoleGrants(query.data);
+
+    return NextResponse.json({ success: true, data: grants });
+  } catch (error) {
+    logger.error("Error fetching role grants:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
+
+/**
+ * POST /api/role-grants
+ * Grants a role to a user, permanently or until `expiresAt`; granting a role
+ * the user already holds renews it. Requires `users.manage_roles`.
+ *
+ * Body: { userId? | email?, roleId, expiresAt? }
+ */
+export const POST = withApiAuth(
+  { permissions: ["users.manage_roles"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = grantRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await grantRole(parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error granting role:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getRolePermissionHistory } from "@/lib/role-management";
+import { errorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/roles/[id]/history
+ * Lists the permissions added to and removed from a role over time, newest
+ * first, from the audit log. Requires `admin.roles`.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  { permissions: ["admin.roles"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const history = await getRolePermissionHistory(id);
+
+      return NextResponse.json({ success: true, data: history });
+    } catch (error) {
+      logger.error("Error fetching role history:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
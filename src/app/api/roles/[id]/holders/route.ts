@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getRoleHolders } from "@/lib/role-management";
+import { errorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/roles/[id]/holders
+ * Lists the users holding a role through an active grant. Requires `admin.roles`.
+ */
+export const GET = withApiAuth<{ id: string }>(
+  { permissions: ["admin.roles"] },
+  async (_request, { params }) => {
+    try {
+      const { id } = await params;
+      const holders = await getRoleHolders(id);
+
+      return NextResponse.json({ success: true, data: holders });
+    } catch (error) {
+      logger.error("Error fetching role holders:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
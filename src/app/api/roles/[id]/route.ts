@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { deleteRole, updateRole } from "@/lib/role-management";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { updateRoleSchema } from "@/lib/validations/role";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * PATCH /api/roles/[id]
+ * Partially updates a role; making it the default unsets the previous
+ * default. Requires `admin.roles`.
+ */
+export const PATCH = withApiAuth<{ id: string }>(
+  { permissions: ["admin.roles"] },
+  async (request, { params }, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = updateRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const { id } = await params;
+      const result = await updateRole(id, parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error updating role:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/roles/[id]
+ * Deletes a custom role nobody holds; system and default roles stay.
+ * Requires `admin.roles`.
+ */
+export const DELETE = withApiAuth<{ id: string }>(
+  { permissions: ["admin.roles"] },
+  async (_request, { params }, { user }) => {
+    try {
+      const { id } = await params;
+      const result = await deleteRole(id, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      logger.error("Error deleting role:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { createRole, listRoles } from "@/lib/role-management";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { createRoleSchema } from "@/lib/validations/role";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/roles
+ * Lists roles with the number of users holding them. Requires `admin.roles`.
+ */
+export const GET = withApiAuth({ permissions: ["admin.roles"] }, async () => {
+  try {
+    const roles = await listRoles();
+
+    return NextResponse.json({ success: true, data: roles });
+  } catch (error) {
+    logger.error("Error fetching roles:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
+
+/**
+ * POST /api/roles
+ * Creates a custom role. Requires `admin.roles`.
+ *
+ * Body: { name, displayName, description?, color?, priority?, isDefault?, permissions }
+ */
+export const POST = withApiAuth(
+  { permissions: ["admin.roles"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = createRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await createRole(parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error creating role:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
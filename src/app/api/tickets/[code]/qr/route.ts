@@ -0,0 +1,36 @@
+import type { NextRequest } from "next/server";
+import { renderTicketQr } from "@/lib/tickets";
+import { verifySignedToken } from "@/lib/signed-tokens";
+import { errorResponse } from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+interface RouteContext {
+  params: Promise<{ code: string }>;
+}
+
+/**
+ * GET /api/tickets/[code]/qr
+ * Renders a ticket code as a PNG QR code, for the confirmation email and the
+ * ticket page. Only valid ticket codes are rendered.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params;
+    if (!verifySignedToken(code, "ticket")) {
+      return errorResponse("Ticket not found", 404);
+    }
+
+    const image = await renderTicketQr(code);
+
+    return new Response(new Uint8Array(image), {
+      headers: {
+        "Content-Type": "image/png",
+        // The image of a code never changes
+        "Cache-Control": "private, max-age=86400, immutable",
+      },
+    });
+  } catch (error) {
+    logger.error("Error rendering ticket QR code:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
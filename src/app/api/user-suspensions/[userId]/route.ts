@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { reactivateUser } from "@/lib/user-suspensions";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * DELETE /api/user-suspensions/[userId]
+ * Ends a suspension and reactivates the account. Requires `users.moderate`.
+ */
+export const DELETE = withApiAuth<{ userId: string }>(
+  { permissions: ["users.moderate"] },
+  async (_request, { params }, { user }) => {
+    try {
+      const { userId } = await params;
+      const result = await reactivateUser(userId, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error reactivating user:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
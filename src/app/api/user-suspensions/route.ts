@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { listSuspendedUsers, suspendUser } from "@/lib/user-suspensions";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { suspendUserSchema } from "@/lib/validations/user";
+import { withApiAuth } from "@/lib/auth-guards";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/user-suspensions
+ * Lists suspended accounts. Requires `users.moderate`.
+ */
+export const GET = withApiAuth({ permissions: ["users.moderate"] }, async () => {
+  try {
+    const users = await listSuspendedUsers();
+
+    return NextResponse.json({ success: true, data: users });
+  } catch (error) {
+    logger.error("Error fetching suspended users:", error);
+    return errorResponse("Internal server error", 500);
+  }
+});
+
+/**
+ * POST /api/user-suspensions
+ * Suspends an account with a reason, until `until` or until it is
+ * reactivated. Requires `users.moderate`.
+ *
+ * Body: { userId? | email?, reason, until? }
+ */
+export const POST = withApiAuth(
+  { permissions: ["users.moderate"] },
+  async (request, _context, { user }) => {
+    try {
+      const body = await readJsonBody(request);
+      if (body === null) {
+        return errorResponse("Invalid JSON in request body", 400);
+      }
+
+      const parsed = suspendUserSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationErrorResponse(parsed.error);
+      }
+
+      const result = await suspendUser(parsed.data, user.id);
+      if (!result.success) {
+        return serviceErrorResponse(result.error);
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      logger.error("Error suspending user:", error);
+      return errorResponse("Internal server error", 500);
+    }
+  }
+);
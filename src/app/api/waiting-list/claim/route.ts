@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { claimWaitingListPromotion } from "@/lib/waiting-list";
+import {
+  errorResponse,
+  readJsonBody,
+  serviceErrorResponse,
+  validationErrorResponse,
+} from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+const claimSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/waiting-list/claim
+ * Claims a seat offered by a waiting list promotion. The signed token from
+ * the promotion email is the only credential, so no login is required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body === null) {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    const parsed = claimSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await claimWaitingListPromotion(parsed.data.token);
+    if (!result.success) {
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error claiming waiting list promotion:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { handleKindeWebhookEvent, readKindeWebhook } from "@/lib/kinde-webhooks";
+import { errorResponse, serviceErrorResponse } from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST /api/webhooks/kinde
+ * Receives Kinde events, a JWT signed with a key of the configured key set,
+ * and syncs created, updated and deleted users into the database
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const event = await readKindeWebhook((await request.text()).trim());
+    if (!event) {
+      return errorResponse("Invalid webhook token", 401);
+    }
+
+    const result = await handleKindeWebhookEvent(event);
+    if (!result.success) {
+      logger.warn(`Kinde webhook ${event.type} (${event.event_id}) failed:`, result.error);
+      return serviceErrorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error handling Kinde webhook:", error);
+    return errorResponse("Internal server error", 500);
+  }
+}
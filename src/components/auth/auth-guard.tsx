@@ -3,6 +3,7 @@
 import React from "react";
 import { useRouter } from "next/navigation";
 import { useSession, useAuthorization } from "./session-provider";
+import type { Permission } from "@/lib/permissions";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { AuthButtons } from "./auth-buttons";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
@@ -11,7 +12,7 @@ interface AuthGuardProps {
   children: React.ReactNode;
   fallback?: React.ReactNode;
   redirectTo?: string;
-  requirePermissions?: string[];
+  requirePermissions?: Permission[];
   requireAllPermissions?: boolean; // true = require ALL permissions, false = require ANY permission
   showFallback?: boolean;
 }
@@ -29,7 +30,7 @@ export function AuthGuard({
   showFallback = true,
 }: AuthGuardProps) {
   const router = useRouter();
-  const { isAuthenticated, isLoading, error } = useSession();
+  const { isAuthenticated, isLoading, error, accountRestriction } = useSession();
   const { hasAllPermissions, hasAnyPermission } = useAuthorization();
 
   // Show loading state
@@ -87,6 +88,26 @@ export function AuthGuard({
     );
   }
 
+  // Suspended and inactive accounts see nothing that needs an account
+  if (accountRestriction) {
+    if (!showFallback) {
+      return null;
+    }
+
+    return (
+      fallback ?? (
+        <Alert variant="error" className="m-4">
+          <AlertTitle>
+            {accountRestriction === "SUSPENDED" ? "Account Suspended" : "Account Inactive"}
+          </AlertTitle>
+          <AlertDescription>
+            Your account cannot access this content. Please contact support for details.
+          </AlertDescription>
+        </Alert>
+      )
+    );
+  }
+
   // Check permissions if required
   if (requirePermissions.length > 0) {
     const hasRequiredPermissions = requireAllPermissions
@@ -120,14 +141,14 @@ export function AuthGuard({
  * Hook for conditional rendering based on authentication status
  */
 export function useAuthGuard() {
-  const { isAuthenticated, isLoading } = useSession();
+  const { isAuthenticated, isLoading, accountRestriction } = useSession();
   const { hasPermission, hasAllPermissions, hasAnyPermission } = useAuthorization();
 
   const canAccess = (options?: {
-    requirePermissions?: string[];
+    requirePermissions?: Permission[];
     requireAllPermissions?: boolean;
   }) => {
-    if (!isAuthenticated) return false;
+    if (!isAuthenticated || accountRestriction) return false;
 
     if (options?.requirePermissions?.length) {
       return options.requireAllPermissions !== false
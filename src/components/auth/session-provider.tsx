@@ -2,6 +2,8 @@
 
 import React, { createContext, useContext, useEffect, useState, type ReactNode } from "react";
 import type { KindeUser } from "@/lib/kinde-auth";
+import type { Permission } from "@/lib/permissions";
+import type { AccountRestriction } from "@/lib/user-status";
 import { logger } from "@/lib/logger";
 export interface SessionData {
   user: KindeUser | null;
@@ -13,6 +15,8 @@ export interface SessionData {
     orgCode: string;
     orgName: string;
   } | null;
+  /** Set when the account is suspended or inactive and may not use the site */
+  accountRestriction: AccountRestriction | null;
 }
 
 interface SessionContextType extends SessionData {
@@ -40,6 +44,7 @@ export function SessionProvider({
     error: initialSession?.error ?? null,
     permissions: initialSession?.permissions ?? [],
     organization: initialSession?.organization ?? null,
+    accountRestriction: initialSession?.accountRestriction ?? null,
   });
 
   const fetchSession = async (): Promise<void> => {
@@ -82,6 +87,7 @@ export function SessionProvider({
           error: null,
           permissions,
           organization,
+          accountRestriction: userData.account?.restriction ?? null,
         });
       } else if (response.status === 401) {
         // User is not authenticated
@@ -92,6 +98,7 @@ export function SessionProvider({
           error: null,
           permissions: [],
           organization: null,
+          accountRestriction: null,
         });
       } else {
         throw new Error(`Authentication check failed: ${response.status}`);
@@ -105,6 +112,7 @@ export function SessionProvider({
         error: error instanceof Error ? error.message : "Failed to check authentication status",
         permissions: [],
         organization: null,
+        accountRestriction: null,
       });
     }
   };
@@ -191,6 +199,7 @@ export function useAuth() {
     isAuthenticated: session.isAuthenticated,
     isLoading: session.isLoading,
     error: session.error,
+    accountRestriction: session.accountRestriction,
     refresh: session.refresh,
     clearError: session.clearError,
   };
@@ -200,15 +209,15 @@ export function useAuth() {
 export function useAuthorization() {
   const session = useSession();
 
-  const hasPermission = (permission: string): boolean => {
+  const hasPermission = (permission: Permission): boolean => {
     return session.permissions.includes(permission);
   };
 
-  const hasAnyPermission = (permissions: string[]): boolean => {
+  const hasAnyPermission = (permissions: Permission[]): boolean => {
     return permissions.some((permission) => session.permissions.includes(permission));
   };
 
-  const hasAllPermissions = (permissions: string[]): boolean => {
+  const hasAllPermissions = (permissions: Permission[]): boolean => {
     return permissions.every((permission) => session.permissions.includes(permission));
   };
 
@@ -227,7 +236,7 @@ export function withAuth<P extends object>(
   Component: React.ComponentType<P>,
   options?: {
     redirectTo?: string;
-    requirePermissions?: string[];
+    requirePermissions?: Permission[];
     fallback?: React.ComponentType;
   }
 ) {
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert } from "@/components/ui/alert";
+
+export interface ApprovalQueueRegistration {
+  id: string;
+  attendee: string;
+  email: string | null;
+  groupSize: number;
+  registeredAt: string;
+  notes: string | null;
+}
+
+export interface ApprovalQueueEventItem {
+  id: string;
+  title: string;
+  date: string;
+  capacity: number;
+  approvedSeats: number;
+  registrations: ApprovalQueueRegistration[];
+}
+
+interface ApprovalQueueProps {
+  events: ApprovalQueueEventItem[];
+}
+
+type ReviewSummary = {
+  approved: number;
+  rejected: number;
+  failed: number;
+};
+
+/**
+ * Pending registrations per event with bulk approve and reject
+ */
+export function ApprovalQueue({ events }: ApprovalQueueProps) {
+  const t = useTranslations("Approvals");
+  const router = useRouter();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      for (const id of ids) {
+        if (checked) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const review = async (decision: "APPROVE" | "REJECT") => {
+    if (decision === "REJECT" && !reason.trim()) {
+      setError("reasonRequired");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setSummary(null);
+
+    try {
+      const response = await fetch("/api/registrations/approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          registrationIds: [...selected],
+          decision,
+          ...(decision === "REJECT" && { reason }),
+        }),
+      });
+
+      if (!response.ok) {
+        setError("error");
+        return;
+      }
+
+      const { data } = await response.json();
+      setSummary({
+        approved: data.approved.length,
+        rejected: data.rejected.length,
+        failed: data.failed.length,
+      });
+      setSelected(new Set());
+      setReason("");
+      router.refresh();
+    } catch {
+      setError("error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (events.length === 0) {
+    return (
+      <div className="space-y-4">
+        {summary && <Alert variant="success">{t("reviewed", summary)}</Alert>}
+        <p className="text-gray-600">{t("empty")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <Alert variant={summary.failed > 0 ? "warning" : "success"}>{t("reviewed", summary)}</Alert>
+      )}
+      {error && <Alert variant="error">{t(error)}</Alert>}
+
+      <div className="space-y-3 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <p className="text-sm text-gray-600">{t("selected", { count: selected.size })}</p>
+        <Textarea
+          aria-label={t("reason")}
+          placeholder={t("reasonPlaceholder")}
+          value={reason}
+          maxLength={1000}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <div className="flex gap-3">
+          <Button onClick={() => review("APPROVE")} disabled={busy || selected.size === 0}>
+            {t("approve")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => review("REJECT")}
+            disabled={busy || selected.size === 0}
+          >
+            {t("reject")}
+          </Button>
+        </div>
+      </div>
+
+      {events.map((event) => {
+        const ids = event.registrations.map(({ id }) => id);
+        const allSelected = ids.every((id) => selected.has(id));
+
+        return (
+          <section
+            key={event.id}
+            className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+          >
+            <header className="mb-4 flex flex-wrap items-baseline justify-between gap-2">
+              <h2 className="text-xl font-semibold text-gray-900">{event.title}</h2>
+              <p className="text-sm text-gray-600">
+                {event.date} ·{" "}
+                {t("seats", { approved: event.approvedSeats, capacity: event.capacity })}
+              </p>
+            </header>
+
+            <table className="w-full text-left text-sm">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="w-8 pb-2">
+                    <input
+                      type="checkbox"
+                      aria-label={t("selectAll")}
+                      checked={allSelected}
+                      onChange={(e) => toggle(ids, e.target.checked)}
+                    />
+                  </th>
+                  <th className="pb-2">{t("attendee")}</th>
+                  <th className="pb-2">{t("groupSize")}</th>
+                  <th className="pb-2">{t("registeredAt")}</th>
+                  <th className="pb-2">{t("notes")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {event.registrations.map((registration) => (
+                  <tr key={registration.id}>
+                    <td className="py-2">
+                      <input
+                        type="checkbox"
+                        aria-label={registration.attendee}
+                        checked={selected.has(registration.id)}
+                        onChange={(e) => toggle([registration.id], e.target.checked)}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <p className="font-medium text-gray-900">{registration.attendee}</p>
+                      {registration.email && <p className="text-gray-500">{registration.email}</p>}
+                    </td>
+                    <td className="py-2">{registration.groupSize}</td>
+                    <td className="py-2">{registration.registeredAt}</td>
+                    <td className="py-2 text-gray-600">{registration.notes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
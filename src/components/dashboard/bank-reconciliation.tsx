@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface ReconciliationBankAccount {
+  id: string;
+  name: string;
+}
+
+export interface ReconciliationTransaction {
+  id: string;
+  bookingDate: string;
+  /** Formatted amount with currency */
+  amount: string;
+  variableSymbol: string | null;
+  counterparty: string | null;
+  message: string | null;
+  reviewReason: string | null;
+  /** Pending payment with the transfer's variable symbol, if any */
+  suggestion: { id: string; label: string } | null;
+}
+
+interface BankReconciliationProps {
+  bankAccounts: ReconciliationBankAccount[];
+  transactions: ReconciliationTransaction[];
+}
+
+type ImportSummary = {
+  transactions: number;
+  duplicates: number;
+  matched: number;
+  needsReview: number;
+};
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Bank statement upload and the review list of transfers that could not be
+ * matched automatically
+ */
+export function BankReconciliation({ bankAccounts, transactions }: BankReconciliationProps) {
+  const t = useTranslations("Reconciliation");
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [bankAccountId, setBankAccountId] = useState("");
+  const [format, setFormat] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [paymentIds, setPaymentIds] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const upload = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setSummary(null);
+
+    const body = new FormData();
+    body.append("file", file);
+    if (bankAccountId) body.append("bankAccountId", bankAccountId);
+    if (format) body.append("format", format);
+
+    try {
+      const response = await fetch("/api/payments/statements", { method: "POST", body });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.code === "INVALID_STATEMENT" ? result.error : t("error"));
+        return;
+      }
+
+      setSummary(result.data);
+      router.refresh();
+    } catch {
+      setError(t("error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resolve = async (transaction: ReconciliationTransaction, action: "MATCH" | "IGNORE") => {
+    const note = notes[transaction.id]?.trim();
+    const pendingPaymentId = paymentIds[transaction.id] ?? transaction.suggestion?.id ?? "";
+
+    if (action === "IGNORE" && !note) {
+      setError(t("noteRequired"));
+      return;
+    }
+    if (action === "MATCH" && !pendingPaymentId.trim()) {
+      setError(t("paymentRequired"));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/payments/reconciliation/${transaction.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action === "MATCH"
+            ? { action, pendingPaymentId: pendingPaymentId.trim(), ...(note && { note }) }
+            : { action, note }
+        ),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error ?? t("error"));
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError(t("error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={upload}
+        className="space-y-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+      >
+        <h2 className="text-xl font-semibold text-gray-900">{t("importTitle")}</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            type="file"
+            aria-label={t("file")}
+            accept=".xml,.sta,.mt940,.txt,.csv"
+            className="max-w-xs"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <select
+            aria-label={t("bankAccount")}
+            className={SELECT_CLASS}
+            value={bankAccountId}
+            onChange={(e) => setBankAccountId(e.target.value)}
+          >
+            <option value="">{t("bankAccountFromStatement")}</option>
+            {bankAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={t("format")}
+            className={SELECT_CLASS}
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+          >
+            <option value="">{t("formatAuto")}</option>
+            <option value="CAMT_053">CAMT.053</option>
+            <option value="MT940">MT940</option>
+            <option value="CSV">CSV</option>
+          </select>
+          <Button type="submit" disabled={busy || !file}>
+            {t("import")}
+          </Button>
+        </div>
+      </form>
+
+      {summary && <Alert variant="success">{t("imported", summary)}</Alert>}
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-xl font-semibold text-gray-900">{t("reviewTitle")}</h2>
+
+        {transactions.length === 0 ? (
+          <p className="text-gray-600">{t("empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {transactions.map((transaction) => (
+              <li key={transaction.id} className="space-y-3 py-4">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="font-medium text-gray-900">
+                    {transaction.amount} · {transaction.bookingDate}
+                    {transaction.variableSymbol && ` · VS ${transaction.variableSymbol}`}
+                  </p>
+                  {transaction.reviewReason && (
+                    <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                      {t(`reasons.${transaction.reviewReason}`)}
+                    </span>
+                  )}
+                </div>
+                {(transaction.counterparty || transaction.message) && (
+                  <p className="text-sm text-gray-600">
+                    {[transaction.counterparty, transaction.message].filter(Boolean).join(" – ")}
+                  </p>
+                )}
+                {transaction.suggestion && (
+                  <p className="text-sm text-gray-600">
+                    {t("suggestion", { payment: transaction.suggestion.label })}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    aria-label={t("pendingPayment")}
+                    placeholder={t("pendingPaymentPlaceholder")}
+                    className="max-w-xs"
+                    value={paymentIds[transaction.id] ?? transaction.suggestion?.id ?? ""}
+                    onChange={(e) =>
+                      setPaymentIds((current) => ({ ...current, [transaction.id]: e.target.value }))
+                    }
+                  />
+                  <Input
+                    aria-label={t("note")}
+                    placeholder={t("notePlaceholder")}
+                    className="max-w-xs"
+                    maxLength={1000}
+                    value={notes[transaction.id] ?? ""}
+                    onChange={(e) =>
+                      setNotes((current) => ({ ...current, [transaction.id]: e.target.value }))
+                    }
+                  />
+                  <Button onClick={() => resolve(transaction, "MATCH")} disabled={busy}>
+                    {t("match")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => resolve(transaction, "IGNORE")}
+                    disabled={busy}
+                  >
+                    {t("ignore")}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
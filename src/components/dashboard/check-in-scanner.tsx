@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+interface CheckInStats {
+  confirmed: number;
+  checkedIn: number;
+  noShows: number;
+}
+
+interface CheckInScannerProps {
+  eventId: string;
+  stats: CheckInStats;
+  /** Whether the event has started and the user may mark no-shows */
+  canClose: boolean;
+}
+
+interface CheckInMember {
+  name: string;
+  registrationId: string | null;
+  status: string | null;
+}
+
+type ScanResult =
+  | { ok: true; attendee: string; groupSize: number; members: CheckInMember[] }
+  | { ok: false; code: string; attendee?: string; checkedInAt?: string };
+
+// The Barcode Detection API is not in the TypeScript DOM typings yet
+/* eslint-disable no-unused-vars */
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+/* eslint-enable no-unused-vars */
+
+const SCAN_INTERVAL_MS = 400;
+
+/**
+ * The browser's barcode detector, where supported (Chromium and Safari on phones)
+ */
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  return (window as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+/**
+ * Staff check-in: scan a ticket with the camera, a hardware scanner (which
+ * types into the code field) or type the code by hand
+ */
+export function CheckInScanner({ eventId, stats, canClose }: CheckInScannerProps) {
+  const t = useTranslations("CheckIn");
+  const format = useFormatter();
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [cameraSupported, setCameraSupported] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [confirmingClose, setConfirmingClose] = useState(false);
+  const [closeMessage, setCloseMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCameraSupported(getBarcodeDetector() !== null);
+  }, []);
+
+  const checkIn = async (ticketCode: string) => {
+    if (!ticketCode.trim()) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/check-in`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: ticketCode }),
+      });
+      const body = await response.json();
+
+      setResult(
+        response.ok
+          ? { ok: true, ...body.data }
+          : { ok: false, code: body.code ?? "error", ...body.details }
+      );
+      router.refresh();
+    } catch {
+      setResult({ ok: false, code: "error" });
+    } finally {
+      setBusy(false);
+      setCode("");
+      inputRef.current?.focus();
+    }
+  };
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!scanning || !Detector) return;
+
+    const detector = new Detector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+
+      const [barcode] = await detector.detect(video);
+      if (barcode && !stopped) {
+        stopped = true;
+        setScanning(false);
+        await checkIn(barcode.rawValue);
+      }
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (media) => {
+        stream = media;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        timer = setInterval(scan, SCAN_INTERVAL_MS);
+      })
+      .catch(() => {
+        setScanning(false);
+        setResult({ ok: false, code: "cameraUnavailable" });
+      });
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+    // checkIn only changes with the event, which never changes on this screen
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanning]);
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    void checkIn(code);
+  };
+
+  const close = async () => {
+    setConfirmingClose(false);
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/check-in/close`, { method: "POST" });
+      const body = await response.json();
+      setCloseMessage(response.ok ? t("closed", { count: body.data.noShows }) : t("errors.error"));
+      router.refresh();
+    } catch {
+      setCloseMessage(t("errors.error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const errorMessage = (failure: Extract<ScanResult, { ok: false }>) => {
+    switch (failure.code) {
+      case "ALREADY_CHECKED_IN":
+        return t("errors.alreadyCheckedIn", {
+          attendee: failure.attendee ?? "",
+          time: failure.checkedInAt
+            ? format.dateTime(new Date(failure.checkedInAt), { timeStyle: "short" })
+            : "",
+        });
+      case "TICKET_NOT_VALID":
+        return t("errors.notValid", { attendee: failure.attendee ?? "" });
+      case "TICKET_WRONG_EVENT":
+        return t("errors.wrongEvent");
+      case "INVALID_TICKET":
+        return t("errors.invalid");
+      case "cameraUnavailable":
+        return t("errors.cameraUnavailable");
+      default:
+        return t("errors.error");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <dl className="grid grid-cols-3 gap-4 text-center">
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <dt className="text-sm text-gray-500">{t("checkedIn")}</dt>
+          <dd className="text-2xl font-bold text-green-700">{stats.checkedIn}</dd>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <dt className="text-sm text-gray-500">{t("expected")}</dt>
+          <dd className="text-2xl font-bold text-gray-900">{stats.confirmed}</dd>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <dt className="text-sm text-gray-500">{t("noShows")}</dt>
+          <dd className="text-2xl font-bold text-gray-500">{stats.noShows}</dd>
+        </div>
+      </dl>
+
+      <form onSubmit={submit} className="flex gap-2">
+        <Input
+          ref={inputRef}
+          autoFocus
+          aria-label={t("code")}
+          placeholder={t("codePlaceholder")}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+        <Button type="submit" disabled={busy || !code.trim()}>
+          {t("checkIn")}
+        </Button>
+      </form>
+
+      {cameraSupported && (
+        <div className="space-y-3">
+          <Button variant="outline" onClick={() => setScanning((current) => !current)}>
+            {scanning ? t("stopCamera") : t("scanWithCamera")}
+          </Button>
+          {scanning && (
+            <video ref={videoRef} muted playsInline className="w-full max-w-sm rounded-lg" />
+          )}
+        </div>
+      )}
+
+      {result &&
+        (result.ok ? (
+          <Alert variant="success">
+            <p className="font-semibold">
+              {t("welcome", { attendee: result.attendee, count: result.groupSize })}
+            </p>
+            {result.members.length > 0 && (
+              <ul className="mt-2 list-inside list-disc text-sm">
+                {result.members.map((member, index) => (
+                  <li key={member.registrationId ?? index}>
+                    {member.name} –{" "}
+                    {member.status === "ATTENDED"
+                      ? t("memberCheckedIn")
+                      : member.registrationId
+                        ? t("memberOwnTicket")
+                        : t("memberWithLeader")}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Alert>
+        ) : (
+          <Alert variant="error">{errorMessage(result)}</Alert>
+        ))}
+
+      {canClose && (
+        <div className="space-y-3 border-t border-gray-200 pt-6">
+          <p className="text-sm text-gray-600">{t("closeDescription")}</p>
+          {confirmingClose ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="font-medium text-gray-900">
+                {t("closeConfirm", { count: stats.confirmed })}
+              </p>
+              <Button variant="destructive" onClick={close} disabled={busy}>
+                {t("close")}
+              </Button>
+              <Button variant="ghost" onClick={() => setConfirmingClose(false)}>
+                {t("cancel")}
+              </Button>
+            </div>
+          ) : (
+            <Button variant="destructive" onClick={() => setConfirmingClose(true)} disabled={busy}>
+              {t("close")}
+            </Button>
+          )}
+          {closeMessage && <Alert variant="info">{closeMessage}</Alert>}
+        </div>
+      )}
+    </div>
+  );
+}
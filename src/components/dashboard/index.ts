@@ -0,0 +1,16 @@
+// Dashboard components
+export { ApprovalQueue } from "./approval-queue";
+export type { ApprovalQueueEventItem, ApprovalQueueRegistration } from "./approval-queue";
+export { CheckInScanner } from "./check-in-scanner";
+export { BankReconciliation } from "./bank-reconciliation";
+export type { ReconciliationBankAccount, ReconciliationTransaction } from "./bank-reconciliation";
+export { PaymentClaimQueue } from "./payment-claim-queue";
+export type { PaymentClaimFilterValues, PaymentClaimItem } from "./payment-claim-queue";
+export { RevenueReport } from "./revenue-report";
+export type { RevenueReportFilterValues, RevenueReportRow } from "./revenue-report";
+export { RoleGrantManager } from "./role-grant-manager";
+export type { RoleGrantItem } from "./role-grant-manager";
+export { RoleEditor } from "./role-editor";
+export type { PermissionGroup, RoleEditorValues } from "./role-editor";
+export { UserSuspensionManager } from "./user-suspension-manager";
+export type { SuspendedUserItem } from "./user-suspension-manager";
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { usePathname, useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface PaymentClaimItem {
+  id: string;
+  attendee: string;
+  email: string;
+  event: string;
+  /** Formatted amount with currency */
+  amount: string;
+  variableSymbol: string | null;
+  claimedAt: string;
+  /** Hours since the claim */
+  ageHours: number;
+  escalated: boolean;
+  /** Note the attendee added to the claim */
+  note: string | null;
+}
+
+export interface PaymentClaimFilterValues {
+  eventId: string;
+  minAgeHours: string;
+}
+
+interface PaymentClaimQueueProps {
+  claims: PaymentClaimItem[];
+  events: { id: string; title: string }[];
+  filter: PaymentClaimFilterValues;
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const AGE_OPTIONS = [24, 48, 168];
+
+/**
+ * Payment claims awaiting verification, filterable by event and age, with
+ * verify and reject actions
+ */
+export function PaymentClaimQueue({ claims, events, filter }: PaymentClaimQueueProps) {
+  const t = useTranslations("PaymentClaims");
+  const router = useRouter();
+  const pathname = usePathname();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [cancel, setCancel] = useState<Record<string, boolean>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const applyFilter = (next: Partial<PaymentClaimFilterValues>) => {
+    const values = { ...filter, ...next };
+    const query = new URLSearchParams(
+      Object.entries(values).filter(([, value]) => value !== "")
+    ).toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const review = async (claim: PaymentClaimItem, action: "VERIFY" | "REJECT") => {
+    const note = notes[claim.id]?.trim();
+    if (action === "REJECT" && !note) {
+      setError(t("notesRequired"));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setDone(null);
+
+    try {
+      const response = await fetch(`/api/payments/claims/${claim.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action === "VERIFY"
+            ? { action, ...(note && { notes: note }) }
+            : { action, notes: note, cancelRegistration: cancel[claim.id] ?? false }
+        ),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error ?? t("error"));
+        return;
+      }
+
+      setDone(t(action === "VERIFY" ? "verified" : "rejected", { attendee: claim.attendee }));
+      router.refresh();
+    } catch {
+      setError(t("error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
+        <select
+          aria-label={t("event")}
+          className={SELECT_CLASS}
+          value={filter.eventId}
+          onChange={(e) => applyFilter({ eventId: e.target.value })}
+        >
+          <option value="">{t("allEvents")}</option>
+          {events.map((event) => (
+            <option key={event.id} value={event.id}>
+              {event.title}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t("age")}
+          className={SELECT_CLASS}
+          value={filter.minAgeHours}
+          onChange={(e) => applyFilter({ minAgeHours: e.target.value })}
+        >
+          <option value="">{t("anyAge")}</option>
+          {AGE_OPTIONS.map((hours) => (
+            <option key={hours} value={hours}>
+              {t("olderThan", { hours })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {done && <Alert variant="success">{done}</Alert>}
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        {claims.length === 0 ? (
+          <p className="text-gray-600">{t("empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {claims.map((claim) => (
+              <li key={claim.id} className="space-y-3 py-4">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {claim.attendee} · {claim.amount}
+                      {claim.variableSymbol && ` · VS ${claim.variableSymbol}`}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {claim.email} · {claim.event}
+                    </p>
+                  </div>
+                  <span
+                    className={`rounded px-2 py-0.5 text-xs font-medium ${
+                      claim.escalated ? "bg-red-100 text-red-800" : "bg-gray-100 text-gray-700"
+                    }`}
+                  >
+                    {t("claimedAt", { date: claim.claimedAt, hours: claim.ageHours })}
+                  </span>
+                </div>
+                {claim.note && <p className="text-sm text-gray-600">“{claim.note}”</p>}
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    aria-label={t("notes")}
+                    placeholder={t("notesPlaceholder")}
+                    className="max-w-xs"
+                    maxLength={1000}
+                    value={notes[claim.id] ?? ""}
+                    onChange={(e) =>
+                      setNotes((current) => ({ ...current, [claim.id]: e.target.value }))
+                    }
+                  />
+                  <Button onClick={() => review(claim, "VERIFY")} disabled={busy}>
+                    {t("verify")}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => review(claim, "REJECT")}
+                    disabled={busy}
+                  >
+                    {t("reject")}
+                  </Button>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={cancel[claim.id] ?? false}
+                      onChange={(e) =>
+                        setCancel((current) => ({ ...current, [claim.id]: e.target.checked }))
+                      }
+                    />
+                    {t("cancelRegistration")}
+                  </label>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
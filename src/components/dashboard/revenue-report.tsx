@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { usePathname, useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface RevenueReportRow {
+  eventId: string;
+  title: string;
+  startDate: string;
+  payments: number;
+  /** Formatted amounts in the report currency */
+  received: string;
+  refunded: string;
+  net: string;
+  currencies: string[];
+}
+
+export interface RevenueReportFilterValues {
+  from: string;
+  to: string;
+  currency: string;
+}
+
+interface RevenueReportProps {
+  filter: RevenueReportFilterValues;
+  currencies: readonly string[];
+  rows: RevenueReportRow[];
+  totals: Pick<RevenueReportRow, "payments" | "received" | "refunded" | "net">;
+  /** Amounts left out for lack of a rate, e.g. "CZK 2026-03-02" */
+  unconverted: string[];
+  /** Day of the newest stored rate, if any */
+  latestRateDate: string | null;
+  canImportRates: boolean;
+}
+
+type ImportSummary = { days: number; imported: number };
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Revenue per event in a period, converted to one currency, with the upload
+ * of ECB reference rate files the conversion uses
+ */
+export function RevenueReport({
+  filter,
+  currencies,
+  rows,
+  totals,
+  unconverted,
+  latestRateDate,
+  canImportRates,
+}: RevenueReportProps) {
+  const t = useTranslations("RevenueReport");
+  const router = useRouter();
+  const pathname = usePathname();
+  const [values, setValues] = useState(filter);
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyFilter = (event: FormEvent) => {
+    event.preventDefault();
+    const query = new URLSearchParams(
+      Object.entries(values).filter(([, value]) => value !== "")
+    ).toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const upload = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    setSummary(null);
+
+    const body = new FormData();
+    body.append("file", file);
+
+    try {
+      const response = await fetch("/api/payments/exchange-rates", { method: "POST", body });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.code === "INVALID_RATES_FILE" ? result.error : t("error"));
+        return;
+      }
+
+      setSummary(result.data);
+      router.refresh();
+    } catch {
+      setError(t("error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={applyFilter}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm"
+      >
+        <label className="space-y-1 text-sm text-gray-600">
+          <span>{t("from")}</span>
+          <Input
+            type="date"
+            required
+            value={values.from}
+            onChange={(e) => setValues({ ...values, from: e.target.value })}
+          />
+        </label>
+        <label className="space-y-1 text-sm text-gray-600">
+          <span>{t("to")}</span>
+          <Input
+            type="date"
+            required
+            value={values.to}
+            onChange={(e) => setValues({ ...values, to: e.target.value })}
+          />
+        </label>
+        <label className="space-y-1 text-sm text-gray-600">
+          <span className="block">{t("currency")}</span>
+          <select
+            className={SELECT_CLASS}
+            value={values.currency}
+            onChange={(e) => setValues({ ...values, currency: e.target.value })}
+          >
+            {currencies.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button type="submit">{t("show")}</Button>
+      </form>
+
+      {unconverted.length > 0 && (
+        <Alert variant="warning">{t("missingRates", { amounts: unconverted.join(", ") })}</Alert>
+      )}
+
+      <section className="overflow-x-auto rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        {rows.length === 0 ? (
+          <p className="text-gray-600">{t("empty")}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-2 pr-4 font-medium">{t("event")}</th>
+                <th className="py-2 pr-4 text-right font-medium">{t("payments")}</th>
+                <th className="py-2 pr-4 text-right font-medium">{t("received")}</th>
+                <th className="py-2 pr-4 text-right font-medium">{t("refunded")}</th>
+                <th className="py-2 text-right font-medium">{t("net")}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.eventId}>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-gray-900">{row.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {row.startDate}
+                      {row.currencies.length > 0 && ` · ${row.currencies.join(", ")}`}
+                    </p>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{row.payments}</td>
+                  <td className="py-2 pr-4 text-right">{row.received}</td>
+                  <td className="py-2 pr-4 text-right">{row.refunded}</td>
+                  <td className="py-2 text-right font-medium">{row.net}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-gray-200 font-semibold text-gray-900">
+              <tr>
+                <td className="py-2 pr-4">{t("total")}</td>
+                <td className="py-2 pr-4 text-right">{totals.payments}</td>
+                <td className="py-2 pr-4 text-right">{totals.received}</td>
+                <td className="py-2 pr-4 text-right">{totals.refunded}</td>
+                <td className="py-2 text-right">{totals.net}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </section>
+
+      {canImportRates && (
+        <form
+          onSubmit={upload}
+          className="space-y-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+        >
+          <h2 className="text-xl font-semibold text-gray-900">{t("ratesTitle")}</h2>
+          <p className="text-sm text-gray-600">
+            {latestRateDate ? t("latestRate", { date: latestRateDate }) : t("noRates")}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              type="file"
+              aria-label={t("ratesFile")}
+              accept=".xml"
+              className="max-w-xs"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button type="submit" disabled={!file || busy}>
+              {t("importRates")}
+            </Button>
+          </div>
+          {summary && <Alert variant="success">{t("imported", summary)}</Alert>}
+          {error && <Alert variant="error">{error}</Alert>}
+        </form>
+      )}
+    </div>
+  );
+}
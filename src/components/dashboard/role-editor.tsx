@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface RoleEditorValues {
+  id: string;
+  name: string;
+  displayName: string;
+  description: string | null;
+  color: string | null;
+  priority: number;
+  isDefault: boolean;
+  isSystem: boolean;
+  permissions: string[];
+}
+
+export interface PermissionGroup {
+  group: string;
+  permissions: { name: string; description: string }[];
+}
+
+interface RoleEditorProps {
+  /** The role to edit; a new role is created without it */
+  role?: RoleEditorValues;
+  permissionGroups: PermissionGroup[];
+  /** Grants the role holds that are not in the registry; they are dropped on save */
+  unknownPermissions?: string[];
+}
+
+const DEFAULT_COLOR = "#6B7280";
+
+/**
+ * Form for creating or editing a role and picking its permissions from the
+ * registry, per permission or for a whole group
+ */
+export function RoleEditor({ role, permissionGroups, unknownPermissions = [] }: RoleEditorProps) {
+  const t = useTranslations("Roles");
+  const router = useRouter();
+  const [name, setName] = useState(role?.name ?? "");
+  const [displayName, setDisplayName] = useState(role?.displayName ?? "");
+  const [description, setDescription] = useState(role?.description ?? "");
+  const [color, setColor] = useState(role?.color ?? DEFAULT_COLOR);
+  const [priority, setPriority] = useState(String(role?.priority ?? 0));
+  const [isDefault, setIsDefault] = useState(role?.isDefault ?? false);
+  const [permissions, setPermissions] = useState<string[]>(role?.permissions ?? []);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const everything = permissions.includes("*");
+  const toggle = (grant: string, checked: boolean) =>
+    setPermissions((current) =>
+      checked ? [...current, grant] : current.filter((permission) => permission !== grant)
+    );
+
+  const request = async (url: string, init: Parameters<typeof fetch>[1]) => {
+    setBusy(true);
+    setError(null);
+    setDone(null);
+
+    try {
+      const response = await fetch(url, init);
+      const result = response.status === 204 ? null : await response.json();
+      if (!response.ok) {
+        setError(result?.error ?? t("error"));
+        return null;
+      }
+      return result ?? {};
+    } catch {
+      setError(t("error"));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async (e: FormEvent) => {
+    e.preventDefault();
+    const result = await request(role ? `/api/roles/${role.id}` : "/api/roles", {
+      method: role ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...(!role?.isSystem && { name }),
+        displayName,
+        description: description.trim() || null,
+        color,
+        priority: Number(priority),
+        isDefault,
+        permissions,
+      }),
+    });
+    if (!result) return;
+
+    if (role) {
+      setDone(t("saved"));
+      router.refresh();
+    } else {
+      router.push(`/dashboard/roles/${result.data.id}`);
+    }
+  };
+
+  const remove = async () => {
+    if (!role) return;
+
+    const result = await request(`/api/roles/${role.id}`, { method: "DELETE" });
+    if (result) {
+      router.push("/dashboard/roles");
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="space-y-6">
+      <section className="grid gap-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("name")}
+          <Input
+            required
+            value={name}
+            disabled={role?.isSystem}
+            onChange={(e) => setName(e.target.value.toUpperCase())}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("displayName")}
+          <Input required value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 sm:col-span-2">
+          {t("description")}
+          <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("color")}
+          <Input type="color" value={color} onChange={(e) => setColor(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("priority")}
+          <Input
+            type="number"
+            min={0}
+            max={1000}
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 sm:col-span-2">
+          <input
+            type="checkbox"
+            checked={isDefault}
+            disabled={role?.isDefault}
+            onChange={(e) => setIsDefault(e.target.checked)}
+          />
+          {t("isDefault")}
+        </label>
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900">{t("permissions")}</h2>
+        {unknownPermissions.length > 0 && (
+          <Alert variant="warning">
+            {t("unknownPermissions", { permissions: unknownPermissions.join(", ") })}
+          </Alert>
+        )}
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <input
+            type="checkbox"
+            checked={everything}
+            onChange={(e) => toggle("*", e.target.checked)}
+          />
+          {t("allPermissions")}
+        </label>
+        {permissionGroups.map(({ group, permissions: groupPermissions }) => {
+          const wildcard = `${group}.*`;
+          const wholeGroup = everything || permissions.includes(wildcard);
+
+          return (
+            <fieldset key={group} className="space-y-2 border-t border-gray-100 pt-3">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={wholeGroup}
+                  disabled={everything}
+                  onChange={(e) => toggle(wildcard, e.target.checked)}
+                />
+                {t("wholeGroup", { group })}
+              </label>
+              <div className="grid gap-1 pl-6 sm:grid-cols-2">
+                {groupPermissions.map((permission) => (
+                  <label
+                    key={permission.name}
+                    className="flex items-start gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={wholeGroup || permissions.includes(permission.name)}
+                      disabled={wholeGroup}
+                      onChange={(e) => toggle(permission.name, e.target.checked)}
+                    />
+                    <span>
+                      <code className="text-xs text-gray-500">{permission.name}</code>
+                      <br />
+                      {permission.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          );
+        })}
+      </section>
+
+      {done && <Alert variant="success">{done}</Alert>}
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <div className="flex flex-wrap gap-3">
+        <Button type="submit" disabled={busy}>
+          {role ? t("save") : t("create")}
+        </Button>
+        {role &&
+          !role.isSystem &&
+          (confirmingDelete ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <p className="font-medium text-gray-900">
+                {t("deleteConfirm", { role: role.displayName })}
+              </p>
+              <Button type="button" variant="destructive" onClick={remove} disabled={busy}>
+                {t("delete")}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setConfirmingDelete(false)}>
+                {t("cancel")}
+              </Button>
+            </div>
+          ) : (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => setConfirmingDelete(true)}
+              disabled={busy}
+            >
+              {t("delete")}
+            </Button>
+          ))}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface RoleGrantItem {
+  id: string;
+  user: string;
+  email: string;
+  role: string;
+  color: string | null;
+  assignedAt: string;
+  /** Formatted expiry, null for permanent grants */
+  expiresAt: string | null;
+  /** Whether the grant lapses within the reminder window */
+  expiringSoon: boolean;
+}
+
+interface RoleGrantManagerProps {
+  grants: RoleGrantItem[];
+  roles: { id: string; displayName: string }[];
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Grants roles to users, permanently or until a date, and lists the active
+ * grants with a revoke action
+ */
+export function RoleGrantManager({ grants, roles }: RoleGrantManagerProps) {
+  const t = useTranslations("RoleGrants");
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [roleId, setRoleId] = useState(roles[0]?.id ?? "");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const submit = async (request: () => Promise<Response>, message: string) => {
+    setBusy(true);
+    setError(null);
+    setDone(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error ?? t("error"));
+        return false;
+      }
+
+      setDone(message);
+      router.refresh();
+      return true;
+    } catch {
+      setError(t("error"));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const grant = async (e: FormEvent) => {
+    e.preventDefault();
+    const role = roles.find(({ id }) => id === roleId)?.displayName ?? "";
+    const granted = await submit(
+      () =>
+        fetch("/api/role-grants", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            email,
+            roleId,
+            ...(expiresAt && { expiresAt: new Date(expiresAt).toISOString() }),
+          }),
+        }),
+      t("granted", { role, email })
+    );
+    if (granted) {
+      setEmail("");
+      setExpiresAt("");
+    }
+  };
+
+  const revoke = (item: RoleGrantItem) =>
+    submit(
+      () => fetch(`/api/role-grants/${item.id}`, { method: "DELETE" }),
+      t("revoked", { role: item.role, email: item.email })
+    );
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={grant}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("email")}
+          <Input
+            type="email"
+            required
+            className="w-64"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("role")}
+          <select
+            className={SELECT_CLASS}
+            value={roleId}
+            onChange={(e) => setRoleId(e.target.value)}
+          >
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>
+                {role.displayName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("expiresAt")}
+          <Input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+          />
+        </label>
+        <Button type="submit" disabled={busy || !roleId}>
+          {t("grant")}
+        </Button>
+        <p className="w-full text-xs text-gray-500">{t("expiresAtHint")}</p>
+      </form>
+
+      {done && <Alert variant="success">{done}</Alert>}
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        {grants.length === 0 ? (
+          <p className="text-gray-600">{t("empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {grants.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {item.user} ·{" "}
+                    <span style={item.color ? { color: item.color } : undefined}>{item.role}</span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {item.email} · {t("assignedAt", { date: item.assignedAt })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span
+                    className={`rounded px-2 py-0.5 text-xs font-medium ${
+                      item.expiringSoon
+                        ? "bg-amber-100 text-amber-800"
+                        : "bg-gray-100 text-gray-700"
+                    }`}
+                  >
+                    {item.expiresAt ? t("until", { date: item.expiresAt }) : t("permanent")}
+                  </span>
+                  <Button variant="destructive" onClick={() => revoke(item)} disabled={busy}>
+                    {t("revoke")}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface SuspendedUserItem {
+  id: string;
+  user: string;
+  email: string;
+  reason: string | null;
+  suspendedAt: string | null;
+  /** Formatted end date, null until reactivated */
+  suspendedUntil: string | null;
+}
+
+interface UserSuspensionManagerProps {
+  users: SuspendedUserItem[];
+}
+
+/**
+ * Suspends accounts with a reason, until a date or until reactivated, and
+ * lists the suspended accounts with a reactivate action
+ */
+export function UserSuspensionManager({ users }: UserSuspensionManagerProps) {
+  const t = useTranslations("UserSuspensions");
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  /** Sends the request and returns its data, or null after showing the error */
+  const submit = async (request: () => Promise<Response>) => {
+    setBusy(true);
+    setError(null);
+    setDone(null);
+
+    try {
+      const response = await request();
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error ?? t("error"));
+        return null;
+      }
+
+      router.refresh();
+      return result.data as { cancelledRegistrations?: number };
+    } catch {
+      setError(t("error"));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const suspend = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await submit(() =>
+      fetch("/api/user-suspensions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email,
+          reason,
+          ...(until && { until: new Date(until).toISOString() }),
+        }),
+      })
+    );
+    if (data) {
+      const count = data.cancelledRegistrations ?? 0;
+      setDone(
+        count > 0 ? t("suspendedWithCancellations", { email, count }) : t("suspended", { email })
+      );
+      setEmail("");
+      setReason("");
+      setUntil("");
+    }
+  };
+
+  const reactivate = async (item: SuspendedUserItem) => {
+    const data = await submit(() =>
+      fetch(`/api/user-suspensions/${item.id}`, { method: "DELETE" })
+    );
+    if (data) {
+      setDone(t("reactivated", { email: item.email }));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={suspend}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("email")}
+          <Input
+            type="email"
+            required
+            className="w-64"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          {t("until")}
+          <Input type="datetime-local" value={until} onChange={(e) => setUntil(e.target.value)} />
+        </label>
+        <label className="flex w-full flex-col gap-1 text-sm text-gray-700">
+          {t("reason")}
+          <Input required value={reason} onChange={(e) => setReason(e.target.value)} />
+        </label>
+        <Button type="submit" variant="destructive" disabled={busy}>
+          {t("suspend")}
+        </Button>
+        <p className="w-full text-xs text-gray-500">{t("untilHint")}</p>
+      </form>
+
+      {done && <Alert variant="success">{done}</Alert>}
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        {users.length === 0 ? (
+          <p className="text-gray-600">{t("empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {users.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {item.user} · <span className="text-gray-600">{item.email}</span>
+                  </p>
+                  {item.reason && <p className="text-sm text-gray-700">{item.reason}</p>}
+                  <p className="text-sm text-gray-600">
+                    {item.suspendedAt && t("since", { date: item.suspendedAt })}
+                    {item.suspendedAt && " · "}
+                    {item.suspendedUntil
+                      ? t("endsAt", { date: item.suspendedUntil })
+                      : t("indefinite")}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={() => reactivate(item)} disabled={busy}>
+                  {t("reactivate")}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
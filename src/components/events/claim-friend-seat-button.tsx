@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+
+interface ClaimFriendSeatButtonProps {
+  token: string;
+}
+
+type ClaimState = "idle" | "claiming" | "claimed" | "alreadyRegistered" | "error";
+
+/**
+ * Claims a friend's seat in a group registration with the token from the invitation email
+ */
+export function ClaimFriendSeatButton({ token }: ClaimFriendSeatButtonProps) {
+  const t = useTranslations("GroupClaim");
+  const [state, setState] = useState<ClaimState>("idle");
+
+  const claim = async () => {
+    setState("claiming");
+
+    try {
+      const response = await fetch("/api/registrations/claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setState("claimed");
+      } else {
+        setState(result.code === "ALREADY_REGISTERED" ? "alreadyRegistered" : "error");
+      }
+    } catch {
+      setState("error");
+    }
+  };
+
+  if (state === "claimed") {
+    return <Alert variant="success">{t("claimed")}</Alert>;
+  }
+
+  if (state === "alreadyRegistered") {
+    return <Alert variant="warning">{t("alreadyRegistered")}</Alert>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {state === "error" && <Alert variant="error">{t("error")}</Alert>}
+      <Button size="lg" onClick={claim} disabled={state === "claiming"}>
+        {state === "claiming" ? t("claiming") : t("claim")}
+      </Button>
+    </div>
+  );
+}
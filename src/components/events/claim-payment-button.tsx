@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+interface ClaimPaymentButtonProps {
+  pendingPaymentId: string;
+}
+
+type ClaimState = "idle" | "claiming" | "claimed" | "error";
+
+/**
+ * Lets an attendee report a bank transfer as sent, so staff can verify it
+ * before the bank statement arrives
+ */
+export function ClaimPaymentButton({ pendingPaymentId }: ClaimPaymentButtonProps) {
+  const t = useTranslations("Payment");
+  const [note, setNote] = useState("");
+  const [state, setState] = useState<ClaimState>("idle");
+
+  const claim = async () => {
+    setState("claiming");
+
+    try {
+      const response = await fetch(`/api/pending-payments/${pendingPaymentId}/claim`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(note.trim() ? { note: note.trim() } : {}),
+      });
+
+      setState(response.ok ? "claimed" : "error");
+    } catch {
+      setState("error");
+    }
+  };
+
+  if (state === "claimed") {
+    return <Alert variant="success">{t("claimed")}</Alert>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-900">{t("claimTitle")}</p>
+      <p className="text-sm text-gray-600">{t("claimDescription")}</p>
+      {state === "error" && <Alert variant="error">{t("claimError")}</Alert>}
+      <div className="flex flex-wrap gap-2">
+        <Input
+          aria-label={t("claimNote")}
+          placeholder={t("claimNote")}
+          className="max-w-xs"
+          maxLength={500}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <Button onClick={claim} disabled={state === "claiming"}>
+          {state === "claiming" ? t("claiming") : t("claim")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+
+interface ClaimSpotButtonProps {
+  token: string;
+}
+
+type ClaimState = "idle" | "claiming" | "claimed" | "claimedPending" | "expired" | "error";
+
+/**
+ * Claims a waiting list promotion with the token from the promotion email
+ */
+export function ClaimSpotButton({ token }: ClaimSpotButtonProps) {
+  const t = useTranslations("WaitingListClaim");
+  const [state, setState] = useState<ClaimState>("idle");
+
+  const claim = async () => {
+    setState("claiming");
+
+    try {
+      const response = await fetch("/api/waiting-list/claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setState(result.data.status === "CONFIRMED" ? "claimed" : "claimedPending");
+      } else {
+        setState(result.code === "CLAIM_EXPIRED" ? "expired" : "error");
+      }
+    } catch {
+      setState("error");
+    }
+  };
+
+  if (state === "claimed" || state === "claimedPending") {
+    return <Alert variant="success">{t(state)}</Alert>;
+  }
+
+  if (state === "expired") {
+    return <Alert variant="warning">{t("expired")}</Alert>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {state === "error" && <Alert variant="error">{t("error")}</Alert>}
+      <Button size="lg" onClick={claim} disabled={state === "claiming"}>
+        {state === "claiming" ? t("claiming") : t("claim")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useTranslations } from "next-intl";
+import { EventStatus } from "@prisma/client";
+import { cn } from "@/lib/utils";
+import { formatDateTime } from "@/lib/formatters";
+import {
+  getRegistrationWindowState,
+  getRemainingSeats,
+  type RegistrationWindowFields,
+} from "@/lib/event-availability";
+
+interface EventAvailabilityProps {
+  event: RegistrationWindowFields & { capacity: number; timezone: string };
+  takenSeats: number;
+  locale: string;
+  className?: string;
+}
+
+const STATUS_LABELS: Partial<Record<EventStatus, "postponed" | "cancelled" | "completed">> = {
+  [EventStatus.POSTPONED]: "postponed",
+  [EventStatus.CANCELLED]: "cancelled",
+  [EventStatus.COMPLETED]: "completed",
+};
+
+/**
+ * Registration window state and remaining seats for an event
+ */
+export function EventAvailability({
+  event,
+  takenSeats,
+  locale,
+  className,
+}: EventAvailabilityProps) {
+  const t = useTranslations("Events");
+  const statusLabel = STATUS_LABELS[event.status];
+
+  if (statusLabel) {
+    return (
+      <div className={cn("flex flex-wrap items-center gap-2 text-sm", className)}>
+        <span className="rounded-full bg-yellow-100 px-3 py-1 font-medium text-yellow-800">
+          {t(statusLabel)}
+        </span>
+      </div>
+    );
+  }
+
+  const windowState = getRegistrationWindowState(event);
+  const remaining = getRemainingSeats(event.capacity, takenSeats);
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2 text-sm", className)}>
+      {windowState === "OPEN" && (
+        <span className="rounded-full bg-green-100 px-3 py-1 font-medium text-green-800">
+          {event.registrationEndDate
+            ? t("registrationCloses", {
+                date: formatDateTime(event.registrationEndDate, locale, event.timezone),
+              })
+            : t("registrationOpen")}
+        </span>
+      )}
+      {windowState === "NOT_OPEN" && event.registrationStartDate && (
+        <span className="rounded-full bg-blue-100 px-3 py-1 font-medium text-blue-800">
+          {t("registrationNotOpen", {
+            date: formatDateTime(event.registrationStartDate, locale, event.timezone),
+          })}
+        </span>
+      )}
+      {windowState === "CLOSED" && (
+        <span className="rounded-full bg-gray-100 px-3 py-1 font-medium text-gray-700">
+          {t("registrationClosed")}
+        </span>
+      )}
+      <span
+        className={cn(
+          "rounded-full px-3 py-1 font-medium",
+          remaining === 0 ? "bg-red-100 text-red-800" : "bg-gray-100 text-gray-700"
+        )}
+      >
+        {remaining === 0 ? t("soldOut") : t("seatsLeft", { count: remaining })}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useTranslations } from "next-intl";
+import { Link } from "@/i18n/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatCurrency, formatDateTime } from "@/lib/formatters";
+import type { EventWithRelations } from "@/lib/events";
+import { EventAvailability } from "./event-availability";
+
+interface EventCardProps {
+  /** Event with title, descriptions and category already localized */
+  event: EventWithRelations;
+  takenSeats: number;
+  locale: string;
+}
+
+/**
+ * Summary card for the public event list
+ */
+export function EventCard({ event, takenSeats, locale }: EventCardProps) {
+  const t = useTranslations("Events");
+  const location = event.isOnline
+    ? t("online")
+    : [event.venue, event.city].filter(Boolean).join(", ");
+
+  return (
+    <Link href={`/events/${event.slug}`} className="block h-full">
+      <Card className="flex h-full flex-col overflow-hidden transition-shadow hover:shadow-md">
+        {event.imageUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={event.imageUrl} alt="" className="h-40 w-full object-cover" />
+        )}
+        <CardHeader>
+          {event.category && (
+            <span
+              className="text-xs font-semibold uppercase tracking-wide text-gray-500"
+              style={event.category.color ? { color: event.category.color } : undefined}
+            >
+              {event.category.name}
+            </span>
+          )}
+          <CardTitle className="text-lg">{event.title}</CardTitle>
+          <CardDescription>
+            {formatDateTime(event.startDate, locale, event.timezone)}
+            {location && ` · ${location}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="mt-auto space-y-3">
+          {event.shortDescription && (
+            <p className="line-clamp-3 text-sm text-gray-600">{event.shortDescription}</p>
+          )}
+          <p className="text-sm font-medium text-gray-900">
+            {event.price && Number(event.price) > 0
+              ? formatCurrency(Number(event.price), event.currency, locale)
+              : t("free")}
+          </p>
+          <EventAvailability event={event} takenSeats={takenSeats} locale={locale} />
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+export interface GroupManagerFriend {
+  id: string;
+  name: string;
+  email: string | null;
+  claimed: boolean;
+}
+
+interface GroupManagerProps {
+  registrationId: string;
+  friends: GroupManagerFriend[];
+  /** Whether the group may still grow (registration open, group below the limit) */
+  canAddFriends: boolean;
+}
+
+/**
+ * Lets a group leader add and remove friends and hand over leadership
+ */
+export function GroupManager({ registrationId, friends, canAddFriends }: GroupManagerProps) {
+  const t = useTranslations("Registration");
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState(false);
+
+  const send = async (path: string, method: "POST" | "DELETE", body?: object) => {
+    setBusy(true);
+    setError(false);
+
+    try {
+      const response = await fetch(`/api/registrations/${registrationId}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+
+      if (!response.ok) {
+        setError(true);
+        return false;
+      }
+
+      router.refresh();
+      return true;
+    } catch {
+      setError(true);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addFriend = async (event: FormEvent) => {
+    event.preventDefault();
+    const added = await send("/friends", "POST", { name, ...(email.trim() && { email }) });
+    if (added) {
+      setName("");
+      setEmail("");
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <h3 className="font-semibold text-gray-900">{t("yourGroup")}</h3>
+      {error && <Alert variant="error">{t("error")}</Alert>}
+
+      {friends.length > 0 && (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+          {friends.map((friend) => (
+            <li key={friend.id} className="flex items-center justify-between gap-3 p-3">
+              <div>
+                <p className="font-medium text-gray-900">{friend.name}</p>
+                <p className="text-sm text-gray-500">
+                  {friend.email && `${friend.email} · `}
+                  {friend.claimed ? t("claimed") : t("notClaimed")}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {friend.claimed && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => send("/transfer", "POST", { friendId: friend.id })}
+                  >
+                    {t("makeLeader")}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => send(`/friends/${friend.id}`, "DELETE")}
+                >
+                  {t("removeFriend")}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAddFriends && (
+        <form onSubmit={addFriend} className="flex flex-wrap gap-2">
+          <Input
+            required
+            className="flex-1"
+            aria-label={t("friendName")}
+            placeholder={t("friendName")}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="email"
+            className="flex-1"
+            aria-label={t("friendEmail")}
+            placeholder={t("friendEmail")}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={busy}>
+            {t("addFriend")}
+          </Button>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Alert } from "@/components/ui/alert";
+
+interface GuestLinkButtonProps {
+  token: string;
+  action: "verify" | "cancel";
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  LINK_ALREADY_USED: "alreadyUsed",
+  ALREADY_REGISTERED: "alreadyRegistered",
+  REGISTRATION_NOT_ACTIVE: "notActive",
+  INVALID_TOKEN: "invalidLink",
+};
+
+/**
+ * Confirms or cancels a guest registration with the token from an emailed link
+ */
+export function GuestLinkButton({ token, action }: GuestLinkButtonProps) {
+  const t = useTranslations("GuestRegistration");
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ key: string; success: boolean } | null>(null);
+
+  const submit = async () => {
+    setPending(true);
+
+    try {
+      const response = await fetch(`/api/registrations/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setMessage({ key: ERROR_MESSAGES[result.code] ?? "error", success: false });
+      } else if (action === "verify") {
+        const key = result.data.outcome === "REGISTERED" ? "registered" : "waitingList";
+        setMessage({ key, success: true });
+      } else {
+        const key = result.data.cancelled === "REGISTRATION" ? "cancelled" : "leftWaitingList";
+        setMessage({ key, success: true });
+      }
+    } catch {
+      setMessage({ key: "error", success: false });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (message?.success) {
+    return <Alert variant="success">{t(message.key)}</Alert>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && <Alert variant="error">{t(message.key)}</Alert>}
+      <Button
+        size="lg"
+        variant={action === "cancel" ? "destructive" : "default"}
+        onClick={submit}
+        disabled={pending}
+      >
+        {pending ? t(`${action}Pending`) : t(action)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+
+interface GuestRegistrationFormProps {
+  eventId: string;
+}
+
+type FormState = "idle" | "submitting" | "sent";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  TOO_MANY_REQUESTS: "tooManyRequests",
+  ALREADY_REGISTERED: "alreadyRegistered",
+};
+
+/**
+ * Starts a registration without an account; the guest confirms it from the emailed link
+ */
+export function GuestRegistrationForm({ eventId }: GuestRegistrationFormProps) {
+  const t = useTranslations("GuestRegistration");
+  const locale = useLocale();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [state, setState] = useState<FormState>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setState("submitting");
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/guest-registrations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, email, locale, ...(phone.trim() && { phone }) }),
+      });
+
+      if (response.ok) {
+        setState("sent");
+        return;
+      }
+
+      const result = await response.json();
+      setError(ERROR_MESSAGES[result.code] ?? "error");
+      setState("idle");
+    } catch {
+      setError("error");
+      setState("idle");
+    }
+  };
+
+  if (state === "sent") {
+    return <Alert variant="info">{t("checkEmail", { email })}</Alert>;
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <p className="text-sm text-gray-600">{t("orAsGuest")}</p>
+      {error && <Alert variant="error">{t(error)}</Alert>}
+      <div className="grid gap-2 sm:grid-cols-3">
+        <Input
+          required
+          aria-label={t("name")}
+          placeholder={t("name")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          required
+          type="email"
+          aria-label={t("email")}
+          placeholder={t("email")}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Input
+          type="tel"
+          aria-label={t("phone")}
+          placeholder={t("phone")}
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+        />
+      </div>
+      <Button type="submit" variant="outline" disabled={state === "submitting"}>
+        {state === "submitting" ? t("submitting") : t("submit")}
+      </Button>
+    </form>
+  );
+}
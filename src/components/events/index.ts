@@ -0,0 +1,14 @@
+// Public event components
+export { EventCard } from "./event-card";
+export { EventAvailability } from "./event-availability";
+export { ClaimSpotButton } from "./claim-spot-button";
+export { ClaimFriendSeatButton } from "./claim-friend-seat-button";
+export { RegistrationForm } from "./registration-form";
+export { GroupManager } from "./group-manager";
+export type { GroupManagerFriend } from "./group-manager";
+export { RegistrationPanel } from "./registration-panel";
+export { GuestRegistrationForm } from "./guest-registration-form";
+export { GuestLinkButton } from "./guest-link-button";
+export { PaymentInstructions } from "./payment-instructions";
+export { ClaimPaymentButton } from "./claim-payment-button";
+export type { PaymentInstructionsDetails } from "./payment-instructions";
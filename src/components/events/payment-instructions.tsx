@@ -0,0 +1,81 @@
+import { useTranslations } from "next-intl";
+import { Alert } from "@/components/ui/alert";
+import { ClaimPaymentButton } from "./claim-payment-button";
+
+export interface PaymentInstructionsDetails {
+  pendingPaymentId: string;
+  /** Formatted amount, e.g. "€25.00" */
+  amount: string;
+  /** Formatted payment deadline */
+  dueDate: string;
+  variableSymbol: string | null;
+  constantSymbol: string | null;
+  specificSymbol: string | null;
+  bankAccount: {
+    name: string;
+    bankName: string;
+    accountNumber: string;
+    bankCode: string;
+    iban: string | null;
+    swift: string | null;
+  } | null;
+  qrCodeUrl: string | null;
+  /** Formatted time the attendee reported the payment, while awaiting verification */
+  claimedAt: string | null;
+}
+
+interface PaymentInstructionsProps {
+  payment: PaymentInstructionsDetails;
+}
+
+/**
+ * Bank transfer details of an unpaid registration, with a QR code for
+ * banking apps when the account supports it
+ */
+export function PaymentInstructions({ payment }: PaymentInstructionsProps) {
+  const t = useTranslations("Payment");
+  const account = payment.bankAccount;
+
+  const rows: [string, string | null][] = [
+    [t("amount"), payment.amount],
+    [t("dueDate"), payment.dueDate],
+    [t("recipient"), account?.name ?? null],
+    [t("accountNumber"), account ? `${account.accountNumber}/${account.bankCode}` : null],
+    [t("iban"), account?.iban ?? null],
+    [t("swift"), account?.swift ?? null],
+    [t("variableSymbol"), payment.variableSymbol],
+    [t("constantSymbol"), payment.constantSymbol],
+    [t("specificSymbol"), payment.specificSymbol],
+  ];
+
+  return (
+    <div className="space-y-4 rounded-lg bg-gray-50 p-4">
+      <h3 className="font-semibold text-gray-900">{t("title")}</h3>
+      <div className="flex flex-wrap gap-6">
+        <dl className="grid flex-1 grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {rows.map(([label, value]) =>
+            value ? (
+              <div key={label} className="contents">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900">{value}</dd>
+              </div>
+            ) : null
+          )}
+        </dl>
+        {payment.qrCodeUrl && (
+          <figure className="space-y-1 text-center">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={payment.qrCodeUrl} alt={t("qrCodeAlt")} width={200} height={200} />
+            <figcaption className="text-xs text-gray-500">{t("qrCodeHint")}</figcaption>
+          </figure>
+        )}
+      </div>
+      {!account && <p className="text-sm text-gray-600">{t("detailsByEmail")}</p>}
+      {payment.claimedAt ? (
+        <Alert variant="info">{t("claimedAt", { date: payment.claimedAt })}</Alert>
+      ) : (
+        <ClaimPaymentButton pendingPaymentId={payment.pendingPaymentId} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert } from "@/components/ui/alert";
+import { formatCurrency } from "@/lib/formatters";
+
+interface RegistrationFormProps {
+  eventId: string;
+  /** Largest group, including the person registering */
+  maxGroupSize: number;
+  /** Paid events take discount codes and show the price before registering */
+  isPaid: boolean;
+  /** Ticket types the event has price tiers for, e.g. "STUDENT" */
+  ticketTypes: string[];
+}
+
+interface FriendRow {
+  name: string;
+  email: string;
+}
+
+interface PriceQuote {
+  currency: string;
+  total: string;
+  discount: string;
+  tier: { name: string } | null;
+}
+
+// Errors the attendee can fix in the form
+const PRICING_ERRORS: Record<string, string> = {
+  DISCOUNT_CODE_INVALID: "discountCodeInvalid",
+  DISCOUNT_CODE_EXHAUSTED: "discountCodeExhausted",
+  TICKET_TYPE_UNAVAILABLE: "ticketTypeUnavailable",
+};
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Registers the signed-in user for an event, optionally with friends, a
+ * ticket type and a discount code
+ */
+export function RegistrationForm({
+  eventId,
+  maxGroupSize,
+  isPaid,
+  ticketTypes,
+}: RegistrationFormProps) {
+  const t = useTranslations("Registration");
+  const locale = useLocale();
+  const router = useRouter();
+  const [friends, setFriends] = useState<FriendRow[]>([]);
+  const [ticketType, setTicketType] = useState("");
+  const [discountCode, setDiscountCode] = useState("");
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pricing = {
+    ...(ticketType && { ticketType }),
+    ...(discountCode.trim() && { discountCode: discountCode.trim() }),
+  };
+
+  const errorMessage = (code: unknown) =>
+    typeof code === "string" && PRICING_ERRORS[code] ? t(PRICING_ERRORS[code]) : t("error");
+
+  const checkPrice = async () => {
+    setError(null);
+    setQuote(null);
+
+    const query = new URLSearchParams({ seats: String(friends.length + 1), ...pricing });
+    try {
+      const response = await fetch(`/api/events/${eventId}/price?${query}`);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(errorMessage(result.code));
+        return;
+      }
+      setQuote(result.data);
+    } catch {
+      setError(t("error"));
+    }
+  };
+
+  const updateFriend = (index: number, field: keyof FriendRow, value: string) => {
+    setFriends((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/registrations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          friends: friends.map(({ name, email }) => ({
+            name,
+            ...(email.trim() && { email }),
+          })),
+          ...pricing,
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setError(errorMessage(result?.code));
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError(t("error"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {isPaid && (
+        <div className="flex flex-wrap items-end gap-3">
+          {ticketTypes.length > 0 && (
+            <label className="space-y-1 text-sm text-gray-600">
+              <span className="block">{t("ticketType")}</span>
+              <select
+                className={SELECT_CLASS}
+                value={ticketType}
+                onChange={(e) => {
+                  setTicketType(e.target.value);
+                  setQuote(null);
+                }}
+              >
+                <option value="">{t("standardTicket")}</option>
+                {ticketTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {t(`ticketTypes.${type}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="space-y-1 text-sm text-gray-600">
+            <span>{t("discountCode")}</span>
+            <Input
+              value={discountCode}
+              maxLength={40}
+              onChange={(e) => {
+                setDiscountCode(e.target.value);
+                setQuote(null);
+              }}
+            />
+          </label>
+          <Button type="button" variant="outline" onClick={checkPrice}>
+            {t("checkPrice")}
+          </Button>
+        </div>
+      )}
+
+      {quote && (
+        <p className="text-sm text-gray-700">
+          {t("priceQuote", {
+            total: formatCurrency(Number(quote.total), quote.currency, locale),
+          })}
+          {quote.tier && ` · ${quote.tier.name}`}
+          {Number(quote.discount) > 0 &&
+            ` · ${t("priceDiscount", {
+              amount: formatCurrency(Number(quote.discount), quote.currency, locale),
+            })}`}
+        </p>
+      )}
+
+      {friends.length > 0 && (
+        <fieldset className="space-y-3">
+          <legend className="mb-1 text-sm font-medium text-gray-700">{t("bringFriends")}</legend>
+          {friends.map((friend, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                required
+                aria-label={t("friendName")}
+                placeholder={t("friendName")}
+                value={friend.name}
+                onChange={(e) => updateFriend(index, "name", e.target.value)}
+              />
+              <Input
+                type="email"
+                aria-label={t("friendEmail")}
+                placeholder={t("friendEmail")}
+                value={friend.email}
+                onChange={(e) => updateFriend(index, "email", e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setFriends((rows) => rows.filter((_, i) => i !== index));
+                  setQuote(null);
+                }}
+              >
+                {t("removeFriend")}
+              </Button>
+            </div>
+          ))}
+          <p className="text-sm text-gray-500">{t("friendEmailHint")}</p>
+        </fieldset>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="submit" size="lg" disabled={submitting}>
+          {submitting ? t("registering") : t("register")}
+        </Button>
+        {friends.length + 1 < maxGroupSize && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setFriends((rows) => [...rows, { name: "", email: "" }]);
+              setQuote(null);
+            }}
+          >
+            {t("addFriendRow")}
+          </Button>
+        )}
+      </div>
+      {maxGroupSize > 1 && (
+        <p className="text-sm text-gray-500">{t("groupLimit", { count: maxGroupSize })}</p>
+      )}
+    </form>
+  );
+}
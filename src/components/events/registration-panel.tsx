@@ -0,0 +1,120 @@
+import { useTranslations } from "next-intl";
+import { RegistrationStatus, type Registration, type WaitingList } from "@prisma/client";
+import { Link } from "@/i18n/navigation";
+import { LoginButton } from "@/components/auth";
+import { SEAT_HOLDING_STATUSES, type RegistrationWindowState } from "@/lib/event-availability";
+import { RegistrationForm } from "./registration-form";
+import { GroupManager, type GroupManagerFriend } from "./group-manager";
+import { GuestRegistrationForm } from "./guest-registration-form";
+import { PaymentInstructions, type PaymentInstructionsDetails } from "./payment-instructions";
+
+interface RegistrationPanelProps {
+  eventId: string;
+  windowState: RegistrationWindowState;
+  signedIn: boolean;
+  registration: Registration | null;
+  waitingListEntry: WaitingList | null;
+  /** Friends of the user's group, when they lead one */
+  friends: GroupManagerFriend[];
+  maxGroupSize: number;
+  /** Paid events need an account, so guests can't register for them */
+  isPaid: boolean;
+  /** Ticket types the event has price tiers for */
+  ticketTypes: string[];
+  /** Ticket of a confirmed registration */
+  ticketCode: string | null;
+  /** Bank transfer details while the registration fee is unpaid */
+  payment: PaymentInstructionsDetails | null;
+}
+
+/**
+ * The signed-in user's registration for an event, or the way to register
+ */
+export function RegistrationPanel({
+  eventId,
+  windowState,
+  signedIn,
+  registration,
+  waitingListEntry,
+  friends,
+  maxGroupSize,
+  isPaid,
+  ticketTypes,
+  ticketCode,
+  payment,
+}: RegistrationPanelProps) {
+  const t = useTranslations("Registration");
+  const isOpen = windowState === "OPEN";
+
+  if (registration && SEAT_HOLDING_STATUSES.includes(registration.status)) {
+    const status =
+      registration.status === RegistrationStatus.CONFIRMED
+        ? t("statusConfirmed")
+        : t("statusPending");
+
+    const ticketLink = ticketCode && (
+      <Link href={`/tickets/${ticketCode}`} className="text-blue-600 hover:underline">
+        {t("viewTicket")}
+      </Link>
+    );
+
+    if (registration.groupLeaderId) {
+      return (
+        <div className="space-y-2">
+          <p className="text-gray-700">
+            {t("groupMember")} {status}
+          </p>
+          {ticketLink}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-gray-700">{status}</p>
+          {ticketLink}
+        </div>
+        {payment && <PaymentInstructions payment={payment} />}
+        {(friends.length > 0 || isOpen) && (
+          <GroupManager
+            registrationId={registration.id}
+            friends={friends}
+            canAddFriends={isOpen && registration.groupSize < maxGroupSize}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if (waitingListEntry && !waitingListEntry.promotedAt) {
+    return (
+      <p className="text-gray-700">{t("waitingList", { position: waitingListEntry.position })}</p>
+    );
+  }
+
+  if (!isOpen) {
+    return null;
+  }
+
+  if (!signedIn) {
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <p className="text-gray-700">{t("signInToRegister")}</p>
+          <LoginButton />
+        </div>
+        {!isPaid && <GuestRegistrationForm eventId={eventId} />}
+      </div>
+    );
+  }
+
+  return (
+    <RegistrationForm
+      eventId={eventId}
+      maxGroupSize={maxGroupSize}
+      isPaid={isPaid}
+      ticketTypes={ticketTypes}
+    />
+  );
+}
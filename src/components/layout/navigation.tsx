@@ -32,6 +32,9 @@ export function Navigation({ currentLocale }: NavigationProps) {
             <Link href="/" className="text-gray-600 transition-colors hover:text-gray-900">
               {t("home")}
             </Link>
+            <Link href="/events" className="text-gray-600 transition-colors hover:text-gray-900">
+              {t("events")}
+            </Link>
             <Link href="/dashboard" className="text-gray-600 transition-colors hover:text-gray-900">
               {t("dashboard")}
             </Link>
@@ -78,6 +81,13 @@ export function Navigation({ currentLocale }: NavigationProps) {
               >
                 {t("home")}
               </Link>
+              <Link
+                href="/events"
+                className="rounded-md px-3 py-2 text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+                onClick={() => setIsMobileMenuOpen(false)}
+              >
+                {t("events")}
+              </Link>
               <Link
                 href="/dashboard"
                 className="rounded-md px-3 py-2 text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
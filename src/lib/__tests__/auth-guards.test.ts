@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('@/lib/users', () => ({ getCurrentAccount: vi.fn() }))
+vi.mock('@/lib/authorization', () => ({ getCurrentAccess: vi.fn() }))
+
+import { getCurrentAccount } from '@/lib/users'
+import { getCurrentAccess } from '@/lib/authorization'
+import { meetsRequirements, withApiAuth } from '@/lib/auth-guards'
+import { isProtectedPath, localeFromPathname, loginUrl } from '@/lib/auth-routes'
+
+const access = {
+  userId: 'user-1',
+  roles: ['EVENT_MANAGER'],
+  grants: ['events.*', 'payments.view'],
+  restriction: null,
+}
+
+describe('meetsRequirements', () => {
+  it('requires every permission by default', () => {
+    expect(meetsRequirements(access, {})).toBe(true)
+    expect(meetsRequirements(access, { permissions: ['events.update', 'payments.view'] })).toBe(
+      true
+    )
+    expect(meetsRequirements(access, { permissions: ['events.update', 'payments.refund'] })).toBe(
+      false
+    )
+    expect(
+      meetsRequirements(access, {
+        permissions: ['events.update', 'payments.refund'],
+        requireAllPermissions: false,
+      })
+    ).toBe(true)
+  })
+
+  it('requires one of the roles', () => {
+    expect(meetsRequirements(access, { roles: ['ADMIN', 'EVENT_MANAGER'] })).toBe(true)
+    expect(meetsRequirements(access, { roles: ['ADMIN'] })).toBe(false)
+    expect(meetsRequirements(access, { permissions: ['events.view'], roles: ['ADMIN'] })).toBe(
+      false
+    )
+  })
+})
+
+describe('withApiAuth', () => {
+  const request = new NextRequest('http://localhost/api/discount-codes')
+  const context = { params: Promise.resolve({}) }
+  const handler = vi.fn(async () => Response.json({ success: true }))
+  const route = withApiAuth({ permissions: ['events.update'] }, handler)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentAccount).mockResolvedValue({ id: 'user-1' } as never)
+    vi.mocked(getCurrentAccess).mockResolvedValue(access)
+  })
+
+  it('answers 401 when signed out', async () => {
+    vi.mocked(getCurrentAccount).mockResolvedValue(null)
+    vi.mocked(getCurrentAccess).mockResolvedValue(null)
+
+    const response = await route(request, context)
+
+    expect(response.status).toBe(401)
+    await expect(response.json()).resolves.toEqual({ success: false, error: 'Not authenticated' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('answers 403 for suspended accounts', async () => {
+    vi.mocked(getCurrentAccess).mockResolvedValue({
+      ...access,
+      roles: [],
+      grants: [],
+      restriction: 'SUSPENDED',
+    })
+
+    const response = await route(request, context)
+
+    expect(response.status).toBe(403)
+    await expect(response.json()).resolves.toMatchObject({ code: 'ACCOUNT_SUSPENDED' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('answers 403 without the permissions', async () => {
+    vi.mocked(getCurrentAccess).mockResolvedValue({ ...access, grants: ['events.view'] })
+
+    const response = await route(request, context)
+
+    expect(response.status).toBe(403)
+    await expect(response.json()).resolves.toEqual({
+      success: false,
+      error: 'Insufficient permissions',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('runs the handler with the user and their access', async () => {
+    const response = await route(request, context)
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith(request, context, { user: { id: 'user-1' }, access })
+  })
+
+  it('resolves the account only after its access, and not without a database user', async () => {
+    await route(request, context)
+
+    expect(vi.mocked(getCurrentAccess).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(getCurrentAccount).mock.invocationCallOrder[0] ?? 0
+    )
+
+    vi.mocked(getCurrentAccount).mockClear()
+    vi.mocked(getCurrentAccess).mockResolvedValue({ ...access, userId: null })
+
+    const response = await route(request, context)
+
+    expect(response.status).toBe(401)
+    expect(getCurrentAccount).not.toHaveBeenCalled()
+  })
+})
+
+describe('auth routes', () => {
+  it('protects the dashboard with or without a locale', () => {
+    expect(isProtectedPath('/dashboard')).toBe(true)
+    expect(isProtectedPath('/cs/dashboard/payments/claims')).toBe(true)
+    expect(isProtectedPath('/en/events/dashboard')).toBe(false)
+    expect(isProtectedPath('/dashboards')).toBe(false)
+    expect(isProtectedPath('/')).toBe(false)
+  })
+
+  it('finds the locale of a path', () => {
+    expect(localeFromPathname('/cs/dashboard')).toBe('cs')
+    expect(localeFromPathname('/dashboard')).toBe('en')
+    expect(localeFromPathname('/de/dashboard')).toBe('en')
+  })
+
+  it('builds a localized login URL that syncs the account and returns to the page', () => {
+    const url = new URL(loginUrl('cs', '/cs/dashboard/approvals?eventId=1'), 'http://localhost')
+    expect(url.pathname).toBe('/api/auth/login')
+    expect(url.searchParams.get('lang')).toBe('cs')
+    expect(url.searchParams.get('post_login_redirect_url')).toBe(
+      '/api/auth/sync?returnTo=%2Fcs%2Fdashboard%2Fapprovals%3FeventId%3D1'
+    )
+    expect(loginUrl('en', '//evil.example')).toBe(
+      '/api/auth/login?lang=en&post_login_redirect_url=%2Fapi%2Fauth%2Fsync'
+    )
+  })
+})
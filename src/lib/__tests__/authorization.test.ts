@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn() },
+  role: { findMany: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/users', () => ({ getCurrentAccount: vi.fn() }))
+
+import { getCurrentUser, getKindePermissions, getKindeRoles } from '@/lib/kinde-auth'
+import { getCurrentAccount } from '@/lib/users'
+import { expandPermissions, grantsPermission, isPermission } from '@/lib/permissions'
+import { getUserRoleAccess } from '@/lib/roles'
+import { getCurrentAccess, getUserPermissions, hasPermission } from '@/lib/authorization'
+
+const role = (name: string, permissions: unknown) => ({ id: `role-${name}`, name, permissions })
+
+describe('permission grants', () => {
+  it('matches exact names and wildcards', () => {
+    expect(grantsPermission(['events.view'], 'events.view')).toBe(true)
+    expect(grantsPermission(['events.view'], 'events.update')).toBe(false)
+    expect(grantsPermission(['events.*'], 'events.update')).toBe(true)
+    expect(grantsPermission(['events.*'], 'payments.view')).toBe(false)
+    expect(grantsPermission(['*'], 'audit.export')).toBe(true)
+    expect(grantsPermission([], 'events.view')).toBe(false)
+  })
+
+  it('expands wildcards to registered permissions and drops unknown names', () => {
+    expect(expandPermissions(['audit.*', 'profile.view', 'nonsense.read'])).toEqual([
+      'audit.view',
+      'audit.export',
+      'profile.view',
+    ])
+    expect(isPermission('audit.view')).toBe(true)
+    expect(isPermission('toString')).toBe(false)
+  })
+})
+
+describe('getUserRoleAccess', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('merges the primary role with the active assignments', async () => {
+    db.user.findUnique.mockResolvedValue({
+      primaryRole: role('MEMBER', ['events.view', 'events.register']),
+      userRoles: [
+        { role: role('EVENT_MANAGER', ['events.*', 42]) },
+        { role: role('MEMBER', ['events.view', 'events.register']) },
+      ],
+    })
+
+    const at = new Date('2026-06-01T00:00:00Z')
+    await expect(getUserRoleAccess(db as never, 'user-1', at)).resolves.toEqual({
+      roles: ['MEMBER', 'EVENT_MANAGER'],
+      permissions: ['events.view', 'events.register', 'events.*'],
+    })
+    expect(db.user.findUnique.mock.calls[0]?.[0].select.userRoles.where).toEqual({
+      isActive: true,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: at } }],
+    })
+    expect(db.role.findMany).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the default roles when the user holds none', async () => {
+    db.user.findUnique.mockResolvedValue({ primaryRole: null, userRoles: [] })
+    db.role.findMany.mockResolvedValue([role('MEMBER', ['profile.*'])])
+
+    await expect(getUserRoleAccess(db as never, 'user-1')).resolves.toEqual({
+      roles: ['MEMBER'],
+      permissions: ['profile.*'],
+    })
+    expect(db.role.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { isDefault: true } })
+    )
+  })
+})
+
+describe('current user access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'kp_1' } as never)
+    vi.mocked(getCurrentAccount).mockResolvedValue({ id: 'user-1', status: 'ACTIVE' } as never)
+    vi.mocked(getKindePermissions).mockResolvedValue(['payments.view'])
+    vi.mocked(getKindeRoles).mockResolvedValue(['Finance'])
+    db.user.findUnique.mockResolvedValue({
+      primaryRole: role('MEMBER', ['events.view']),
+      userRoles: [],
+    })
+  })
+
+  it('grants what either the database roles or the Kinde claims grant', async () => {
+    await expect(getCurrentAccess()).resolves.toEqual({
+      userId: 'user-1',
+      roles: ['MEMBER', 'Finance'],
+      grants: ['events.view', 'payments.view'],
+      restriction: null,
+    })
+    await expect(hasPermission('events.view')).resolves.toBe(true)
+    await expect(hasPermission('payments.view')).resolves.toBe(true)
+    await expect(hasPermission('payments.refund')).resolves.toBe(false)
+    await expect(getUserPermissions()).resolves.toEqual(['events.view', 'payments.view'])
+  })
+
+  it('uses the Kinde claims alone before the account exists in the database', async () => {
+    vi.mocked(getCurrentAccount).mockResolvedValue(null)
+
+    await expect(getCurrentAccess()).resolves.toEqual({
+      userId: null,
+      roles: ['Finance'],
+      grants: ['payments.view'],
+      restriction: null,
+    })
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('grants suspended accounts nothing until the suspension ends', async () => {
+    vi.mocked(getCurrentAccount).mockResolvedValue({
+      id: 'user-1',
+      status: 'SUSPENDED',
+      suspendedUntil: new Date(Date.now() + 60_000),
+    } as never)
+
+    await expect(getCurrentAccess()).resolves.toEqual({
+      userId: 'user-1',
+      roles: [],
+      grants: [],
+      restriction: 'SUSPENDED',
+    })
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+
+    vi.mocked(getCurrentAccount).mockResolvedValue({
+      id: 'user-1',
+      status: 'SUSPENDED',
+      suspendedUntil: new Date(Date.now() - 60_000),
+    } as never)
+
+    await expect(getCurrentAccess()).resolves.toMatchObject({ restriction: null })
+  })
+
+  it('grants nothing when signed out', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+    await expect(getCurrentAccess()).resolves.toBeNull()
+    await expect(hasPermission('events.view')).resolves.toBe(false)
+  })
+})
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    pendingPayment: { findUnique: vi.fn() },
+    bankTransaction: { create: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      bankAccount: { findUnique: vi.fn(), findMany: vi.fn() },
+      bankStatementImport: { create: vi.fn(), update: vi.fn() },
+      bankTransaction: { findMany: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+const completePendingPayment = vi.hoisted(() => vi.fn())
+const sendRegistrationConfirmation = vi.hoisted(() => vi.fn())
+const sendPaymentReceipt = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/payments', () => ({ completePendingPayment }))
+vi.mock('@/lib/registration-notifications', () => ({ sendRegistrationConfirmation }))
+vi.mock('@/lib/invoices', () => ({ sendPaymentReceipt }))
+
+import { getTransactionFingerprint, importBankStatement } from '@/lib/bank-reconciliation'
+import type { StatementTransaction } from '@/lib/bank-statement-parsers'
+
+const statement = [
+  'Datum;Objem;Měna;VS;ID pohybu',
+  '15.03.2026;25,00;EUR;2026000123;100200',
+  '15.03.2026;10,00;EUR;2026000124;100201',
+  '15.03.2026;-4,00;EUR;;100202',
+].join('\n')
+
+function pendingPayment(id: string, amount: string) {
+  return {
+    id,
+    status: 'PENDING',
+    currency: 'EUR',
+    amount: new Prisma.Decimal(amount),
+  }
+}
+
+function uniqueViolation(column: string) {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test',
+    meta: { target: [column] },
+  })
+}
+
+describe('importBankStatement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.bankAccount.findUnique.mockResolvedValue({ id: 'account-1', name: 'Main', iban: null })
+    db.bankStatementImport.create.mockResolvedValue({ id: 'import-1' })
+    db.bankTransaction.findMany.mockResolvedValue([])
+    tx.pendingPayment.findUnique.mockImplementation(async ({ where }) =>
+      where.variableSymbol === '2026000123'
+        ? pendingPayment('pp-1', '25.00')
+        : pendingPayment('pp-2', '20.00')
+    )
+    completePendingPayment.mockResolvedValue({
+      success: true,
+      data: { payment: { id: 'payment-1' }, confirmedRegistrationId: 'reg-1' },
+    })
+  })
+
+  it('completes exact payments and sends underpaid ones to review', async () => {
+    const result = await importBankStatement({
+      content: statement,
+      bankAccountId: 'account-1',
+      importedById: 'staff-1',
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        importId: 'import-1',
+        format: 'CSV',
+        bankAccountId: 'account-1',
+        transactions: 2,
+        duplicates: 0,
+        matched: 1,
+        needsReview: 1,
+      },
+    })
+    expect(completePendingPayment).toHaveBeenCalledTimes(1)
+    expect(completePendingPayment).toHaveBeenCalledWith(
+      tx,
+      expect.objectContaining({ pendingPaymentId: 'pp-1', reference: '100200' })
+    )
+    expect(tx.bankTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        variableSymbol: '2026000124',
+        status: 'NEEDS_REVIEW',
+        reviewReason: 'UNDERPAID',
+        pendingPaymentId: 'pp-2',
+        paymentId: null,
+      }),
+    })
+    expect(sendRegistrationConfirmation).toHaveBeenCalledWith('reg-1')
+    expect(sendPaymentReceipt).toHaveBeenCalledWith('payment-1')
+  })
+
+  it('skips transfers imported from an earlier statement', async () => {
+    const fingerprint = getTransactionFingerprint('account-1', {
+      reference: '100200',
+    } as StatementTransaction)
+    db.bankTransaction.findMany.mockResolvedValue([{ fingerprint }])
+
+    const result = await importBankStatement({
+      content: statement,
+      bankAccountId: 'account-1',
+      importedById: 'staff-1',
+    })
+
+    expect(result.success && result.data).toMatchObject({
+      transactions: 1,
+      duplicates: 1,
+      matched: 0,
+    })
+    expect(completePendingPayment).not.toHaveBeenCalled()
+  })
+
+  it('sends transfers for a payment that closed meanwhile to review', async () => {
+    completePendingPayment.mockResolvedValue({
+      success: false,
+      error: { code: 'PAYMENT_NOT_OPEN', message: 'expired', statusCode: 409 },
+    })
+
+    const result = await importBankStatement({
+      content: statement,
+      bankAccountId: 'account-1',
+      importedById: 'staff-1',
+    })
+
+    expect(result.success && result.data).toMatchObject({ matched: 0, needsReview: 2 })
+    expect(tx.bankTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        pendingPaymentId: 'pp-1',
+        status: 'NEEDS_REVIEW',
+        reviewReason: 'PAYMENT_NOT_OPEN',
+      }),
+    })
+  })
+
+  it('counts a transfer stored by a concurrent import as a duplicate', async () => {
+    tx.bankTransaction.create.mockRejectedValueOnce(uniqueViolation('fingerprint'))
+
+    const result = await importBankStatement({
+      content: statement,
+      bankAccountId: 'account-1',
+      importedById: 'staff-1',
+    })
+
+    expect(result.success && result.data).toMatchObject({
+      transactions: 1,
+      duplicates: 1,
+      matched: 0,
+    })
+    expect(sendPaymentReceipt).not.toHaveBeenCalled()
+  })
+
+  it('sends a transfer whose payment cannot be recorded to review', async () => {
+    completePendingPayment.mockRejectedValueOnce(uniqueViolation('variableSymbol'))
+
+    const result = await importBankStatement({
+      content: statement,
+      bankAccountId: 'account-1',
+      importedById: 'staff-1',
+    })
+
+    expect(result.success && result.data).toMatchObject({
+      transactions: 2,
+      duplicates: 0,
+      matched: 0,
+      needsReview: 2,
+    })
+    expect(completePendingPayment).toHaveBeenCalledTimes(1)
+    expect(tx.bankTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        variableSymbol: '2026000123',
+        status: 'NEEDS_REVIEW',
+        reviewReason: 'PAYMENT_CONFLICT',
+        pendingPaymentId: 'pp-1',
+        paymentId: null,
+      }),
+    })
+    expect(sendPaymentReceipt).not.toHaveBeenCalled()
+  })
+
+  it('rejects files that are not statements', async () => {
+    const result = await importBankStatement({
+      content: 'hello',
+      format: 'CSV',
+      importedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'INVALID_STATEMENT' } })
+    expect(db.bankStatementImport.create).not.toHaveBeenCalled()
+  })
+})
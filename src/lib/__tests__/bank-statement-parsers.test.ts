@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import {
+  StatementParseError,
+  decodeStatement,
+  detectStatementFormat,
+  extractPaymentSymbols,
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from '@/lib/bank-statement-parsers'
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>SK3112000000198742637541</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">25.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2026-03-15</Dt></BookgDt>
+        <AcctSvcrRef>B26031500001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>/VS2026000123/SS/KS0308</EndToEndId></Refs>
+          <RltdPties>
+            <Dbtr><Nm>Jana Nováková</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>SK8975000000000012345671</IBAN></Id></DbtrAcct>
+          </RltdPties>
+          <RmtInf><Ustrd>Registrácia</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">3.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2026-03-16</Dt></BookgDt>
+        <AcctSvcrRef>B26031600002</AcctSvcrRef>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+const mt940 = `:20:STMT260315
+:25:CZ6508000000192000145399
+:28C:00042/001
+:60F:C260314CZK1000,00
+:61:2603150315C1500,00NTRFNONREF//B26031500001
+:86:?20VS 2026000124?32Petr Svoboda?38CZ1208000000001234567899
+:61:2603160316D200,00NTRFNONREF//B26031600002
+:86:Poplatek za vedeni uctu
+:62F:C260316CZK2300,00
+-`
+
+describe('bank statement parsers', () => {
+  it('reads amounts with either decimal separator', () => {
+    expect(parseStatementAmount('1 234,56')).toEqual({ amount: '1234.56', negative: false })
+    expect(parseStatementAmount('1.234,5')).toEqual({ amount: '1234.50', negative: false })
+    expect(parseStatementAmount('-1,234.56')).toEqual({ amount: '1234.56', negative: true })
+    expect(parseStatementAmount('25 EUR')).toEqual({ amount: '25.00', negative: false })
+    expect(parseStatementAmount('abc')).toBeNull()
+  })
+
+  it('reads ISO and European dates', () => {
+    const expected = new Date('2026-03-05T00:00:00Z')
+    expect(parseStatementDate('2026-03-05')).toEqual(expected)
+    expect(parseStatementDate('5. 3. 2026')).toEqual(expected)
+    expect(parseStatementDate('05/03/2026 10:15')).toEqual(expected)
+    expect(parseStatementDate('yesterday')).toBeNull()
+  })
+
+  it('finds payment symbols in references and messages', () => {
+    expect(extractPaymentSymbols('/VS2026000123/SS/KS0308')).toEqual({
+      variableSymbol: '2026000123',
+      constantSymbol: '0308',
+      specificSymbol: null,
+    })
+    expect(extractPaymentSymbols('Platba VS: 0042, SS 77').variableSymbol).toBe('42')
+  })
+
+  it('detects the statement format', () => {
+    expect(detectStatementFormat(camt)).toBe('CAMT_053')
+    expect(detectStatementFormat(mt940)).toBe('MT940')
+    expect(detectStatementFormat('Datum;Objem\n1.3.2026;10')).toBe('CSV')
+  })
+
+  it('parses CAMT.053 entries', () => {
+    const statement = parseBankStatement(camt)
+
+    expect(statement.accountIban).toBe('SK3112000000198742637541')
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.transactions[0]).toMatchObject({
+      reference: 'B26031500001',
+      amount: '25.00',
+      currency: 'EUR',
+      credit: true,
+      variableSymbol: '2026000123',
+      constantSymbol: '0308',
+      counterpartyName: 'Jana Nováková',
+      counterpartyAccount: 'SK8975000000000012345671',
+      message: 'Registrácia',
+    })
+    expect(statement.transactions[1]).toMatchObject({ amount: '3.50', credit: false })
+  })
+
+  it('parses MT940 statement lines with structured details', () => {
+    const statement = parseBankStatement(mt940)
+
+    expect(statement.accountIban).toBe('CZ6508000000192000145399')
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.transactions[0]).toMatchObject({
+      reference: 'B26031500001',
+      bookingDate: new Date('2026-03-15T00:00:00Z'),
+      amount: '1500.00',
+      currency: 'CZK',
+      credit: true,
+      variableSymbol: '2026000124',
+      counterpartyName: 'Petr Svoboda',
+      counterpartyAccount: 'CZ1208000000001234567899',
+    })
+    expect(statement.transactions[1]).toMatchObject({
+      amount: '200.00',
+      credit: false,
+      message: 'Poplatek za vedeni uctu',
+    })
+  })
+
+  it('parses CSV exports with localized headers', () => {
+    const csv = [
+      'Číslo účtu;2000145399/0800',
+      '',
+      'Datum;Objem;Měna;Protiúčet;Název protiúčtu;VS;Zpráva pro příjemce;ID pohybu',
+      '15.03.2026;"1 500,00";CZK;123456789/0300;Petr Svoboda;2026000124;Registrace;100200',
+      '16.03.2026;-200,00;CZK;;;;Poplatek;100201',
+      ';1300,00;;;;;;',
+    ].join('\r\n')
+
+    const statement = parseBankStatement(csv, 'CSV')
+
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.transactions[0]).toMatchObject({
+      reference: '100200',
+      amount: '1500.00',
+      currency: 'CZK',
+      credit: true,
+      variableSymbol: '2026000124',
+      counterpartyName: 'Petr Svoboda',
+      counterpartyAccount: '123456789/0300',
+    })
+    expect(statement.transactions[1]).toMatchObject({ amount: '200.00', credit: false })
+  })
+
+  it('decodes Windows-1250 exports', () => {
+    // "Měna" in Windows-1250
+    const bytes = new Uint8Array([0x4d, 0xec, 0x6e, 0x61])
+    expect(decodeStatement(bytes)).toBe('Měna')
+  })
+
+  it('rejects files that are not statements', () => {
+    expect(() => parseBankStatement('hello;world\nfoo;bar', 'CSV')).toThrow(StatementParseError)
+    expect(() => parseBankStatement('<Document></Document>', 'CAMT_053')).toThrow(
+      StatementParseError
+    )
+  })
+})
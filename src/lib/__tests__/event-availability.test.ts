@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { getRegistrationWindowState, getRemainingSeats } from '@/lib/event-availability'
+
+describe('getRegistrationWindowState', () => {
+  const event = {
+    status: 'PUBLISHED' as const,
+    startDate: new Date('2025-06-01T18:00:00Z'),
+    registrationStartDate: new Date('2025-05-01T00:00:00Z'),
+    registrationEndDate: new Date('2025-05-30T00:00:00Z'),
+  }
+
+  it('is not open before the registration start date', () => {
+    expect(getRegistrationWindowState(event, new Date('2025-04-30T00:00:00Z'))).toBe('NOT_OPEN')
+  })
+
+  it('is open within the registration window', () => {
+    expect(getRegistrationWindowState(event, new Date('2025-05-15T00:00:00Z'))).toBe('OPEN')
+  })
+
+  it('closes at the registration end date', () => {
+    expect(getRegistrationWindowState(event, new Date('2025-05-30T00:00:00Z'))).toBe('CLOSED')
+  })
+
+  it('closes at the event start when there is no registration end date', () => {
+    const openEnded = { ...event, registrationStartDate: null, registrationEndDate: null }
+
+    expect(getRegistrationWindowState(openEnded, new Date('2025-06-01T17:59:00Z'))).toBe('OPEN')
+    expect(getRegistrationWindowState(openEnded, new Date('2025-06-01T18:00:00Z'))).toBe('CLOSED')
+  })
+
+  it('is closed for events that are not published', () => {
+    const postponed = { ...event, status: 'POSTPONED' as const }
+
+    expect(getRegistrationWindowState(postponed, new Date('2025-05-15T00:00:00Z'))).toBe('CLOSED')
+  })
+})
+
+describe('getRemainingSeats', () => {
+  it('never goes below zero', () => {
+    expect(getRemainingSeats(10, 4)).toBe(6)
+    expect(getRemainingSeats(10, 12)).toBe(0)
+  })
+})
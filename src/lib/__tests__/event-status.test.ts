@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    event: { findUnique: vi.fn(), update: vi.fn() },
+    registration: { findMany: vi.fn(), updateMany: vi.fn() },
+    pendingPayment: { findMany: vi.fn(), updateMany: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+    auditLog: { create: vi.fn() },
+  })
+  const db = mockPrismaClient({}, tx)
+  return { tx, db }
+})
+
+const sendTemplatedEmails = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmails }))
+
+import {
+  canTransitionEventStatus,
+  EVENT_STATUS_TRANSITIONS,
+  transitionEventStatus,
+} from '@/lib/event-status'
+
+describe('event status transitions', () => {
+  it('allows publishing a draft', () => {
+    expect(canTransitionEventStatus('DRAFT', 'PUBLISHED')).toBe(true)
+  })
+
+  it('allows postponing and re-publishing', () => {
+    expect(canTransitionEventStatus('PUBLISHED', 'POSTPONED')).toBe(true)
+    expect(canTransitionEventStatus('POSTPONED', 'PUBLISHED')).toBe(true)
+  })
+
+  it('allows cancelling from any open status', () => {
+    expect(canTransitionEventStatus('DRAFT', 'CANCELLED')).toBe(true)
+    expect(canTransitionEventStatus('PUBLISHED', 'CANCELLED')).toBe(true)
+    expect(canTransitionEventStatus('POSTPONED', 'CANCELLED')).toBe(true)
+  })
+
+  it('rejects moving a completed event back to draft', () => {
+    expect(canTransitionEventStatus('COMPLETED', 'DRAFT')).toBe(false)
+  })
+
+  it('rejects completing a draft or postponed event', () => {
+    expect(canTransitionEventStatus('DRAFT', 'COMPLETED')).toBe(false)
+    expect(canTransitionEventStatus('POSTPONED', 'COMPLETED')).toBe(false)
+  })
+
+  it('treats cancelled and completed as terminal', () => {
+    expect(EVENT_STATUS_TRANSITIONS.CANCELLED).toHaveLength(0)
+    expect(EVENT_STATUS_TRANSITIONS.COMPLETED).toHaveLength(0)
+  })
+})
+
+describe('transitionEventStatus', () => {
+  const event = {
+    id: 'event-1',
+    title: 'Spring meetup',
+    slug: 'spring-meetup',
+    status: 'PUBLISHED',
+    startDate: new Date('2020-03-01T18:00:00Z'),
+    endDate: new Date('2020-03-01T21:00:00Z'),
+    timezone: 'Europe/Prague',
+  }
+
+  const registrations = [
+    {
+      id: 'reg-1',
+      userId: 'user-1',
+      status: 'CONFIRMED',
+      guestEmail: null,
+      guestName: null,
+      user: { email: 'jana@example.com', name: 'Jana', preferredLocale: 'cs' },
+    },
+    {
+      id: 'reg-2',
+      userId: null,
+      status: 'PENDING',
+      guestEmail: 'guest@example.com',
+      guestName: 'Guest',
+      user: null,
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.event.findUnique.mockResolvedValue(event)
+    tx.event.update.mockImplementation(async ({ data }) => ({ ...event, ...data }))
+    tx.registration.findMany.mockResolvedValue(registrations)
+    tx.registration.updateMany.mockResolvedValue({ count: 2 })
+    tx.pendingPayment.findMany.mockResolvedValue([{ id: 'pp-1', userId: 'user-1' }])
+    tx.pendingPayment.updateMany.mockResolvedValue({ count: 1 })
+    sendTemplatedEmails.mockResolvedValue([{ success: true }, { success: true }])
+  })
+
+  it('cancels active registrations and pending payments with the event', async () => {
+    const result = await transitionEventStatus({
+      eventId: 'event-1',
+      status: 'CANCELLED',
+      performedById: 'manager-1',
+      reason: 'Venue closed',
+    })
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { previousStatus: 'PUBLISHED', affectedRegistrations: 2 },
+    })
+    expect(tx.$queryRaw).toHaveBeenCalled()
+    expect(tx.registration.updateMany).toHaveBeenCalledWith({
+      where: { eventId: 'event-1', status: { in: ['PENDING', 'CONFIRMED'] } },
+      data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+    })
+    expect(tx.pendingPayment.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['pp-1'] } },
+      data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+    })
+
+    const history = tx.registrationHistory.createMany.mock.calls[0]?.[0].data
+    expect(history).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        action: 'CANCELLED',
+        previousStatus: 'CONFIRMED',
+        newStatus: 'CANCELLED',
+        reason: 'Venue closed',
+      }),
+      expect.objectContaining({ userId: 'user-1', action: 'PENDING_PAYMENT_CANCELLED' }),
+    ])
+
+    const messages = sendTemplatedEmails.mock.calls[0]?.[0]
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatchObject({
+      templateName: 'event_cancelled',
+      recipient: { email: 'jana@example.com', locale: 'cs' },
+      variables: { reason: 'Venue closed' },
+    })
+    expect(messages[1].recipient).toMatchObject({ email: 'guest@example.com', userId: null })
+  })
+
+  it('marks confirmed registrations that never checked in as no-shows on completion', async () => {
+    tx.registration.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await transitionEventStatus({
+      eventId: 'event-1',
+      status: 'COMPLETED',
+      performedById: 'manager-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { affectedRegistrations: 1 } })
+    expect(tx.registration.updateMany).toHaveBeenCalledTimes(1)
+    expect(tx.registration.updateMany).toHaveBeenCalledWith({
+      where: { eventId: 'event-1', status: 'CONFIRMED' },
+      data: { status: 'NO_SHOW' },
+    })
+    expect(tx.pendingPayment.updateMany).not.toHaveBeenCalled()
+    expect(sendTemplatedEmails).not.toHaveBeenCalled()
+  })
+
+  it('writes an audit log entry for each transition', async () => {
+    const startDate = new Date('2020-04-01T18:00:00Z')
+
+    await transitionEventStatus({
+      eventId: 'event-1',
+      status: 'POSTPONED',
+      performedById: 'manager-1',
+      startDate,
+    })
+
+    expect(tx.event.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: {
+        status: 'POSTPONED',
+        startDate,
+        endDate: new Date('2020-04-01T21:00:00Z'),
+      },
+    })
+    expect(tx.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'manager-1',
+        action: 'UPDATE',
+        resource: 'Event',
+        resourceId: 'event-1',
+        oldData: {
+          status: 'PUBLISHED',
+          startDate: '2020-03-01T18:00:00.000Z',
+          endDate: '2020-03-01T21:00:00.000Z',
+        },
+        newData: {
+          status: 'POSTPONED',
+          startDate: '2020-04-01T18:00:00.000Z',
+          endDate: '2020-04-01T21:00:00.000Z',
+        },
+        changes: { status: { from: 'PUBLISHED', to: 'POSTPONED' } },
+      }),
+    })
+    expect(tx.registration.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('rejects transitions the lifecycle does not allow without side effects', async () => {
+    tx.event.findUnique.mockResolvedValue({ ...event, status: 'COMPLETED' })
+
+    await expect(
+      transitionEventStatus({ eventId: 'event-1', status: 'CANCELLED', performedById: 'manager-1' })
+    ).resolves.toMatchObject({ success: false, error: { code: 'INVALID_STATUS_TRANSITION' } })
+    expect(tx.event.update).not.toHaveBeenCalled()
+    expect(tx.auditLog.create).not.toHaveBeenCalled()
+  })
+})
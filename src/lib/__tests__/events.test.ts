@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/notification-templates', () => ({
+  sendTemplatedEmail: vi.fn(),
+}))
+
+import { buildEventWhere } from '@/lib/events'
+import { createEventSchema, eventListQuerySchema, updateEventSchema } from '@/lib/validations/event'
+import { MAX_SLUG_LENGTH } from '@/lib/slug'
+
+describe('buildEventWhere', () => {
+  it('hides drafts by default', () => {
+    const where = buildEventWhere({})
+
+    expect(where.AND).toEqual([{ status: { not: 'DRAFT' } }])
+  })
+
+  it('allows drafts for event managers', () => {
+    const where = buildEventWhere({}, { includeDrafts: true })
+
+    expect(where.AND).toBeUndefined()
+  })
+
+  it('maps filters to prisma conditions', () => {
+    const query = eventListQuerySchema.parse({
+      status: 'PUBLISHED',
+      type: 'WORKSHOP',
+      city: 'Brno',
+      isOnline: 'false',
+      from: '2025-01-01',
+      tags: 'react, node',
+    })
+    const where = buildEventWhere(query, { includeDrafts: true })
+
+    expect(where.status).toBe('PUBLISHED')
+    expect(where.type).toBe('WORKSHOP')
+    expect(where.city).toEqual({ equals: 'Brno', mode: 'insensitive' })
+    expect(where.isOnline).toBe(false)
+    expect(where.startDate).toEqual({ gte: new Date('2025-01-01') })
+    expect(where.tags).toEqual({ hasSome: ['react', 'node'] })
+  })
+})
+
+describe('event validation', () => {
+  const validEvent = {
+    title: 'Spring Meetup',
+    slug: 'spring-meetup',
+    capacity: 50,
+    startDate: '2025-04-01T18:00:00Z',
+  }
+
+  it('accepts a minimal event', () => {
+    expect(createEventSchema.safeParse(validEvent).success).toBe(true)
+  })
+
+  it('limits manual slugs to the length of generated ones', () => {
+    const slug = (length: number) => ({ ...validEvent, slug: 'a'.repeat(length) })
+
+    expect(createEventSchema.safeParse(slug(MAX_SLUG_LENGTH)).success).toBe(true)
+    expect(createEventSchema.safeParse(slug(MAX_SLUG_LENGTH + 1)).success).toBe(false)
+  })
+
+  it('rejects an end date before the start date', () => {
+    const result = createEventSchema.safeParse({ ...validEvent, endDate: '2025-03-01T18:00:00Z' })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects registration closing after the event starts', () => {
+    const result = createEventSchema.safeParse({
+      ...validEvent,
+      registrationEndDate: '2025-04-02T00:00:00Z',
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects capacity outside the allowed range', () => {
+    expect(createEventSchema.safeParse({ ...validEvent, capacity: 0 }).success).toBe(false)
+    expect(createEventSchema.safeParse({ ...validEvent, capacity: 10001 }).success).toBe(false)
+  })
+
+  it('rejects empty updates', () => {
+    expect(updateEventSchema.safeParse({}).success).toBe(false)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const db = vi.hoisted(() => ({
+  exchangeRate: { createMany: vi.fn(), findMany: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import {
+  convertAmount,
+  findRate,
+  importEcbRates,
+  loadExchangeRates,
+  parseEcbRates,
+} from '@/lib/exchange-rates'
+
+const ecbXml = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2026-03-06">
+      <Cube currency="USD" rate="1.0850"/>
+      <Cube currency="CZK" rate="25.010"/>
+    </Cube>
+    <Cube time='2026-03-05'>
+      <Cube currency='USD' rate='1.0812'/>
+      <Cube currency='CZK' rate='24.985'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+describe('parseEcbRates', () => {
+  it('reads every day of the file with its rates', () => {
+    const days = parseEcbRates(ecbXml)
+
+    expect(days.map((day) => day.date.toISOString())).toEqual([
+      '2026-03-06T00:00:00.000Z',
+      '2026-03-05T00:00:00.000Z',
+    ])
+    expect(days[1]?.rates.map(({ currency, rate }) => [currency, rate.toString()])).toEqual([
+      ['USD', '1.0812'],
+      ['CZK', '24.985'],
+    ])
+  })
+
+  it('returns nothing for files without reference rates', () => {
+    expect(parseEcbRates('<html><body>Not found</body></html>')).toEqual([])
+  })
+})
+
+describe('importEcbRates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.exchangeRate.createMany.mockResolvedValue({ count: 3 })
+  })
+
+  it('stores the rates, skipping days already imported', async () => {
+    const result = await importEcbRates(ecbXml)
+
+    expect(result).toMatchObject({ success: true, data: { days: 2, imported: 3 } })
+    expect(db.exchangeRate.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        { currency: 'CZK', date: new Date('2026-03-05T00:00:00Z'), rate: new Prisma.Decimal('24.985') },
+      ]),
+      skipDuplicates: true,
+    })
+  })
+
+  it('rejects files without reference rates', async () => {
+    const result = await importEcbRates('<Cube></Cube>')
+
+    expect(result).toMatchObject({ success: false, error: { code: 'INVALID_RATES_FILE' } })
+    expect(db.exchangeRate.createMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('conversion', () => {
+  const rows = [
+    { currency: 'CZK', date: new Date('2026-03-05T00:00:00Z'), rate: new Prisma.Decimal('25') },
+    { currency: 'CZK', date: new Date('2026-03-06T00:00:00Z'), rate: new Prisma.Decimal('24') },
+    { currency: 'USD', date: new Date('2026-03-06T00:00:00Z'), rate: new Prisma.Decimal('1.2') },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.exchangeRate.findMany.mockResolvedValue(rows)
+  })
+
+  const load = () =>
+    loadExchangeRates(
+      ['EUR', 'CZK', 'USD'],
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z')
+    )
+
+  it('only loads rates quoted against the euro', async () => {
+    await load()
+
+    expect(db.exchangeRate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          currency: { in: ['CZK', 'USD'] },
+          date: {
+            gte: new Date('2026-02-22T00:00:00Z'),
+            lte: new Date('2026-03-31T00:00:00Z'),
+          },
+        },
+      })
+    )
+  })
+
+  it('uses the latest rate on or before the day, covering weekends', async () => {
+    const history = await load()
+
+    expect(findRate(history, 'CZK', new Date('2026-03-05T15:00:00Z'))?.toString()).toBe('25')
+    // Saturday and Sunday use Friday's rate
+    expect(findRate(history, 'CZK', new Date('2026-03-08T10:00:00Z'))?.toString()).toBe('24')
+    expect(findRate(history, 'EUR', new Date('2026-03-08T10:00:00Z'))?.toString()).toBe('1')
+  })
+
+  it('has no rate before the first or long after the last stored day', async () => {
+    const history = await load()
+
+    expect(findRate(history, 'CZK', new Date('2026-03-04T12:00:00Z'))).toBeNull()
+    expect(findRate(history, 'CZK', new Date('2026-03-20T12:00:00Z'))).toBeNull()
+  })
+
+  it('converts through the euro at the rates of the day', async () => {
+    const history = await load()
+    const friday = new Date('2026-03-06T12:00:00Z')
+
+    expect(convertAmount(history, new Prisma.Decimal(480), 'CZK', 'EUR', friday)?.toString()).toBe('20')
+    expect(convertAmount(history, new Prisma.Decimal(20), 'EUR', 'CZK', friday)?.toString()).toBe('480')
+    expect(convertAmount(history, new Prisma.Decimal(480), 'CZK', 'USD', friday)?.toString()).toBe('24')
+    expect(convertAmount(history, new Prisma.Decimal(100), 'CZK', 'PLN', friday)).toBeNull()
+  })
+})
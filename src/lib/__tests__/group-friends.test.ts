@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGroupFriends,
+  friendClaimSubject,
+  parseFriendClaimSubject,
+  parseGroupFriends,
+} from '@/lib/group-friends'
+
+describe('parseGroupFriends', () => {
+  it('keeps valid entries and drops malformed ones', () => {
+    const friends = parseGroupFriends([
+      { id: 'f-1', position: 1, name: 'Jana' },
+      { name: 'No id' },
+      'not an object',
+    ])
+
+    expect(friends).toEqual([{ id: 'f-1', position: 1, name: 'Jana' }])
+  })
+
+  it('treats non-array values as an empty group', () => {
+    expect(parseGroupFriends(null)).toEqual([])
+    expect(parseGroupFriends({})).toEqual([])
+  })
+})
+
+describe('buildGroupFriends', () => {
+  it('numbers new friends after the existing ones', () => {
+    const existing = parseGroupFriends([{ id: 'f-1', position: 3, name: 'Jana' }])
+
+    const friends = buildGroupFriends([{ name: 'Petr' }, { name: 'Eva', email: 'eva@example.com' }], existing)
+
+    expect(friends.map((friend) => friend.position)).toEqual([4, 5])
+    expect(friends[1]).toMatchObject({ name: 'Eva', email: 'eva@example.com' })
+    expect(new Set(friends.map((friend) => friend.id)).size).toBe(2)
+  })
+})
+
+describe('friend claim subjects', () => {
+  it('round-trips the leader and friend IDs', () => {
+    expect(parseFriendClaimSubject(friendClaimSubject('reg-1', 'f-1'))).toEqual({
+      leaderId: 'reg-1',
+      friendId: 'f-1',
+    })
+  })
+
+  it('rejects malformed subjects', () => {
+    expect(parseFriendClaimSubject('reg-1')).toBeNull()
+    expect(parseFriendClaimSubject('a:b:c')).toBeNull()
+  })
+})
@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    event: { findUniqueOrThrow: vi.fn() },
+    registration: {
+      findUniqueOrThrow: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    user: { findUnique: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient({ registration: { findUnique: vi.fn() } }, tx)
+  return { tx, db }
+})
+
+const promoteFromWaitingList = vi.hoisted(() => vi.fn())
+const sendFriendInvitations = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/waiting-list', () => ({ promoteFromWaitingList }))
+vi.mock('@/lib/registration-notifications', () => ({ sendFriendInvitations }))
+vi.mock('@/lib/system-config', () => ({ getNumberConfig: vi.fn(async () => 10) }))
+
+import {
+  addGroupFriend,
+  claimFriendSeat,
+  removeGroupFriend,
+  transferGroupLeadership,
+} from '@/lib/group-registrations'
+import { friendClaimSubject } from '@/lib/group-friends'
+import { createSignedToken } from '@/lib/signed-tokens'
+
+const later = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+
+const event = {
+  id: 'event-1',
+  status: 'PUBLISHED',
+  capacity: 10,
+  registrationStartDate: null,
+  registrationEndDate: later,
+  startDate: later,
+}
+
+const claimedFriend = {
+  id: 'friend-1',
+  position: 1,
+  name: 'Petr',
+  email: 'petr@example.com',
+  registrationId: 'reg-2',
+}
+
+const leader = (overrides: Record<string, unknown> = {}) => ({
+  id: 'reg-1',
+  eventId: 'event-1',
+  userId: 'user-1',
+  status: 'CONFIRMED',
+  registrationType: 'GROUP',
+  registrationSource: 'WEB',
+  groupSize: 2,
+  friendsData: [claimedFriend],
+  requiresPayment: false,
+  pendingPayment: null,
+  discountCodeId: null,
+  guestEmail: null,
+  guestName: null,
+  dietaryRequirements: null,
+  specialRequests: null,
+  confirmedAt: new Date('2026-10-01T12:00:00Z'),
+  approvedAt: null,
+  ...overrides,
+})
+
+const child = (overrides: Record<string, unknown> = {}) => ({
+  id: 'reg-2',
+  eventId: 'event-1',
+  userId: 'user-2',
+  status: 'CONFIRMED',
+  groupLeaderId: 'reg-1',
+  ...overrides,
+})
+
+const manage = { registrationId: 'reg-1', performedById: 'user-1' }
+
+describe('group registrations', () => {
+  beforeEach(() => {
+    db.registration.findUnique.mockResolvedValue({
+      eventId: 'event-1',
+      userId: 'user-1',
+      groupLeaderId: null,
+    })
+    tx.event.findUniqueOrThrow.mockResolvedValue(event)
+    tx.registration.findUniqueOrThrow.mockResolvedValue(leader())
+    tx.registration.update.mockImplementation(async ({ where, data }) => ({
+      id: where.id,
+      ...data,
+    }))
+    tx.registration.create.mockImplementation(async ({ data }) => ({ id: 'reg-3', ...data }))
+  })
+
+  describe('addGroupFriend', () => {
+    it('refuses a friend when the event has no seat left', async () => {
+      tx.registration.groupBy.mockResolvedValue([{ eventId: 'event-1', _sum: { groupSize: 10 } }])
+
+      const result = await addGroupFriend({ ...manage, friend: { name: 'Eva' } })
+
+      expect(result).toMatchObject({ success: false, error: { code: 'EVENT_FULL' } })
+      expect(tx.registration.update).not.toHaveBeenCalled()
+      expect(sendFriendInvitations).not.toHaveBeenCalled()
+    })
+
+    it('takes one more seat and invites the friend', async () => {
+      tx.registration.groupBy.mockResolvedValue([{ eventId: 'event-1', _sum: { groupSize: 9 } }])
+
+      const result = await addGroupFriend({ ...manage, friend: { name: 'Eva' } })
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.data.friend).toMatchObject({ name: 'Eva', position: 2 })
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-1' },
+        data: expect.objectContaining({
+          groupSize: 3,
+          friendsData: [claimedFriend, expect.objectContaining({ name: 'Eva' })],
+        }),
+      })
+      expect(sendFriendInvitations).toHaveBeenCalledWith('reg-1', [result.data.friend.id])
+    })
+  })
+
+  describe('removeGroupFriend', () => {
+    it('frees the seat, cancels the claimed seat and promotes the waiting list', async () => {
+      tx.registration.findUnique.mockResolvedValue(child())
+
+      const result = await removeGroupFriend({ ...manage, friendId: 'friend-1' })
+
+      expect(result.success).toBe(true)
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-1' },
+        data: { groupSize: 1, friendsData: [], registrationType: 'INDIVIDUAL' },
+      })
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-2' },
+        data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+      })
+      expect(promoteFromWaitingList).toHaveBeenCalledWith('event-1')
+    })
+
+    it('does not promote anyone when the friend is not in the group', async () => {
+      const result = await removeGroupFriend({ ...manage, friendId: 'friend-9' })
+
+      expect(result).toMatchObject({ success: false, error: { code: 'FRIEND_NOT_FOUND' } })
+      expect(promoteFromWaitingList).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('transferGroupLeadership', () => {
+    it('makes the claimed friend the leader and the old leader a friend', async () => {
+      tx.registration.findUnique.mockResolvedValue(child())
+      tx.user.findUnique.mockResolvedValue({ name: 'Jana', email: 'jana@example.com' })
+
+      const result = await transferGroupLeadership({ ...manage, friendId: 'friend-1' })
+
+      expect(result).toMatchObject({ success: true, data: { id: 'reg-2', groupSize: 2 } })
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-2' },
+        data: expect.objectContaining({
+          isGroupLeader: true,
+          groupLeaderId: null,
+          groupSize: 2,
+          friendsData: [
+            expect.objectContaining({ name: 'Jana', position: 1, registrationId: 'reg-1' }),
+          ],
+        }),
+      })
+      expect(tx.registration.updateMany).toHaveBeenCalledWith({
+        where: { groupLeaderId: 'reg-1', id: { not: 'reg-2' } },
+        data: { groupLeaderId: 'reg-2' },
+      })
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-1' },
+        data: expect.objectContaining({
+          isGroupLeader: false,
+          groupLeaderId: 'reg-2',
+          groupSize: 1,
+        }),
+      })
+    })
+
+    it('waits for an outstanding group payment', async () => {
+      tx.registration.findUniqueOrThrow.mockResolvedValue(
+        leader({ pendingPayment: { id: 'pp-1', status: 'PENDING' } })
+      )
+
+      const result = await transferGroupLeadership({ ...manage, friendId: 'friend-1' })
+
+      expect(result).toMatchObject({ success: false, error: { code: 'GROUP_PAYMENT_PENDING' } })
+      expect(tx.registration.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('claimFriendSeat', () => {
+    const unclaimed = { id: 'friend-2', position: 2, name: 'Eva', email: 'eva@example.com' }
+    const token = (friendId: string) =>
+      createSignedToken('group-friend-claim', friendClaimSubject('reg-1', friendId), later)
+
+    beforeAll(() => {
+      process.env['JWT_SECRET'] = 'test-secret'
+    })
+
+    beforeEach(() => {
+      tx.registration.findUniqueOrThrow.mockResolvedValue(
+        leader({ groupSize: 3, friendsData: [claimedFriend, unclaimed] })
+      )
+    })
+
+    it('creates a child registration and links it to the friend', async () => {
+      tx.registration.findUnique.mockResolvedValue(null)
+
+      const result = await claimFriendSeat(token('friend-2'), 'user-3')
+
+      expect(result).toMatchObject({ success: true, data: { id: 'reg-3' } })
+      expect(tx.registration.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-3',
+          eventId: 'event-1',
+          status: 'CONFIRMED',
+          groupLeaderId: 'reg-1',
+          groupSize: 1,
+          friendPosition: 2,
+        }),
+      })
+      expect(tx.registration.update).toHaveBeenCalledWith({
+        where: { id: 'reg-1' },
+        data: { friendsData: [claimedFriend, { ...unclaimed, registrationId: 'reg-3' }] },
+      })
+    })
+
+    it('refuses a seat another account already claimed', async () => {
+      tx.registration.findUniqueOrThrow
+        .mockResolvedValueOnce(leader({ groupSize: 3, friendsData: [claimedFriend, unclaimed] }))
+        .mockResolvedValueOnce(child())
+
+      const result = await claimFriendSeat(token('friend-1'), 'user-3')
+
+      expect(result).toMatchObject({ success: false, error: { code: 'ALREADY_CLAIMED' } })
+      expect(tx.registration.create).not.toHaveBeenCalled()
+      expect(tx.registration.update).not.toHaveBeenCalled()
+    })
+
+    it('rejects a tampered link', async () => {
+      const result = await claimFriendSeat(`${token('friend-2')}x`, 'user-3')
+
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_TOKEN' } })
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
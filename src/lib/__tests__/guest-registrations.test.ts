@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    registration: { findMany: vi.fn(), update: vi.fn() },
+    waitingList: { findMany: vi.fn(), update: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      guestRegistrationRequest: { findUnique: vi.fn(), update: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db, paginate: vi.fn() }))
+
+vi.mock('@/lib/notification-templates', () => ({
+  sendTemplatedEmail: vi.fn().mockResolvedValue({ success: true }),
+}))
+
+import { mergeGuestRegistrations, verifyGuestRegistration } from '@/lib/guest-registrations'
+import { createSignedToken } from '@/lib/signed-tokens'
+
+describe('verifyGuestRegistration', () => {
+  beforeAll(() => {
+    process.env['JWT_SECRET'] = 'test-secret'
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects links signed for another purpose', async () => {
+    const token = createSignedToken('guest-cancellation', 'request-1', new Date(Date.now() + 60_000))
+
+    const result = await verifyGuestRegistration(token)
+
+    expect(!result.success && result.error.code).toBe('INVALID_TOKEN')
+    expect(db.guestRegistrationRequest.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('registers each link only once', async () => {
+    db.guestRegistrationRequest.findUnique.mockResolvedValue({
+      id: 'request-1',
+      verifiedAt: new Date(),
+      event: { id: 'event-1' },
+    })
+    const token = createSignedToken('guest-verification', 'request-1', new Date(Date.now() + 60_000))
+
+    const result = await verifyGuestRegistration(token)
+
+    expect(!result.success && result.error.code).toBe('LINK_ALREADY_USED')
+    expect(db.guestRegistrationRequest.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('mergeGuestRegistrations', () => {
+  const user = { id: 'user-1', email: 'Guest@example.com' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.waitingList.findMany.mockResolvedValue([])
+  })
+
+  it('moves guest registrations onto the account', async () => {
+    tx.registration.findMany
+      .mockResolvedValueOnce([{ id: 'reg-1', eventId: 'event-1' }])
+      .mockResolvedValueOnce([])
+
+    const merged = await mergeGuestRegistrations(user)
+
+    expect(merged).toBe(1)
+    expect(tx.registration.findMany).toHaveBeenCalledWith({
+      where: { userId: null, guestEmail: { equals: 'Guest@example.com', mode: 'insensitive' } },
+    })
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ userId: 'user-1', isGuestRequest: false, guestEmail: null }),
+    })
+    expect(tx.registrationHistory.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ eventId: 'event-1', action: 'GUEST_REGISTRATION_MERGED' })],
+    })
+  })
+
+  it('leaves events the user already attends under their account', async () => {
+    tx.registration.findMany
+      .mockResolvedValueOnce([{ id: 'reg-1', eventId: 'event-1' }])
+      .mockResolvedValueOnce([{ eventId: 'event-1' }])
+
+    const merged = await mergeGuestRegistrations(user)
+
+    expect(merged).toBe(0)
+    expect(tx.registration.update).not.toHaveBeenCalled()
+    expect(tx.registrationHistory.createMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    payment: { findUnique: vi.fn() },
+    invoice: { create: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      invoice: { findUnique: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+const config = vi.hoisted(() => ({ vatPayer: false }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+// The PDF labels come from the real messages
+vi.unmock('next-intl')
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmail: vi.fn() }))
+vi.mock('@/lib/system-config', () => ({
+  getBooleanConfig: vi.fn(async () => config.vatPayer),
+  getNumberConfig: vi.fn(async (_key: string, fallback: number) => fallback),
+  getStringConfig: vi.fn(async (key: string) => (key === 'invoices.supplier_name' ? 'Spolek Příklad' : '')),
+}))
+
+import {
+  calculateIncludedVat,
+  formatInvoiceNumber,
+  getInvoiceForDownload,
+  issueInvoice,
+  toInvoiceDocument,
+} from '@/lib/invoices'
+import { renderInvoicePdf } from '@/lib/invoice-pdf'
+
+const decimal = (value: string) => new Prisma.Decimal(value)
+
+const payment = {
+  id: 'payment-1',
+  userId: 'user-1',
+  status: 'COMPLETED',
+  amount: decimal('121.00'),
+  currency: 'CZK',
+  description: null,
+  variableSymbol: '2026000123',
+  paidAt: new Date('2026-03-15T00:00:00Z'),
+  verifiedAt: null,
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  invoice: null,
+  user: { email: 'jana@example.com', name: 'Jana Nováková', preferredLocale: 'cs' },
+  event: {
+    title: 'Workshop Žluťoučký kůň',
+    startDate: new Date('2026-03-20T17:00:00Z'),
+    timezone: 'Europe/Prague',
+    venue: 'Kavárna',
+    city: 'Brno',
+    isOnline: false,
+  },
+  bankAccount: {
+    bankName: 'Fio banka',
+    accountNumber: '2900123456',
+    bankCode: '2010',
+    iban: 'CZ6520100000002900123456',
+    swift: 'FIOBCZPPXXX',
+  },
+}
+
+describe('invoice numbering and VAT', () => {
+  it('numbers invoices per year with a padded sequence', () => {
+    expect(formatInvoiceNumber('', 2026, 42)).toBe('2026-00042')
+    expect(formatInvoiceNumber('FA', 2026, 1)).toBe('FA2026-00001')
+  })
+
+  it('computes the VAT included in a gross price', () => {
+    expect(calculateIncludedVat(decimal('121.00'), decimal('21')).toFixed(2)).toBe('21.00')
+    expect(calculateIncludedVat(decimal('100.00'), decimal('12')).toFixed(2)).toBe('10.71')
+  })
+})
+
+describe('issueInvoice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.vatPayer = false
+    tx.$queryRaw.mockResolvedValue([{ lastValue: 7 }])
+    tx.payment.findUnique.mockResolvedValue(payment)
+    tx.invoice.create.mockImplementation(async ({ data }) => ({ id: 'invoice-1', ...data }))
+  })
+
+  it('snapshots the payment, event and bank account in the attendee locale', async () => {
+    const result = await issueInvoice('payment-1')
+
+    expect(result.success).toBe(true)
+    const data = tx.invoice.create.mock.calls[0]?.[0].data
+    expect(data).toMatchObject({
+      number: `${new Date().getUTCFullYear()}-00007`,
+      sequence: 7,
+      locale: 'cs',
+      suppliedAt: payment.paidAt,
+      description: 'Workshop Žluťoučký kůň',
+      vatRate: null,
+      supplier: { name: 'Spolek Příklad' },
+      customer: { email: 'jana@example.com' },
+      event: { venue: 'Kavárna, Brno' },
+      bankAccount: { iban: 'CZ6520100000002900123456' },
+    })
+    expect(data.vatAmount.toFixed(2)).toBe('0.00')
+  })
+
+  it('breaks down VAT for VAT payers', async () => {
+    config.vatPayer = true
+
+    await issueInvoice('payment-1')
+
+    const data = tx.invoice.create.mock.calls[0]?.[0].data
+    expect(data.vatRate.toFixed(0)).toBe('21')
+    expect(data.vatAmount.toFixed(2)).toBe('21.00')
+  })
+
+  it('returns the existing invoice without drawing a new number', async () => {
+    tx.payment.findUnique.mockResolvedValue({ ...payment, invoice: { id: 'invoice-0' } })
+
+    const result = await issueInvoice('payment-1')
+
+    expect(result).toEqual({ success: true, data: { id: 'invoice-0' } })
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1)
+    expect(tx.invoice.create).not.toHaveBeenCalled()
+  })
+
+  it('only invoices completed payments', async () => {
+    tx.payment.findUnique.mockResolvedValue({ ...payment, status: 'REFUNDED' })
+
+    const result = await issueInvoice('payment-1')
+
+    expect(result).toMatchObject({ success: false, error: { code: 'PAYMENT_NOT_COMPLETED' } })
+  })
+})
+
+describe('getInvoiceForDownload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.invoice.findUnique.mockResolvedValue({ id: 'invoice-1', payment: { userId: 'user-1' } })
+  })
+
+  it('hides other people’s invoices', async () => {
+    const result = await getInvoiceForDownload({ invoiceId: 'invoice-1', userId: 'user-2' })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'INVOICE_NOT_FOUND' } })
+  })
+
+  it('lets staff download any invoice', async () => {
+    const result = await getInvoiceForDownload({
+      invoiceId: 'invoice-1',
+      userId: 'user-2',
+      canViewAll: true,
+    })
+
+    expect(result).toMatchObject({ success: true, data: { id: 'invoice-1' } })
+  })
+})
+
+describe('renderInvoicePdf', () => {
+  it('renders a PDF with Czech diacritics', async () => {
+    const document = toInvoiceDocument({
+      id: 'invoice-1',
+      number: '2026-00007',
+      year: 2026,
+      sequence: 7,
+      paymentId: 'payment-1',
+      locale: 'cs',
+      issuedAt: new Date('2026-03-15T10:00:00Z'),
+      suppliedAt: new Date('2026-03-15T00:00:00Z'),
+      currency: 'CZK',
+      total: decimal('121.00'),
+      vatRate: decimal('21'),
+      vatAmount: decimal('21.00'),
+      description: 'Workshop Žluťoučký kůň',
+      variableSymbol: '2026000123',
+      supplier: { name: 'Spolek Příklad', address: 'Náměstí 1, Brno', companyId: '12345678', vatId: null },
+      customer: { name: 'Jana Nováková', email: 'jana@example.com' },
+      event: {
+        title: 'Workshop Žluťoučký kůň',
+        startDate: '2026-03-20T17:00:00.000Z',
+        timezone: 'Europe/Prague',
+        venue: 'Kavárna, Brno',
+      },
+      bankAccount: payment.bankAccount,
+      createdAt: new Date('2026-03-15T10:00:00Z'),
+    })
+
+    const pdf = await renderInvoicePdf(document)
+
+    expect(Buffer.from(pdf.subarray(0, 5)).toString()).toBe('%PDF-')
+    expect(pdf.length).toBeGreaterThan(1000)
+  })
+})
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import { createSign, generateKeyPairSync, type KeyObject } from 'crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Prisma } from '@prisma/client'
+
+const users = vi.hoisted(() => ({ syncKindeUser: vi.fn(), removeKindeUser: vi.fn() }))
+const db = vi.hoisted(() => ({
+  kindeWebhookEvent: { create: vi.fn(), deleteMany: vi.fn() },
+}))
+
+vi.mock('@/lib/users', () => users)
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import {
+  handleKindeWebhookEvent,
+  readKindeWebhook,
+  verifyWebhookToken,
+} from '@/lib/kinde-webhooks'
+
+const now = new Date('2026-10-01T12:00:00Z')
+const seconds = now.getTime() / 1000
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'local-key' }] }
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const sign = (
+  claims: object,
+  {
+    key = privateKey,
+    header = { alg: 'RS256', typ: 'JWT', kid: 'local-key' },
+  }: { key?: KeyObject; header?: object } = {}
+) => {
+  const body = `${encode(header)}.${encode({ iat: seconds - 10, exp: seconds + 60, ...claims })}`
+  return `${body}.${createSign('RSA-SHA256').update(body).sign(key, 'base64url')}`
+}
+
+const userCreated = {
+  type: 'user.created',
+  event_id: 'event-1',
+  timestamp: '2026-10-01T12:00:00Z',
+  data: {
+    user: {
+      id: 'kp_1',
+      email: 'Jana@Example.com',
+      first_name: 'Jana',
+      last_name: 'Nováková',
+      phone: null,
+      is_suspended: false,
+    },
+  },
+}
+
+describe('verifyWebhookToken', () => {
+  it('accepts tokens signed by a key of the set', () => {
+    expect(verifyWebhookToken(sign(userCreated), jwks, now)).toMatchObject({ type: 'user.created' })
+  })
+
+  it('rejects tampered, foreign, expired and unsigned tokens', () => {
+    const [header, , signature] = sign(userCreated).split('.')
+    const tampered = `${header}.${encode({ ...userCreated, type: 'user.deleted' })}.${signature}`
+    const foreign = sign(userCreated, {
+      key: generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey,
+    })
+    const expired = sign({ ...userCreated, exp: seconds - 3600 })
+    const unsigned = `${encode({ alg: 'none' })}.${encode(userCreated)}.`
+
+    for (const token of [tampered, foreign, expired, unsigned, 'not-a-token']) {
+      expect(verifyWebhookToken(token, jwks, now)).toBeNull()
+    }
+  })
+
+  it('rejects tokens without exp or iat and tokens issued too long ago or ahead', () => {
+    const stale = sign({ ...userCreated, iat: seconds - 600, exp: seconds + 60 })
+    const future = sign({ ...userCreated, iat: seconds + 600, exp: seconds + 900 })
+
+    for (const token of [
+      sign({ ...userCreated, exp: undefined }),
+      sign({ ...userCreated, iat: undefined }),
+      stale,
+      future,
+    ]) {
+      expect(verifyWebhookToken(token, jwks, now)).toBeNull()
+    }
+    const skewed = sign({ ...userCreated, iat: seconds + 30 })
+    expect(verifyWebhookToken(skewed, jwks, now)).not.toBeNull()
+  })
+
+  it('only tries the key the token names', () => {
+    const token = sign(userCreated, { header: { alg: 'RS256', kid: 'rotated-key' } })
+
+    expect(verifyWebhookToken(token, jwks, now)).toBeNull()
+  })
+})
+
+describe('readKindeWebhook', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'kinde-jwks-'))
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+    delete process.env['KINDE_WEBHOOK_JWKS']
+  })
+
+  it('reads events verified against a key set file', async () => {
+    const file = join(dir, 'jwks.json')
+    writeFileSync(file, JSON.stringify(jwks))
+    process.env['KINDE_WEBHOOK_JWKS'] = file
+
+    await expect(readKindeWebhook(sign(userCreated), now)).resolves.toMatchObject({
+      type: 'user.created',
+      data: { user: { id: 'kp_1', email: 'jana@example.com', phone: null } },
+    })
+    await expect(readKindeWebhook(sign({ type: 'user.created' }), now)).resolves.toBeNull()
+  })
+
+  it('refetches the key set for an unknown key at most once a minute', async () => {
+    const file = join(dir, 'rotated.json')
+    const rotated = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    writeFileSync(file, JSON.stringify(jwks))
+    process.env['KINDE_WEBHOOK_JWKS'] = file
+    await readKindeWebhook(sign(userCreated), now)
+
+    const rotatedKey = { ...rotated.publicKey.export({ format: 'jwk' }), kid: 'rotated-key' }
+    writeFileSync(file, JSON.stringify({ keys: [...jwks.keys, rotatedKey] }))
+    const later = new Date(now.getTime() + 30 * 1000)
+    const rotatedToken = (at: Date) =>
+      sign(
+        { ...userCreated, iat: at.getTime() / 1000, exp: at.getTime() / 1000 + 60 },
+        { key: rotated.privateKey, header: { alg: 'RS256', kid: 'rotated-key' } }
+      )
+
+    await expect(readKindeWebhook(rotatedToken(later), later)).resolves.toBeNull()
+
+    const minuteLater = new Date(now.getTime() + 90 * 1000)
+    await expect(readKindeWebhook(rotatedToken(minuteLater), minuteLater)).resolves.toMatchObject({
+      type: 'user.created',
+    })
+  })
+})
+
+describe('handleKindeWebhookEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.kindeWebhookEvent.create.mockResolvedValue({})
+    users.syncKindeUser.mockResolvedValue({ success: true, data: { created: true } })
+    users.removeKindeUser.mockResolvedValue({ success: true, data: { id: 'user-1' } })
+  })
+
+  it('syncs created and updated users', async () => {
+    const event = {
+      ...userCreated,
+      data: { user: { ...userCreated.data.user, email: 'jana@example.com' } },
+    }
+
+    await expect(handleKindeWebhookEvent(event, now)).resolves.toEqual({
+      success: true,
+      data: { handled: true },
+    })
+    expect(users.syncKindeUser).toHaveBeenCalledWith(
+      {
+        kindeId: 'kp_1',
+        email: 'jana@example.com',
+        firstName: 'Jana',
+        lastName: 'Nováková',
+        phoneNumber: null,
+      },
+      now
+    )
+  })
+
+  it('deactivates deleted users and ignores other events', async () => {
+    const deleted = { id: 'kp_1', first_name: null, last_name: null, phone: null }
+    await handleKindeWebhookEvent(
+      { type: 'user.deleted', event_id: 'event-2', data: { user: deleted } },
+      now
+    )
+    expect(users.removeKindeUser).toHaveBeenCalledWith('kp_1', now)
+
+    await expect(
+      handleKindeWebhookEvent({ type: 'organization.created', event_id: 'event-3' }, now)
+    ).resolves.toEqual({ success: true, data: { handled: false } })
+    expect(users.syncKindeUser).not.toHaveBeenCalled()
+  })
+
+  it('skips events that were already processed', async () => {
+    db.kindeWebhookEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      })
+    )
+
+    await expect(handleKindeWebhookEvent(userCreated, now)).resolves.toEqual({
+      success: true,
+      data: { handled: false },
+    })
+    expect(users.syncKindeUser).not.toHaveBeenCalled()
+  })
+
+  it('releases the event when applying it fails so Kinde can retry', async () => {
+    users.syncKindeUser.mockResolvedValue({
+      success: false,
+      error: { code: 'EMAIL_IN_USE', message: 'Taken', statusCode: 409 },
+    })
+
+    await handleKindeWebhookEvent(userCreated, now)
+
+    expect(db.kindeWebhookEvent.create).toHaveBeenCalledWith({
+      data: { eventId: 'event-1', type: 'user.created', receivedAt: now },
+    })
+    expect(db.kindeWebhookEvent.deleteMany).toHaveBeenCalledWith({ where: { eventId: 'event-1' } })
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { getTranslatedField, localizeFields } from '@/lib/localization'
+
+describe('localizeFields', () => {
+  const event = {
+    title: 'Spring Meetup',
+    description: 'Base description',
+    translations: { cs: { title: 'Jarní setkání', description: '' } },
+  }
+
+  it('uses the translation for the requested locale', () => {
+    expect(localizeFields(event, 'cs', ['title']).title).toBe('Jarní setkání')
+  })
+
+  it('falls back to the base field for missing or empty translations', () => {
+    const localized = localizeFields(event, 'cs', ['title', 'description'])
+
+    expect(localized.description).toBe('Base description')
+    expect(localizeFields(event, 'de', ['title']).title).toBe('Spring Meetup')
+  })
+
+  it('ignores malformed translations', () => {
+    expect(getTranslatedField(null, 'cs', 'title')).toBeUndefined()
+    expect(getTranslatedField(['cs'], 'cs', 'title')).toBeUndefined()
+    expect(getTranslatedField({ cs: 'Jarní setkání' }, 'cs', 'title')).toBeUndefined()
+  })
+})
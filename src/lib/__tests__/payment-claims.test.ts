@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    pendingPayment: { findUniqueOrThrow: vi.fn(), updateMany: vi.fn() },
+    payment: { create: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    registration: { findFirst: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+    auditLog: { create: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      pendingPayment: { findUnique: vi.fn() },
+      payment: { findUnique: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+const completePendingPayment = vi.hoisted(() => vi.fn())
+const sendRegistrationConfirmation = vi.hoisted(() => vi.fn())
+const sendPaymentReceipt = vi.hoisted(() => vi.fn())
+const promoteFromWaitingList = vi.hoisted(() => vi.fn())
+const sendTemplatedEmail = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/payments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/payments')>()),
+  completePendingPayment,
+}))
+vi.mock('@/lib/registration-notifications', () => ({
+  getRegistrationRecipient: vi.fn(({ user }: { user: object }) => ({ ...user, locale: 'en' })),
+  sendRegistrationConfirmation,
+}))
+vi.mock('@/lib/invoices', () => ({ sendPaymentReceipt }))
+vi.mock('@/lib/waiting-list', () => ({ promoteFromWaitingList }))
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmail }))
+vi.mock('@/lib/system-config', () => ({ getNumberConfig: vi.fn(async () => 48) }))
+
+import { claimPayment, escalateStalePaymentClaims, reviewPaymentClaim } from '@/lib/payment-claims'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+const event = {
+  id: 'event-1',
+  title: 'React Workshop',
+  slug: 'react-workshop',
+  startDate: new Date('2026-03-20T17:00:00Z'),
+  timezone: 'Europe/Prague',
+}
+
+const claim = {
+  id: 'payment-1',
+  userId: 'user-1',
+  eventId: 'event-1',
+  pendingPaymentId: 'pp-1',
+  amount: 500,
+  currency: 'CZK',
+  method: 'BANK_TRANSFER',
+  status: 'PENDING',
+  claimedAt: new Date('2026-03-09T08:00:00Z'),
+  notes: null,
+}
+
+describe('claimPayment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.pendingPayment.findUnique.mockResolvedValue({ userId: 'user-1', eventId: 'event-1' })
+    tx.pendingPayment.findUniqueOrThrow.mockResolvedValue({
+      id: 'pp-1',
+      userId: 'user-1',
+      eventId: 'event-1',
+      amount: 500,
+      currency: 'CZK',
+      paymentMethod: 'BANK_TRANSFER',
+      bankAccountId: null,
+      description: null,
+      status: 'PENDING',
+      payments: [],
+    })
+    tx.payment.create.mockImplementation(async ({ data }) => ({ id: 'payment-1', ...data }))
+  })
+
+  it('records a pending payment claim without the variable symbol', async () => {
+    const result = await claimPayment({ pendingPaymentId: 'pp-1', userId: 'user-1', note: 'Sent today' })
+
+    expect(result.success).toBe(true)
+    const data = tx.payment.create.mock.calls[0]?.[0].data
+    expect(data).toMatchObject({ status: 'PENDING', pendingPaymentId: 'pp-1', notes: 'Sent today' })
+    expect(data.claimedAt).toBeInstanceOf(Date)
+    expect(data).not.toHaveProperty('variableSymbol')
+    expect(tx.registrationHistory.createMany.mock.calls[0]?.[0].data[0].action).toBe(
+      'PAYMENT_CLAIMED'
+    )
+  })
+
+  it("rejects claims on someone else's pending payment", async () => {
+    const result = await claimPayment({ pendingPaymentId: 'pp-1', userId: 'user-2' })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'PENDING_PAYMENT_NOT_FOUND' } })
+    expect(db.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('rejects a second claim while the first awaits verification', async () => {
+    tx.pendingPayment.findUniqueOrThrow.mockResolvedValue({
+      id: 'pp-1',
+      status: 'PENDING',
+      payments: [{ id: 'payment-1' }],
+    })
+
+    const result = await claimPayment({ pendingPaymentId: 'pp-1', userId: 'user-1' })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'ALREADY_CLAIMED' } })
+    expect(tx.payment.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('reviewPaymentClaim', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.payment.findUnique.mockResolvedValue({
+      ...claim,
+      user: { email: 'jana@example.com', name: 'Jana' },
+      event,
+      pendingPayment: { expiresAt: new Date('2026-03-12T12:00:00Z') },
+      verificationNotes: 'No transfer found',
+    })
+    tx.payment.findUniqueOrThrow.mockResolvedValue(claim)
+    tx.payment.update.mockImplementation(async ({ data }) => ({ ...claim, ...data }))
+    tx.registration.findFirst.mockResolvedValue({ id: 'reg-1', userId: 'user-1', status: 'PENDING' })
+    tx.registration.findMany.mockResolvedValue([{ id: 'friend-1', userId: null, status: 'PENDING' }])
+    tx.registration.updateMany.mockResolvedValue({ count: 2 })
+    completePendingPayment.mockResolvedValue({
+      success: true,
+      data: { payment: { ...claim, status: 'COMPLETED' }, confirmedRegistrationId: 'reg-1' },
+    })
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('completes the pending payment and confirms the registration on verify', async () => {
+    const result = await reviewPaymentClaim({
+      action: 'VERIFY',
+      paymentId: 'payment-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { cancelledRegistrations: 0 } })
+    expect(completePendingPayment).toHaveBeenCalledWith(
+      tx,
+      expect.objectContaining({
+        pendingPaymentId: 'pp-1',
+        paidAt: claim.claimedAt,
+        verifiedById: 'staff-1',
+      })
+    )
+    expect(sendRegistrationConfirmation).toHaveBeenCalledWith('reg-1')
+    expect(sendPaymentReceipt).toHaveBeenCalledWith('payment-1')
+  })
+
+  it('refuses claims that were already reviewed', async () => {
+    tx.payment.findUniqueOrThrow.mockResolvedValue({ ...claim, status: 'FAILED' })
+
+    const result = await reviewPaymentClaim({
+      action: 'VERIFY',
+      paymentId: 'payment-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'CLAIM_NOT_OPEN' } })
+    expect(completePendingPayment).not.toHaveBeenCalled()
+  })
+
+  it('marks the claim failed and keeps the registration waiting on reject', async () => {
+    const result = await reviewPaymentClaim({
+      action: 'REJECT',
+      notes: 'No transfer found',
+      cancelRegistration: false,
+      paymentId: 'payment-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { cancelledRegistrations: 0 } })
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: { status: 'FAILED', verifiedBy: 'staff-1', verificationNotes: 'No transfer found' },
+    })
+    expect(tx.registration.updateMany).not.toHaveBeenCalled()
+    expect(promoteFromWaitingList).not.toHaveBeenCalled()
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'payment_claim_rejected' })
+    )
+  })
+
+  it('cancels the registration with its group when rejecting with cancellation', async () => {
+    const result = await reviewPaymentClaim({
+      action: 'REJECT',
+      notes: 'No transfer found',
+      cancelRegistration: true,
+      paymentId: 'payment-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { cancelledRegistrations: 2 } })
+    expect(tx.registration.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reg-1', 'friend-1'] } },
+      data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+    })
+    expect(tx.pendingPayment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pp-1', status: 'PENDING' },
+      data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+    })
+    const history = tx.registrationHistory.createMany.mock.calls[0]?.[0].data
+    expect(history.map((entry: { action: string }) => entry.action)).toEqual([
+      'PAYMENT_FAILED',
+      'PENDING_PAYMENT_CANCELLED',
+      'CANCELLED',
+    ])
+    expect(promoteFromWaitingList).toHaveBeenCalledWith('event-1')
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'payment_claim_rejected_cancelled' })
+    )
+  })
+})
+
+describe('escalateStalePaymentClaims', () => {
+  const manager = { id: 'manager-1', email: 'petr@example.com', name: 'Petr', preferredLocale: 'cs' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.payment.findMany.mockResolvedValue([
+      {
+        ...claim,
+        user: { name: 'Jana', email: 'jana@example.com' },
+        event: { ...event, manager, creator: { ...manager, id: 'creator-1' } },
+      },
+    ])
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('emails the event manager about claims older than the threshold', async () => {
+    db.payment.updateMany.mockResolvedValue({ count: 1 })
+
+    expect(await escalateStalePaymentClaims(now)).toBe(1)
+    expect(db.payment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: 'PENDING',
+          claimedAt: { lte: new Date('2026-03-08T12:00:00Z') },
+          escalatedAt: null,
+        },
+      })
+    )
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'payment_claim_escalated',
+        recipient: expect.objectContaining({ userId: 'manager-1', locale: 'cs' }),
+      })
+    )
+  })
+
+  it('skips claims another run already escalated', async () => {
+    db.payment.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await escalateStalePaymentClaims(now)).toBe(0)
+    expect(sendTemplatedEmail).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { decompress } from 'lzma1'
+import {
+  crc32,
+  encodePayBySquare,
+  encodeSpd,
+  toBase32Hex,
+  toPaymentText,
+  type PaymentQrInput,
+} from '@/lib/payment-qr-codes'
+
+const payment: PaymentQrInput = {
+  iban: 'SK31 1200 0000 1987 4263 7541',
+  swift: 'SUBASKBX',
+  amount: '25.00',
+  currency: 'EUR',
+  dueDate: new Date('2026-03-15T12:00:00Z'),
+  variableSymbol: '2026000123',
+  constantSymbol: '0308',
+  note: 'Registrácia: Úvod do Reactu',
+  recipientName: 'Spolok *Prahy*',
+}
+
+function fromBase32Hex(text: string): Uint8Array {
+  const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUV'
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of text) {
+    buffer = (buffer << 5) | alphabet.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >>> bits) & 0xff)
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Decodes a PAY by square string the way banking apps do
+ */
+function decodePayBySquare(text: string) {
+  const bytes = fromBase32Hex(text)
+  const view = new DataView(bytes.buffer)
+  const length = view.getUint16(2, true)
+
+  // Restore the LZMA header PAY by square leaves out (lc=3, lp=0, pb=2, 128 KiB dictionary)
+  const header = new Uint8Array(13)
+  const headerView = new DataView(header.buffer)
+  header[0] = 0x5d
+  headerView.setUint32(1, 1 << 17, true)
+  headerView.setUint32(5, length, true)
+
+  const compressed = new Uint8Array(13 + bytes.length - 4)
+  compressed.set(header)
+  compressed.set(bytes.subarray(4), 13)
+
+  const data = decompress(compressed)
+  return {
+    header: [...bytes.subarray(0, 2)],
+    length,
+    checksum: new DataView(data.buffer, data.byteOffset).getUint32(0, true),
+    body: data.subarray(4),
+  }
+}
+
+describe('crc32', () => {
+  it('matches the IEEE 802.3 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+  })
+})
+
+describe('toBase32Hex', () => {
+  it('encodes RFC 4648 test vectors without padding', () => {
+    const encode = (text: string) => toBase32Hex(new TextEncoder().encode(text))
+
+    expect(encode('f')).toBe('CO')
+    expect(encode('foob')).toBe('CPNMUOG')
+    expect(encode('foobar')).toBe('CPNMUOJ1E8')
+  })
+})
+
+describe('toPaymentText', () => {
+  it('transliterates diacritics and drops other characters', () => {
+    expect(toPaymentText('Žluťoučký kůň 🐴  úpěl')).toBe('Zlutoucky kun upel')
+  })
+})
+
+describe('encodePayBySquare', () => {
+  it('produces a payload that decodes back to the payment order', () => {
+    const decoded = decodePayBySquare(encodePayBySquare(payment))
+    const body = new TextDecoder().decode(decoded.body)
+
+    expect(decoded.header).toEqual([0, 0])
+    expect(decoded.length).toBe(decoded.body.length + 4)
+    expect(decoded.checksum).toBe(crc32(decoded.body))
+    expect(body.split('\t')).toEqual([
+      '',
+      '1',
+      '1',
+      '25',
+      'EUR',
+      '20260315',
+      '2026000123',
+      '0308',
+      '',
+      '',
+      'Registracia: Uvod do Reactu',
+      '1',
+      'SK3112000000198742637541',
+      'SUBASKBX',
+      '0',
+      '0',
+    ])
+  })
+
+  it('only uses the base32hex alphabet', () => {
+    expect(encodePayBySquare(payment)).toMatch(/^[0-9A-V]+$/)
+  })
+})
+
+describe('encodeSpd', () => {
+  it('builds the QR Platba string', () => {
+    expect(encodeSpd({ ...payment, iban: 'CZ65 0800 0000 1920 0014 5399', currency: 'czk' })).toBe(
+      'SPD*1.0*ACC:CZ6508000000192000145399+SUBASKBX*AM:25.00*CC:CZK*DT:20260315' +
+        '*X-VS:2026000123*X-KS:0308*MSG:REGISTRACIA: UVOD DO REACTU*RN:SPOLOK PRAHY'
+    )
+  })
+
+  it('leaves out empty fields', () => {
+    expect(
+      encodeSpd({ iban: 'CZ6508000000192000145399', amount: '100', currency: 'CZK' })
+    ).toBe('SPD*1.0*ACC:CZ6508000000192000145399*AM:100.00*CC:CZK')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = await vi.hoisted(async () => {
+  const { mockPrismaClient } = await import('@/test/prisma-mock')
+  return mockPrismaClient({
+    payment: { findUnique: vi.fn(), update: vi.fn() },
+    pendingPayment: { findUnique: vi.fn(), update: vi.fn() },
+    bankAccount: { findFirst: vi.fn() },
+  })
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { getPaymentQr } from '@/lib/payment-qr'
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'payment-1',
+  userId: 'user-1',
+  status: 'COMPLETED',
+  bankAccount: null,
+  ...overrides,
+})
+
+describe('getPaymentQr', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("reports another user's payment as missing whatever its status", async () => {
+    db.payment.findUnique.mockResolvedValue(payment())
+
+    await expect(
+      getPaymentQr({ source: 'payment', id: 'payment-1', userId: 'user-2' })
+    ).resolves.toMatchObject({ success: false, error: { code: 'PAYMENT_NOT_FOUND' } })
+  })
+
+  it('refuses payments that are no longer awaiting payment', async () => {
+    db.payment.findUnique.mockResolvedValue(payment())
+
+    await expect(
+      getPaymentQr({ source: 'payment', id: 'payment-1', userId: 'user-1' })
+    ).resolves.toMatchObject({ success: false, error: { code: 'PAYMENT_NOT_PAYABLE' } })
+    await expect(
+      getPaymentQr({ source: 'payment', id: 'payment-1', userId: 'user-2', canViewAll: true })
+    ).resolves.toMatchObject({ success: false, error: { code: 'PAYMENT_NOT_PAYABLE' } })
+  })
+
+  it('reports an expired pending payment of another user as missing', async () => {
+    db.pendingPayment.findUnique.mockResolvedValue(payment({ status: 'EXPIRED' }))
+
+    await expect(
+      getPaymentQr({ source: 'pending-payment', id: 'payment-1', userId: 'user-2' })
+    ).resolves.toMatchObject({ success: false, error: { code: 'PAYMENT_NOT_FOUND' } })
+  })
+})
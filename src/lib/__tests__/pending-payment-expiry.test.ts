@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    pendingPayment: { findUnique: vi.fn(), update: vi.fn() },
+    registration: { findMany: vi.fn(), updateMany: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      pendingPayment: { findMany: vi.fn(), findUnique: vi.fn(), updateMany: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+const promoteFromWaitingList = vi.hoisted(() => vi.fn())
+const sendTemplatedEmail = vi.hoisted(() => vi.fn())
+const config = vi.hoisted(() => ({ reminderDays: 2 }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/waiting-list', () => ({ promoteFromWaitingList }))
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmail }))
+vi.mock('@/lib/system-config', () => ({
+  getNumberConfig: vi.fn(async () => config.reminderDays),
+}))
+
+import {
+  expireOverduePendingPayments,
+  sendPendingPaymentReminders,
+} from '@/lib/pending-payment-expiry'
+
+const now = new Date('2026-03-10T12:00:00Z')
+
+const event = {
+  id: 'event-1',
+  title: 'React Workshop',
+  slug: 'react-workshop',
+  startDate: new Date('2026-03-20T17:00:00Z'),
+  timezone: 'Europe/Prague',
+}
+
+const user = { email: 'jana@example.com', name: 'Jana', preferredLocale: 'cs' }
+
+describe('expireOverduePendingPayments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.pendingPayment.findMany.mockResolvedValue([{ id: 'pp-1', eventId: 'event-1' }])
+    db.pendingPayment.findUnique.mockResolvedValue({ id: 'pp-1', userId: 'user-1', user, event })
+    tx.registration.findMany.mockResolvedValue([
+      { id: 'friend-1', userId: null, status: 'PENDING' },
+    ])
+    tx.registration.updateMany.mockResolvedValue({ count: 2 })
+    promoteFromWaitingList.mockResolvedValue(1)
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('cancels the unpaid registration with its group and promotes the waiting list', async () => {
+    tx.pendingPayment.findUnique.mockResolvedValue({
+      id: 'pp-1',
+      userId: 'user-1',
+      status: 'PENDING',
+      expiresAt: new Date('2026-03-10T00:00:00Z'),
+      registrations: [{ id: 'reg-1', userId: 'user-1', groupLeaderId: null, status: 'PENDING' }],
+      payments: [],
+    })
+
+    const result = await expireOverduePendingPayments(now)
+
+    expect(result).toEqual({ expired: 1, cancelledRegistrations: 2, promoted: 1 })
+    expect(tx.pendingPayment.update).toHaveBeenCalledWith({
+      where: { id: 'pp-1' },
+      data: { status: 'EXPIRED' },
+    })
+    expect(tx.registration.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reg-1', 'friend-1'] } },
+      data: { status: 'CANCELLED', cancelledAt: now },
+    })
+    const history = tx.registrationHistory.createMany.mock.calls[0]?.[0].data
+    expect(history.map((entry: { action: string }) => entry.action)).toEqual([
+      'PENDING_PAYMENT_EXPIRED',
+      'CANCELLED',
+    ])
+    expect(promoteFromWaitingList).toHaveBeenCalledWith('event-1')
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'pending_payment_expired' })
+    )
+  })
+
+  it('keeps registrations that staff already confirmed', async () => {
+    tx.pendingPayment.findUnique.mockResolvedValue({
+      id: 'pp-1',
+      userId: 'user-1',
+      status: 'PENDING',
+      expiresAt: new Date('2026-03-10T00:00:00Z'),
+      registrations: [{ id: 'reg-1', userId: 'user-1', groupLeaderId: null, status: 'CONFIRMED' }],
+      payments: [],
+    })
+
+    const result = await expireOverduePendingPayments(now)
+
+    expect(result).toEqual({ expired: 1, cancelledRegistrations: 0, promoted: 0 })
+    expect(tx.registration.updateMany).not.toHaveBeenCalled()
+    expect(promoteFromWaitingList).not.toHaveBeenCalled()
+    expect(sendTemplatedEmail).not.toHaveBeenCalled()
+  })
+
+  it('keeps the seats while the attendee\'s payment claim awaits verification', async () => {
+    tx.pendingPayment.findUnique.mockResolvedValue({
+      id: 'pp-1',
+      userId: 'user-1',
+      status: 'PENDING',
+      expiresAt: new Date('2026-03-10T00:00:00Z'),
+      registrations: [{ id: 'reg-1', userId: 'user-1', groupLeaderId: null, status: 'PENDING' }],
+      payments: [{ id: 'payment-1' }],
+    })
+
+    const result = await expireOverduePendingPayments(now)
+
+    expect(result).toEqual({ expired: 0, cancelledRegistrations: 0, promoted: 0 })
+    expect(tx.pendingPayment.update).not.toHaveBeenCalled()
+  })
+
+  it('skips payments completed in the meantime', async () => {
+    tx.pendingPayment.findUnique.mockResolvedValue({ id: 'pp-1', status: 'PROCESSED' })
+
+    const result = await expireOverduePendingPayments(now)
+
+    expect(result).toEqual({ expired: 0, cancelledRegistrations: 0, promoted: 0 })
+    expect(tx.pendingPayment.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendPendingPaymentReminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.reminderDays = 2
+    db.pendingPayment.findMany.mockResolvedValue([
+      {
+        id: 'pp-1',
+        userId: 'user-1',
+        amount: 25,
+        currency: 'EUR',
+        variableSymbol: '2026000123',
+        expiresAt: new Date('2026-03-11T12:00:00Z'),
+        user,
+        event,
+      },
+    ])
+    db.pendingPayment.updateMany.mockResolvedValue({ count: 1 })
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('reminds attendees once before the deadline', async () => {
+    await expect(sendPendingPaymentReminders(now)).resolves.toBe(1)
+
+    expect(db.pendingPayment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: 'PENDING',
+          reminderSentAt: null,
+          expiresAt: { gt: now, lte: new Date('2026-03-12T12:00:00Z') },
+          payments: { none: { status: 'PENDING', claimedAt: { not: null } } },
+        },
+      })
+    )
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'payment_reminder',
+        recipient: expect.objectContaining({ email: 'jana@example.com', locale: 'cs' }),
+        variables: expect.objectContaining({
+          variableSymbol: '2026000123',
+          eventUrl: expect.stringContaining('/cs/events/react-workshop'),
+        }),
+      })
+    )
+  })
+
+  it('does not email when another run already sent the reminder', async () => {
+    db.pendingPayment.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(sendPendingPaymentReminders(now)).resolves.toBe(0)
+    expect(sendTemplatedEmail).not.toHaveBeenCalled()
+  })
+
+  it('is disabled when the reminder days are 0', async () => {
+    config.reminderDays = 0
+
+    await expect(sendPendingPaymentReminders(now)).resolves.toBe(0)
+    expect(db.pendingPayment.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const tx = await vi.hoisted(async () => {
+  const { mockTransactionClient } = await import('@/test/prisma-mock')
+  return mockTransactionClient({
+    $queryRaw: vi.fn(),
+    pendingPayment: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    payment: { findUnique: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+    registration: { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+})
+
+const allocateVariableSymbol = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('@/lib/variable-symbols', () => ({ allocateVariableSymbol }))
+vi.mock('@/lib/system-config', () => ({
+  getNumberConfig: vi.fn(async (_key: string, defaultValue: number) => defaultValue),
+}))
+
+import { createPendingPayment } from '@/lib/pending-payments'
+import { completePendingPayment } from '@/lib/payments'
+
+const event = {
+  id: 'event-1',
+  title: 'React workshop',
+  price: new Prisma.Decimal(25),
+  currency: 'EUR',
+  bankAccountId: null,
+  requiresPayment: true,
+  startDate: new Date('2099-01-01T09:00:00Z'),
+}
+
+const input = { userId: 'user-1', event, type: 'REGISTRATION' as const }
+
+let row: Record<string, unknown> | null
+
+const pendingPayment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'pending-1',
+  userId: 'user-1',
+  eventId: 'event-1',
+  type: 'REGISTRATION',
+  status: 'CANCELLED',
+  variableSymbol: '42000001',
+  currency: 'EUR',
+  bankAccountId: null,
+  constantSymbol: null,
+  specificSymbol: null,
+  description: 'React workshop',
+  ...overrides,
+})
+
+describe('createPendingPayment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    row = null
+    tx.pendingPayment.findUnique.mockImplementation(async () => row)
+    tx.pendingPayment.create.mockImplementation(async ({ data }) => {
+      row = { id: 'pending-1', variableSymbol: null, ...data }
+      return row
+    })
+    tx.pendingPayment.update.mockImplementation(async ({ data }) => {
+      row = { ...row, ...data }
+      return row
+    })
+    tx.payment.findUnique.mockResolvedValue(null)
+    allocateVariableSymbol.mockResolvedValue('42000002')
+  })
+
+  it('creates a pending payment with a new variable symbol', async () => {
+    await expect(createPendingPayment(tx, input)).resolves.toMatchObject({
+      status: 'PENDING',
+      variableSymbol: '42000002',
+    })
+    expect(allocateVariableSymbol).toHaveBeenCalledWith(tx, {
+      eventId: 'event-1',
+      userId: 'user-1',
+      pendingPaymentId: 'pending-1',
+    })
+  })
+
+  it('re-opens a cancelled pending payment with its variable symbol', async () => {
+    row = pendingPayment()
+
+    await expect(createPendingPayment(tx, input)).resolves.toMatchObject({
+      status: 'PENDING',
+      variableSymbol: '42000001',
+      cancelledAt: null,
+    })
+    expect(tx.payment.findUnique).toHaveBeenCalledWith({
+      where: { variableSymbol: '42000001' },
+      select: { id: true },
+    })
+    expect(allocateVariableSymbol).not.toHaveBeenCalled()
+  })
+
+  it('allocates a new symbol when the old one is already on a payment', async () => {
+    row = pendingPayment({ status: 'EXPIRED' })
+    tx.payment.findUnique.mockResolvedValue({ id: 'claim-1' })
+
+    await expect(createPendingPayment(tx, input)).resolves.toMatchObject({
+      variableSymbol: '42000002',
+    })
+  })
+
+  it('keeps an open pending payment open without resetting it', async () => {
+    row = pendingPayment({ status: 'PENDING', createdAt: new Date('2026-01-01') })
+
+    await createPendingPayment(tx, input)
+
+    const [update] = tx.pendingPayment.update.mock.calls[0] ?? []
+    expect(update.data).toMatchObject({ amount: new Prisma.Decimal(25), status: 'PENDING' })
+    expect(update.data).not.toHaveProperty('createdAt')
+    expect(update.data).not.toHaveProperty('variableSymbol')
+    expect(allocateVariableSymbol).not.toHaveBeenCalled()
+  })
+
+  it('pays a re-registration under a new symbol after pay, cancel and re-register', async () => {
+    // The first registration was paid under 42000001 and then cancelled
+    row = pendingPayment({ status: 'PROCESSED', processedAt: new Date('2026-01-02') })
+
+    const reopened = await createPendingPayment(tx, input)
+
+    expect(reopened).toMatchObject({
+      status: 'PENDING',
+      processedAt: null,
+      variableSymbol: '42000002',
+    })
+    expect(tx.payment.findUnique).not.toHaveBeenCalled()
+
+    tx.pendingPayment.findUnique.mockResolvedValue(reopened)
+    tx.pendingPayment.findUniqueOrThrow.mockResolvedValue({
+      ...reopened,
+      event: { requiresApproval: false },
+    })
+    tx.registration.findFirst.mockResolvedValue({
+      id: 'reg-1',
+      status: 'PENDING',
+      paymentId: null,
+      approvedAt: null,
+    })
+    tx.payment.findFirst.mockResolvedValue(null)
+    tx.payment.create.mockImplementation(async ({ data }) => ({ id: 'payment-2', ...data }))
+
+    const result = await completePendingPayment(tx, {
+      pendingPaymentId: 'pending-1',
+      amount: new Prisma.Decimal(25),
+      paidAt: new Date('2026-02-01'),
+      verifiedById: null,
+    })
+
+    expect(result).toMatchObject({ success: true, data: { confirmedRegistrationId: 'reg-1' } })
+    expect(tx.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ variableSymbol: '42000002', registrationId: 'reg-1' }),
+    })
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ paymentId: 'payment-2', status: 'CONFIRMED' }),
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma, RegistrationType } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import {
+  quoteRegistrationPrice,
+  selectUnitPrice,
+  toPricingMetadata,
+  type PriceTierConditions,
+} from '@/lib/pricing'
+import { getDiscountAmount } from '@/lib/discount-codes'
+
+const decimal = (value: number | string) => new Prisma.Decimal(value)
+
+const tier = (overrides: Partial<PriceTierConditions>): PriceTierConditions => ({
+  id: 'tier',
+  name: 'Tier',
+  price: decimal(100),
+  validUntil: null,
+  registrationType: null,
+  roleId: null,
+  minGroupSize: null,
+  isActive: true,
+  ...overrides,
+})
+
+const earlyBird = tier({
+  id: 'early',
+  name: 'Early bird',
+  price: decimal(80),
+  validUntil: new Date('2026-05-01T00:00:00Z'),
+})
+const members = tier({ id: 'members', name: 'Members', price: decimal(70), roleId: 'role-member' })
+const groups = tier({ id: 'groups', name: 'Groups', price: decimal(75), minGroupSize: 4 })
+const student = tier({
+  id: 'student',
+  name: 'Student',
+  price: decimal(50),
+  registrationType: RegistrationType.STUDENT,
+})
+const vip = tier({
+  id: 'vip',
+  name: 'VIP',
+  price: decimal(300),
+  registrationType: RegistrationType.VIP,
+})
+const tiers = [earlyBird, members, groups, student, vip]
+
+const context = { at: new Date('2026-04-15T10:00:00Z'), seats: 1, roleIds: [] }
+const base = decimal(100)
+
+describe('selectUnitPrice', () => {
+  it('picks the cheapest applicable price', () => {
+    expect(selectUnitPrice(base, tiers, context)).toEqual({
+      unitPrice: decimal(80),
+      tier: { id: 'early', name: 'Early bird' },
+    })
+    expect(selectUnitPrice(base, tiers, { ...context, roleIds: ['role-member'] })?.tier?.id).toBe(
+      'members'
+    )
+  })
+
+  it('falls back to the base price once the early-bird date has passed', () => {
+    const late = { ...context, at: new Date('2026-05-02T00:00:00Z') }
+
+    expect(selectUnitPrice(base, tiers, late)).toEqual({ unitPrice: base, tier: null })
+    expect(selectUnitPrice(base, tiers, { ...late, seats: 4 })?.tier?.id).toBe('groups')
+  })
+
+  it('prices a ticket type by its own tiers only', () => {
+    expect(selectUnitPrice(base, tiers, { ...context, ticketType: 'VIP' })?.unitPrice).toEqual(
+      decimal(300)
+    )
+    expect(selectUnitPrice(base, tiers, { ...context, ticketType: 'STUDENT' })?.tier?.id).toBe(
+      'student'
+    )
+    expect(selectUnitPrice(base, tiers, { ...context, ticketType: 'CORPORATE' })).toBeNull()
+  })
+
+  it('ignores inactive tiers and tiers of other registration types', () => {
+    const inactive = tier({ id: 'off', price: decimal(1), isActive: false })
+    const groupOnly = tier({
+      id: 'group',
+      price: decimal(60),
+      registrationType: RegistrationType.GROUP,
+    })
+
+    expect(selectUnitPrice(base, [inactive, groupOnly], context)?.tier).toBeNull()
+    expect(selectUnitPrice(base, [inactive, groupOnly], { ...context, seats: 2 })?.tier?.id).toBe(
+      'group'
+    )
+  })
+})
+
+describe('getDiscountAmount', () => {
+  it('takes the percentage off first, then the fixed amount', () => {
+    const discount = getDiscountAmount(
+      { percentOff: decimal(10), amountOff: decimal(20) },
+      decimal(300)
+    )
+
+    expect(discount.toString()).toBe('50')
+  })
+
+  it('never takes off more than the subtotal', () => {
+    const discount = getDiscountAmount({ percentOff: null, amountOff: decimal(500) }, decimal(300))
+
+    expect(discount.toString()).toBe('300')
+  })
+})
+
+describe('quoteRegistrationPrice', () => {
+  const tx = {
+    $queryRaw: vi.fn(),
+    priceTier: { findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+    discountCode: { findUnique: vi.fn() },
+    registration: { count: vi.fn() },
+  }
+  const event = { id: 'event-1', price: decimal(100), currency: 'CZK' }
+  const code = {
+    id: 'code-1',
+    code: 'SPRING',
+    eventId: null,
+    isActive: true,
+    percentOff: decimal(25),
+    amountOff: null,
+    currency: null,
+    maxUses: 10,
+    validFrom: null,
+    validUntil: null,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.priceTier.findMany.mockResolvedValue([members])
+    tx.user.findUnique.mockResolvedValue({
+      primaryRole: null,
+      userRoles: [{ role: { id: 'role-member', name: 'MEMBER', permissions: [] } }],
+    })
+    tx.discountCode.findUnique.mockResolvedValue(code)
+    tx.registration.count.mockResolvedValue(3)
+  })
+
+  const quote = (input: object = {}) =>
+    quoteRegistrationPrice(tx as unknown as Prisma.TransactionClient, {
+      event,
+      userId: 'user-1',
+      seats: 2,
+      discountCode: 'spring',
+      at: context.at,
+      ...input,
+    })
+
+  it('applies the tier of the user role and the discount code', async () => {
+    const result = await quote()
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(toPricingMetadata(result.data)).toEqual({
+      currency: 'CZK',
+      seats: 2,
+      basePrice: '100.00',
+      unitPrice: '70.00',
+      tier: { id: 'members', name: 'Members' },
+      ticketType: null,
+      subtotal: '140.00',
+      discount: '35.00',
+      discountCode: 'SPRING',
+      total: '105.00',
+    })
+    expect(tx.discountCode.findUnique).toHaveBeenCalledWith({ where: { code: 'SPRING' } })
+  })
+
+  it('rejects a code that reached its usage limit', async () => {
+    tx.registration.count.mockResolvedValue(10)
+
+    const result = await quote()
+
+    expect(result).toMatchObject({ success: false, error: { code: 'DISCOUNT_CODE_EXHAUSTED' } })
+  })
+
+  it('does not count the use of the registration being re-priced', async () => {
+    await quote({ excludeRegistrationId: 'reg-1' })
+
+    expect(tx.registration.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ discountCodeId: 'code-1', id: { not: 'reg-1' } }),
+    })
+  })
+
+  it('rejects codes for another event or currency', async () => {
+    tx.discountCode.findUnique.mockResolvedValue({ ...code, eventId: 'event-2' })
+    expect(await quote()).toMatchObject({ error: { code: 'DISCOUNT_CODE_INVALID' } })
+
+    tx.discountCode.findUnique.mockResolvedValue({
+      ...code,
+      percentOff: null,
+      amountOff: decimal(10),
+      currency: 'EUR',
+    })
+    expect(await quote()).toMatchObject({ error: { code: 'DISCOUNT_CODE_INVALID' } })
+  })
+
+  it('fails for a ticket type without an applicable tier', async () => {
+    const result = await quote({ ticketType: 'STUDENT', discountCode: undefined })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'TICKET_TYPE_UNAVAILABLE' } })
+  })
+})
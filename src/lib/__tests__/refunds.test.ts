@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    payment: { findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    refund: {
+      aggregate: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    auditLog: { create: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      event: { findUnique: vi.fn() },
+      payment: { findMany: vi.fn() },
+      refund: { findUnique: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+const sendTemplatedEmail = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmail }))
+
+import { refundEventPayments, requestRefund, updateRefund } from '@/lib/refunds'
+
+const decimal = (value: string) => new Prisma.Decimal(value)
+
+const payment = {
+  id: 'payment-1',
+  userId: 'user-1',
+  eventId: 'event-1',
+  amount: decimal('50.00'),
+  currency: 'EUR',
+  status: 'COMPLETED',
+  bankTransactions: [{ counterpartyAccount: 'SK8975000000000012345671', counterpartyName: 'Jana' }],
+}
+
+function refunded(amount: string | null) {
+  tx.refund.aggregate.mockResolvedValue({ _sum: { amount: amount === null ? null : decimal(amount) } })
+}
+
+describe('requestRefund', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.$queryRaw.mockResolvedValue([{ id: 'payment-1' }])
+    tx.payment.findUniqueOrThrow.mockResolvedValue(payment)
+    tx.refund.create.mockImplementation(async ({ data }) => ({ id: 'refund-1', ...data }))
+    refunded(null)
+  })
+
+  it('refunds the remaining amount to the account the payment came from', async () => {
+    refunded('20.00')
+
+    const result = await requestRefund({
+      paymentId: 'payment-1',
+      reason: 'Cancelled registration',
+      requestedById: 'staff-1',
+    })
+
+    expect(result.success).toBe(true)
+    const data = tx.refund.create.mock.calls[0]?.[0].data
+    expect(data.amount.toFixed(2)).toBe('30.00')
+    expect(data).toMatchObject({
+      recipientAccount: 'SK8975000000000012345671',
+      recipientName: 'Jana',
+    })
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: { status: 'REFUND_PENDING' },
+    })
+    expect(tx.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'CREATE', resource: 'Refund', resourceId: 'refund-1' }),
+    })
+    expect(tx.registrationHistory.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ action: 'REFUND_REQUESTED' })],
+    })
+  })
+
+  it('rejects refunds larger than what is left', async () => {
+    refunded('40.00')
+
+    const result = await requestRefund({
+      paymentId: 'payment-1',
+      amount: 15,
+      reason: 'Partial refund',
+      requestedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'REFUND_EXCEEDS_PAYMENT', details: { refundable: '10.00' } },
+    })
+    expect(tx.refund.create).not.toHaveBeenCalled()
+  })
+
+  it('allows one open refund per payment', async () => {
+    tx.payment.findUniqueOrThrow.mockResolvedValue({ ...payment, status: 'REFUND_PENDING' })
+
+    const result = await requestRefund({
+      paymentId: 'payment-1',
+      reason: 'Again',
+      requestedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'REFUND_IN_PROGRESS' } })
+  })
+})
+
+describe('updateRefund', () => {
+  const refund = {
+    id: 'refund-1',
+    paymentId: 'payment-1',
+    amount: decimal('20.00'),
+    currency: 'EUR',
+    status: 'PENDING',
+    reason: 'Partial refund',
+    payment,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.$queryRaw.mockResolvedValue([{ id: 'payment-1' }])
+    tx.refund.findUnique.mockResolvedValue(refund)
+    tx.refund.findUniqueOrThrow.mockResolvedValue(refund)
+    tx.refund.update.mockImplementation(async ({ data }) => ({ ...refund, ...data }))
+    db.refund.findUnique.mockResolvedValue(null)
+    refunded(null)
+  })
+
+  it('marks the payment partially refunded while money remains', async () => {
+    const result = await updateRefund({
+      action: 'COMPLETE',
+      bankReference: 'OUT-123',
+      refundId: 'refund-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { status: 'COMPLETED' } })
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: { status: 'PARTIALLY_REFUNDED' },
+    })
+    expect(db.refund.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'refund-1' } })
+    )
+  })
+
+  it('marks the payment refunded once everything is returned', async () => {
+    refunded('30.00')
+    const transferredAt = new Date('2026-03-20T00:00:00Z')
+
+    await updateRefund({
+      action: 'COMPLETE',
+      bankReference: 'OUT-124',
+      transferredAt,
+      refundId: 'refund-1',
+      performedById: 'staff-1',
+    })
+
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: { status: 'REFUNDED', refundedAt: transferredAt },
+    })
+  })
+
+  it('restores the payment status when a refund is cancelled', async () => {
+    const result = await updateRefund({
+      action: 'CANCEL',
+      notes: 'Attendee decided to come after all',
+      refundId: 'refund-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: true, data: { status: 'CANCELLED' } })
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: { status: 'COMPLETED' },
+    })
+    expect(tx.registrationHistory.createMany).not.toHaveBeenCalled()
+  })
+
+  it('does not complete a refund twice', async () => {
+    tx.refund.findUniqueOrThrow.mockResolvedValue({ ...refund, status: 'COMPLETED' })
+
+    const result = await updateRefund({
+      action: 'COMPLETE',
+      bankReference: 'OUT-125',
+      refundId: 'refund-1',
+      performedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'REFUND_NOT_PENDING' } })
+    expect(tx.payment.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('refundEventPayments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.$queryRaw.mockResolvedValue([{ id: 'payment-1' }])
+    tx.refund.create.mockImplementation(async ({ data }) => ({ id: 'refund-1', ...data }))
+    refunded(null)
+  })
+
+  it('only refunds payments of cancelled events', async () => {
+    db.event.findUnique.mockResolvedValue({ status: 'PUBLISHED' })
+
+    const result = await refundEventPayments({
+      eventId: 'event-1',
+      reason: 'Event cancelled',
+      requestedById: 'staff-1',
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'EVENT_NOT_CANCELLED' } })
+    expect(db.payment.findMany).not.toHaveBeenCalled()
+  })
+
+  it('requests a refund for every payment and reports the ones skipped', async () => {
+    db.event.findUnique.mockResolvedValue({ status: 'CANCELLED' })
+    db.payment.findMany.mockResolvedValue([{ id: 'payment-1' }, { id: 'payment-2' }])
+    tx.payment.findUniqueOrThrow
+      .mockResolvedValueOnce(payment)
+      .mockResolvedValueOnce({ ...payment, id: 'payment-2', status: 'REFUND_PENDING' })
+
+    const result = await refundEventPayments({
+      eventId: 'event-1',
+      reason: 'Event cancelled',
+      requestedById: 'staff-1',
+    })
+
+    expect(result).toEqual({
+      success: true,
+      data: { requested: 1, skipped: [{ paymentId: 'payment-2', code: 'REFUND_IN_PROGRESS' }] },
+    })
+  })
+})
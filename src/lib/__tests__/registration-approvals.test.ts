@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    event: { findUniqueOrThrow: vi.fn() },
+    registration: { findMany: vi.fn(), aggregate: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    pendingPayment: { update: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      registration: { findMany: vi.fn() },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db, paginate: vi.fn() }))
+
+vi.mock('@/lib/registration-notifications', () => ({
+  sendRegistrationReviewed: vi.fn(),
+}))
+
+vi.mock('@/lib/waiting-list', () => ({
+  promoteFromWaitingList: vi.fn(),
+}))
+
+import { promoteFromWaitingList } from '@/lib/waiting-list'
+import { sendRegistrationReviewed } from '@/lib/registration-notifications'
+import { reviewRegistrations } from '@/lib/registration-approvals'
+
+function pending(id: string, groupSize = 1, pendingPayment: object | null = null) {
+  return { id, eventId: 'event-1', userId: `user-${id}`, status: 'PENDING', groupSize, pendingPayment }
+}
+
+describe('reviewRegistrations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.registration.findMany.mockResolvedValue([
+      { id: 'reg-1', eventId: 'event-1' },
+      { id: 'reg-2', eventId: 'event-1' },
+    ])
+    tx.event.findUniqueOrThrow.mockResolvedValue({ id: 'event-1', capacity: 3, requiresApproval: true })
+    tx.registration.aggregate.mockResolvedValue({ _sum: { groupSize: 1 } })
+    // Group members of each reviewed registration
+    tx.registration.findMany.mockResolvedValue([])
+  })
+
+  it('approves registrations while approved seats fit the capacity', async () => {
+    tx.registration.findMany.mockResolvedValueOnce([pending('reg-1'), pending('reg-2', 2)])
+
+    const result = await reviewRegistrations({
+      registrationIds: ['reg-1', 'reg-2'],
+      decision: 'APPROVE',
+      performedById: 'admin-1',
+    })
+
+    expect(result.success && result.data.approved).toEqual(['reg-1'])
+    expect(result.success && result.data.failed).toEqual([
+      expect.objectContaining({ registrationId: 'reg-2', code: 'CAPACITY_EXCEEDED' }),
+    ])
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ status: 'CONFIRMED', approvedAt: expect.any(Date) }),
+    })
+    expect(sendRegistrationReviewed).toHaveBeenCalledTimes(1)
+    expect(promoteFromWaitingList).not.toHaveBeenCalled()
+  })
+
+  it('keeps approved registrations pending until their payment arrives', async () => {
+    tx.registration.findMany.mockResolvedValueOnce([
+      pending('reg-1', 1, { id: 'pp-1', status: 'PENDING' }),
+    ])
+
+    await reviewRegistrations({ registrationIds: ['reg-1'], decision: 'APPROVE', performedById: 'admin-1' })
+
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ status: 'PENDING', confirmedAt: null }),
+    })
+  })
+
+  it('rejects with a reason, cancels the pending payment and frees the seats', async () => {
+    tx.registration.findMany.mockResolvedValueOnce([
+      pending('reg-1', 1, { id: 'pp-1', status: 'PENDING' }),
+    ])
+
+    const result = await reviewRegistrations({
+      registrationIds: ['reg-1', 'reg-2'],
+      decision: 'REJECT',
+      reason: 'Members only',
+      performedById: 'admin-1',
+    })
+
+    expect(result.success && result.data.rejected).toEqual(['reg-1'])
+    expect(result.success && result.data.failed).toEqual([
+      expect.objectContaining({ registrationId: 'reg-2', code: 'NOT_AWAITING_APPROVAL' }),
+    ])
+    expect(tx.pendingPayment.update).toHaveBeenCalledWith({
+      where: { id: 'pp-1' },
+      data: expect.objectContaining({ status: 'CANCELLED' }),
+    })
+    expect(tx.registrationHistory.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        expect.objectContaining({ action: 'ADMIN_REJECTED', reason: 'Members only', performedById: 'admin-1' }),
+      ]),
+    })
+    expect(sendRegistrationReviewed).toHaveBeenCalledWith('reg-1', 'Members only')
+    expect(promoteFromWaitingList).toHaveBeenCalledWith('event-1')
+  })
+})
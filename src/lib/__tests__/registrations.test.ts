@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    event: { findUnique: vi.fn() },
+    registration: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), groupBy: vi.fn() },
+    payment: { updateMany: vi.fn() },
+    pendingPayment: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    waitingList: { findFirst: vi.fn(), aggregate: vi.fn(), create: vi.fn(), update: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+    priceTier: { findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+    role: { findMany: vi.fn() },
+  })
+  const db = mockPrismaClient(
+    {
+      registration: { findUnique: vi.fn().mockResolvedValue(null) },
+    },
+    tx
+  )
+  return { tx, db }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db, paginate: vi.fn() }))
+
+vi.mock('@/lib/system-config', () => ({
+  getBooleanConfig: vi.fn(async (_key: string, defaultValue: boolean) => defaultValue),
+  getNumberConfig: vi.fn(async (_key: string, defaultValue: number) => defaultValue),
+}))
+
+vi.mock('@/lib/variable-symbols', () => ({
+  allocateVariableSymbol: vi.fn().mockResolvedValue('42000001'),
+}))
+
+vi.mock('@/lib/notification-templates', () => ({
+  sendTemplatedEmail: vi.fn().mockResolvedValue({ success: true }),
+}))
+
+import { Prisma } from '@prisma/client'
+import { registerForEvent } from '@/lib/registrations'
+
+const openEvent = {
+  id: 'event-1',
+  status: 'PUBLISHED',
+  capacity: 2,
+  startDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  registrationStartDate: null,
+  registrationEndDate: null,
+  requiresApproval: false,
+  requiresPayment: false,
+  price: null,
+  allowWaitingList: true,
+  maxWaitingList: null,
+}
+
+function takenSeats(seats: number) {
+  tx.registration.groupBy.mockResolvedValue([{ eventId: 'event-1', _sum: { groupSize: seats } }])
+}
+
+describe('registerForEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.event.findUnique.mockResolvedValue(openEvent)
+    tx.registration.findFirst.mockResolvedValue(null)
+    tx.waitingList.findFirst.mockResolvedValue(null)
+    tx.registration.create.mockImplementation(({ data }) => ({ id: 'reg-1', ...data }))
+    tx.waitingList.create.mockImplementation(({ data }) => ({ id: 'wl-1', ...data }))
+    takenSeats(0)
+  })
+
+  it('confirms a registration when seats are available', async () => {
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(tx.$queryRaw).toHaveBeenCalled()
+    expect(result.success && result.data.outcome).toBe('REGISTERED')
+    expect(tx.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'CONFIRMED', userId: 'user-1', eventId: 'event-1' }),
+    })
+    expect(tx.registrationHistory.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ action: 'REGISTERED', newStatus: 'CONFIRMED' })],
+    })
+  })
+
+  it('leaves the registration pending when the event requires approval', async () => {
+    tx.event.findUnique.mockResolvedValue({ ...openEvent, requiresApproval: true })
+
+    await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(tx.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'PENDING', confirmedAt: null }),
+    })
+  })
+
+  it('puts the attendee on the waiting list when the event is full', async () => {
+    takenSeats(2)
+    tx.waitingList.aggregate.mockResolvedValue({ _count: 3, _max: { position: 3 } })
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(result.success && result.data.outcome).toBe('WAITING_LIST')
+    expect(tx.registration.create).not.toHaveBeenCalled()
+    expect(tx.waitingList.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ position: 4, userId: 'user-1' }),
+    })
+  })
+
+  it('rejects the registration when the event is full without a waiting list', async () => {
+    takenSeats(2)
+    tx.event.findUnique.mockResolvedValue({ ...openEvent, allowWaitingList: false })
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.code).toBe('EVENT_FULL')
+  })
+
+  it('rejects registrations outside the registration window', async () => {
+    tx.event.findUnique.mockResolvedValue({
+      ...openEvent,
+      registrationStartDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    })
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(!result.success && result.error.code).toBe('REGISTRATION_NOT_OPEN')
+  })
+
+  it('registers friends as one group taking a seat each', async () => {
+    const result = await registerForEvent({
+      eventId: 'event-1',
+      userId: 'user-1',
+      friends: [{ name: 'Jana', email: 'jana@example.com' }],
+    })
+
+    expect(result.success && result.data.outcome).toBe('REGISTERED')
+    expect(tx.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        groupSize: 2,
+        registrationType: 'GROUP',
+        friendsData: [expect.objectContaining({ name: 'Jana', position: 1 })],
+      }),
+    })
+    expect(tx.registrationHistory.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ action: 'REGISTERED' }),
+        expect.objectContaining({ action: 'GROUP_REGISTRATION_CREATED' }),
+      ],
+    })
+  })
+
+  it('puts a group that does not fit on the waiting list', async () => {
+    takenSeats(1)
+    tx.waitingList.aggregate.mockResolvedValue({ _count: 0, _max: { position: null } })
+
+    const result = await registerForEvent({
+      eventId: 'event-1',
+      userId: 'user-1',
+      friends: [{ name: 'Jana' }],
+    })
+
+    expect(result.success && result.data.outcome).toBe('WAITING_LIST')
+    expect(tx.waitingList.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ groupSize: 2, isGroupEntry: true, position: 1 }),
+    })
+  })
+
+  it('rejects groups above the configured size', async () => {
+    const friends = Array.from({ length: 10 }, (_, i) => ({ name: `Friend ${i}` }))
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1', friends })
+
+    expect(!result.success && result.error.code).toBe('GROUP_TOO_LARGE')
+    expect(tx.registration.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects duplicate registrations', async () => {
+    tx.registration.findFirst.mockResolvedValue({ id: 'reg-0', status: 'CONFIRMED' })
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(!result.success && result.error.code).toBe('ALREADY_REGISTERED')
+  })
+
+  it('re-opens a cancelled registration without its earlier payment', async () => {
+    tx.registration.findFirst.mockResolvedValue({
+      id: 'reg-1',
+      status: 'CANCELLED',
+      paymentId: 'payment-1',
+      pendingPaymentId: 'pending-1',
+    })
+    tx.registration.update.mockImplementation(({ data }) => ({ id: 'reg-1', ...data }))
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1' })
+
+    expect(result.success && result.data.outcome).toBe('REGISTERED')
+    expect(tx.payment.updateMany).toHaveBeenCalledWith({
+      where: { registrationId: 'reg-1' },
+      data: { registrationId: null },
+    })
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({
+        status: 'CONFIRMED',
+        paymentId: null,
+        pendingPaymentId: null,
+        cancelledAt: null,
+      }),
+    })
+    expect(tx.registration.create).not.toHaveBeenCalled()
+  })
+
+  it('registers guests by email without history or payment', async () => {
+    const guest = { email: 'guest@example.com', name: 'Guest' }
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: null, guest })
+
+    expect(result.success && result.data.outcome).toBe('REGISTERED')
+    expect(tx.registration.findFirst).toHaveBeenCalledWith({
+      where: { eventId: 'event-1', userId: null, guestEmail: 'guest@example.com', guestName: 'Guest' },
+    })
+    expect(tx.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: null, guestEmail: 'guest@example.com', guestName: 'Guest' }),
+    })
+    expect(tx.registrationHistory.createMany).not.toHaveBeenCalled()
+  })
+
+  it('requires an account for paid events', async () => {
+    tx.event.findUnique.mockResolvedValue({ ...openEvent, requiresPayment: true, price: new Prisma.Decimal(100) })
+
+    const result = await registerForEvent({
+      eventId: 'event-1',
+      userId: null,
+      guest: { email: 'guest@example.com', name: 'Guest' },
+    })
+
+    expect(!result.success && result.error.code).toBe('ACCOUNT_REQUIRED')
+    expect(tx.registration.create).not.toHaveBeenCalled()
+  })
+
+  it('charges for a paid ticket type at an event whose base price is zero', async () => {
+    tx.event.findUnique.mockResolvedValue({
+      ...openEvent,
+      requiresPayment: true,
+      price: new Prisma.Decimal(0),
+      title: 'Conference',
+      currency: 'EUR',
+      bankAccountId: null,
+    })
+    tx.priceTier.findMany.mockResolvedValue([
+      {
+        id: 'tier-vip',
+        name: 'VIP',
+        price: new Prisma.Decimal(150),
+        validUntil: null,
+        registrationType: 'VIP',
+        roleId: null,
+        minGroupSize: null,
+        isActive: true,
+      },
+    ])
+    tx.user.findUnique.mockResolvedValue({ primaryRole: null, userRoles: [] })
+    tx.role.findMany.mockResolvedValue([])
+    tx.pendingPayment.findUnique.mockResolvedValue(null)
+    tx.pendingPayment.create.mockImplementation(({ data }) => ({ id: 'pending-1', ...data }))
+    tx.pendingPayment.update.mockImplementation(({ data }) => ({ id: 'pending-1', ...data }))
+    tx.registration.update.mockImplementation(({ data }) => ({ id: 'reg-1', ...data }))
+
+    const result = await registerForEvent({
+      eventId: 'event-1',
+      userId: 'user-1',
+      ticketType: 'VIP',
+    })
+
+    expect(result.success && result.data.outcome).toBe('REGISTERED')
+    expect(tx.pendingPayment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: new Prisma.Decimal(150), userId: 'user-1' }),
+    })
+    expect(tx.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: 'PENDING',
+        requiresPayment: true,
+        registrationType: 'VIP',
+      }),
+    })
+  })
+
+  it('rejects a ticket type the event has no price for, even when full', async () => {
+    tx.event.findUnique.mockResolvedValue({ ...openEvent, requiresPayment: true, price: new Prisma.Decimal(100) })
+    tx.priceTier.findMany.mockResolvedValue([])
+    tx.user.findUnique.mockResolvedValue({ primaryRole: null, userRoles: [] })
+    tx.role.findMany.mockResolvedValue([])
+    takenSeats(2)
+
+    const result = await registerForEvent({ eventId: 'event-1', userId: 'user-1', ticketType: 'STUDENT' })
+
+    expect(!result.success && result.error.code).toBe('TICKET_TYPE_UNAVAILABLE')
+    expect(tx.registration.create).not.toHaveBeenCalled()
+    expect(tx.waitingList.create).not.toHaveBeenCalled()
+  })
+})
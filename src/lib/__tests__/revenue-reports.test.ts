@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const db = vi.hoisted(() => ({
+  payment: { findMany: vi.fn() },
+  refund: { findMany: vi.fn() },
+  event: { findMany: vi.fn() },
+  exchangeRate: { findMany: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/system-config', () => ({ getStringConfig: vi.fn(async () => 'EUR') }))
+
+import { getRevenueReport } from '@/lib/revenue-reports'
+
+const decimal = (value: number | string) => new Prisma.Decimal(value)
+
+const period = {
+  from: new Date('2026-03-01T00:00:00Z'),
+  to: new Date('2026-03-31T00:00:00Z'),
+}
+
+describe('getRevenueReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.payment.findMany.mockResolvedValue([
+      {
+        id: 'p-1',
+        eventId: 'event-1',
+        amount: decimal(500),
+        currency: 'CZK',
+        paidAt: new Date('2026-03-02T09:00:00Z'),
+      },
+      {
+        id: 'p-2',
+        eventId: 'event-1',
+        amount: decimal(30),
+        currency: 'EUR',
+        paidAt: new Date('2026-03-03T09:00:00Z'),
+      },
+      {
+        id: 'p-3',
+        eventId: 'event-2',
+        amount: decimal(250),
+        currency: 'CZK',
+        paidAt: new Date('2026-03-27T09:00:00Z'),
+      },
+    ])
+    db.refund.findMany.mockResolvedValue([
+      {
+        id: 'r-1',
+        amount: decimal(250),
+        currency: 'CZK',
+        completedAt: new Date('2026-03-04T09:00:00Z'),
+        payment: { eventId: 'event-1' },
+      },
+    ])
+    db.exchangeRate.findMany.mockResolvedValue([
+      { currency: 'CZK', date: new Date('2026-03-02T00:00:00Z'), rate: decimal(25) },
+    ])
+    db.event.findMany.mockResolvedValue([
+      { id: 'event-1', title: 'React Workshop', startDate: new Date('2026-03-20T17:00:00Z') },
+    ])
+  })
+
+  it('sums payments and refunds per event in the base currency', async () => {
+    const report = await getRevenueReport(period)
+
+    expect(report.currency).toBe('EUR')
+    expect(report.events).toHaveLength(1)
+    const [event] = report.events
+    expect(event).toMatchObject({ eventId: 'event-1', payments: 2, currencies: ['CZK', 'EUR'] })
+    expect(event?.received.toString()).toBe('50')
+    expect(event?.refunded.toString()).toBe('10')
+    expect(event?.net.toString()).toBe('40')
+    expect(report.totals.net.toString()).toBe('40')
+  })
+
+  it('covers the whole last day of the period', async () => {
+    await getRevenueReport(period)
+
+    expect(db.payment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          paidAt: { gte: period.from, lt: new Date('2026-04-01T00:00:00Z') },
+        }),
+      })
+    )
+  })
+
+  it('lists amounts without a stored rate instead of guessing', async () => {
+    const report = await getRevenueReport(period)
+
+    // The last CZK rate is from 2 March, too old for a payment on 27 March
+    expect(report.unconverted).toEqual([
+      {
+        kind: 'payment',
+        id: 'p-3',
+        amount: decimal(250),
+        currency: 'CZK',
+        date: new Date('2026-03-27T09:00:00Z'),
+      },
+    ])
+  })
+
+  it('reports in another currency when asked', async () => {
+    const report = await getRevenueReport({ ...period, currency: 'CZK' })
+
+    expect(report.currency).toBe('CZK')
+    expect(report.events[0]?.received.toString()).toBe('1250')
+  })
+})
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = await vi.hoisted(async () => {
+  const { mockPrismaClient } = await import('@/test/prisma-mock')
+  return mockPrismaClient({
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    role: { findUnique: vi.fn() },
+    userRole: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    auditLog: { create: vi.fn() },
+  })
+})
+
+const sendTemplatedEmail = vi.hoisted(() => vi.fn())
+const config = vi.hoisted(() => ({ reminderDays: 3 }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/notification-templates', () => ({ sendTemplatedEmail }))
+vi.mock('@/lib/system-config', () => ({
+  getNumberConfig: vi.fn(async () => config.reminderDays),
+}))
+
+import {
+  expireRoleGrants,
+  grantRole,
+  recalculatePrimaryRole,
+  sendRoleGrantExpiryReminders,
+} from '@/lib/role-grants'
+
+const now = new Date('2026-09-01T08:00:00Z')
+
+const grant = (overrides: Record<string, unknown> = {}) => ({
+  id: 'grant-1',
+  userId: 'user-1',
+  roleId: 'role-manager',
+  assignedAt: new Date('2026-08-01T08:00:00Z'),
+  assignedBy: 'admin-1',
+  expiresAt: new Date('2026-09-01T00:00:00Z'),
+  isActive: false,
+  expiryReminderSentAt: null,
+  user: { id: 'user-1', email: 'jana@example.com', name: 'Jana', preferredLocale: 'cs' },
+  role: {
+    id: 'role-manager',
+    name: 'EVENT_MANAGER',
+    displayName: 'Event Manager',
+    color: null,
+    priority: 5,
+  },
+  ...overrides,
+})
+
+describe('recalculatePrimaryRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('picks the highest-priority active grant', async () => {
+    db.userRole.findFirst.mockResolvedValue({ roleId: 'role-manager' })
+
+    await expect(recalculatePrimaryRole(db, 'user-1', now)).resolves.toBe('role-manager')
+    expect(db.userRole.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          isActive: true,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+        orderBy: [{ role: { priority: 'desc' } }, { assignedAt: 'asc' }],
+      })
+    )
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { primaryRoleId: 'role-manager' },
+    })
+  })
+
+  it('clears the primary role when no grant is left', async () => {
+    db.userRole.findFirst.mockResolvedValue(null)
+
+    await expect(recalculatePrimaryRole(db, 'user-1', now)).resolves.toBeNull()
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { primaryRoleId: null },
+    })
+  })
+})
+
+describe('grantRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.user.findUnique.mockResolvedValue({ id: 'user-1' })
+    db.role.findUnique.mockResolvedValue({ id: 'role-manager' })
+    db.userRole.upsert.mockResolvedValue(grant({ isActive: true }))
+    db.userRole.findFirst.mockResolvedValue({ roleId: 'role-manager' })
+  })
+
+  it('grants or renews the role until the expiry and audits it', async () => {
+    const expiresAt = new Date('2026-10-01T00:00:00Z')
+    const result = await grantRole(
+      { email: 'jana@example.com', roleId: 'role-manager', expiresAt },
+      'admin-1',
+      now
+    )
+
+    expect(result.success).toBe(true)
+    expect(db.user.findUnique).toHaveBeenCalledWith({
+      where: { email: 'jana@example.com' },
+      select: { id: true },
+    })
+    const assignment = {
+      assignedBy: 'admin-1',
+      assignedAt: now,
+      expiresAt,
+      isActive: true,
+      expiryReminderSentAt: null,
+    }
+    expect(db.userRole.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId_roleId: { userId: 'user-1', roleId: 'role-manager' } },
+        create: { userId: 'user-1', roleId: 'role-manager', ...assignment },
+        update: assignment,
+      })
+    )
+    expect(db.user.update).toHaveBeenCalled()
+    expect(db.auditLog.create.mock.calls[0]?.[0].data).toMatchObject({
+      userId: 'admin-1',
+      action: 'CREATE',
+      resource: 'UserRole',
+      resourceId: 'grant-1',
+    })
+  })
+
+  it('fails for an unknown user', async () => {
+    db.user.findUnique.mockResolvedValue(null)
+
+    const result = await grantRole({ userId: 'nobody', roleId: 'role-manager' }, 'admin-1', now)
+
+    expect(result).toMatchObject({ success: false, error: { code: 'USER_NOT_FOUND' } })
+    expect(db.userRole.upsert).not.toHaveBeenCalled()
+  })
+})
+
+describe('expireRoleGrants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.userRole.findMany.mockResolvedValue([{ id: 'grant-1' }])
+    db.userRole.updateMany.mockResolvedValue({ count: 1 })
+    db.userRole.findUniqueOrThrow.mockResolvedValue(grant())
+    db.userRole.findFirst.mockResolvedValue(null)
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('deactivates lapsed grants, recalculates the primary role and tells the holder', async () => {
+    await expect(expireRoleGrants(now)).resolves.toBe(1)
+
+    expect(db.userRole.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { isActive: true, expiresAt: { lte: now } } })
+    )
+    expect(db.userRole.updateMany).toHaveBeenCalledWith({
+      where: { id: 'grant-1', isActive: true },
+      data: { isActive: false },
+    })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { primaryRoleId: null },
+    })
+    expect(sendTemplatedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'role_grant_expired',
+        recipient: expect.objectContaining({ email: 'jana@example.com', locale: 'cs' }),
+        variables: expect.objectContaining({ roleName: 'Event Manager' }),
+      })
+    )
+  })
+
+  it('skips grants another run already deactivated', async () => {
+    db.userRole.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(expireRoleGrants(now)).resolves.toBe(0)
+    expect(db.user.update).not.toHaveBeenCalled()
+    expect(sendTemplatedEmail).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendRoleGrantExpiryReminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.reminderDays = 3
+    db.userRole.findMany.mockResolvedValue([
+      grant({ isActive: true, expiresAt: new Date('2026-09-03T00:00:00Z') }),
+    ])
+    db.userRole.updateMany.mockResolvedValue({ count: 1 })
+    sendTemplatedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('reminds holders of grants that lapse within the window once', async () => {
+    await expect(sendRoleGrantExpiryReminders(now)).resolves.toBe(1)
+
+    expect(db.userRole.findMany.mock.calls[0]?.[0].where).toEqual({
+      isActive: true,
+      expiryReminderSentAt: null,
+      expiresAt: { gt: now, lte: new Date('2026-09-04T08:00:00Z') },
+    })
+    expect(db.userRole.updateMany).toHaveBeenCalledWith({
+      where: { id: 'grant-1', expiryReminderSentAt: null },
+      data: { expiryReminderSentAt: now },
+    })
+    expect(sendTemplatedEmail.mock.calls[0]?.[0].templateName).toBe('role_grant_expiring')
+  })
+
+  it('is disabled with zero days', async () => {
+    config.reminderDays = 0
+
+    await expect(sendRoleGrantExpiryReminders(now)).resolves.toBe(0)
+    expect(db.userRole.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = await vi.hoisted(async () => {
+  const { mockPrismaClient } = await import('@/test/prisma-mock')
+  return mockPrismaClient({
+    role: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    auditLog: { create: vi.fn(), findMany: vi.fn() },
+  })
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import {
+  createRole,
+  deleteRole,
+  diffPermissions,
+  getRolePermissionHistory,
+  updateRole,
+} from '@/lib/role-management'
+import { createRoleSchema } from '@/lib/validations/role'
+
+const role = (overrides: Record<string, unknown> = {}) => ({
+  id: 'role-1',
+  name: 'TREASURER',
+  displayName: 'Treasurer',
+  description: null,
+  color: '#10B981',
+  priority: 4,
+  isSystem: false,
+  isDefault: false,
+  permissions: ['payments.view'],
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('createRoleSchema', () => {
+  it('accepts registered permissions and group wildcards only', () => {
+    const parsed = createRoleSchema.safeParse({
+      name: 'treasurer',
+      displayName: 'Treasurer',
+      permissions: ['payments.*', 'reports.view', 'reports.view'],
+    })
+    expect(parsed.success && parsed.data).toMatchObject({
+      name: 'TREASURER',
+      permissions: ['payments.*', 'reports.view'],
+    })
+
+    for (const permission of ['payments.steal', 'system.*', 'payments']) {
+      expect(
+        createRoleSchema.safeParse({ name: 'X_ROLE', displayName: 'X', permissions: [permission] })
+          .success
+      ).toBe(false)
+    }
+  })
+})
+
+describe('updateRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('audits the permission diff', async () => {
+    db.role.findUnique.mockResolvedValue(role())
+    db.role.update.mockResolvedValue(role({ permissions: ['payments.view', 'payments.refund'] }))
+
+    const result = await updateRole(
+      'role-1',
+      { permissions: ['payments.view', 'payments.refund'] },
+      'admin-1'
+    )
+
+    expect(result.success).toBe(true)
+    expect(db.role.update).toHaveBeenCalledWith({
+      where: { id: 'role-1' },
+      data: { permissions: ['payments.view', 'payments.refund'] },
+    })
+    expect(db.auditLog.create.mock.calls[0]?.[0].data).toMatchObject({
+      userId: 'admin-1',
+      action: 'UPDATE',
+      resource: 'Role',
+      resourceId: 'role-1',
+      changes: { added: ['payments.refund'], removed: [] },
+    })
+  })
+
+  it('makes the role the only default', async () => {
+    db.role.findUnique.mockResolvedValue(role())
+    db.role.update.mockResolvedValue(role({ isDefault: true }))
+
+    await updateRole('role-1', { isDefault: true }, 'admin-1')
+
+    expect(db.role.updateMany).toHaveBeenCalledWith({
+      where: { isDefault: true, id: { not: 'role-1' } },
+      data: { isDefault: false },
+    })
+  })
+
+  it('keeps the default until another role takes over and system role names', async () => {
+    db.role.findUnique.mockResolvedValue(role({ isDefault: true, isSystem: true, name: 'USER' }))
+
+    await expect(updateRole('role-1', { isDefault: false }, 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_DEFAULT_REQUIRED' },
+    })
+    await expect(updateRole('role-1', { name: 'MEMBER' }, 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_SYSTEM' },
+    })
+    expect(db.role.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('createRole', () => {
+  it('never creates system roles', async () => {
+    vi.clearAllMocks()
+    db.role.create.mockResolvedValue(role())
+
+    await createRole(
+      { name: 'TREASURER', displayName: 'Treasurer', permissions: ['payments.view'] },
+      'admin-1'
+    )
+
+    expect(db.role.create.mock.calls[0]?.[0].data).toMatchObject({
+      name: 'TREASURER',
+      isSystem: false,
+    })
+    expect(db.role.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('deleteRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('protects system, default and held roles', async () => {
+    db.role.findUnique.mockResolvedValueOnce({
+      ...role({ isSystem: true }),
+      _count: { userRoles: 0, priceTiers: 0 },
+    })
+    await expect(deleteRole('role-1', 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_SYSTEM' },
+    })
+
+    db.role.findUnique.mockResolvedValueOnce({
+      ...role({ isDefault: true }),
+      _count: { userRoles: 0, priceTiers: 0 },
+    })
+    await expect(deleteRole('role-1', 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_DEFAULT' },
+    })
+
+    db.role.findUnique.mockResolvedValueOnce({ ...role(), _count: { userRoles: 2, priceTiers: 0 } })
+    await expect(deleteRole('role-1', 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_IN_USE' },
+    })
+
+    expect(db.role.delete).not.toHaveBeenCalled()
+  })
+
+  it('keeps a role that event price tiers are for', async () => {
+    db.role.findUnique.mockResolvedValue({ ...role(), _count: { userRoles: 0, priceTiers: 1 } })
+
+    await expect(deleteRole('role-1', 'admin-1')).resolves.toMatchObject({
+      error: { code: 'ROLE_HAS_PRICE_TIERS', statusCode: 409 },
+    })
+    expect(db.role.delete).not.toHaveBeenCalled()
+  })
+
+  it('deletes an unused custom role', async () => {
+    db.role.findUnique.mockResolvedValue({ ...role(), _count: { userRoles: 0, priceTiers: 0 } })
+
+    await expect(deleteRole('role-1', 'admin-1')).resolves.toEqual({
+      success: true,
+      data: { id: 'role-1' },
+    })
+    expect(db.auditLog.create.mock.calls[0]?.[0].data).toMatchObject({ action: 'DELETE' })
+  })
+})
+
+describe('role permission history', () => {
+  it('diffs permission lists', () => {
+    expect(diffPermissions(['a.x', 'b.*'], ['b.*', 'c.y'])).toEqual({
+      added: ['c.y'],
+      removed: ['a.x'],
+    })
+  })
+
+  it('lists the permission changes from the audit log and skips other edits', async () => {
+    const admin = { id: 'admin-1', email: 'admin@example.com', name: 'Admin' }
+    db.auditLog.findMany.mockResolvedValue([
+      {
+        id: 'log-3',
+        action: 'UPDATE',
+        timestamp: new Date('2026-03-01T00:00:00Z'),
+        user: admin,
+        oldData: { permissions: ['payments.view'], color: '#000000' },
+        newData: { permissions: ['payments.view'], color: '#FFFFFF' },
+      },
+      {
+        id: 'log-2',
+        action: 'UPDATE',
+        timestamp: new Date('2026-02-01T00:00:00Z'),
+        user: admin,
+        oldData: { permissions: ['payments.view', 'reports.view'] },
+        newData: { permissions: ['payments.view', 'payments.refund'] },
+      },
+      {
+        id: 'log-1',
+        action: 'CREATE',
+        timestamp: new Date('2026-01-01T00:00:00Z'),
+        user: null,
+        oldData: null,
+        newData: { permissions: ['payments.view', 'reports.view'] },
+      },
+    ])
+
+    const history = await getRolePermissionHistory('role-1')
+
+    expect(db.auditLog.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { resource: 'Role', resourceId: 'role-1' } })
+    )
+    expect(history.map(({ id, added, removed }) => ({ id, added, removed }))).toEqual([
+      { id: 'log-2', added: ['payments.refund'], removed: ['reports.view'] },
+      { id: 'log-1', added: ['payments.view', 'reports.view'], removed: [] },
+    ])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_SLUG_LENGTH, pickAvailableSlug, slugify, withSlugSuffix } from '@/lib/slug'
+
+describe('slugify', () => {
+  it('transliterates Czech and Slovak diacritics', () => {
+    expect(slugify('Přednáška: Úvod do Reactu')).toBe('prednaska-uvod-do-reactu')
+    expect(slugify('Žluťoučký kůň úpěl ďábelské ódy')).toBe('zlutoucky-kun-upel-dabelske-ody')
+    expect(slugify('Ľúbostná pieseň v Košiciach')).toBe('lubostna-piesen-v-kosiciach')
+  })
+
+  it('transliterates characters without a decomposed form', () => {
+    expect(slugify('Łódź & Straße')).toBe('lodz-and-strasse')
+  })
+
+  it('collapses punctuation and whitespace into single dashes', () => {
+    expect(slugify('  React -- Meetup!!  #5 ')).toBe('react-meetup-5')
+  })
+
+  it('returns an empty string when nothing usable remains', () => {
+    expect(slugify('🎉🎉')).toBe('')
+  })
+
+  it('limits the length without a trailing dash', () => {
+    const slug = slugify('a '.repeat(200))
+
+    expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH)
+    expect(slug.endsWith('-')).toBe(false)
+  })
+})
+
+describe('pickAvailableSlug', () => {
+  it('uses the base slug when it is free', () => {
+    expect(pickAvailableSlug('spring-meetup', ['other'])).toBe('spring-meetup')
+  })
+
+  it('appends the first free numeric suffix', () => {
+    expect(pickAvailableSlug('spring-meetup', ['spring-meetup', 'spring-meetup-2'])).toBe(
+      'spring-meetup-3'
+    )
+  })
+
+  it('keeps suffixed slugs within the length limit', () => {
+    const base = 'a'.repeat(MAX_SLUG_LENGTH)
+
+    expect(withSlugSuffix(base, 12)).toHaveLength(MAX_SLUG_LENGTH)
+    expect(pickAvailableSlug(base, [base])).toBe(`${'a'.repeat(MAX_SLUG_LENGTH - 2)}-2`)
+  })
+})
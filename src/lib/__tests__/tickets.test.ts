@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  const tx = mockTransactionClient({
+    $queryRaw: vi.fn(),
+    event: { findUnique: vi.fn() },
+    registration: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    registrationHistory: { createMany: vi.fn() },
+  })
+  const db = mockPrismaClient({}, tx)
+  return { tx, db }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db, paginate: vi.fn() }))
+
+import { checkInTicket, closeCheckIn, createTicketCode, normalizeTicketCode } from '@/lib/tickets'
+
+const event = { startDate: new Date(Date.now() + 60 * 60 * 1000), endDate: null }
+
+function registration(overrides: object = {}) {
+  return {
+    id: 'reg-1',
+    eventId: 'event-1',
+    userId: 'user-1',
+    status: 'CONFIRMED',
+    groupSize: 1,
+    friendsData: [],
+    checkedInAt: null,
+    guestName: null,
+    guestEmail: null,
+    user: { name: 'Jana', email: 'jana@example.com' },
+    groupMembers: [],
+    ...overrides,
+  }
+}
+
+describe('tickets', () => {
+  let code: string
+
+  beforeAll(() => {
+    process.env['JWT_SECRET'] = 'test-secret'
+    code = createTicketCode({ id: 'reg-1' }, event)
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('reads the code from a scanned ticket page URL', () => {
+    expect(normalizeTicketCode(`https://example.com/en/tickets/${code}`)).toBe(code)
+    expect(normalizeTicketCode(` ${code} `)).toBe(code)
+  })
+
+  it('checks in a confirmed registration and lists the group', async () => {
+    tx.registration.findUnique.mockResolvedValue(
+      registration({
+        groupSize: 3,
+        friendsData: [
+          { id: 'f1', position: 1, name: 'Petr', registrationId: 'reg-2' },
+          { id: 'f2', position: 2, name: 'Eva' },
+        ],
+        groupMembers: [{ id: 'reg-2', status: 'CONFIRMED', checkedInAt: null }],
+      })
+    )
+
+    const result = await checkInTicket({ eventId: 'event-1', code, performedById: 'staff-1' })
+
+    expect(result.success && result.data.members).toEqual([
+      { name: 'Petr', registrationId: 'reg-2', status: 'CONFIRMED', checkedInAt: null },
+      { name: 'Eva', registrationId: null, status: null, checkedInAt: null },
+    ])
+    expect(tx.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: { status: 'ATTENDED', checkedInAt: expect.any(Date) },
+    })
+  })
+
+  it('rejects reused and cancelled tickets', async () => {
+    tx.registration.findUnique.mockResolvedValueOnce(registration({ status: 'ATTENDED' }))
+    tx.registration.findUnique.mockResolvedValueOnce(registration({ status: 'CANCELLED' }))
+
+    const reused = await checkInTicket({ eventId: 'event-1', code, performedById: 'staff-1' })
+    const cancelled = await checkInTicket({ eventId: 'event-1', code, performedById: 'staff-1' })
+
+    expect(!reused.success && reused.error.code).toBe('ALREADY_CHECKED_IN')
+    expect(!cancelled.success && cancelled.error.code).toBe('TICKET_NOT_VALID')
+    expect(tx.registration.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects tickets of other events', async () => {
+    tx.registration.findUnique.mockResolvedValue(registration({ eventId: 'event-2' }))
+
+    const result = await checkInTicket({ eventId: 'event-1', code, performedById: 'staff-1' })
+
+    expect(!result.success && result.error.code).toBe('TICKET_WRONG_EVENT')
+  })
+
+  it('marks confirmed registrations as no-shows once the event started', async () => {
+    tx.event.findUnique.mockResolvedValue({ id: 'event-1', startDate: new Date(Date.now() - 1000) })
+    tx.registration.findMany.mockResolvedValue([
+      { id: 'reg-1', userId: 'user-1' },
+      { id: 'reg-3', userId: null },
+    ])
+
+    const result = await closeCheckIn('event-1', 'staff-1')
+
+    expect(result.success && result.data.noShows).toBe(2)
+    expect(tx.registration.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reg-1', 'reg-3'] } },
+      data: { status: 'NO_SHOW' },
+    })
+  })
+
+  it('does not close the check-in before the event starts', async () => {
+    tx.event.findUnique.mockResolvedValue({ id: 'event-1', startDate: event.startDate })
+
+    const result = await closeCheckIn('event-1', 'staff-1')
+
+    expect(!result.success && result.error.code).toBe('EVENT_NOT_STARTED')
+  })
+})
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = await vi.hoisted(async () => {
+  const { mockPrismaClient } = await import('@/test/prisma-mock')
+  return mockPrismaClient({
+    user: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    registration: { findMany: vi.fn() },
+    auditLog: { create: vi.fn() },
+  })
+})
+
+const cancelRegistration = vi.hoisted(() => vi.fn())
+const getUserRoles = vi.hoisted(() => vi.fn())
+const config = vi.hoisted(() => ({ cancelRegistrations: false }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/registrations', () => ({ cancelRegistration }))
+vi.mock('@/lib/roles', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/roles')>()),
+  getUserRoles,
+}))
+vi.mock('@/lib/system-config', () => ({
+  getBooleanConfig: vi.fn(async () => config.cancelRegistrations),
+}))
+
+import { liftExpiredSuspensions, reactivateUser, suspendUser } from '@/lib/user-suspensions'
+import { getAccountRestriction } from '@/lib/user-status'
+
+const now = new Date('2026-10-01T12:00:00Z')
+const until = new Date('2026-10-15T12:00:00Z')
+
+const account = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'jana@example.com',
+  name: 'Jana',
+  status: 'ACTIVE',
+  suspendedAt: null,
+  suspendedUntil: null,
+  suspensionReason: null,
+  ...overrides,
+})
+
+const suspended = account({
+  status: 'SUSPENDED',
+  suspendedAt: now,
+  suspendedUntil: until,
+  suspensionReason: 'Spam',
+})
+
+const role = (name: string, priority: number, permissions: string[] = []) => ({
+  id: `role-${name}`,
+  name,
+  priority,
+  permissions,
+})
+
+const roles: Record<string, ReturnType<typeof role>[]> = {
+  'moderator-1': [role('MODERATOR', 7, ['users.moderate', 'users.view'])],
+  'user-1': [role('USER', 1, ['events.view'])],
+}
+
+function mockRoles() {
+  getUserRoles.mockImplementation(async (_db: unknown, userId: string) => roles[userId] ?? [])
+}
+
+describe('getAccountRestriction', () => {
+  it('shuts out inactive accounts and suspensions that have not ended', () => {
+    expect(getAccountRestriction({ status: 'ACTIVE', suspendedUntil: null }, now)).toBeNull()
+    expect(
+      getAccountRestriction({ status: 'PENDING_VERIFICATION', suspendedUntil: null }, now)
+    ).toBeNull()
+    expect(getAccountRestriction({ status: 'INACTIVE', suspendedUntil: null }, now)).toBe(
+      'INACTIVE'
+    )
+    expect(getAccountRestriction({ status: 'SUSPENDED', suspendedUntil: null }, now)).toBe(
+      'SUSPENDED'
+    )
+    expect(getAccountRestriction({ status: 'SUSPENDED', suspendedUntil: until }, now)).toBe(
+      'SUSPENDED'
+    )
+    expect(getAccountRestriction({ status: 'SUSPENDED', suspendedUntil: now }, now)).toBeNull()
+  })
+})
+
+describe('suspendUser', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.cancelRegistrations = false
+    db.user.findUnique.mockResolvedValue(account())
+    db.user.update.mockResolvedValue(suspended)
+    mockRoles()
+  })
+
+  it('suspends the account with a reason and end date and audits it', async () => {
+    const result = await suspendUser(
+      { email: 'jana@example.com', reason: 'Spam', until },
+      'moderator-1',
+      now
+    )
+
+    expect(result).toEqual({ success: true, data: { user: suspended, cancelledRegistrations: 0 } })
+    expect(db.user.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { email: 'jana@example.com' } })
+    )
+    expect(db.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'user-1' },
+        data: {
+          status: 'SUSPENDED',
+          suspendedAt: now,
+          suspendedUntil: until,
+          suspensionReason: 'Spam',
+        },
+      })
+    )
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'moderator-1',
+        action: 'UPDATE',
+        resourceId: 'user-1',
+        oldData: { status: 'ACTIVE', suspendedUntil: null, suspensionReason: null },
+      }),
+    })
+    expect(db.registration.findMany).not.toHaveBeenCalled()
+  })
+
+  it('cancels upcoming registrations when configured', async () => {
+    config.cancelRegistrations = true
+    db.registration.findMany.mockResolvedValue([{ id: 'reg-1' }, { id: 'reg-2' }])
+    cancelRegistration
+      .mockResolvedValueOnce({ success: true, data: {} })
+      .mockResolvedValueOnce({ success: false, error: { code: 'ALREADY_CANCELLED' } })
+
+    const result = await suspendUser({ userId: 'user-1', reason: 'Spam' }, 'moderator-1', now)
+
+    expect(result).toMatchObject({ success: true, data: { cancelledRegistrations: 1 } })
+    expect(db.registration.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'user-1', event: { startDate: { gt: now } } }),
+      })
+    )
+    expect(cancelRegistration).toHaveBeenCalledWith({
+      registrationId: 'reg-1',
+      performedById: 'moderator-1',
+      asManager: true,
+      reason: 'Account suspended',
+    })
+  })
+
+  it('refuses to suspend the moderator or an inactive account', async () => {
+    await expect(
+      suspendUser({ userId: 'user-1', reason: 'Spam' }, 'user-1', now)
+    ).resolves.toMatchObject({ success: false, error: { code: 'CANNOT_SUSPEND_SELF' } })
+
+    db.user.findUnique.mockResolvedValue(account({ status: 'INACTIVE' }))
+    await expect(
+      suspendUser({ userId: 'user-1', reason: 'Spam' }, 'moderator-1', now)
+    ).resolves.toMatchObject({ success: false, error: { code: 'USER_INACTIVE' } })
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+
+  it('refuses accounts whose roles rank at or above the moderator', async () => {
+    getUserRoles.mockImplementation(async (_db: unknown, userId: string) =>
+      userId === 'user-1' ? [role('ADMIN', 10, ['*'])] : roles[userId]
+    )
+    await expect(
+      suspendUser({ userId: 'user-1', reason: 'Spam' }, 'moderator-1', now)
+    ).resolves.toMatchObject({ success: false, error: { code: 'USER_OUTRANKS_MODERATOR' } })
+
+    getUserRoles.mockImplementation(async (_db: unknown, userId: string) =>
+      userId === 'user-1' ? [role('CO_MODERATOR', 7)] : roles[userId]
+    )
+    await expect(
+      suspendUser({ userId: 'user-1', reason: 'Spam' }, 'moderator-1', now)
+    ).resolves.toMatchObject({ success: false, error: { code: 'USER_OUTRANKS_MODERATOR' } })
+
+    // Administrator grants protect an account whatever its priority
+    getUserRoles.mockImplementation(async (_db: unknown, userId: string) =>
+      userId === 'user-1' ? [role('USER_ADMINS', 2, ['users.*'])] : roles[userId]
+    )
+    await expect(
+      suspendUser({ userId: 'user-1', reason: 'Spam' }, 'moderator-1', now)
+    ).resolves.toMatchObject({ success: false, error: { code: 'USER_OUTRANKS_MODERATOR' } })
+
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('reactivateUser', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.user.update.mockResolvedValue(account())
+    mockRoles()
+  })
+
+  it('clears the suspension', async () => {
+    db.user.findUnique.mockResolvedValue(suspended)
+
+    await expect(reactivateUser('user-1', 'moderator-1')).resolves.toMatchObject({
+      success: true,
+      data: { status: 'ACTIVE' },
+    })
+    expect(db.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { status: 'ACTIVE', suspendedAt: null, suspendedUntil: null, suspensionReason: null },
+      })
+    )
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'moderator-1',
+        description: 'jana@example.com reactivated',
+      }),
+    })
+  })
+
+  it('refuses accounts whose roles rank at or above the moderator', async () => {
+    db.user.findUnique.mockResolvedValue(suspended)
+    getUserRoles.mockImplementation(async (_db: unknown, userId: string) =>
+      userId === 'user-1' ? [role('ADMIN', 10, ['*'])] : roles[userId]
+    )
+
+    await expect(reactivateUser('user-1', 'moderator-1')).resolves.toMatchObject({
+      success: false,
+      error: { code: 'USER_OUTRANKS_MODERATOR', statusCode: 403 },
+    })
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects accounts that are not suspended', async () => {
+    db.user.findUnique.mockResolvedValue(account())
+
+    await expect(reactivateUser('user-1', 'moderator-1')).resolves.toMatchObject({
+      success: false,
+      error: { code: 'USER_NOT_SUSPENDED' },
+    })
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('liftExpiredSuspensions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.user.update.mockResolvedValue(account())
+  })
+
+  it('reactivates accounts whose suspension has ended', async () => {
+    const later = new Date('2026-10-16T12:00:00Z')
+    db.user.findMany.mockResolvedValue([suspended, account({ ...suspended, id: 'user-2' })])
+    db.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+    await expect(liftExpiredSuspensions(later)).resolves.toBe(1)
+    expect(db.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'SUSPENDED', suspendedUntil: { lte: later } },
+      })
+    )
+    expect(db.user.update).toHaveBeenCalledTimes(1)
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: null, resourceId: 'user-1' }),
+    })
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = await vi.hoisted(async () => {
+  const { mockPrismaClient } = await import('@/test/prisma-mock')
+  return mockPrismaClient({
+    user: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    role: { findFirst: vi.fn() },
+    auditLog: { create: vi.fn() },
+  })
+})
+
+const mergeGuestRegistrations = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/guest-registrations', () => ({ mergeGuestRegistrations }))
+
+import { getCurrentUser } from '@/lib/kinde-auth'
+import {
+  getCurrentAccount,
+  recordCurrentUserLogin,
+  removeKindeUser,
+  syncKindeUser,
+} from '@/lib/users'
+
+const now = new Date('2026-10-01T12:00:00Z')
+
+const user = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  kindeId: 'kp_1',
+  email: 'jana@example.com',
+  name: 'Jana Nováková',
+  status: 'PENDING_VERIFICATION',
+  primaryRoleId: 'role-user',
+  lastLoginAt: null,
+  ...overrides,
+})
+
+const profile = {
+  kindeId: 'kp_1',
+  email: 'Jana@Example.com',
+  firstName: 'Jana',
+  lastName: 'Nováková',
+}
+
+describe('getCurrentAccount', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({
+      id: 'kp_2',
+      email: 'Jana@Example.com',
+      given_name: 'Jana',
+      family_name: 'Nováková',
+    })
+  })
+
+  it('links an unlinked account with the same email', async () => {
+    db.user.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(user({ kindeId: null }))
+    db.user.update.mockResolvedValue(user({ kindeId: 'kp_2' }))
+
+    await expect(getCurrentAccount()).resolves.toMatchObject({ kindeId: 'kp_2' })
+    expect(db.user.findUnique).toHaveBeenLastCalledWith({ where: { email: 'jana@example.com' } })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { kindeId: 'kp_2' },
+    })
+    expect(mergeGuestRegistrations).toHaveBeenCalled()
+  })
+
+  it('refuses an email account linked to another Kinde identity', async () => {
+    db.user.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(user())
+
+    await expect(getCurrentAccount()).resolves.toBeNull()
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('syncKindeUser', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.user.findUnique.mockResolvedValue(null)
+    db.role.findFirst.mockResolvedValue({ id: 'role-user' })
+    db.user.create.mockResolvedValue(user())
+  })
+
+  it('creates new accounts with the default role and audits them', async () => {
+    await expect(syncKindeUser(profile, now)).resolves.toMatchObject({
+      success: true,
+      data: { created: true },
+    })
+
+    expect(db.role.findFirst.mock.calls[0]?.[0].where).toEqual({ isDefault: true })
+    expect(db.user.create).toHaveBeenCalledWith({
+      data: {
+        kindeId: 'kp_1',
+        email: 'jana@example.com',
+        firstName: 'Jana',
+        lastName: 'Nováková',
+        name: 'Jana Nováková',
+        primaryRoleId: 'role-user',
+        userRoles: { create: { roleId: 'role-user', assignedAt: now } },
+      },
+    })
+    expect(db.auditLog.create.mock.calls[0]?.[0].data).toMatchObject({
+      userId: 'user-1',
+      action: 'CREATE',
+      resource: 'User',
+    })
+    expect(mergeGuestRegistrations).toHaveBeenCalledWith(user())
+  })
+
+  it('links an account made with the same email', async () => {
+    db.user.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(user({ kindeId: null, status: 'ACTIVE' }))
+    db.user.update.mockResolvedValue(user({ status: 'ACTIVE' }))
+
+    await expect(syncKindeUser(profile, now)).resolves.toMatchObject({
+      success: true,
+      data: { created: false },
+    })
+    expect(db.user.update.mock.calls[0]?.[0].data).toMatchObject({ kindeId: 'kp_1' })
+    expect(db.user.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses an email linked to another Kinde account', async () => {
+    db.user.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(user({ kindeId: 'kp_2' }))
+
+    await expect(syncKindeUser(profile, now)).resolves.toMatchObject({
+      error: { code: 'EMAIL_IN_USE' },
+    })
+  })
+
+  it('keeps stored names that Kinde does not send', async () => {
+    db.user.findUnique.mockResolvedValue(user())
+    db.user.update.mockResolvedValue(user())
+
+    await syncKindeUser({ kindeId: 'kp_1', email: null, firstName: null }, now)
+
+    expect(db.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: {} })
+  })
+})
+
+describe('removeKindeUser', () => {
+  it('unlinks and deactivates the account', async () => {
+    vi.clearAllMocks()
+    db.user.findUnique.mockResolvedValue(user({ status: 'ACTIVE' }))
+
+    await expect(removeKindeUser('kp_1', now)).resolves.toEqual({
+      success: true,
+      data: { id: 'user-1' },
+    })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { kindeId: null, status: 'INACTIVE' },
+    })
+  })
+})
+
+describe('recordCurrentUserLogin', () => {
+  const context = { ipAddress: '203.0.113.7', userAgent: 'vitest' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentUser).mockResolvedValue({
+      id: 'kp_1',
+      email: 'jana@example.com',
+      given_name: 'Jana',
+      family_name: 'Nováková',
+    })
+    db.user.findUnique.mockResolvedValue(user())
+  })
+
+  it('activates a pending account and audits the login', async () => {
+    db.user.update
+      .mockResolvedValueOnce(user())
+      .mockResolvedValueOnce(user({ status: 'ACTIVE', lastLoginAt: now }))
+
+    await expect(recordCurrentUserLogin(context, now)).resolves.toMatchObject({
+      status: 'ACTIVE',
+    })
+    expect(db.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-1' },
+      data: { lastLoginAt: now, status: 'ACTIVE' },
+    })
+    expect(db.auditLog.create.mock.calls[0]?.[0].data).toMatchObject({
+      userId: 'user-1',
+      action: 'LOGIN',
+      resource: 'User',
+      newData: { status: 'ACTIVE' },
+      ipAddress: '203.0.113.7',
+      userAgent: 'vitest',
+    })
+  })
+
+  it('only records the time for active accounts', async () => {
+    db.user.findUnique.mockResolvedValue(user({ status: 'ACTIVE' }))
+    db.user.update.mockResolvedValue(user({ status: 'ACTIVE' }))
+
+    await recordCurrentUserLogin(context, now)
+
+    expect(db.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-1' },
+      data: { lastLoginAt: now },
+    })
+  })
+
+  it('does nothing without a session', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+    await expect(recordCurrentUserLogin(context, now)).resolves.toBeNull()
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { cn } from '@/lib/utils'
+import { cn, omitUndefined } from '@/lib/utils'
 
 describe('cn utility function', () => {
   it('merges class names correctly', () => {
@@ -31,4 +31,14 @@ describe('cn utility function', () => {
     const result = cn(['flex', 'items-center'], { 'justify-center': true })
     expect(result).toBe('flex items-center justify-center')
   })
-})
\ No newline at end of file
+})
+
+describe('omitUndefined', () => {
+  it('drops undefined values and keeps null and falsy ones', () => {
+    expect(omitUndefined({ name: 'VIP', price: undefined, roleId: null, isActive: false })).toEqual({
+      name: 'VIP',
+      roleId: null,
+      isActive: false,
+    })
+  })
+})
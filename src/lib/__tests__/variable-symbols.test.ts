@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { tx, db } = await vi.hoisted(async () => {
+  const { mockPrismaClient, mockTransactionClient } = await import('@/test/prisma-mock')
+  return {
+    tx: mockTransactionClient({
+      $queryRaw: vi.fn(),
+      event: { findUniqueOrThrow: vi.fn(), updateMany: vi.fn() },
+      payment: { findUnique: vi.fn() },
+      pendingPayment: { findUnique: vi.fn() },
+      issuedVariableSymbol: { createMany: vi.fn() },
+    }),
+    db: mockPrismaClient({
+      issuedVariableSymbol: { findUnique: vi.fn() },
+      registration: { findUnique: vi.fn() },
+      payment: { findUnique: vi.fn() },
+      pendingPayment: { findUnique: vi.fn() },
+    }),
+  }
+})
+
+const config = vi.hoisted(() => ({ scheme: 'event' }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/system-config', () => ({
+  getStringConfig: vi.fn(async () => config.scheme),
+}))
+
+import {
+  allocateVariableSymbol,
+  findVariableSymbolOwner,
+  normalizeVariableSymbol,
+} from '@/lib/variable-symbols'
+
+const input = { eventId: 'event-1', userId: 'user-1', pendingPaymentId: 'pp-1' }
+
+describe('variable symbols', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.scheme = 'event'
+    tx.payment.findUnique.mockResolvedValue(null)
+    tx.pendingPayment.findUnique.mockResolvedValue(null)
+    tx.issuedVariableSymbol.createMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('normalizes symbols from bank statements', () => {
+    expect(normalizeVariableSymbol(' 0042 000017 ')).toBe('42000017')
+    expect(normalizeVariableSymbol('12345678901')).toBeNull()
+    expect(normalizeVariableSymbol('VS123')).toBeNull()
+    expect(normalizeVariableSymbol('000')).toBeNull()
+  })
+
+  it('prefixes the sequence with the event prefix', async () => {
+    tx.event.findUniqueOrThrow.mockResolvedValue({ variableSymbolPrefix: '42' })
+    tx.$queryRaw.mockResolvedValue([{ lastValue: BigInt(17) }])
+
+    await expect(allocateVariableSymbol(tx, input)).resolves.toBe('42000017')
+    expect(tx.issuedVariableSymbol.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          symbol: '42000017',
+          userId: 'user-1',
+          eventId: 'event-1',
+          pendingPaymentId: 'pp-1',
+          paymentId: null,
+        },
+      ],
+      skipDuplicates: true,
+    })
+  })
+
+  it('assigns the next event prefix on first use', async () => {
+    tx.event.findUniqueOrThrow
+      .mockResolvedValueOnce({ variableSymbolPrefix: null })
+      .mockResolvedValueOnce({ variableSymbolPrefix: '7' })
+    tx.$queryRaw.mockResolvedValueOnce([{ lastValue: BigInt(7) }])
+    tx.$queryRaw.mockResolvedValueOnce([{ lastValue: BigInt(1) }])
+
+    await expect(allocateVariableSymbol(tx, input)).resolves.toBe('7000001')
+    expect(tx.event.updateMany).toHaveBeenCalledWith({
+      where: { id: 'event-1', variableSymbolPrefix: null },
+      data: { variableSymbolPrefix: '7' },
+    })
+  })
+
+  it('skips symbols that were already issued or set by hand', async () => {
+    config.scheme = 'sequence'
+    tx.$queryRaw
+      .mockResolvedValueOnce([{ lastValue: BigInt(1) }])
+      .mockResolvedValueOnce([{ lastValue: BigInt(2) }])
+      .mockResolvedValueOnce([{ lastValue: BigInt(3) }])
+    tx.payment.findUnique.mockResolvedValueOnce({ id: 'payment-1' })
+    tx.issuedVariableSymbol.createMany.mockResolvedValueOnce({ count: 0 })
+
+    await expect(allocateVariableSymbol(tx, input)).resolves.toBe('3')
+  })
+
+  it('fails when the event sequence is exhausted', async () => {
+    tx.event.findUniqueOrThrow.mockResolvedValue({ variableSymbolPrefix: '42' })
+    tx.$queryRaw.mockResolvedValue([{ lastValue: BigInt(1_000_000) }])
+
+    await expect(allocateVariableSymbol(tx, input)).rejects.toThrow('exhausted')
+  })
+
+  it('finds the registration a symbol was issued for', async () => {
+    db.issuedVariableSymbol.findUnique.mockResolvedValue({
+      symbol: '42000017',
+      userId: 'user-1',
+      eventId: 'event-1',
+      pendingPaymentId: 'pp-1',
+      paymentId: null,
+      issuedAt: new Date(),
+    })
+    db.registration.findUnique.mockResolvedValue({ id: 'reg-1' })
+    db.pendingPayment.findUnique.mockResolvedValue({ id: 'pp-1' })
+    db.payment.findUnique.mockResolvedValue(null)
+
+    const owner = await findVariableSymbolOwner('0042000017')
+
+    expect(db.issuedVariableSymbol.findUnique).toHaveBeenCalledWith({
+      where: { symbol: '42000017' },
+    })
+    expect(db.registration.findUnique).toHaveBeenCalledWith({
+      where: { userId_eventId: { userId: 'user-1', eventId: 'event-1' } },
+    })
+    expect(owner).toMatchObject({ registration: { id: 'reg-1' }, pendingPaymentId: 'pp-1' })
+  })
+})
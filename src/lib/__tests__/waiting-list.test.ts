@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+
+vi.mock('@/lib/notification-templates', () => ({
+  sendTemplatedEmail: vi.fn(),
+}))
+
+import { selectEntriesToPromote } from '@/lib/waiting-list'
+import { createSignedToken, verifySignedToken } from '@/lib/signed-tokens'
+
+describe('selectEntriesToPromote', () => {
+  it('promotes entries in order while seats remain', () => {
+    const entries = [
+      { id: 'a', groupSize: 1 },
+      { id: 'b', groupSize: 1 },
+      { id: 'c', groupSize: 1 },
+    ]
+
+    expect(selectEntriesToPromote(entries, 2).map((entry) => entry.id)).toEqual(['a', 'b'])
+  })
+
+  it('skips groups that do not fit the free seats', () => {
+    const entries = [
+      { id: 'a', groupSize: 3 },
+      { id: 'b', groupSize: 1 },
+    ]
+
+    expect(selectEntriesToPromote(entries, 2).map((entry) => entry.id)).toEqual(['b'])
+  })
+
+  it('promotes nobody when there are no free seats', () => {
+    expect(selectEntriesToPromote([{ groupSize: 1 }], 0)).toEqual([])
+  })
+})
+
+describe('signed tokens', () => {
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+
+  beforeAll(() => {
+    process.env['JWT_SECRET'] = 'test-secret'
+  })
+
+  it('round-trips the subject', () => {
+    const token = createSignedToken('waiting-list-claim', 'entry-1', expiresAt)
+
+    expect(verifySignedToken(token, 'waiting-list-claim')?.subject).toBe('entry-1')
+  })
+
+  it('rejects tampered and expired tokens', () => {
+    const token = createSignedToken('waiting-list-claim', 'entry-1', expiresAt)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from('{"p":"waiting-list-claim","s":"entry-2","e":9999999999}').toString('base64url')}.${signature}`
+
+    expect(verifySignedToken(forged, 'waiting-list-claim')).toBeNull()
+    expect(verifySignedToken(token, 'waiting-list-claim', new Date(expiresAt.getTime() + 1000))).toBeNull()
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Shared helpers for API route handlers
+ *
+ * Keeps the JSON error shape consistent across routes:
+ * `{ success: false, error: string, details?: unknown }`
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import type { z } from "zod";
+import type { ServiceError } from "@/types/service";
+
+/**
+ * Builds a JSON error response
+ *
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @param details - Optional extra context (validation issues, etc.)
+ */
+export function errorResponse(message: string, status: number, details?: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      ...(details !== undefined && { details }),
+    },
+    { status }
+  );
+}
+
+/**
+ * Builds a 400 response from a zod validation error
+ */
+export function validationErrorResponse(error: z.ZodError): NextResponse {
+  return errorResponse("Validation failed", 400, error.issues);
+}
+
+/**
+ * Builds a JSON error response from a domain service error
+ */
+export function serviceErrorResponse(error: ServiceError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details !== undefined && { details: error.details }),
+    },
+    { status: error.statusCode }
+  );
+}
+
+/**
+ * Parses the JSON body of a request
+ *
+ * @returns The parsed body, or null when the body is not valid JSON
+ */
+export async function readJsonBody(request: NextRequest): Promise<unknown | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts URL search params into a plain object for zod parsing
+ */
+export function searchParamsToObject(searchParams: URLSearchParams): Record<string, string> {
+  const result: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+export interface RequestContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Extracts the client IP address and user agent for history and audit records
+ */
+export function getRequestContext(request: NextRequest): RequestContext {
+  const forwarded = request.headers.get("x-forwarded-for");
+
+  return {
+    ipAddress: forwarded?.split(",")[0]?.trim() || request.headers.get("x-real-ip"),
+    userAgent: request.headers.get("user-agent"),
+  };
+}
@@ -0,0 +1,40 @@
+import { Prisma, type AuditAction } from "@prisma/client";
+
+export interface AuditLogEntry {
+  userId?: string | null;
+  action: AuditAction;
+  resource: string;
+  resourceId?: string | null;
+  oldData?: Prisma.InputJsonValue;
+  newData?: Prisma.InputJsonValue;
+  changes?: Prisma.InputJsonValue;
+  description?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Record an entry in the audit trail
+ *
+ * Accepts a transaction client so the log entry commits or rolls back
+ * together with the change it describes.
+ */
+export async function recordAuditLog(
+  db: Prisma.TransactionClient,
+  entry: AuditLogEntry
+): Promise<void> {
+  await db.auditLog.create({
+    data: {
+      userId: entry.userId ?? null,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId ?? null,
+      ...(entry.oldData !== undefined && { oldData: entry.oldData }),
+      ...(entry.newData !== undefined && { newData: entry.newData }),
+      ...(entry.changes !== undefined && { changes: entry.changes }),
+      description: entry.description ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+    },
+  });
+}
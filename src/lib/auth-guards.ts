@@ -0,0 +1,125 @@
+/**
+ * Server-side guards
+ *
+ * The server counterparts of `AuthGuard`: `withApiAuth` wraps route handlers
+ * and answers 401/403 with the usual JSON error, `requirePageAuth` sends
+ * signed-out visitors of a page to the login in their language and suspended
+ * users to the page explaining their account status. Both check the merged
+ * database and Kinde access from ./authorization.
+ */
+
+import type { NextRequest } from "next/server";
+import { redirect } from "next/navigation";
+import type { User } from "@prisma/client";
+import { getCurrentAccess, type UserAccess } from "./authorization";
+import { getCurrentAccount } from "./users";
+import { grantsPermission, type Permission } from "./permissions";
+import { accountSuspendedPath, localeFromPathname, loginUrl } from "./auth-routes";
+import { errorResponse, serviceErrorResponse } from "./api-utils";
+
+export interface AuthRequirements {
+  permissions?: Permission[];
+  /** true = require ALL permissions (default), false = require ANY of them */
+  requireAllPermissions?: boolean;
+  /** Roles of which the user must hold at least one */
+  roles?: string[];
+}
+
+export interface AuthContext {
+  user: User;
+  access: UserAccess;
+}
+
+export interface RouteContext<P = Record<string, string>> {
+  params: Promise<P>;
+}
+
+/* eslint-disable no-unused-vars */
+type AuthenticatedHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  auth: AuthContext
+) => Promise<Response>;
+/* eslint-enable no-unused-vars */
+
+/**
+ * Whether the access meets the required permissions and roles
+ */
+export function meetsRequirements(access: UserAccess, requirements: AuthRequirements): boolean {
+  const { permissions = [], requireAllPermissions = true, roles = [] } = requirements;
+  const granted = (permission: Permission) => grantsPermission(access.grants, permission);
+
+  if (permissions.length > 0) {
+    const hasPermissions = requireAllPermissions
+      ? permissions.every(granted)
+      : permissions.some(granted);
+    if (!hasPermissions) return false;
+  }
+
+  return roles.length === 0 || roles.some((role) => access.roles.includes(role));
+}
+
+/**
+ * The signed-in account and its access, resolved one after the other so a
+ * first sign-in links the account to Kinde only once
+ */
+async function resolveCurrentAuth(): Promise<{ user: User | null; access: UserAccess | null }> {
+  const access = await getCurrentAccess();
+  const user = access?.userId ? await getCurrentAccount() : null;
+  return { user, access };
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user who meets the
+ * requirements; everyone else gets 401 "Not authenticated", 403 with code
+ * ACCOUNT_SUSPENDED or ACCOUNT_INACTIVE, or 403 "Insufficient permissions"
+ */
+export function withApiAuth<P = Record<string, string>>(
+  requirements: AuthRequirements,
+  handler: AuthenticatedHandler<P>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const { user, access } = await resolveCurrentAuth();
+    if (!user || !access) {
+      return errorResponse("Not authenticated", 401);
+    }
+    if (access.restriction) {
+      return serviceErrorResponse({
+        code: `ACCOUNT_${access.restriction}`,
+        message:
+          access.restriction === "SUSPENDED" ? "Account suspended" : "Account is no longer active",
+        statusCode: 403,
+      });
+    }
+    if (!meetsRequirements(access, requirements)) {
+      return errorResponse("Insufficient permissions", 403);
+    }
+
+    return handler(request, context, { user, access });
+  };
+}
+
+export interface PageAuth extends AuthContext {
+  /** Whether the user meets the requirements; pages show their own notice when not */
+  authorized: boolean;
+}
+
+/**
+ * Resolves the signed-in user of the page at `pathname`, redirecting to the
+ * login in the page's language (and back to the page) when signed out, and
+ * to the account status page when the account is suspended or inactive
+ */
+export async function requirePageAuth(
+  pathname: string,
+  requirements: AuthRequirements = {}
+): Promise<PageAuth> {
+  const { user, access } = await resolveCurrentAuth();
+  if (!user || !access) {
+    redirect(loginUrl(localeFromPathname(pathname), pathname));
+  }
+  if (access.restriction) {
+    redirect(accountSuspendedPath(localeFromPathname(pathname)));
+  }
+
+  return { user, access, authorized: meetsRequirements(access, requirements) };
+}
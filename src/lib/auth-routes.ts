@@ -0,0 +1,63 @@
+/**
+ * Protected routes and login redirects
+ *
+ * Free of server imports, so the middleware can use it on the edge runtime.
+ */
+
+import { routing, type Locale } from "@/i18n/routing";
+
+const LOGIN_PATH = "/api/auth/login";
+
+/** Where Kinde returns after login, so the account is synced first */
+export const LOGIN_SYNC_PATH = "/api/auth/sync";
+
+/**
+ * Whether the path is in the dashboard, with or without a locale prefix
+ */
+export function isProtectedPath(pathname: string): boolean {
+  const segments = pathname.split("/").filter(Boolean);
+  const [first] = isLocale(segments[0]) ? segments.slice(1) : segments;
+  return first === "dashboard";
+}
+
+/**
+ * Locale of a path, the default locale when it has no prefix
+ */
+export function localeFromPathname(pathname: string): Locale {
+  const first = pathname.split("/").filter(Boolean)[0];
+  return isLocale(first) ? first : routing.defaultLocale;
+}
+
+/**
+ * Page telling signed-in users that their account is suspended or inactive
+ */
+export function accountSuspendedPath(locale: Locale): string {
+  return `/${locale}/account-suspended`;
+}
+
+/**
+ * The value if it is a path on this site, null for anything else
+ */
+export function sameSitePath(value: string | null | undefined): string | null {
+  return value?.startsWith("/") && !value.startsWith("//") ? value : null;
+}
+
+/**
+ * Kinde login URL that shows the sign-in page in the given language, syncs
+ * the account and returns to `returnTo` afterwards; only same-site paths are
+ * kept
+ */
+export function loginUrl(locale: Locale, returnTo?: string): string {
+  const path = sameSitePath(returnTo);
+  const params = new URLSearchParams({
+    lang: locale,
+    post_login_redirect_url: path
+      ? `${LOGIN_SYNC_PATH}?${new URLSearchParams({ returnTo: path }).toString()}`
+      : LOGIN_SYNC_PATH,
+  });
+  return `${LOGIN_PATH}?${params.toString()}`;
+}
+
+function isLocale(value: string | undefined): value is Locale {
+  return routing.locales.some((locale) => locale === value);
+}
@@ -0,0 +1,95 @@
+/**
+ * Authorization
+ *
+ * Resolves what the signed-in user may do by merging the roles and
+ * permissions in the database (see ./roles) with the claims of their Kinde
+ * session. Either source can grant a permission; neither can take one away.
+ * Suspended and inactive accounts get nothing from either. The result is
+ * resolved once per request.
+ */
+
+import { cache } from "react";
+import { prisma } from "./prisma";
+import { getCurrentUser, getKindePermissions, getKindeRoles } from "./kinde-auth";
+import { getCurrentAccount } from "./users";
+import { getAccountRestriction, type AccountRestriction } from "./user-status";
+import { getUserRoleAccess } from "./roles";
+import { expandPermissions, grantsPermission, type Permission } from "./permissions";
+import { logger } from "./logger";
+
+export interface UserAccess {
+  /** Database user, null when the Kinde account has none yet */
+  userId: string | null;
+  roles: string[];
+  /** Permission names and wildcards from both sources */
+  grants: string[];
+  /** Why the account may not use the site, null when it may */
+  restriction: AccountRestriction | null;
+}
+
+/**
+ * The signed-in user's merged roles and grants, or null when signed out
+ */
+export const getCurrentAccess = cache(async (): Promise<UserAccess | null> => {
+  try {
+    const kindeUser = await getCurrentUser();
+    if (!kindeUser) {
+      return null;
+    }
+
+    const [user, kindePermissions, kindeRoles] = await Promise.all([
+      getCurrentAccount(),
+      getKindePermissions(),
+      getKindeRoles(),
+    ]);
+
+    const restriction = user ? getAccountRestriction(user) : null;
+    if (user && restriction) {
+      return { userId: user.id, roles: [], grants: [], restriction };
+    }
+
+    const stored = user ? await getUserRoleAccess(prisma, user.id) : { roles: [], permissions: [] };
+
+    return {
+      userId: user?.id ?? null,
+      roles: [...new Set([...stored.roles, ...kindeRoles])],
+      grants: [...new Set([...stored.permissions, ...kindePermissions])],
+      restriction: null,
+    };
+  } catch (error) {
+    logger.error("Error resolving user access:", error);
+    return null;
+  }
+});
+
+/**
+ * Check if the signed-in user has a permission
+ */
+export async function hasPermission(permission: Permission): Promise<boolean> {
+  const access = await getCurrentAccess();
+  return access !== null && grantsPermission(access.grants, permission);
+}
+
+/**
+ * Check if the signed-in user holds a role
+ */
+export async function hasRole(role: string): Promise<boolean> {
+  const access = await getCurrentAccess();
+  return access?.roles.includes(role) ?? false;
+}
+
+/**
+ * The signed-in user's permissions, with wildcards expanded
+ */
+export async function getUserPermissions(): Promise<Permission[]> {
+  const access = await getCurrentAccess();
+  return access ? expandPermissions(access.grants) : [];
+}
+
+/**
+ * The signed-in user's role names
+ */
+export async function getUserRoles(): Promise<string[]> {
+  const access = await getCurrentAccess();
+  return access?.roles ?? [];
+}
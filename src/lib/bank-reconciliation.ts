@@ -0,0 +1,479 @@
+/**
+ * Bank statement import and payment reconciliation
+ *
+ * Incoming transfers from an imported statement are matched to open
+ * `PendingPayment` rows by variable symbol. A transfer of exactly the
+ * expected amount and currency completes the payment (see `payments.ts`);
+ * anything else (unknown symbol, partial or over-payment, wrong currency,
+ * payment no longer open or not recordable) goes to the review list, where
+ * staff match it to a pending payment by hand or ignore it.
+ *
+ * Transfers are identified by a fingerprint of the account and the bank's
+ * transaction ID (or the transfer details when the statement has no IDs), so
+ * importing overlapping statements does not count a payment twice.
+ */
+
+import { createHash } from "crypto";
+import {
+  BankTransactionReviewReason,
+  BankTransactionStatus,
+  PendingPaymentStatus,
+  Prisma,
+  type BankAccount,
+  type BankStatementFormat,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  parseBankStatement,
+  StatementParseError,
+  type ParsedStatement,
+  type StatementTransaction,
+} from "./bank-statement-parsers";
+import { completePendingPayment } from "./payments";
+import { sendPaymentReceipt } from "./invoices";
+import { sendRegistrationConfirmation } from "./registration-notifications";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type { ResolveBankTransactionInput } from "./validations/payment";
+
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Identifies a transfer across statements of the same account
+ */
+export function getTransactionFingerprint(
+  accountKey: string,
+  transaction: StatementTransaction
+): string {
+  const identity = transaction.reference
+    ? [accountKey, transaction.reference]
+    : [
+        accountKey,
+        transaction.bookingDate.toISOString().slice(0, 10),
+        transaction.amount,
+        transaction.currency,
+        transaction.variableSymbol,
+        transaction.counterpartyAccount,
+        transaction.message,
+      ];
+
+  return createHash("sha256").update(identity.join("|")).digest("hex");
+}
+
+interface MatchOutcome {
+  status: BankTransactionStatus;
+  reviewReason: BankTransactionReviewReason | null;
+  pendingPaymentId: string | null;
+}
+
+/**
+ * Decides whether a transfer pays an open pending payment
+ */
+async function matchTransaction(
+  tx: Prisma.TransactionClient,
+  transaction: StatementTransaction
+): Promise<MatchOutcome> {
+  const review = (reason: BankTransactionReviewReason, pendingPaymentId: string | null = null) => ({
+    status: BankTransactionStatus.NEEDS_REVIEW,
+    reviewReason: reason,
+    pendingPaymentId,
+  });
+
+  if (!transaction.variableSymbol) {
+    return review(BankTransactionReviewReason.UNMATCHED);
+  }
+
+  const pendingPayment = await tx.pendingPayment.findUnique({
+    where: { variableSymbol: transaction.variableSymbol },
+  });
+  if (!pendingPayment) {
+    return review(BankTransactionReviewReason.UNMATCHED);
+  }
+  if (pendingPayment.status !== PendingPaymentStatus.PENDING) {
+    return review(BankTransactionReviewReason.PAYMENT_NOT_OPEN, pendingPayment.id);
+  }
+  if (pendingPayment.currency.toUpperCase() !== transaction.currency.toUpperCase()) {
+    return review(BankTransactionReviewReason.CURRENCY_MISMATCH, pendingPayment.id);
+  }
+
+  const received = new Prisma.Decimal(transaction.amount);
+  if (received.lessThan(pendingPayment.amount)) {
+    return review(BankTransactionReviewReason.UNDERPAID, pendingPayment.id);
+  }
+  if (received.greaterThan(pendingPayment.amount)) {
+    return review(BankTransactionReviewReason.OVERPAID, pendingPayment.id);
+  }
+
+  return {
+    status: BankTransactionStatus.MATCHED,
+    reviewReason: null,
+    pendingPaymentId: pendingPayment.id,
+  };
+}
+
+export interface ImportBankStatementInput {
+  content: string;
+  fileName?: string | null;
+  /** Detected from the content when omitted */
+  format?: BankStatementFormat;
+  /** Account the statement belongs to; found by the statement's IBAN when omitted */
+  bankAccountId?: string | null;
+  importedById: string;
+}
+
+export interface ImportSummary {
+  importId: string;
+  format: BankStatementFormat;
+  bankAccountId: string | null;
+  /** New incoming transfers */
+  transactions: number;
+  /** Transfers already imported from an earlier statement */
+  duplicates: number;
+  matched: number;
+  needsReview: number;
+}
+
+async function resolveStatementAccount(
+  statement: ParsedStatement,
+  bankAccountId: string | null | undefined
+): Promise<ServiceResult<BankAccount | null>> {
+  const statementIban = statement.accountIban && normalizeIban(statement.accountIban);
+
+  if (bankAccountId) {
+    const account = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+    if (!account) {
+      return fail("BANK_ACCOUNT_NOT_FOUND", "Bank account not found", 404);
+    }
+    if (statementIban && account.iban && normalizeIban(account.iban) !== statementIban) {
+      return fail(
+        "ACCOUNT_MISMATCH",
+        `The statement is for account ${statementIban}, not ${account.name}`,
+        400
+      );
+    }
+    return ok(account);
+  }
+
+  if (!statementIban) {
+    return ok(null);
+  }
+
+  const accounts = await prisma.bankAccount.findMany({ where: { iban: { not: null } } });
+  return ok(
+    accounts.find((account) => normalizeIban(account.iban ?? "") === statementIban) ?? null
+  );
+}
+
+/**
+ * Whether a unique-constraint violation is on the transfer fingerprint
+ */
+function isFingerprintConflict(error: Prisma.PrismaClientKnownRequestError): boolean {
+  const target = error.meta?.["target"];
+  return Array.isArray(target)
+    ? target.includes("fingerprint")
+    : String(target).includes("fingerprint");
+}
+
+/**
+ * Imports a bank statement and reconciles its incoming transfers
+ */
+export async function importBankStatement(
+  input: ImportBankStatementInput
+): Promise<ServiceResult<ImportSummary>> {
+  let statement: ParsedStatement;
+  try {
+    statement = parseBankStatement(input.content, input.format);
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return fail("INVALID_STATEMENT", error.message, 400);
+    }
+    throw error;
+  }
+
+  const accountResult = await resolveStatementAccount(statement, input.bankAccountId);
+  if (!accountResult.success) {
+    return accountResult;
+  }
+  const bankAccount = accountResult.data;
+  const accountKey = bankAccount?.id ?? statement.accountIban ?? "unknown";
+
+  const statementImport = await prisma.bankStatementImport.create({
+    data: {
+      bankAccountId: bankAccount?.id ?? null,
+      format: statement.format,
+      fileName: input.fileName ?? null,
+      importedById: input.importedById,
+    },
+  });
+
+  const summary: ImportSummary = {
+    importId: statementImport.id,
+    format: statement.format,
+    bankAccountId: bankAccount?.id ?? null,
+    transactions: 0,
+    duplicates: 0,
+    matched: 0,
+    needsReview: 0,
+  };
+
+  const incoming = statement.transactions.filter((transaction) => transaction.credit);
+  const fingerprints = incoming.map((transaction) =>
+    getTransactionFingerprint(accountKey, transaction)
+  );
+  const existing = await prisma.bankTransaction.findMany({
+    where: { fingerprint: { in: fingerprints } },
+    select: { fingerprint: true },
+  });
+  const seen = new Set(existing.map(({ fingerprint }) => fingerprint));
+
+  const confirmedRegistrationIds: string[] = [];
+  const completedPaymentIds: string[] = [];
+
+  for (const [index, transaction] of incoming.entries()) {
+    const fingerprint = fingerprints[index] ?? "";
+    if (seen.has(fingerprint)) {
+      summary.duplicates++;
+      continue;
+    }
+    seen.add(fingerprint);
+
+    // Without `completes` a matching transfer goes to review instead of
+    // completing its payment
+    const reconcile = (completes: boolean) =>
+      prisma.$transaction(async (tx) => {
+        let match = await matchTransaction(tx, transaction);
+        let paymentId: string | null = null;
+        let confirmedRegistrationId: string | null = null;
+
+        if (!completes && match.status === BankTransactionStatus.MATCHED) {
+          match = {
+            ...match,
+            status: BankTransactionStatus.NEEDS_REVIEW,
+            reviewReason: BankTransactionReviewReason.PAYMENT_CONFLICT,
+          };
+        }
+
+        if (match.status === BankTransactionStatus.MATCHED && match.pendingPaymentId) {
+          const completed = await completePendingPayment(tx, {
+            pendingPaymentId: match.pendingPaymentId,
+            amount: new Prisma.Decimal(transaction.amount),
+            paidAt: transaction.bookingDate,
+            verifiedById: null,
+            reference: transaction.reference,
+          });
+
+          if (completed.success) {
+            paymentId = completed.data.payment.id;
+            confirmedRegistrationId = completed.data.confirmedRegistrationId;
+          } else {
+            // Expired or cancelled between matching and taking the event lock
+            match = {
+              ...match,
+              status: BankTransactionStatus.NEEDS_REVIEW,
+              reviewReason: BankTransactionReviewReason.PAYMENT_NOT_OPEN,
+            };
+          }
+        }
+
+        await tx.bankTransaction.create({
+          data: {
+            importId: statementImport.id,
+            bankAccountId: bankAccount?.id ?? null,
+            fingerprint,
+            reference: transaction.reference,
+            bookingDate: transaction.bookingDate,
+            amount: new Prisma.Decimal(transaction.amount),
+            currency: transaction.currency,
+            variableSymbol: transaction.variableSymbol,
+            constantSymbol: transaction.constantSymbol,
+            specificSymbol: transaction.specificSymbol,
+            counterpartyName: transaction.counterpartyName,
+            counterpartyAccount: transaction.counterpartyAccount,
+            message: transaction.message,
+            status: match.status,
+            reviewReason: match.reviewReason,
+            pendingPaymentId: match.pendingPaymentId,
+            paymentId,
+          },
+        });
+
+        return { status: match.status, paymentId, confirmedRegistrationId };
+      });
+
+    let outcome: Awaited<ReturnType<typeof reconcile>>;
+    try {
+      outcome = await reconcile(true);
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+        throw error;
+      }
+      // A concurrent import of an overlapping statement stored it first
+      if (isFingerprintConflict(error)) {
+        summary.duplicates++;
+        continue;
+      }
+
+      // Recording the payment hit another unique column, e.g. a variable
+      // symbol already on a payment; the transfer is kept for review
+      logger.error(`Could not record the payment of bank transfer ${fingerprint}:`, error);
+      outcome = await reconcile(false);
+    }
+
+    // Only collected once committed, so a rolled back payment is not announced
+    if (outcome.paymentId) completedPaymentIds.push(outcome.paymentId);
+    if (outcome.confirmedRegistrationId) {
+      confirmedRegistrationIds.push(outcome.confirmedRegistrationId);
+    }
+
+    summary.transactions++;
+    if (outcome.status === BankTransactionStatus.MATCHED) summary.matched++;
+    else summary.needsReview++;
+  }
+
+  await prisma.bankStatementImport.update({
+    where: { id: statementImport.id },
+    data: {
+      transactionCount: summary.transactions,
+      duplicateCount: summary.duplicates,
+      matchedCount: summary.matched,
+    },
+  });
+
+  for (const registrationId of confirmedRegistrationIds) {
+    await sendRegistrationConfirmation(registrationId);
+  }
+  for (const paymentId of completedPaymentIds) {
+    await sendPaymentReceipt(paymentId);
+  }
+
+  logger.info(
+    `Bank statement ${statementImport.id} imported by ${input.importedById}: ` +
+      `${summary.matched} matched, ${summary.needsReview} to review, ${summary.duplicates} duplicates`
+  );
+
+  return ok(summary);
+}
+
+const reviewInclude = {
+  bankAccount: { select: { id: true, name: true } },
+  pendingPayment: {
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      event: { select: { id: true, title: true, slug: true } },
+    },
+  },
+} satisfies Prisma.BankTransactionInclude;
+
+export type ReviewBankTransaction = Prisma.BankTransactionGetPayload<{
+  include: typeof reviewInclude;
+}>;
+
+/**
+ * Transfers waiting for a manual decision, oldest first
+ */
+export async function getReconciliationQueue(): Promise<ReviewBankTransaction[]> {
+  return prisma.bankTransaction.findMany({
+    where: { status: BankTransactionStatus.NEEDS_REVIEW },
+    include: reviewInclude,
+    orderBy: [{ bookingDate: "asc" }, { id: "asc" }],
+  });
+}
+
+export type ResolveBankTransactionOptions = ResolveBankTransactionInput & {
+  transactionId: string;
+  performedById: string;
+};
+
+/**
+ * Resolves a transfer on the review list: matches it to a pending payment
+ * (completing it with the amount actually received) or ignores it
+ */
+export async function resolveBankTransaction(
+  input: ResolveBankTransactionOptions
+): Promise<ServiceResult<{ status: BankTransactionStatus; paymentId: string | null }>> {
+  const { transactionId, performedById } = input;
+  const note = input.note ?? null;
+
+  const result = await prisma.$transaction(
+    async (
+      tx
+    ): Promise<
+      ServiceResult<{
+        status: BankTransactionStatus;
+        paymentId: string | null;
+        confirmedRegistrationId: string | null;
+      }>
+    > => {
+      const [transaction] = await tx.$queryRaw<{ id: string; status: BankTransactionStatus }[]>`
+        SELECT id, status FROM bank_transactions WHERE id = ${transactionId} FOR UPDATE`;
+      if (!transaction) {
+        return fail("TRANSACTION_NOT_FOUND", "Bank transaction not found", 404);
+      }
+      if (transaction.status !== BankTransactionStatus.NEEDS_REVIEW) {
+        return fail("NOT_IN_REVIEW", "This transaction has already been resolved", 409);
+      }
+
+      const reviewed = { reviewedById: performedById, reviewedAt: new Date(), reviewNote: note };
+
+      if (input.action === "IGNORE") {
+        await tx.bankTransaction.update({
+          where: { id: transactionId },
+          data: { status: BankTransactionStatus.IGNORED, ...reviewed },
+        });
+        return ok({
+          status: BankTransactionStatus.IGNORED,
+          paymentId: null,
+          confirmedRegistrationId: null,
+        });
+      }
+
+      const bankTransaction = await tx.bankTransaction.findUniqueOrThrow({
+        where: { id: transactionId },
+      });
+      const completed = await completePendingPayment(tx, {
+        pendingPaymentId: input.pendingPaymentId,
+        amount: bankTransaction.amount,
+        paidAt: bankTransaction.bookingDate,
+        verifiedById: performedById,
+        reference: bankTransaction.reference,
+        notes: note,
+      });
+      if (!completed.success) {
+        return completed;
+      }
+
+      await tx.bankTransaction.update({
+        where: { id: transactionId },
+        data: {
+          status: BankTransactionStatus.RESOLVED,
+          pendingPaymentId: input.pendingPaymentId,
+          paymentId: completed.data.payment.id,
+          ...reviewed,
+        },
+      });
+
+      return ok({
+        status: BankTransactionStatus.RESOLVED,
+        paymentId: completed.data.payment.id,
+        confirmedRegistrationId: completed.data.confirmedRegistrationId,
+      });
+    }
+  );
+
+  if (!result.success) {
+    return result;
+  }
+
+  if (result.data.confirmedRegistrationId) {
+    await sendRegistrationConfirmation(result.data.confirmedRegistrationId);
+  }
+  if (result.data.paymentId) {
+    await sendPaymentReceipt(result.data.paymentId);
+  }
+
+  logger.info(`Bank transaction ${transactionId} ${result.data.status} by ${performedById}`);
+
+  return ok({ status: result.data.status, paymentId: result.data.paymentId });
+}
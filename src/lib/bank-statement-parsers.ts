@@ -0,0 +1,701 @@
+/**
+ * Bank statement parsers
+ *
+ * Reads the transactions of a bank statement in one of the formats Slovak
+ * and Czech banks export:
+ * - CAMT.053 (ISO 20022 XML)
+ * - MT940 (SWIFT), including the `?20`-style structured `:86:` field
+ * - CSV internet banking exports, with columns recognized by their (Czech,
+ *   Slovak or English) header names
+ *
+ * Variable, constant and specific symbols are taken from their own fields
+ * where the format has them, otherwise from the SEPA end-to-end reference
+ * (`/VS123/SS456/KS0308`) or the payment message.
+ */
+
+import { BankStatementFormat } from "@prisma/client";
+import { XMLParser } from "fast-xml-parser";
+import { normalizeVariableSymbol } from "./variable-symbols";
+
+export interface StatementTransaction {
+  /** Bank's transaction ID, when the statement has one */
+  reference: string | null;
+  bookingDate: Date;
+  /** Absolute amount with two decimals, e.g. "25.00" */
+  amount: string;
+  currency: string;
+  /** Incoming transfer (as opposed to an outgoing one) */
+  credit: boolean;
+  variableSymbol: string | null;
+  constantSymbol: string | null;
+  specificSymbol: string | null;
+  counterpartyName: string | null;
+  counterpartyAccount: string | null;
+  message: string | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  /** IBAN of the statement's account, when the statement names it */
+  accountIban: string | null;
+  transactions: StatementTransaction[];
+}
+
+export interface ParseStatementOptions {
+  /** Currency of CSV exports without a currency column */
+  defaultCurrency?: string;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+// ================================
+// Shared helpers
+// ================================
+
+interface PaymentSymbols {
+  variableSymbol: string | null;
+  constantSymbol: string | null;
+  specificSymbol: string | null;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Finds payment symbols in free text such as a SEPA end-to-end reference
+ * ("/VS2026000123/SS/KS0308") or a message ("VS: 2026000123")
+ */
+export function extractPaymentSymbols(text: string): PaymentSymbols {
+  const variableSymbol = firstMatch(text, [/\/VS(\d{1,10})(?!\d)/, /\bVS\W{0,3}(\d{1,10})\b/i]);
+  const constantSymbol = firstMatch(text, [/\/KS(\d{1,10})(?!\d)/, /\bKS\W{0,3}(\d{1,10})\b/i]);
+  const specificSymbol = firstMatch(text, [/\/SS(\d{1,10})(?!\d)/, /\bSS\W{0,3}(\d{1,10})\b/i]);
+
+  return {
+    variableSymbol: variableSymbol ? normalizeVariableSymbol(variableSymbol) : null,
+    constantSymbol,
+    specificSymbol,
+  };
+}
+
+/**
+ * Symbols from dedicated fields, completed from free text
+ */
+function resolveSymbols(fields: Partial<PaymentSymbols>, freeText: string): PaymentSymbols {
+  const extracted = extractPaymentSymbols(freeText);
+  const variableSymbol = fields.variableSymbol && normalizeVariableSymbol(fields.variableSymbol);
+
+  return {
+    variableSymbol: variableSymbol || extracted.variableSymbol,
+    constantSymbol: fields.constantSymbol?.trim() || extracted.constantSymbol,
+    specificSymbol: fields.specificSymbol?.trim() || extracted.specificSymbol,
+  };
+}
+
+/**
+ * Parses an amount written with either decimal separator and optional
+ * thousands separators ("1 234,56", "1.234,56", "1,234.56", "-25")
+ */
+export function parseStatementAmount(input: string): { amount: string; negative: boolean } | null {
+  let value = input.replace(/[\s\u00a0']/g, "").replace(/[A-Z]{3}$/i, "");
+  let negative = false;
+  if (/^-|-$/.test(value)) {
+    negative = true;
+    value = value.replace(/^-|-$/g, "");
+  }
+  value = value.replace(/^\+/, "");
+
+  const lastSeparator = Math.max(value.lastIndexOf(","), value.lastIndexOf("."));
+  if (lastSeparator !== -1) {
+    const integer = value.slice(0, lastSeparator).replace(/[.,]/g, "");
+    value = `${integer}.${value.slice(lastSeparator + 1)}`;
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  return { amount: Number(value).toFixed(2), negative };
+}
+
+/**
+ * Parses "2026-03-15", "15.03.2026", "15. 3. 2026" or "15/03/2026" (time ignored)
+ */
+export function parseStatementDate(input: string): Date | null {
+  const value = input.trim();
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return utcDate(iso[1], iso[2], iso[3]);
+
+  const european =
+    value.match(/^(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4})/) ??
+    value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (european) return utcDate(european[3], european[2], european[1]);
+
+  return null;
+}
+
+function utcDate(year?: string, month?: string, day?: string): Date | null {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function cleanText(value: string | null | undefined): string | null {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text ? text : null;
+}
+
+/**
+ * Decodes an uploaded statement: UTF-8, or Windows-1250 for the CSV exports
+ * of Czech and Slovak banks that still use it
+ */
+export function decodeStatement(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1250").decode(bytes);
+  }
+}
+
+/**
+ * Guesses the format of a statement from its content
+ */
+export function detectStatementFormat(content: string): BankStatementFormat {
+  const start = content.trimStart().slice(0, 2000);
+  if (start.startsWith("<") && /<(\w+:)?(Document|BkToCstmrStmt)\b/.test(content)) {
+    return BankStatementFormat.CAMT_053;
+  }
+  if (/^:20:/m.test(start) && /^:61:/m.test(content)) {
+    return BankStatementFormat.MT940;
+  }
+  return BankStatementFormat.CSV;
+}
+
+/**
+ * Parses a statement in the given (or detected) format
+ *
+ * @throws StatementParseError when the file is not a statement in that format
+ */
+export function parseBankStatement(
+  content: string,
+  format: BankStatementFormat = detectStatementFormat(content),
+  options: ParseStatementOptions = {}
+): ParsedStatement {
+  const text = content.replace(/^\uFEFF/, "");
+
+  switch (format) {
+    case BankStatementFormat.CAMT_053:
+      return parseCamt053(text);
+    case BankStatementFormat.MT940:
+      return parseMt940(text);
+    case BankStatementFormat.CSV:
+      return parseCsvStatement(text, options.defaultCurrency ?? "EUR");
+  }
+}
+
+// ================================
+// CAMT.053
+// ================================
+
+type XmlValue = string | XmlNode | XmlValue[] | undefined;
+
+interface XmlNode {
+  [key: string]: XmlValue;
+}
+
+function xmlPath(node: XmlValue, ...keys: string[]): XmlValue {
+  let current = node;
+  for (const key of keys) {
+    const single = Array.isArray(current) ? current[0] : current;
+    if (!single || typeof single !== "object" || Array.isArray(single)) return undefined;
+    current = single[key];
+  }
+  return current;
+}
+
+function xmlText(node: XmlValue, ...keys: string[]): string | null {
+  let value = xmlPath(node, ...keys);
+  if (Array.isArray(value)) value = value[0];
+  if (typeof value === "string") return cleanText(value);
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const text = value["#text"];
+    return typeof text === "string" ? cleanText(text) : null;
+  }
+  return null;
+}
+
+function xmlList(node: XmlValue, ...keys: string[]): XmlValue[] {
+  const value = xmlPath(node, ...keys);
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseCamt053(content: string): ParsedStatement {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    // Keep symbols such as "0308" as written
+    parseTagValue: false,
+    parseAttributeValue: false,
+  });
+
+  let document: XmlNode;
+  try {
+    document = parser.parse(content) as XmlNode;
+  } catch {
+    throw new StatementParseError("The file is not valid XML");
+  }
+
+  const statements = xmlList(document, "Document", "BkToCstmrStmt", "Stmt");
+  if (statements.length === 0) {
+    throw new StatementParseError("No CAMT.053 statement found in the file");
+  }
+
+  const transactions: StatementTransaction[] = [];
+  let accountIban: string | null = null;
+
+  for (const statement of statements) {
+    accountIban ??= xmlText(statement, "Acct", "Id", "IBAN");
+
+    for (const entry of xmlList(statement, "Ntry")) {
+      const entryAmount = xmlPath(entry, "Amt");
+      const credit = xmlText(entry, "CdtDbtInd") === "CRDT" && xmlText(entry, "RvslInd") !== "true";
+      const bookingDate = parseStatementDate(
+        xmlText(entry, "BookgDt", "Dt") ??
+          xmlText(entry, "BookgDt", "DtTm") ??
+          xmlText(entry, "ValDt", "Dt") ??
+          ""
+      );
+      if (!bookingDate) {
+        throw new StatementParseError("A CAMT.053 entry has no booking date");
+      }
+
+      const details = xmlList(entry, "NtryDtls", "TxDtls");
+      const entryReference = xmlText(entry, "AcctSvcrRef") ?? xmlText(entry, "NtryRef");
+
+      (details.length > 0 ? details : [undefined]).forEach((detail, index) => {
+        const amountNode =
+          (details.length > 1 &&
+            (xmlPath(detail, "Amt") ?? xmlPath(detail, "AmtDtls", "TxAmt", "Amt"))) ||
+          entryAmount;
+        const amount = parseStatementAmount(xmlText(amountNode) ?? "");
+        if (!amount) {
+          throw new StatementParseError("A CAMT.053 entry has an invalid amount");
+        }
+
+        const endToEndId = xmlText(detail, "Refs", "EndToEndId");
+        const creditorReference = xmlText(detail, "RmtInf", "Strd", "CdtrRefInf", "Ref");
+        const unstructured = xmlList(detail, "RmtInf", "Ustrd")
+          .map((line) => xmlText(line))
+          .filter(Boolean)
+          .join(" ");
+        const symbols = resolveSymbols(
+          {},
+          [endToEndId === "NOTPROVIDED" ? "" : endToEndId, creditorReference, unstructured]
+            .filter(Boolean)
+            .join(" ")
+        );
+
+        const ownReference =
+          xmlText(detail, "Refs", "AcctSvcrRef") ?? xmlText(detail, "Refs", "TxId");
+        const reference =
+          ownReference ??
+          (entryReference && details.length > 1
+            ? `${entryReference}/${index + 1}`
+            : entryReference);
+
+        transactions.push({
+          reference,
+          bookingDate,
+          amount: amount.amount,
+          currency:
+            (amountNode && typeof amountNode === "object" && !Array.isArray(amountNode)
+              ? (amountNode["@_Ccy"] as string | undefined)
+              : undefined) ??
+            xmlText(statement, "Acct", "Ccy") ??
+            "EUR",
+          credit,
+          ...symbols,
+          counterpartyName:
+            xmlText(detail, "RltdPties", "Dbtr", "Nm") ??
+            xmlText(detail, "RltdPties", "Dbtr", "Pty", "Nm"),
+          counterpartyAccount:
+            xmlText(detail, "RltdPties", "DbtrAcct", "Id", "IBAN") ??
+            xmlText(detail, "RltdPties", "DbtrAcct", "Id", "Othr", "Id"),
+          message: cleanText(unstructured) ?? creditorReference,
+        });
+      });
+    }
+  }
+
+  return { format: BankStatementFormat.CAMT_053, accountIban, transactions };
+}
+
+// ================================
+// MT940
+// ================================
+
+function parseMt940Fields(content: string): [string, string][] {
+  const fields: [string, string][] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    const last = fields[fields.length - 1];
+    if (tag?.[1]) {
+      fields.push([tag[1], tag[2] ?? ""]);
+    } else if (last && line.trim() && !/^-\}?$/.test(line.trim())) {
+      last[1] += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Splits a structured `:86:` field ("?20message?32name") into subfields
+ */
+function parseMt940Details(text: string): Map<string, string> | null {
+  const flat = text.replace(/\r?\n/g, "");
+  if (!/\?\d{2}/.test(flat)) return null;
+
+  const subfields = new Map<string, string>();
+  for (const match of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+    const [, code, value] = match;
+    if (code) subfields.set(code, `${subfields.get(code) ?? ""}${value ?? ""}`);
+  }
+  return subfields;
+}
+
+function parseMt940(content: string): ParsedStatement {
+  const fields = parseMt940Fields(content);
+  const transactions: StatementTransaction[] = [];
+  let accountIban: string | null = null;
+  let currency = "EUR";
+  let current: { transaction: StatementTransaction; statementLine: string } | null = null;
+
+  const finish = (details: string) => {
+    if (!current) return;
+    const { transaction, statementLine } = current;
+    const subfields = parseMt940Details(details);
+
+    if (subfields) {
+      const message = [
+        "20",
+        "21",
+        "22",
+        "23",
+        "24",
+        "25",
+        "26",
+        "27",
+        "28",
+        "29",
+        "60",
+        "61",
+        "62",
+        "63",
+      ]
+        .map((code) => subfields.get(code) ?? "")
+        .join("");
+      transaction.message = cleanText(message);
+      transaction.counterpartyName = cleanText(
+        `${subfields.get("32") ?? ""}${subfields.get("33") ?? ""}`
+      );
+      transaction.counterpartyAccount = cleanText(subfields.get("38") ?? subfields.get("31"));
+    } else {
+      transaction.message = cleanText(details);
+    }
+
+    // Subfield codes ("?20VS 123") would hide symbols at the start of a line
+    const freeText = subfields ? [...subfields.values()].join(" ") : details;
+    Object.assign(transaction, resolveSymbols({}, `${statementLine} ${freeText}`));
+    transactions.push(transaction);
+    current = null;
+  };
+
+  for (const [tag, value] of fields) {
+    switch (tag) {
+      case "25": {
+        const account = value.trim().replace(/\s+/g, "");
+        accountIban ??= /^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(account) ? account : null;
+        break;
+      }
+      case "60F":
+      case "60M": {
+        currency = value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1] ?? currency;
+        break;
+      }
+      case "61": {
+        finish("");
+        const [line = "", ...supplementary] = value.split("\n");
+        const match = line.match(
+          /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)([NSF][A-Z0-9]{3})(.*)$/
+        );
+        if (!match) {
+          throw new StatementParseError(`Invalid MT940 statement line: ${line}`);
+        }
+
+        const [, year, month, day, mark, , rawAmount = "", , references = ""] = match;
+        const bookingDate = utcDate(`20${year}`, month, day);
+        const amount = parseStatementAmount(rawAmount);
+        if (!bookingDate || !amount) {
+          throw new StatementParseError(`Invalid MT940 statement line: ${line}`);
+        }
+
+        const [customerReference, bankReference] = references.split("//");
+        const reference = cleanText(bankReference) ?? cleanText(customerReference);
+
+        current = {
+          statementLine: [references, ...supplementary].join(" "),
+          transaction: {
+            reference: reference === "NONREF" ? null : reference,
+            bookingDate,
+            amount: amount.amount,
+            currency,
+            credit: mark === "C",
+            variableSymbol: null,
+            constantSymbol: null,
+            specificSymbol: null,
+            counterpartyName: null,
+            counterpartyAccount: null,
+            message: null,
+          },
+        };
+        break;
+      }
+      case "86": {
+        finish(value);
+        break;
+      }
+    }
+  }
+  finish("");
+
+  if (transactions.length === 0 && !fields.some(([tag]) => tag === "20")) {
+    throw new StatementParseError("No MT940 statement found in the file");
+  }
+
+  return { format: BankStatementFormat.MT940, accountIban, transactions };
+}
+
+// ================================
+// CSV
+// ================================
+
+type CsvColumn =
+  | "date"
+  | "amount"
+  | "credit"
+  | "debit"
+  | "currency"
+  | "variableSymbol"
+  | "constantSymbol"
+  | "specificSymbol"
+  | "counterpartyName"
+  | "counterpartyAccount"
+  | "message"
+  | "reference";
+
+/**
+ * Header names used by Czech, Slovak and international bank exports,
+ * compared without diacritics and case
+ */
+const CSV_HEADERS: Record<CsvColumn, string[]> = {
+  date: [
+    "datum",
+    "datum zauctovani",
+    "datum zauctovania",
+    "datum pohybu",
+    "datum operace",
+    "datum transakcie",
+    "datum splatnosti",
+    "booking date",
+    "date",
+  ],
+  amount: ["objem", "castka", "suma", "amount", "castka v mene uctu", "suma transakcie"],
+  credit: ["kredit", "prijem", "prijmy", "credit"],
+  debit: ["debet", "vydaj", "vydaje", "debit"],
+  currency: ["mena", "currency", "mena uctu"],
+  variableSymbol: ["vs", "variabilni symbol", "variabilny symbol", "variable symbol"],
+  constantSymbol: ["ks", "konstantni symbol", "konstantny symbol", "constant symbol"],
+  specificSymbol: ["ss", "specificky symbol", "specific symbol"],
+  counterpartyName: [
+    "nazev protiuctu",
+    "nazov protiuctu",
+    "nazev protistrany",
+    "nazov protistrany",
+    "protistrana",
+    "counterparty name",
+  ],
+  counterpartyAccount: [
+    "protiucet",
+    "cislo protiuctu",
+    "iban protiuctu",
+    "ucet protistrany",
+    "iban protistrany",
+    "counterparty account",
+  ],
+  message: [
+    "zprava pro prijemce",
+    "sprava pre prijemcu",
+    "sprava pre prijimatela",
+    "informace pro prijemce",
+    "poznamka",
+    "popis",
+    "popis transakcie",
+    "referencia platitela",
+    "message",
+  ],
+  reference: ["id pohybu", "id transakcie", "id operace", "transaction id", "reference"],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.:]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function detectDelimiter(line: string): string {
+  const counts = [";", ",", "\t"].map((delimiter) => ({
+    delimiter,
+    count: line.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0]?.delimiter ?? ";";
+}
+
+/**
+ * Splits CSV text into rows, honouring quoted fields
+ */
+export function parseCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseCsvStatement(content: string, defaultCurrency: string): ParsedStatement {
+  // Some exports start with account details before the header row
+  const lines = content.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => {
+    const headers = line
+      .split(detectDelimiter(line))
+      .map((cell) => normalizeHeader(cell.replace(/"/g, "")));
+    const has = (column: CsvColumn) =>
+      headers.some((header) => CSV_HEADERS[column].includes(header));
+    return has("date") && (has("amount") || has("credit"));
+  });
+  if (headerIndex === -1) {
+    throw new StatementParseError("No date and amount columns found in the CSV file");
+  }
+
+  const headerLine = lines[headerIndex] ?? "";
+  const [headers = [], ...rows] = parseCsvRows(
+    lines.slice(headerIndex).join("\n"),
+    detectDelimiter(headerLine)
+  );
+
+  const columns = new Map<CsvColumn, number>();
+  headers.map(normalizeHeader).forEach((header, index) => {
+    for (const [column, names] of Object.entries(CSV_HEADERS) as [CsvColumn, string[]][]) {
+      if (names.includes(header) && !columns.has(column)) columns.set(column, index);
+    }
+  });
+
+  const cell = (row: string[], column: CsvColumn): string | null => {
+    const index = columns.get(column);
+    return index === undefined ? null : cleanText(row[index]);
+  };
+
+  const transactions = rows.flatMap((row): StatementTransaction[] => {
+    const dateText = cell(row, "date");
+    // Summary rows at the end of some exports have no date
+    if (!dateText) return [];
+
+    const bookingDate = parseStatementDate(dateText);
+    if (!bookingDate) {
+      throw new StatementParseError(`Invalid date in the CSV file: ${dateText}`);
+    }
+
+    let amount = parseStatementAmount(cell(row, "amount") ?? "");
+    if (!columns.has("amount")) {
+      const credit = parseStatementAmount(cell(row, "credit") ?? "");
+      const debit = parseStatementAmount(cell(row, "debit") ?? "");
+      amount =
+        credit && Number(credit.amount) > 0
+          ? credit
+          : debit && { amount: debit.amount, negative: true };
+    }
+    if (!amount) {
+      throw new StatementParseError(`Invalid amount in the CSV file on ${dateText}`);
+    }
+
+    const message = cell(row, "message");
+    const reference = cell(row, "reference");
+
+    return [
+      {
+        reference,
+        bookingDate,
+        amount: amount.amount,
+        currency: cell(row, "currency")?.toUpperCase() ?? defaultCurrency,
+        credit: !amount.negative,
+        ...resolveSymbols(
+          {
+            variableSymbol: cell(row, "variableSymbol"),
+            constantSymbol: cell(row, "constantSymbol"),
+            specificSymbol: cell(row, "specificSymbol"),
+          },
+          message ?? ""
+        ),
+        counterpartyName: cell(row, "counterpartyName"),
+        counterpartyAccount: cell(row, "counterpartyAccount"),
+        message,
+      },
+    ];
+  });
+
+  return { format: BankStatementFormat.CSV, accountIban: null, transactions };
+}
@@ -6,6 +6,7 @@ export interface CleanupOptions {
   oldAuditLogs?: boolean;
   failedPayments?: boolean;
   expiredWaitingList?: boolean;
+  expiredGuestRequests?: boolean;
   cancelledRegistrations?: boolean;
   oldNotificationLogs?: boolean;
   optimizeDatabase?: boolean;
@@ -16,6 +17,7 @@ export interface CleanupResults {
   oldAuditLogs?: number;
   failedPayments?: number;
   expiredWaitingList?: number;
+  expiredGuestRequests?: number;
   cancelledRegistrations?: number;
   oldNotificationLogs?: number;
   errors?: string[];
@@ -125,6 +127,25 @@ export async function performDatabaseCleanup(options: CleanupOptions): Promise<C
       }
     }
 
+    // Remove guest registration requests whose verification link expired
+    if (options.expiredGuestRequests) {
+      try {
+        const deletedRequests = await prisma.guestRegistrationRequest.deleteMany({
+          where: {
+            verifiedAt: null,
+            expiresAt: {
+              lt: new Date(),
+            },
+          },
+        });
+
+        results.expiredGuestRequests = deletedRequests.count;
+        logger.info(`🗑️ Cleaned up ${deletedRequests.count} expired guest registration requests`);
+      } catch (error) {
+        errors.push(`Failed to clean guest registration requests: ${(error as Error).message}`);
+      }
+    }
+
     // Clean up old cancelled registrations (older than 30 days)
     if (options.cancelledRegistrations) {
       try {
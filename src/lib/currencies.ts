@@ -0,0 +1,19 @@
+/**
+ * Currencies events can be priced in
+ *
+ * All of them are published in the ECB euro reference rates, so payments in
+ * any of them can be converted for reports.
+ */
+
+export const SUPPORTED_CURRENCIES = ["EUR", "CZK", "PLN", "HUF", "USD", "GBP"] as const;
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+/**
+ * Currency of the ECB reference rates; every rate is quoted against it
+ */
+export const RATE_BASE_CURRENCY: SupportedCurrency = "EUR";
+
+export function isSupportedCurrency(currency: string): currency is SupportedCurrency {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
@@ -0,0 +1,232 @@
+/**
+ * Discount codes
+ *
+ * A code takes a percentage and/or a fixed amount off a registration's price.
+ * Codes are either tied to one event or valid for all of them, and may have
+ * a validity window and a usage limit. A use is held by every registration
+ * the code was applied to, so a registration that is cancelled (e.g. when its
+ * payment expires) or rejected gives its use back.
+ */
+
+import { Prisma, RegistrationStatus, type DiscountCode, type Event } from "@prisma/client";
+import { prisma } from "./prisma";
+import { omitUndefined } from "./utils";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type { CreateDiscountCodeInput, UpdateDiscountCodeInput } from "./validations/pricing";
+
+/**
+ * Registration statuses that hold a use of their discount code
+ */
+export const DISCOUNT_USE_STATUSES: RegistrationStatus[] = [
+  RegistrationStatus.PENDING,
+  RegistrationStatus.CONFIRMED,
+  RegistrationStatus.ATTENDED,
+  RegistrationStatus.NO_SHOW,
+];
+
+export type DiscountCodeWithUses = DiscountCode & { uses: number };
+
+const usesCount = {
+  _count: {
+    select: { registrations: { where: { status: { in: DISCOUNT_USE_STATUSES } } } },
+  },
+} satisfies Prisma.DiscountCodeInclude;
+
+function withUses({
+  _count,
+  ...code
+}: DiscountCode & { _count: { registrations: number } }): DiscountCodeWithUses {
+  return { ...code, uses: _count.registrations };
+}
+
+export interface ApplyDiscountCodeOptions {
+  event: Pick<Event, "id" | "currency">;
+  at: Date;
+  /** Registration being re-priced, whose own use does not count */
+  excludeRegistrationId?: string | null;
+}
+
+/**
+ * Looks up a code for a registration and checks it may be used
+ *
+ * Locks the code row, so concurrent registrations cannot exceed its usage
+ * limit; call inside the transaction that stores the registration.
+ */
+export async function findUsableDiscountCode(
+  tx: Prisma.TransactionClient,
+  code: string,
+  { event, at, excludeRegistrationId }: ApplyDiscountCodeOptions
+): Promise<ServiceResult<DiscountCode>> {
+  const normalized = code.trim().toUpperCase();
+  await tx.$queryRaw`SELECT id FROM discount_codes WHERE code = ${normalized} FOR UPDATE`;
+
+  const discount = await tx.discountCode.findUnique({ where: { code: normalized } });
+  const invalid = fail<DiscountCode>(
+    "DISCOUNT_CODE_INVALID",
+    "This discount code is not valid for this event",
+    400
+  );
+
+  if (!discount || !discount.isActive) return invalid;
+  if (discount.eventId !== null && discount.eventId !== event.id) return invalid;
+  if (discount.validFrom && discount.validFrom > at) return invalid;
+  if (discount.validUntil && discount.validUntil < at) return invalid;
+  if (discount.amountOff && discount.currency !== event.currency) return invalid;
+
+  if (discount.maxUses !== null) {
+    const uses = await tx.registration.count({
+      where: {
+        discountCodeId: discount.id,
+        status: { in: DISCOUNT_USE_STATUSES },
+        ...(excludeRegistrationId && { id: { not: excludeRegistrationId } }),
+      },
+    });
+    if (uses >= discount.maxUses) {
+      return fail("DISCOUNT_CODE_EXHAUSTED", "This discount code has been used up", 409);
+    }
+  }
+
+  return ok(discount);
+}
+
+/**
+ * Amount a code takes off a subtotal: the percentage first, then the fixed
+ * amount (once per registration), never more than the subtotal itself
+ */
+export function getDiscountAmount(
+  discount: Pick<DiscountCode, "percentOff" | "amountOff">,
+  subtotal: Prisma.Decimal
+): Prisma.Decimal {
+  let discounted = subtotal;
+  if (discount.percentOff) {
+    discounted = discounted.sub(
+      discounted.mul(discount.percentOff).div(100).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP)
+    );
+  }
+  if (discount.amountOff) {
+    discounted = discounted.sub(discount.amountOff);
+  }
+  return subtotal.sub(Prisma.Decimal.max(discounted, 0));
+}
+
+function mapDiscountCodeWriteError(error: unknown): ServiceResult<never> {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      return fail("DISCOUNT_CODE_EXISTS", "A discount code with this code already exists", 409);
+    }
+    if (error.code === "P2003") {
+      return fail("EVENT_NOT_FOUND", "Event not found", 404);
+    }
+    if (error.code === "P2025") {
+      return fail("DISCOUNT_CODE_NOT_FOUND", "Discount code not found", 404);
+    }
+  }
+
+  throw error;
+}
+
+/**
+ * Discount codes with their current number of uses, newest first
+ */
+export async function listDiscountCodes(
+  query: { eventId?: string | undefined } = {}
+): Promise<DiscountCodeWithUses[]> {
+  const codes = await prisma.discountCode.findMany({
+    where: query.eventId ? { eventId: query.eventId } : {},
+    include: usesCount,
+    orderBy: { createdAt: "desc" },
+  });
+  return codes.map(withUses);
+}
+
+/**
+ * Creates a discount code
+ */
+export async function createDiscountCode(
+  input: CreateDiscountCodeInput,
+  createdById: string
+): Promise<ServiceResult<DiscountCodeWithUses>> {
+  try {
+    const code = await prisma.discountCode.create({
+      data: {
+        ...omitUndefined(input),
+        createdById,
+      },
+      include: usesCount,
+    });
+    logger.info(`Created discount code ${code.code} (${code.id})`);
+    return ok(withUses(code));
+  } catch (error) {
+    return mapDiscountCodeWriteError(error);
+  }
+}
+
+/**
+ * Partially updates a discount code
+ *
+ * Codes that were already used keep their uses; lowering `maxUses` below
+ * them only stops further registrations.
+ */
+export async function updateDiscountCode(
+  id: string,
+  input: UpdateDiscountCodeInput
+): Promise<ServiceResult<DiscountCodeWithUses>> {
+  const existing = await prisma.discountCode.findUnique({ where: { id } });
+  if (!existing) {
+    return fail("DISCOUNT_CODE_NOT_FOUND", "Discount code not found", 404);
+  }
+
+  const percentOff = input.percentOff !== undefined ? input.percentOff : existing.percentOff;
+  const amountOff = input.amountOff !== undefined ? input.amountOff : existing.amountOff;
+  const currency = input.currency !== undefined ? input.currency : existing.currency;
+  if (!percentOff && !amountOff) {
+    return fail("INVALID_DISCOUNT", "A discount needs percentOff or amountOff", 400);
+  }
+  if (amountOff && !currency) {
+    return fail("INVALID_DISCOUNT", "A currency is required with amountOff", 400);
+  }
+
+  try {
+    const code = await prisma.discountCode.update({
+      where: { id },
+      data: omitUndefined(input),
+      include: usesCount,
+    });
+    return ok(withUses(code));
+  } catch (error) {
+    return mapDiscountCodeWriteError(error);
+  }
+}
+
+/**
+ * Deletes a discount code that was never applied to a registration; used
+ * codes must be deactivated instead so registrations keep their reference
+ */
+export async function deleteDiscountCode(
+  id: string
+): Promise<ServiceResult<Pick<DiscountCode, "id">>> {
+  const code = await prisma.discountCode.findUnique({
+    where: { id },
+    select: { id: true, _count: { select: { registrations: true } } },
+  });
+
+  if (!code) {
+    return fail("DISCOUNT_CODE_NOT_FOUND", "Discount code not found", 404);
+  }
+  if (code._count.registrations > 0) {
+    return fail(
+      "DISCOUNT_CODE_IN_USE",
+      "The discount code was already used and cannot be deleted; deactivate it instead",
+      409
+    );
+  }
+
+  try {
+    await prisma.discountCode.delete({ where: { id } });
+    logger.info(`Deleted discount code ${id}`);
+    return ok({ id });
+  } catch (error) {
+    return mapDiscountCodeWriteError(error);
+  }
+}
@@ -185,6 +185,10 @@ function convertToResendOptions(config: EmailConfig): CreateEmailOptions {
     baseOptions.headers = config.headers;
   }
 
+  if (config.attachments) {
+    baseOptions.attachments = config.attachments;
+  }
+
   // Add content based on type
   if ("text" in config || "html" in config) {
     const textConfig = config as TextEmailConfig;
@@ -489,9 +493,9 @@ function generateEmailTemplate(type: EmailTemplateType, data: Record<string, any
         <div class="content">
           <p>Hello ${data["name"] || "there"},</p>
           <p>Thank you for your purchase! Here are the details:</p>
-          <p><strong>Order ID:</strong> ${data["orderId"] || "N/A"}</p>
+          ${data["invoiceNumber"] ? `<p><strong>Invoice:</strong> ${data["invoiceNumber"]}</p>` : `<p><strong>Order ID:</strong> ${data["orderId"] || "N/A"}</p>`}
           <p><strong>Amount:</strong> ${data["amount"] || "N/A"}</p>
-          ${data["receiptUrl"] ? `<a href="${data["receiptUrl"]}" class="button">View Full Receipt</a>` : ""}
+          ${data["receiptUrl"] ? `<a href="${data["receiptUrl"]}" class="button">Download Invoice (PDF)</a>` : ""}
         </div>
       `);
 
@@ -0,0 +1,121 @@
+/**
+ * Event availability
+ *
+ * Seat counting and registration window state shared by the public event
+ * pages and the registration engine.
+ */
+
+import { EventStatus, RegistrationStatus, type Event, type Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Registration statuses that occupy seats
+ */
+export const SEAT_HOLDING_STATUSES: RegistrationStatus[] = [
+  RegistrationStatus.PENDING,
+  RegistrationStatus.CONFIRMED,
+];
+
+/**
+ * Statuses counted against the capacity: seat-holding registrations plus
+ * attendees who already checked in
+ */
+export const OCCUPYING_STATUSES: RegistrationStatus[] = [
+  ...SEAT_HOLDING_STATUSES,
+  RegistrationStatus.ATTENDED,
+];
+
+export type RegistrationWindowState = "NOT_OPEN" | "OPEN" | "CLOSED";
+
+export type RegistrationWindowFields = Pick<
+  Event,
+  "status" | "startDate" | "registrationStartDate" | "registrationEndDate"
+>;
+
+/**
+ * Determines whether registration for an event is open at a given time
+ *
+ * Registration is only possible for published events, between the
+ * registration start date (if any) and the earlier of the registration end
+ * date and the event start.
+ */
+export function getRegistrationWindowState(
+  event: RegistrationWindowFields,
+  now: Date = new Date()
+): RegistrationWindowState {
+  if (event.status !== EventStatus.PUBLISHED) {
+    return "CLOSED";
+  }
+
+  if (event.registrationStartDate && now < event.registrationStartDate) {
+    return "NOT_OPEN";
+  }
+
+  const closesAt = event.registrationEndDate ?? event.startDate;
+  return now < closesAt ? "OPEN" : "CLOSED";
+}
+
+/**
+ * Locks an event row for the rest of the transaction
+ *
+ * Every code path that changes seat usage (registration, cancellation,
+ * promotion, approval) takes this lock first so that concurrent requests
+ * are serialized and cannot overbook the event.
+ */
+export async function lockEvent(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM events WHERE id = ${eventId} FOR UPDATE`;
+}
+
+/**
+ * Locks a payment row for the rest of the transaction, so refunds and
+ * invoices for the same payment are serialized
+ *
+ * @returns Whether the payment exists
+ */
+export async function lockPayment(
+  tx: Prisma.TransactionClient,
+  paymentId: string
+): Promise<boolean> {
+  const rows = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`;
+  return rows.length > 0;
+}
+
+/**
+ * Counts occupied seats per event
+ *
+ * Each group leader (or individual) registration holds `groupSize` seats;
+ * friend registrations linked to a leader are already included in that count.
+ *
+ * @returns Map of event ID to occupied seats (events without registrations map to 0)
+ */
+export async function countTakenSeats(
+  eventIds: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<string, number>> {
+  const seats = new Map(eventIds.map((id) => [id, 0]));
+  if (eventIds.length === 0) return seats;
+
+  const groups = await db.registration.groupBy({
+    by: ["eventId"],
+    where: {
+      eventId: { in: eventIds },
+      groupLeaderId: null,
+      status: { in: OCCUPYING_STATUSES },
+    },
+    _sum: { groupSize: true },
+  });
+
+  for (const group of groups) {
+    seats.set(group.eventId, group._sum.groupSize ?? 0);
+  }
+
+  return seats;
+}
+
+/**
+ * Remaining seats, never negative (capacity may be lowered below current registrations)
+ */
+export function getRemainingSeats(capacity: number, takenSeats: number): number {
+  return Math.max(0, capacity - takenSeats);
+}
@@ -0,0 +1,295 @@
+/**
+ * Event status lifecycle
+ *
+ * Enforces the allowed `EventStatus` transitions, records each transition in
+ * the audit log and applies the side effects on registrations and payments.
+ *
+ *   DRAFT ──► PUBLISHED ──► COMPLETED
+ *     │        │    ▲
+ *     │        ▼    │
+ *     │      POSTPONED
+ *     ▼        │
+ *   CANCELLED ◄┘ (from DRAFT, PUBLISHED or POSTPONED)
+ */
+
+import {
+  AuditAction,
+  EventStatus,
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  type Event,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordAuditLog } from "./audit";
+import { lockEvent } from "./event-availability";
+import { recordRegistrationHistory } from "./registration-history";
+import { sendTemplatedEmails, type TemplatedEmailOptions } from "./notification-templates";
+import { formatDate, formatTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+/**
+ * Allowed target statuses for each status
+ */
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, readonly EventStatus[]> = {
+  [EventStatus.DRAFT]: [EventStatus.PUBLISHED, EventStatus.CANCELLED],
+  [EventStatus.PUBLISHED]: [EventStatus.POSTPONED, EventStatus.CANCELLED, EventStatus.COMPLETED],
+  [EventStatus.POSTPONED]: [EventStatus.PUBLISHED, EventStatus.CANCELLED],
+  [EventStatus.CANCELLED]: [],
+  [EventStatus.COMPLETED]: [],
+};
+
+/**
+ * Registration statuses that hold a seat and receive event announcements
+ */
+export const ACTIVE_REGISTRATION_STATUSES: RegistrationStatus[] = [
+  RegistrationStatus.PENDING,
+  RegistrationStatus.CONFIRMED,
+];
+
+/**
+ * Checks whether an event may move from one status to another
+ */
+export function canTransitionEventStatus(from: EventStatus, to: EventStatus): boolean {
+  return EVENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export interface EventStatusTransitionInput {
+  eventId: string;
+  status: EventStatus;
+  performedById: string;
+  reason?: string | undefined;
+  /** New start date when postponing */
+  startDate?: Date | undefined;
+  /** New end date when postponing; shifted along with the start date when omitted */
+  endDate?: Date | null | undefined;
+}
+
+export interface EventStatusTransitionResult {
+  event: Event;
+  previousStatus: EventStatus;
+  affectedRegistrations: number;
+}
+
+interface AttendeeRecipient {
+  email: string;
+  name: string | null;
+  userId: string | null;
+  locale: string;
+}
+
+interface TransitionOutcome {
+  data: EventStatusTransitionResult;
+  recipients: AttendeeRecipient[];
+}
+
+/**
+ * Moves an event to a new status and applies the transition side effects
+ *
+ * - CANCELLED: cancels active registrations and pending payments, notifies attendees
+ * - POSTPONED: optionally reschedules the event and notifies attendees of the new date
+ * - COMPLETED: marks confirmed registrations that were never checked in as NO_SHOW
+ */
+export async function transitionEventStatus(
+  input: EventStatusTransitionInput
+): Promise<ServiceResult<EventStatusTransitionResult>> {
+  const { eventId, status, performedById, reason } = input;
+
+  const result = await prisma.$transaction(
+    async (tx): Promise<ServiceResult<TransitionOutcome>> => {
+      // Serialize with concurrent transitions and registrations
+      await lockEvent(tx, eventId);
+
+      const event = await tx.event.findUnique({ where: { id: eventId } });
+      if (!event) {
+        return fail<TransitionOutcome>("EVENT_NOT_FOUND", "Event not found", 404);
+      }
+
+      if (!canTransitionEventStatus(event.status, status)) {
+        return fail<TransitionOutcome>(
+          "INVALID_STATUS_TRANSITION",
+          `Cannot change event status from ${event.status} to ${status}`,
+          409,
+          { from: event.status, to: status, allowed: EVENT_STATUS_TRANSITIONS[event.status] }
+        );
+      }
+
+      if (status === EventStatus.COMPLETED && event.startDate > new Date()) {
+        return fail<TransitionOutcome>(
+          "EVENT_NOT_STARTED",
+          "An event cannot be completed before it starts",
+          409
+        );
+      }
+
+      const reschedule = status === EventStatus.POSTPONED && input.startDate !== undefined;
+      let newEndDate: Date | null = event.endDate;
+      if (reschedule && input.startDate) {
+        if (input.endDate !== undefined) {
+          newEndDate = input.endDate;
+        } else if (event.endDate) {
+          const duration = event.endDate.getTime() - event.startDate.getTime();
+          newEndDate = new Date(input.startDate.getTime() + duration);
+        }
+
+        if (newEndDate && newEndDate <= input.startDate) {
+          return fail<TransitionOutcome>(
+            "INVALID_EVENT_DATES",
+            "End date must be after start date",
+            400
+          );
+        }
+      }
+
+      const updated = await tx.event.update({
+        where: { id: eventId },
+        data: {
+          status,
+          ...(reschedule && input.startDate && { startDate: input.startDate, endDate: newEndDate }),
+        },
+      });
+
+      const activeRegistrations = await tx.registration.findMany({
+        where: { eventId, status: { in: ACTIVE_REGISTRATION_STATUSES } },
+        include: { user: { select: { email: true, name: true, preferredLocale: true } } },
+      });
+
+      let affectedRegistrations = 0;
+      const now = new Date();
+
+      if (status === EventStatus.CANCELLED) {
+        const cancelled = await tx.registration.updateMany({
+          where: { eventId, status: { in: ACTIVE_REGISTRATION_STATUSES } },
+          data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+        });
+        affectedRegistrations = cancelled.count;
+
+        const pendingPayments = await tx.pendingPayment.findMany({
+          where: { eventId, status: PendingPaymentStatus.PENDING },
+          select: { id: true, userId: true },
+        });
+
+        await tx.pendingPayment.updateMany({
+          where: { id: { in: pendingPayments.map((payment) => payment.id) } },
+          data: { status: PendingPaymentStatus.CANCELLED, cancelledAt: now },
+        });
+
+        await recordRegistrationHistory(tx, [
+          ...activeRegistrations
+            .filter((registration) => registration.userId)
+            .map((registration) => ({
+              userId: registration.userId!,
+              eventId,
+              action: RegistrationAction.CANCELLED,
+              previousStatus: registration.status,
+              newStatus: RegistrationStatus.CANCELLED,
+              reason: reason ?? "Event cancelled",
+              performedById,
+            })),
+          ...pendingPayments.map((payment) => ({
+            userId: payment.userId,
+            eventId,
+            action: RegistrationAction.PENDING_PAYMENT_CANCELLED,
+            reason: reason ?? "Event cancelled",
+            performedById,
+          })),
+        ]);
+      }
+
+      if (status === EventStatus.COMPLETED) {
+        const noShows = await tx.registration.updateMany({
+          where: { eventId, status: RegistrationStatus.CONFIRMED },
+          data: { status: RegistrationStatus.NO_SHOW },
+        });
+        affectedRegistrations = noShows.count;
+      }
+
+      await recordAuditLog(tx, {
+        userId: performedById,
+        action: AuditAction.UPDATE,
+        resource: "Event",
+        resourceId: eventId,
+        oldData: {
+          status: event.status,
+          startDate: event.startDate.toISOString(),
+          endDate: event.endDate?.toISOString() ?? null,
+        },
+        newData: {
+          status: updated.status,
+          startDate: updated.startDate.toISOString(),
+          endDate: updated.endDate?.toISOString() ?? null,
+        },
+        changes: { status: { from: event.status, to: status } },
+        description: `Event status changed from ${event.status} to ${status}${reason ? `: ${reason}` : ""}`,
+      });
+
+      const recipients: AttendeeRecipient[] = activeRegistrations.flatMap((registration) => {
+        const email = registration.user?.email ?? registration.guestEmail;
+        if (!email) return [];
+
+        return [
+          {
+            email,
+            name: registration.user?.name ?? registration.guestName,
+            userId: registration.userId,
+            locale: registration.user?.preferredLocale ?? "en",
+          },
+        ];
+      });
+
+      return ok({
+        data: { event: updated, previousStatus: event.status, affectedRegistrations },
+        recipients,
+      });
+    }
+  );
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { data, recipients } = result.data;
+  logger.info(
+    `Event ${eventId} moved from ${data.previousStatus} to ${status} (${data.affectedRegistrations} registrations affected)`
+  );
+
+  if (status === EventStatus.CANCELLED || status === EventStatus.POSTPONED) {
+    await notifyAttendees(data.event, status, recipients, reason);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Emails attendees about a cancellation or postponement
+ */
+async function notifyAttendees(
+  event: Event,
+  status: EventStatus,
+  recipients: AttendeeRecipient[],
+  reason?: string
+): Promise<void> {
+  const templateName = status === EventStatus.CANCELLED ? "event_cancelled" : "event_postponed";
+
+  const messages: TemplatedEmailOptions[] = recipients.map((recipient) => ({
+    templateName,
+    recipient,
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+      eventTime: formatTime(event.startDate, recipient.locale, event.timezone),
+      reason: reason ?? "",
+      eventUrl: `${getBaseUrl()}/${recipient.locale}/events/${event.slug}`,
+    },
+  }));
+
+  const results = await sendTemplatedEmails(messages);
+  const failed = results.filter((result) => !result.success).length;
+
+  if (failed > 0) {
+    logger.warn(`Failed to notify ${failed} of ${results.length} attendees of event ${event.id}`);
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Event service
+ *
+ * Server-side queries and mutations for the `Event` model, used by the
+ * /api/events routes and the public event pages.
+ */
+
+import {
+  EventStatus,
+  PendingPaymentStatus,
+  Prisma,
+  SlugEntityType,
+  type Event,
+} from "@prisma/client";
+import { prisma, paginate, type PaginatedResult } from "./prisma";
+import { omitUndefined } from "./utils";
+import { logger } from "./logger";
+import { localizeFields } from "./localization";
+import { promoteFromWaitingList } from "./waiting-list";
+import {
+  findSlugRedirect,
+  generateUniqueSlug,
+  recordSlugChange,
+  releaseSlug,
+  withSlugRetry,
+} from "./slug";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import {
+  getEventDateIssues,
+  type CreateEventInput,
+  type EventListQuery,
+  type UpdateEventInput,
+} from "./validations/event";
+
+/**
+ * Relations loaded for event list and detail responses
+ */
+export const eventInclude = {
+  category: true,
+  _count: {
+    select: {
+      registrations: true,
+      waitingList: true,
+    },
+  },
+} satisfies Prisma.EventInclude;
+
+export type EventWithRelations = Prisma.EventGetPayload<{ include: typeof eventInclude }>;
+
+/**
+ * Applies the locale's translations to the event and its category,
+ * falling back to the base fields
+ */
+export function localizeEvent<T extends EventWithRelations>(event: T, locale: string): T {
+  return {
+    ...localizeFields(event, locale, ["title", "description", "shortDescription"]),
+    category: event.category && localizeFields(event.category, locale, ["name", "description"]),
+  };
+}
+
+export interface EventVisibilityOptions {
+  /** Whether DRAFT events may be returned (event managers only) */
+  includeDrafts?: boolean;
+}
+
+/**
+ * Builds the Prisma where clause for the event list filters
+ */
+export function buildEventWhere(
+  query: EventListQuery,
+  options: EventVisibilityOptions = {}
+): Prisma.EventWhereInput {
+  const where: Prisma.EventWhereInput = {};
+  const and: Prisma.EventWhereInput[] = [];
+
+  if (query.status) where.status = query.status;
+  if (query.type) where.type = query.type;
+  if (query.categoryId) where.categoryId = query.categoryId;
+  if (query.city) where.city = { equals: query.city, mode: "insensitive" };
+  if (query.isOnline !== undefined) where.isOnline = query.isOnline;
+
+  if (query.from || query.to) {
+    where.startDate = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to }),
+    };
+  }
+
+  if (query.tags && query.tags.length > 0) {
+    where.tags = { hasSome: query.tags };
+  }
+
+  if (query.search) {
+    and.push({
+      OR: [
+        { title: { contains: query.search, mode: "insensitive" } },
+        { shortDescription: { contains: query.search, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  if (!options.includeDrafts) {
+    and.push({ status: { not: EventStatus.DRAFT } });
+  }
+
+  if (and.length > 0) {
+    where.AND = and;
+  }
+
+  return where;
+}
+
+/**
+ * Lists events with filtering and pagination
+ */
+export async function listEvents(
+  query: EventListQuery,
+  options: EventVisibilityOptions = {}
+): Promise<PaginatedResult<EventWithRelations>> {
+  return paginate<EventWithRelations>(
+    prisma.event,
+    { ...(query.page && { page: query.page }), ...(query.limit && { limit: query.limit }) },
+    buildEventWhere(query, options),
+    eventInclude,
+    [{ startDate: "asc" }, { id: "asc" }]
+  );
+}
+
+/**
+ * Finds an event by id, slug or a previous slug
+ *
+ * When found through a previous slug, `event.slug` differs from the requested
+ * value so pages can redirect to the canonical URL.
+ */
+export async function findEvent(
+  idOrSlug: string,
+  options: EventVisibilityOptions = {}
+): Promise<EventWithRelations | null> {
+  let event = await prisma.event.findFirst({
+    where: { OR: [{ id: idOrSlug }, { slug: idOrSlug }] },
+    include: eventInclude,
+  });
+
+  if (!event) {
+    const redirectedId = await findSlugRedirect(SlugEntityType.EVENT, idOrSlug);
+    if (redirectedId) {
+      event = await prisma.event.findUnique({ where: { id: redirectedId }, include: eventInclude });
+    }
+  }
+
+  if (!event || (event.status === EventStatus.DRAFT && !options.includeDrafts)) {
+    return null;
+  }
+
+  return event;
+}
+
+/**
+ * Converts validated input into Prisma data, dropping keys that were not provided
+ */
+function toEventData<T extends UpdateEventInput>(input: T) {
+  const { translations, ...fields } = input;
+
+  return {
+    ...omitUndefined(fields),
+    ...(translations !== undefined && {
+      translations: translations === null ? Prisma.DbNull : translations,
+    }),
+  };
+}
+
+/**
+ * Maps known Prisma write errors to service errors
+ */
+function mapEventWriteError<T>(error: unknown): ServiceResult<T> {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      return fail("EVENT_SLUG_TAKEN", "An event with this slug already exists", 409);
+    }
+    if (error.code === "P2003") {
+      return fail(
+        "INVALID_REFERENCE",
+        "Referenced category, bank account or manager does not exist",
+        400,
+        error.meta
+      );
+    }
+    if (error.code === "P2025") {
+      return fail("EVENT_NOT_FOUND", "Event not found", 404);
+    }
+  }
+
+  throw error;
+}
+
+/**
+ * Creates a new event owned by the given user
+ *
+ * The slug is generated from the title unless one is provided explicitly.
+ */
+export async function createEvent(
+  input: CreateEventInput,
+  creatorId: string
+): Promise<ServiceResult<EventWithRelations>> {
+  const { slug: requestedSlug, ...fields } = input;
+
+  try {
+    const event = await withSlugRetry(
+      () =>
+        prisma.$transaction(async (tx) => {
+          const slug =
+            requestedSlug ??
+            (await generateUniqueSlug(SlugEntityType.EVENT, input.title, { db: tx }));
+
+          await releaseSlug(tx, SlugEntityType.EVENT, slug);
+          return tx.event.create({
+            data: {
+              ...toEventData(fields),
+              slug,
+              creatorId,
+            },
+            include: eventInclude,
+          });
+        }),
+      requestedSlug ? 1 : 3
+    );
+
+    logger.info(`Created event ${event.id} (${event.slug})`);
+    return ok(event);
+  } catch (error) {
+    return mapEventWriteError(error);
+  }
+}
+
+/**
+ * Partially updates an event
+ *
+ * A title change regenerates the slug unless a slug is provided explicitly;
+ * the previous slug is kept as a redirect.
+ */
+export async function updateEvent(
+  id: string,
+  input: UpdateEventInput
+): Promise<ServiceResult<EventWithRelations>> {
+  const existing = await prisma.event.findUnique({ where: { id } });
+
+  if (!existing) {
+    return fail("EVENT_NOT_FOUND", "Event not found", 404);
+  }
+
+  // Re-check date constraints against the values that will be persisted
+  const dateIssues = getEventDateIssues({
+    startDate: input.startDate ?? existing.startDate,
+    endDate: input.endDate !== undefined ? input.endDate : existing.endDate,
+    registrationStartDate:
+      input.registrationStartDate !== undefined
+        ? input.registrationStartDate
+        : existing.registrationStartDate,
+    registrationEndDate:
+      input.registrationEndDate !== undefined
+        ? input.registrationEndDate
+        : existing.registrationEndDate,
+  });
+
+  if (dateIssues.length > 0) {
+    return fail("INVALID_EVENT_DATES", "Invalid event dates", 400, dateIssues);
+  }
+
+  // Open pending payments were issued in the old currency
+  if (input.currency && input.currency !== existing.currency) {
+    const openPayments = await prisma.pendingPayment.count({
+      where: { eventId: id, status: PendingPaymentStatus.PENDING },
+    });
+    if (openPayments > 0) {
+      return fail(
+        "EVENT_CURRENCY_LOCKED",
+        "The currency cannot change while attendees have unpaid pending payments",
+        409
+      );
+    }
+  }
+
+  const { slug: requestedSlug, ...fields } = input;
+  const titleChanged = input.title !== undefined && input.title !== existing.title;
+
+  try {
+    const event = await withSlugRetry(
+      () =>
+        prisma.$transaction(async (tx) => {
+          const slug =
+            requestedSlug ??
+            (titleChanged && input.title
+              ? await generateUniqueSlug(SlugEntityType.EVENT, input.title, {
+                  excludeId: id,
+                  db: tx,
+                })
+              : existing.slug);
+
+          const updated = await tx.event.update({
+            where: { id },
+            data: { ...toEventData(fields), slug },
+            include: eventInclude,
+          });
+
+          await recordSlugChange(tx, SlugEntityType.EVENT, id, existing.slug, slug);
+          return updated;
+        }),
+      requestedSlug ? 1 : 3
+    );
+
+    if (event.slug !== existing.slug) {
+      logger.info(`Event ${id} slug changed from ${existing.slug} to ${event.slug}`);
+    }
+
+    // Extra seats go to the waiting list first
+    if (event.capacity > existing.capacity) {
+      await promoteFromWaitingList(id);
+    }
+
+    return ok(event);
+  } catch (error) {
+    return mapEventWriteError(error);
+  }
+}
+
+/**
+ * Deletes an event that has no registration or payment history
+ *
+ * Events that already have attendees must be cancelled instead so that
+ * registrations, payments and their history are preserved.
+ */
+export async function deleteEvent(id: string): Promise<ServiceResult<Pick<Event, "id">>> {
+  const event = await prisma.event.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      _count: {
+        select: {
+          registrations: true,
+          payments: true,
+          pendingPayments: true,
+          registrationHistory: true,
+        },
+      },
+    },
+  });
+
+  if (!event) {
+    return fail("EVENT_NOT_FOUND", "Event not found", 404);
+  }
+
+  const { registrations, payments, pendingPayments, registrationHistory } = event._count;
+  if (registrations + payments + pendingPayments + registrationHistory > 0) {
+    return fail(
+      "EVENT_HAS_REGISTRATIONS",
+      "Event has registrations or payments and cannot be deleted; cancel it instead",
+      409
+    );
+  }
+
+  try {
+    await prisma.event.delete({ where: { id } });
+    logger.info(`Deleted event ${id}`);
+    return ok({ id });
+  } catch (error) {
+    return mapEventWriteError(error);
+  }
+}
+
+/**
+ * Public documents and approved feedback shown on the event detail page
+ */
+export async function getEventPublicContent(eventId: string) {
+  const [documents, feedback, ratings] = await Promise.all([
+    prisma.eventDocument.findMany({
+      where: { eventId, isPublic: true },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        fileName: true,
+        filePath: true,
+        fileSize: true,
+        type: true,
+      },
+      orderBy: { uploadedAt: "asc" },
+    }),
+    prisma.eventFeedback.findMany({
+      where: { eventId, isApproved: true, isPublic: true },
+      select: {
+        id: true,
+        rating: true,
+        title: true,
+        comment: true,
+        createdAt: true,
+        user: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    }),
+    prisma.eventFeedback.aggregate({
+      where: { eventId, isApproved: true, isPublic: true },
+      _avg: { rating: true },
+      _count: true,
+    }),
+  ]);
+
+  return {
+    documents,
+    feedback,
+    averageRating: ratings._avg.rating,
+    feedbackCount: ratings._count,
+  };
+}
+
+export type EventPublicContent = Awaited<ReturnType<typeof getEventPublicContent>>;
@@ -0,0 +1,192 @@
+/**
+ * ECB reference exchange rates
+ *
+ * Rates are imported from the ECB euro foreign exchange reference XML files
+ * (the daily `eurofxref-daily.xml`, the 90-day or the full history file) and
+ * stored per day, so reports never depend on a live network call. Each rate
+ * is the number of currency units per 1 EUR. The ECB publishes on TARGET
+ * business days only; an amount is converted at the latest rate on or before
+ * its date, as long as that rate is at most `MAX_RATE_AGE_DAYS` old.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { RATE_BASE_CURRENCY } from "./currencies";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Oldest rate used for a day without its own, covering weekends and
+ * holidays (the ECB closes for up to four days around Easter and Christmas)
+ */
+export const MAX_RATE_AGE_DAYS = 7;
+
+const IMPORT_CHUNK_SIZE = 1000;
+
+export interface EcbRateDay {
+  date: Date;
+  rates: { currency: string; rate: Prisma.Decimal }[];
+}
+
+const DAY_CUBE = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+const RATE_CUBE = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+/**
+ * Reads the daily rates of an ECB reference rate XML file
+ */
+export function parseEcbRates(xml: string): EcbRateDay[] {
+  const days: EcbRateDay[] = [];
+
+  for (const [, time, body] of xml.matchAll(DAY_CUBE)) {
+    const rates = [...(body ?? "").matchAll(RATE_CUBE)].map(([, currency, rate]) => ({
+      currency: currency ?? "",
+      rate: new Prisma.Decimal(rate ?? "0"),
+    }));
+    if (rates.length > 0) {
+      days.push({ date: new Date(`${time}T00:00:00Z`), rates });
+    }
+  }
+
+  return days;
+}
+
+export interface ExchangeRateImport {
+  days: number;
+  /** Rates newly stored; days already imported are skipped */
+  imported: number;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Stores the rates of an ECB reference rate XML file
+ *
+ * Published reference rates never change, so rates already stored for a day
+ * are kept and overlapping files can be imported repeatedly.
+ */
+export async function importEcbRates(xml: string): Promise<ServiceResult<ExchangeRateImport>> {
+  const days = parseEcbRates(xml);
+  if (days.length === 0) {
+    return fail("INVALID_RATES_FILE", "No ECB reference rates found in the file", 400);
+  }
+
+  const rows = days.flatMap(({ date, rates }) =>
+    rates.map(({ currency, rate }) => ({ currency, date, rate }))
+  );
+
+  let imported = 0;
+  for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+    const { count } = await prisma.exchangeRate.createMany({
+      data: rows.slice(i, i + IMPORT_CHUNK_SIZE),
+      skipDuplicates: true,
+    });
+    imported += count;
+  }
+
+  const dates = days.map(({ date }) => date.getTime());
+  const from = new Date(Math.min(...dates));
+  const to = new Date(Math.max(...dates));
+
+  logger.info(
+    `Imported ${imported} ECB reference rates for ${days.length} days (${toDay(from)} to ${toDay(to)})`
+  );
+
+  return ok({ days: days.length, imported, from, to });
+}
+
+interface RatePoint {
+  /** Start of the UTC day the rate applies to */
+  time: number;
+  rate: Prisma.Decimal;
+}
+
+/**
+ * Rates per currency, oldest first
+ */
+export type ExchangeRateHistory = Map<string, RatePoint[]>;
+
+/**
+ * Loads the rates needed to convert amounts dated within a period
+ */
+export async function loadExchangeRates(
+  currencies: string[],
+  from: Date,
+  to: Date
+): Promise<ExchangeRateHistory> {
+  const rows = await prisma.exchangeRate.findMany({
+    where: {
+      currency: { in: currencies.filter((currency) => currency !== RATE_BASE_CURRENCY) },
+      date: { gte: new Date(startOfDay(from) - MAX_RATE_AGE_DAYS * DAY_MS), lte: to },
+    },
+    select: { currency: true, date: true, rate: true },
+    orderBy: { date: "asc" },
+  });
+
+  const history: ExchangeRateHistory = new Map();
+  for (const row of rows) {
+    const points = history.get(row.currency) ?? [];
+    points.push({ time: row.date.getTime(), rate: row.rate });
+    history.set(row.currency, points);
+  }
+
+  return history;
+}
+
+/**
+ * Units of `currency` per 1 EUR on the given date, or null when no
+ * sufficiently recent rate is stored
+ */
+export function findRate(
+  history: ExchangeRateHistory,
+  currency: string,
+  date: Date
+): Prisma.Decimal | null {
+  if (currency === RATE_BASE_CURRENCY) {
+    return new Prisma.Decimal(1);
+  }
+
+  const day = startOfDay(date);
+  const points = history.get(currency) ?? [];
+  for (let i = points.length - 1; i >= 0; i--) {
+    const point = points[i];
+    if (point && point.time <= day) {
+      return day - point.time <= MAX_RATE_AGE_DAYS * DAY_MS ? point.rate : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Converts an amount between currencies at the rates of the given date,
+ * crossing through EUR; null when a rate is missing
+ */
+export function convertAmount(
+  history: ExchangeRateHistory,
+  amount: Prisma.Decimal,
+  from: string,
+  to: string,
+  date: Date
+): Prisma.Decimal | null {
+  if (from === to) {
+    return amount;
+  }
+
+  const fromRate = findRate(history, from, date);
+  const toRate = findRate(history, to, date);
+  if (!fromRate || !toRate) {
+    return null;
+  }
+
+  return amount.div(fromRate).mul(toRate).toDecimalPlaces(2);
+}
+
+function startOfDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
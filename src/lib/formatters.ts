@@ -0,0 +1,55 @@
+/**
+ * Locale-aware display formatting shared by emails and server-rendered pages
+ */
+
+import { createFormatter } from "next-intl";
+
+// Prices in these currencies are quoted in whole units (e.g. "500 Kč")
+const WHOLE_UNIT_CURRENCIES = new Set(["CZK", "HUF"]);
+
+/**
+ * Formats a date in the given locale and IANA time zone
+ */
+export function formatDate(date: Date, locale: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: "long",
+    ...(timeZone && { timeZone }),
+  }).format(date);
+}
+
+/**
+ * Formats a time of day in the given locale and IANA time zone
+ */
+export function formatTime(date: Date, locale: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeStyle: "short",
+    ...(timeZone && { timeZone }),
+  }).format(date);
+}
+
+/**
+ * Formats a date and time in the given locale and IANA time zone
+ */
+export function formatDateTime(date: Date, locale: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: "long",
+    timeStyle: "short",
+    ...(timeZone && { timeZone }),
+  }).format(date);
+}
+
+/**
+ * Formats a monetary amount in the given locale and ISO 4217 currency with
+ * the next-intl formatter, so pages, emails and invoices agree. Currencies
+ * without minor units in practice (CZK, HUF) drop the decimals of whole
+ * amounts.
+ */
+export function formatCurrency(amount: number, currency: string, locale: string): string {
+  const wholeUnits = WHOLE_UNIT_CURRENCIES.has(currency) && Number.isInteger(amount);
+
+  return createFormatter({ locale }).number(amount, {
+    style: "currency",
+    currency,
+    ...(wholeUnits && { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+  });
+}
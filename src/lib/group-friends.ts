@@ -0,0 +1,81 @@
+/**
+ * Friend entries of group registrations
+ *
+ * A group leader's `friendsData` JSON lists the friends whose seats the
+ * leader holds. Each entry has a stable `id` (used in claim links and API
+ * paths), a `position` within the group, and the `registrationId` of the
+ * child registration once the friend claims their seat.
+ */
+
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import type { GroupFriendInput } from "./validations/registration";
+
+const groupFriendEntrySchema = z.object({
+  id: z.string(),
+  position: z.number().int(),
+  name: z.string(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  dietaryRequirements: z.string().optional(),
+  specialRequests: z.string().optional(),
+  registrationId: z.string().optional(),
+});
+
+/**
+ * A friend entry stored in the leader's `friendsData`
+ */
+export type GroupFriend = z.infer<typeof groupFriendEntrySchema>;
+
+/**
+ * Reads a `friendsData` JSON value, ignoring malformed entries
+ */
+export function parseGroupFriends(value: Prisma.JsonValue | null | undefined): GroupFriend[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    const parsed = groupFriendEntrySchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Turns submitted friends into stored entries, numbered after the existing ones
+ */
+export function buildGroupFriends(
+  friends: GroupFriendInput[],
+  existing: GroupFriend[] = []
+): GroupFriend[] {
+  const lastPosition = Math.max(0, ...existing.map((friend) => friend.position));
+
+  return friends.map((friend, index) => ({
+    ...friend,
+    id: randomUUID(),
+    position: lastPosition + index + 1,
+  }));
+}
+
+/**
+ * Converts friend entries to a JSON value Prisma accepts
+ */
+export function toFriendsJson(friends: GroupFriend[]): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(friends)) as Prisma.InputJsonValue;
+}
+
+/**
+ * Subject of a friend's claim token
+ */
+export function friendClaimSubject(leaderId: string, friendId: string): string {
+  return `${leaderId}:${friendId}`;
+}
+
+/**
+ * Splits a claim token subject back into the leader registration and friend IDs
+ */
+export function parseFriendClaimSubject(
+  subject: string
+): { leaderId: string; friendId: string } | null {
+  const [leaderId, friendId, ...rest] = subject.split(":");
+  return leaderId && friendId && rest.length === 0 ? { leaderId, friendId } : null;
+}
@@ -0,0 +1,695 @@
+/**
+ * Group registrations
+ *
+ * A group leader's registration holds the seats of the whole group:
+ * `groupSize` counts the leader plus every friend listed in `friendsData`.
+ * Friends with an email get a signed link to claim their own seat, which
+ * creates a child registration (`groupLeaderId` pointing at the leader).
+ * Child registrations never count towards capacity on their own; the
+ * leader's `groupSize` already does.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  RegistrationType,
+  type Event,
+  type PendingPayment,
+  type Prisma,
+  type Registration,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  SEAT_HOLDING_STATUSES,
+  countTakenSeats,
+  getRegistrationWindowState,
+  lockEvent,
+} from "./event-availability";
+import { requoteRegistrationPrice, ticketTypeOf, toPricingMetadata } from "./pricing";
+import { recordRegistrationHistory, type RegistrationHistoryEntry } from "./registration-history";
+import {
+  buildGroupFriends,
+  parseFriendClaimSubject,
+  parseGroupFriends,
+  toFriendsJson,
+  type GroupFriend,
+} from "./group-friends";
+import { sendFriendInvitations } from "./registration-notifications";
+import { verifySignedToken } from "./signed-tokens";
+import { promoteFromWaitingList } from "./waiting-list";
+import { getNumberConfig } from "./system-config";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type { GroupFriendInput } from "./validations/registration";
+
+type LeaderRegistration = Registration & { pendingPayment: PendingPayment | null };
+
+export interface GroupManagementInput {
+  /** The group leader's registration */
+  registrationId: string;
+  performedById: string;
+  /** Event managers may manage any group; attendees only their own */
+  asManager?: boolean;
+}
+
+/**
+ * Largest allowed group (leader included), from `registration.max_group_size`
+ */
+export async function getMaxGroupSize(): Promise<number> {
+  return getNumberConfig("registration.max_group_size", 10);
+}
+
+/**
+ * Registration type of a leader after the group changed; a ticket type the
+ * group was priced with is kept
+ */
+function groupTypeFor(friends: GroupFriend[], current: RegistrationType): RegistrationType {
+  if (ticketTypeOf(current)) return current;
+  return friends.length > 0 ? RegistrationType.GROUP : RegistrationType.INDIVIDUAL;
+}
+
+/**
+ * Re-prices a still unpaid group payment after the group size changed
+ *
+ * The group is priced as of when the payment was issued, with the ticket type
+ * and discount code it was registered with.
+ */
+async function repriceGroupPayment(
+  tx: Prisma.TransactionClient,
+  leader: LeaderRegistration,
+  groupSize: number
+): Promise<void> {
+  const { pendingPayment } = leader;
+  if (pendingPayment?.status !== PendingPaymentStatus.PENDING) return;
+
+  const event = await tx.event.findUniqueOrThrow({
+    where: { id: leader.eventId },
+    select: { id: true, price: true, currency: true },
+  });
+  const discountCode = leader.discountCodeId
+    ? await tx.discountCode.findUnique({
+        where: { id: leader.discountCodeId },
+        select: { code: true },
+      })
+    : null;
+
+  const quote = await requoteRegistrationPrice(tx, {
+    event,
+    userId: pendingPayment.userId,
+    seats: groupSize,
+    ticketType: ticketTypeOf(leader.registrationType),
+    discountCode: discountCode?.code ?? null,
+    at: pendingPayment.createdAt,
+    excludeRegistrationId: leader.id,
+  });
+
+  const metadata =
+    pendingPayment.metadata && typeof pendingPayment.metadata === "object"
+      ? (pendingPayment.metadata as Prisma.JsonObject)
+      : {};
+
+  await tx.pendingPayment.update({
+    where: { id: pendingPayment.id },
+    data: {
+      amount: quote.total,
+      metadata: { ...metadata, pricing: toPricingMetadata(quote) },
+    },
+  });
+
+  if (quote.discountCode?.id !== leader.discountCodeId) {
+    await tx.registration.update({
+      where: { id: leader.id },
+      data: { discountCodeId: quote.discountCode?.id ?? null },
+    });
+  }
+}
+
+interface GroupChangeOptions {
+  performedById: string | null;
+  reason?: string | null;
+  now: Date;
+}
+
+/**
+ * Removes a friend from a group inside a transaction holding the event lock:
+ * frees their seat, cancels their claimed registration and re-prices an
+ * unpaid group payment
+ *
+ * @returns The updated leader registration
+ */
+export async function detachGroupFriend(
+  tx: Prisma.TransactionClient,
+  leader: LeaderRegistration,
+  friend: GroupFriend,
+  options: GroupChangeOptions
+): Promise<Registration> {
+  const { performedById, now } = options;
+  const reason = options.reason ?? null;
+  const friends = parseGroupFriends(leader.friendsData).filter(({ id }) => id !== friend.id);
+  const groupSize = Math.max(1, leader.groupSize - 1);
+
+  const updated = await tx.registration.update({
+    where: { id: leader.id },
+    data: {
+      groupSize,
+      friendsData: toFriendsJson(friends),
+      registrationType: groupTypeFor(friends, leader.registrationType),
+    },
+  });
+
+  await repriceGroupPayment(tx, leader, groupSize);
+
+  const history: RegistrationHistoryEntry[] = [];
+  if (leader.userId) {
+    history.push({
+      userId: leader.userId,
+      eventId: leader.eventId,
+      action: RegistrationAction.FRIEND_REMOVED_FROM_GROUP,
+      reason: reason ?? friend.name,
+      performedById,
+    });
+  }
+
+  if (friend.registrationId) {
+    const child = await tx.registration.findUnique({ where: { id: friend.registrationId } });
+
+    if (child && SEAT_HOLDING_STATUSES.includes(child.status)) {
+      await tx.registration.update({
+        where: { id: child.id },
+        data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+      });
+
+      if (child.userId) {
+        history.push({
+          userId: child.userId,
+          eventId: child.eventId,
+          action: RegistrationAction.CANCELLED,
+          previousStatus: child.status,
+          newStatus: RegistrationStatus.CANCELLED,
+          reason: reason ?? "Removed from group registration",
+          performedById,
+        });
+      }
+    }
+  }
+
+  if (history.length > 0) {
+    await recordRegistrationHistory(tx, history);
+  }
+
+  return updated;
+}
+
+/**
+ * Cancels the claimed registrations of a leader's friends, when the whole
+ * group is cancelled
+ */
+export async function cancelGroupMembers(
+  tx: Prisma.TransactionClient,
+  leaderId: string,
+  options: GroupChangeOptions
+): Promise<void> {
+  const members = await tx.registration.findMany({
+    where: { groupLeaderId: leaderId, status: { in: SEAT_HOLDING_STATUSES } },
+  });
+  if (members.length === 0) return;
+
+  await tx.registration.updateMany({
+    where: { id: { in: members.map(({ id }) => id) } },
+    data: { status: RegistrationStatus.CANCELLED, cancelledAt: options.now },
+  });
+
+  const history = members.flatMap((member): RegistrationHistoryEntry[] =>
+    member.userId
+      ? [
+          {
+            userId: member.userId,
+            eventId: member.eventId,
+            action: RegistrationAction.CANCELLED,
+            previousStatus: member.status,
+            newStatus: RegistrationStatus.CANCELLED,
+            reason: options.reason ?? "Group registration cancelled",
+            performedById: options.performedById,
+          },
+        ]
+      : []
+  );
+
+  if (history.length > 0) {
+    await recordRegistrationHistory(tx, history);
+  }
+}
+
+/**
+ * Resolves the group leader registration the user may manage
+ */
+async function findManagedGroup(
+  input: GroupManagementInput
+): Promise<ServiceResult<Pick<Registration, "eventId">>> {
+  const found = await prisma.registration.findUnique({
+    where: { id: input.registrationId },
+    select: { eventId: true, userId: true, groupLeaderId: true },
+  });
+
+  // Attendees cannot probe other people's registrations
+  if (!found || (!input.asManager && found.userId !== input.performedById)) {
+    return fail("REGISTRATION_NOT_FOUND", "Registration not found", 404);
+  }
+
+  if (found.groupLeaderId) {
+    return fail("NOT_GROUP_LEADER", "Only the group leader can manage the group", 403);
+  }
+
+  return ok({ eventId: found.eventId });
+}
+
+/**
+ * Re-reads the leader registration under the event lock and checks it still holds seats
+ */
+async function lockLeader(
+  tx: Prisma.TransactionClient,
+  registrationId: string,
+  eventId: string
+): Promise<ServiceResult<LeaderRegistration>> {
+  await lockEvent(tx, eventId);
+
+  const leader = await tx.registration.findUniqueOrThrow({
+    where: { id: registrationId },
+    include: { pendingPayment: true },
+  });
+
+  if (!SEAT_HOLDING_STATUSES.includes(leader.status)) {
+    return fail(
+      "REGISTRATION_NOT_ACTIVE",
+      `A ${leader.status} registration cannot be changed`,
+      409
+    );
+  }
+
+  return ok(leader);
+}
+
+export interface AddGroupFriendInput extends GroupManagementInput {
+  friend: GroupFriendInput;
+}
+
+export interface GroupFriendChange {
+  registration: Registration;
+  friend: GroupFriend;
+}
+
+/**
+ * Adds a friend to an existing group, taking one more seat
+ *
+ * Paid groups can only grow while their payment is still outstanding, so the
+ * extra seat is added to the same payment.
+ */
+export async function addGroupFriend(
+  input: AddGroupFriendInput
+): Promise<ServiceResult<GroupFriendChange>> {
+  const group = await findManagedGroup(input);
+  if (!group.success) return group;
+
+  const { eventId } = group.data;
+  const maxGroupSize = await getMaxGroupSize();
+
+  const result = await prisma.$transaction(
+    async (tx): Promise<ServiceResult<GroupFriendChange>> => {
+      const locked = await lockLeader(tx, input.registrationId, eventId);
+      if (!locked.success) return locked;
+
+      const leader = locked.data;
+      const event = await tx.event.findUniqueOrThrow({ where: { id: eventId } });
+
+      if (getRegistrationWindowState(event) !== "OPEN") {
+        return fail("REGISTRATION_CLOSED", "Registration for this event is closed", 409);
+      }
+      if (leader.groupSize + 1 > maxGroupSize) {
+        return fail("GROUP_TOO_LARGE", `Groups are limited to ${maxGroupSize} people`, 400, {
+          maxGroupSize,
+        });
+      }
+      if (
+        leader.requiresPayment &&
+        leader.pendingPayment?.status !== PendingPaymentStatus.PENDING
+      ) {
+        return fail(
+          "GROUP_PAYMENT_SETTLED",
+          "Friends cannot be added once the group's payment is settled",
+          409
+        );
+      }
+
+      const takenSeats = (await countTakenSeats([eventId], tx)).get(eventId) ?? 0;
+      if (takenSeats + 1 > event.capacity) {
+        return fail("EVENT_FULL", "The event is full", 409);
+      }
+
+      const existing = parseGroupFriends(leader.friendsData);
+      const [friend] = buildGroupFriends([input.friend], existing);
+      if (!friend) {
+        throw new Error("Failed to build friend entry");
+      }
+
+      const friends = [...existing, friend];
+      const groupSize = leader.groupSize + 1;
+      const registration = await tx.registration.update({
+        where: { id: leader.id },
+        data: {
+          groupSize,
+          friendsData: toFriendsJson(friends),
+          registrationType: groupTypeFor(friends, leader.registrationType),
+        },
+      });
+
+      await repriceGroupPayment(tx, leader, groupSize);
+
+      if (leader.userId) {
+        await recordRegistrationHistory(tx, {
+          userId: leader.userId,
+          eventId,
+          action: RegistrationAction.FRIEND_ADDED_TO_GROUP,
+          reason: friend.name,
+          performedById: input.performedById,
+        });
+      }
+
+      return ok({ registration, friend });
+    }
+  );
+
+  if (result.success) {
+    logger.info(`Friend added to group registration ${input.registrationId}`);
+    await sendFriendInvitations(input.registrationId, [result.data.friend.id]);
+  }
+
+  return result;
+}
+
+export interface RemoveGroupFriendInput extends GroupManagementInput {
+  friendId: string;
+  reason?: string | undefined;
+}
+
+/**
+ * Removes a friend from a group, freeing their seat for the waiting list
+ */
+export async function removeGroupFriend(
+  input: RemoveGroupFriendInput
+): Promise<ServiceResult<Registration>> {
+  const group = await findManagedGroup(input);
+  if (!group.success) return group;
+
+  const { eventId } = group.data;
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<Registration>> => {
+    const locked = await lockLeader(tx, input.registrationId, eventId);
+    if (!locked.success) return locked;
+
+    const friend = parseGroupFriends(locked.data.friendsData).find(
+      ({ id }) => id === input.friendId
+    );
+    if (!friend) {
+      return fail("FRIEND_NOT_FOUND", "Friend not found in this group", 404);
+    }
+
+    const registration = await detachGroupFriend(tx, locked.data, friend, {
+      performedById: input.performedById,
+      reason: input.reason ?? null,
+      now: new Date(),
+    });
+
+    return ok(registration);
+  });
+
+  if (result.success) {
+    logger.info(`Friend ${input.friendId} removed from group registration ${input.registrationId}`);
+    await promoteFromWaitingList(eventId);
+  }
+
+  return result;
+}
+
+export interface TransferGroupLeadershipInput extends GroupManagementInput {
+  friendId: string;
+}
+
+/**
+ * Hands group leadership to a friend who claimed their seat with an account
+ *
+ * The friend's registration becomes the leader (taking over `groupSize` and
+ * `friendsData`), and the old leader becomes a friend in their place.
+ * Groups with an outstanding payment must settle it first, since the
+ * payment belongs to the old leader.
+ */
+export async function transferGroupLeadership(
+  input: TransferGroupLeadershipInput
+): Promise<ServiceResult<Registration>> {
+  const group = await findManagedGroup(input);
+  if (!group.success) return group;
+
+  const { eventId } = group.data;
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<Registration>> => {
+    const locked = await lockLeader(tx, input.registrationId, eventId);
+    if (!locked.success) return locked;
+
+    const leader = locked.data;
+    if (leader.pendingPayment?.status === PendingPaymentStatus.PENDING) {
+      return fail(
+        "GROUP_PAYMENT_PENDING",
+        "Leadership can be transferred once the group's payment is settled",
+        409
+      );
+    }
+
+    const friends = parseGroupFriends(leader.friendsData);
+    const friend = friends.find(({ id }) => id === input.friendId);
+    if (!friend) {
+      return fail("FRIEND_NOT_FOUND", "Friend not found in this group", 404);
+    }
+
+    const successor = friend.registrationId
+      ? await tx.registration.findUnique({ where: { id: friend.registrationId } })
+      : null;
+    if (!successor?.userId || !SEAT_HOLDING_STATUSES.includes(successor.status)) {
+      return fail(
+        "FRIEND_NOT_CLAIMED",
+        "Only friends who claimed their seat with an account can lead the group",
+        409
+      );
+    }
+
+    const leaderContact = leader.userId
+      ? await tx.user.findUnique({
+          where: { id: leader.userId },
+          select: { name: true, email: true },
+        })
+      : null;
+
+    // The old leader takes the successor's place in the friend list
+    const formerEmail = leaderContact?.email ?? leader.guestEmail;
+    const formerLeader: GroupFriend = {
+      id: randomUUID(),
+      position: friend.position,
+      name: leaderContact?.name ?? leader.guestName ?? formerEmail ?? "",
+      ...(formerEmail && { email: formerEmail }),
+      ...(leader.dietaryRequirements && { dietaryRequirements: leader.dietaryRequirements }),
+      ...(leader.specialRequests && { specialRequests: leader.specialRequests }),
+      registrationId: leader.id,
+    };
+    const newFriends = friends.map((entry) => (entry.id === friend.id ? formerLeader : entry));
+
+    const newLeader = await tx.registration.update({
+      where: { id: successor.id },
+      data: {
+        isGroupLeader: true,
+        groupLeaderId: null,
+        friendPosition: null,
+        groupSize: leader.groupSize,
+        registrationType: groupTypeFor(newFriends, leader.registrationType),
+        friendsData: toFriendsJson(newFriends),
+      },
+    });
+
+    await tx.registration.updateMany({
+      where: { groupLeaderId: leader.id, id: { not: successor.id } },
+      data: { groupLeaderId: successor.id },
+    });
+
+    await tx.registration.update({
+      where: { id: leader.id },
+      data: {
+        isGroupLeader: false,
+        groupLeaderId: successor.id,
+        friendPosition: friend.position,
+        groupSize: 1,
+        friendsData: [],
+      },
+    });
+
+    await recordRegistrationHistory(
+      tx,
+      [leader.userId, successor.userId]
+        .filter((userId): userId is string => Boolean(userId))
+        .map((userId) => ({
+          userId,
+          eventId,
+          action: RegistrationAction.GROUP_LEADERSHIP_TRANSFERRED,
+          reason: `Group led by registration ${successor.id}`,
+          performedById: input.performedById,
+        }))
+    );
+
+    return ok(newLeader);
+  });
+
+  if (result.success) {
+    logger.info(
+      `Group leadership moved from registration ${input.registrationId} to ${result.data.id}`
+    );
+  }
+
+  return result;
+}
+
+function parseFriendClaimToken(token: string): { leaderId: string; friendId: string } | null {
+  const verified = verifySignedToken(token, "group-friend-claim");
+  return verified ? parseFriendClaimSubject(verified.subject) : null;
+}
+
+export interface FriendSeatClaimDetails {
+  friend: GroupFriend;
+  leader: Pick<Registration, "id" | "status">;
+  event: Pick<Event, "id" | "title" | "slug" | "startDate" | "timezone">;
+}
+
+/**
+ * Loads a friend's seat from a claim link without changing anything, for the claim page
+ */
+export async function getFriendSeatClaim(token: string): Promise<FriendSeatClaimDetails | null> {
+  const subject = parseFriendClaimToken(token);
+  if (!subject) return null;
+
+  const leader = await prisma.registration.findUnique({
+    where: { id: subject.leaderId },
+    include: {
+      event: { select: { id: true, title: true, slug: true, startDate: true, timezone: true } },
+    },
+  });
+
+  const friend = parseGroupFriends(leader?.friendsData).find(({ id }) => id === subject.friendId);
+  if (!leader || !friend) return null;
+
+  return { friend, leader: { id: leader.id, status: leader.status }, event: leader.event };
+}
+
+/**
+ * Claims a friend's seat from the emailed link, turning the friend entry
+ * into a child registration that follows the leader's status
+ *
+ * Signed-in friends get the registration on their account; otherwise it is
+ * recorded with the friend's name and email as a guest. Claiming twice is harmless.
+ */
+export async function claimFriendSeat(
+  token: string,
+  userId: string | null
+): Promise<ServiceResult<Registration>> {
+  const subject = parseFriendClaimToken(token);
+  if (!subject) {
+    return fail("INVALID_TOKEN", "This link is invalid or has expired", 400);
+  }
+
+  const found = await prisma.registration.findUnique({
+    where: { id: subject.leaderId },
+    select: { eventId: true },
+  });
+  if (!found) {
+    return fail("FRIEND_NOT_FOUND", "This seat is no longer available", 404);
+  }
+
+  const { eventId } = found;
+  return prisma.$transaction(async (tx): Promise<ServiceResult<Registration>> => {
+    await lockEvent(tx, eventId);
+
+    const leader = await tx.registration.findUniqueOrThrow({ where: { id: subject.leaderId } });
+    const friends = parseGroupFriends(leader.friendsData);
+    const friend = friends.find(({ id }) => id === subject.friendId);
+
+    if (!friend || !SEAT_HOLDING_STATUSES.includes(leader.status)) {
+      return fail("FRIEND_NOT_FOUND", "This seat is no longer available", 404);
+    }
+
+    if (friend.registrationId) {
+      const claimed = await tx.registration.findUniqueOrThrow({
+        where: { id: friend.registrationId },
+      });
+      if (claimed.userId && claimed.userId !== userId) {
+        return fail("ALREADY_CLAIMED", "This seat has already been claimed", 409);
+      }
+      return ok(claimed);
+    }
+
+    const existing = userId
+      ? await tx.registration.findUnique({ where: { userId_eventId: { userId, eventId } } })
+      : await tx.registration.findFirst({
+          where: { eventId, guestEmail: friend.email ?? null, guestName: friend.name },
+        });
+
+    if (existing && SEAT_HOLDING_STATUSES.includes(existing.status)) {
+      return fail("ALREADY_REGISTERED", "You are already registered for this event", 409, {
+        registrationId: existing.id,
+      });
+    }
+
+    const data = {
+      status: leader.status,
+      registrationType: RegistrationType.GROUP,
+      registrationSource: leader.registrationSource,
+      isGroupLeader: false,
+      groupLeaderId: leader.id,
+      groupSize: 1,
+      friendPosition: friend.position,
+      friendsData: [],
+      guestEmail: userId ? null : (friend.email ?? null),
+      guestName: userId ? null : friend.name,
+      guestPhone: userId ? null : (friend.phone ?? null),
+      requiresPayment: false,
+      registeredAt: new Date(),
+      confirmedAt: leader.confirmedAt,
+      approvedAt: leader.approvedAt,
+      cancelledAt: null,
+      dietaryRequirements: friend.dietaryRequirements ?? null,
+      specialRequests: friend.specialRequests ?? null,
+    };
+
+    // Earlier cancelled registrations are re-used, since registrations are unique per attendee
+    const child = existing
+      ? await tx.registration.update({ where: { id: existing.id }, data })
+      : await tx.registration.create({ data: { ...data, userId, eventId } });
+
+    await tx.registration.update({
+      where: { id: leader.id },
+      data: {
+        friendsData: toFriendsJson(
+          friends.map((entry) =>
+            entry.id === friend.id ? { ...entry, registrationId: child.id } : entry
+          )
+        ),
+      },
+    });
+
+    if (userId) {
+      await recordRegistrationHistory(tx, {
+        userId,
+        eventId,
+        action: RegistrationAction.REGISTERED,
+        previousStatus: existing?.status ?? null,
+        newStatus: child.status,
+        reason: "Claimed a seat in a group registration",
+      });
+    }
+
+    return ok(child);
+  });
+}
@@ -0,0 +1,372 @@
+/**
+ * Guest registrations
+ *
+ * Attendees without an account submit their details, which are held as a
+ * `GuestRegistrationRequest` until they confirm the emailed verification
+ * link. Only then does the regular engine take a seat (or a waiting list
+ * place) for them. The follow-up email carries a signed link to cancel, and
+ * once the guest signs in with the same email their guest registrations
+ * move to the account.
+ */
+
+import { z } from "zod";
+import {
+  RegistrationAction,
+  type Event,
+  type GuestRegistrationRequest,
+  type Prisma,
+  type User,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { getRegistrationWindowState } from "./event-availability";
+import { isPaidEvent } from "./pending-payments";
+import { cancelRegistration, registerForEvent, type RegistrationOutcome } from "./registrations";
+import { getMaxGroupSize } from "./group-registrations";
+import { recordRegistrationHistory } from "./registration-history";
+import { sendTemplatedEmail } from "./notification-templates";
+import { createSignedToken, verifySignedToken } from "./signed-tokens";
+import { getNumberConfig } from "./system-config";
+import { formatDate, formatDateTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import { groupFriendSchema, type GuestRegistrationInput } from "./validations/registration";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Minimum time between verification emails for the same guest and event */
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+const storedFriendsSchema = z.array(groupFriendSchema).catch([]);
+
+type GuestEvent = Pick<Event, "id" | "title" | "slug" | "startDate" | "timezone">;
+
+const guestEventSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  startDate: true,
+  timezone: true,
+} satisfies Prisma.EventSelect;
+
+export interface GuestRegistrationRequestInput extends GuestRegistrationInput {
+  eventId: string;
+}
+
+/**
+ * Verification links expire after `registration.guest_verification_hours`
+ * (24 by default), or when registration closes if that is sooner
+ */
+async function getVerificationDeadline(
+  event: Pick<Event, "startDate" | "registrationEndDate">,
+  now: Date
+): Promise<Date> {
+  const hours = await getNumberConfig("registration.guest_verification_hours", 24);
+  const deadline = new Date(now.getTime() + hours * HOUR_MS);
+  const closesAt = event.registrationEndDate ?? event.startDate;
+  return deadline < closesAt ? deadline : closesAt;
+}
+
+function guestPageUrl(locale: string, page: "verify" | "cancel", token: string): string {
+  return `${getBaseUrl()}/${locale}/registrations/${page}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Stores a guest's registration details and emails them a verification link
+ *
+ * Nothing is reserved until the link is confirmed, so the checks here only
+ * reject requests that could never succeed.
+ */
+export async function requestGuestRegistration(
+  input: GuestRegistrationRequestInput
+): Promise<ServiceResult<Pick<GuestRegistrationRequest, "expiresAt">>> {
+  const { eventId, email, locale } = input;
+  const now = new Date();
+
+  const event = await prisma.event.findUnique({ where: { id: eventId } });
+  if (!event) {
+    return fail("EVENT_NOT_FOUND", "Event not found", 404);
+  }
+  if (getRegistrationWindowState(event, now) !== "OPEN") {
+    return fail("REGISTRATION_CLOSED", "Registration for this event is not open", 409);
+  }
+  if (isPaidEvent(event)) {
+    return fail("ACCOUNT_REQUIRED", "Paid events require an account", 409);
+  }
+
+  const friends = input.friends ?? [];
+  const maxGroupSize = await getMaxGroupSize();
+  if (1 + friends.length > maxGroupSize) {
+    return fail("GROUP_TOO_LARGE", `Groups are limited to ${maxGroupSize} people`, 400, {
+      maxGroupSize,
+    });
+  }
+
+  const recent = await prisma.guestRegistrationRequest.findFirst({
+    where: {
+      eventId,
+      email,
+      verifiedAt: null,
+      createdAt: { gt: new Date(now.getTime() - RESEND_INTERVAL_MS) },
+    },
+  });
+  if (recent) {
+    return fail("TOO_MANY_REQUESTS", "Please wait a minute before requesting another link", 429);
+  }
+
+  const request = await prisma.guestRegistrationRequest.create({
+    data: {
+      eventId,
+      email,
+      name: input.name,
+      phone: input.phone ?? null,
+      locale,
+      notes: input.notes ?? null,
+      dietaryRequirements: input.dietaryRequirements ?? null,
+      specialRequests: input.specialRequests ?? null,
+      friendsData: friends,
+      expiresAt: await getVerificationDeadline(event, now),
+    },
+  });
+
+  const token = createSignedToken("guest-verification", request.id, request.expiresAt);
+  const result = await sendTemplatedEmail({
+    templateName: "guest_registration_verification",
+    recipient: { email, name: input.name, locale },
+    eventId,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, locale, event.timezone),
+      expiresAt: formatDateTime(request.expiresAt, locale, event.timezone),
+      verifyUrl: guestPageUrl(locale, "verify", token),
+    },
+    metadata: { guestRequestId: request.id },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send guest verification ${request.id}: ${result.error}`);
+  }
+
+  return ok({ expiresAt: request.expiresAt });
+}
+
+export interface GuestRequestDetails {
+  request: GuestRegistrationRequest;
+  event: GuestEvent;
+}
+
+/**
+ * Loads a guest request from a verification or cancellation link without
+ * changing anything, for the confirmation pages
+ */
+export async function getGuestRequest(
+  token: string,
+  purpose: "guest-verification" | "guest-cancellation"
+): Promise<GuestRequestDetails | null> {
+  const verified = verifySignedToken(token, purpose);
+  if (!verified) return null;
+
+  const request = await prisma.guestRegistrationRequest.findUnique({
+    where: { id: verified.subject },
+    include: { event: { select: guestEventSelect } },
+  });
+
+  if (!request) return null;
+
+  const { event, ...rest } = request;
+  return { request: rest, event };
+}
+
+/**
+ * Emails the verified guest the outcome and a link to cancel
+ */
+async function sendGuestRegistrationReceived(
+  request: GuestRegistrationRequest,
+  event: GuestEvent,
+  outcome: RegistrationOutcome
+): Promise<void> {
+  // Cancellation links stay valid until the event starts
+  const token = createSignedToken("guest-cancellation", request.id, event.startDate);
+  const result = await sendTemplatedEmail({
+    templateName:
+      outcome.outcome === "REGISTERED"
+        ? "guest_registration_received"
+        : "guest_waiting_list_joined",
+    recipient: { email: request.email, name: request.name, locale: request.locale },
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, request.locale, event.timezone),
+      eventUrl: `${getBaseUrl()}/${request.locale}/events/${event.slug}`,
+      cancelUrl: guestPageUrl(request.locale, "cancel", token),
+    },
+    metadata: { guestRequestId: request.id },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send guest registration ${request.id} follow-up: ${result.error}`);
+  }
+}
+
+/**
+ * Confirms a guest's email from the verification link and registers them
+ *
+ * Each link registers once: a second use fails with LINK_ALREADY_USED.
+ */
+export async function verifyGuestRegistration(
+  token: string
+): Promise<ServiceResult<RegistrationOutcome>> {
+  const details = await getGuestRequest(token, "guest-verification");
+  if (!details) {
+    return fail("INVALID_TOKEN", "This link is invalid or has expired", 400);
+  }
+
+  const { request, event } = details;
+  if (request.verifiedAt) {
+    return fail("LINK_ALREADY_USED", "This link has already been used", 409);
+  }
+
+  // Registering first keeps concurrent clicks safe: the engine rejects the
+  // second one as a duplicate under the event lock
+  const result = await registerForEvent({
+    eventId: request.eventId,
+    userId: null,
+    guest: { email: request.email, name: request.name, phone: request.phone },
+    notes: request.notes ?? undefined,
+    dietaryRequirements: request.dietaryRequirements ?? undefined,
+    specialRequests: request.specialRequests ?? undefined,
+    friends: storedFriendsSchema.parse(request.friendsData),
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const outcome = result.data;
+  await prisma.guestRegistrationRequest.update({
+    where: { id: request.id },
+    data:
+      outcome.outcome === "REGISTERED"
+        ? { verifiedAt: new Date(), registrationId: outcome.registration.id }
+        : { verifiedAt: new Date(), waitingListId: outcome.waitingListEntry.id },
+  });
+
+  logger.info(`Guest request ${request.id} verified (${outcome.outcome})`);
+  await sendGuestRegistrationReceived(request, event, outcome);
+
+  return result;
+}
+
+export type GuestCancellation = "REGISTRATION" | "WAITING_LIST";
+
+/**
+ * Cancels a guest's registration (or leaves the waiting list) from the
+ * cancellation link
+ */
+export async function cancelGuestRegistration(
+  token: string
+): Promise<ServiceResult<{ cancelled: GuestCancellation }>> {
+  const details = await getGuestRequest(token, "guest-cancellation");
+  if (!details?.request.verifiedAt) {
+    return fail("INVALID_TOKEN", "This link is invalid or has expired", 400);
+  }
+
+  const { request } = details;
+  const waitingListEntry = request.waitingListId
+    ? await prisma.waitingList.findUnique({ where: { id: request.waitingListId } })
+    : null;
+
+  // A waiting list place turns into a registration once promoted
+  const registrationId = request.registrationId ?? waitingListEntry?.registrationId ?? null;
+
+  if (!registrationId) {
+    if (!waitingListEntry || waitingListEntry.promotedAt) {
+      return fail("REGISTRATION_NOT_ACTIVE", "This registration is no longer active", 409);
+    }
+
+    await prisma.waitingList.delete({ where: { id: waitingListEntry.id } });
+    logger.info(`Guest request ${request.id} left the waiting list`);
+    return ok({ cancelled: "WAITING_LIST" });
+  }
+
+  const result = await cancelRegistration({
+    registrationId,
+    performedById: null,
+    viaSignedLink: true,
+    reason: "Cancelled by the guest",
+  });
+
+  return result.success ? ok({ cancelled: "REGISTRATION" }) : result;
+}
+
+/**
+ * Moves guest registrations and waiting list entries made with the user's
+ * email onto their account
+ *
+ * Events the user is already registered for (or waiting for) under their
+ * account are left alone, since attendees are unique per event.
+ *
+ * @returns Number of registrations and waiting list entries moved
+ */
+export async function mergeGuestRegistrations(user: Pick<User, "id" | "email">): Promise<number> {
+  const guestOf = {
+    userId: null,
+    guestEmail: { equals: user.email, mode: "insensitive" as const },
+  };
+
+  const merged = await prisma.$transaction(async (tx) => {
+    const [registrations, waitingListEntries, ownRegistrations, ownEntries] = await Promise.all([
+      tx.registration.findMany({ where: guestOf }),
+      tx.waitingList.findMany({ where: guestOf }),
+      tx.registration.findMany({ where: { userId: user.id }, select: { eventId: true } }),
+      tx.waitingList.findMany({ where: { userId: user.id }, select: { eventId: true } }),
+    ]);
+
+    const registeredEvents = new Set(ownRegistrations.map(({ eventId }) => eventId));
+    const waitingEvents = new Set(ownEntries.map(({ eventId }) => eventId));
+    const asUser = {
+      userId: user.id,
+      isGuestRequest: false,
+      guestEmail: null,
+      guestName: null,
+      guestPhone: null,
+    };
+    const mergedEvents: string[] = [];
+
+    for (const registration of registrations) {
+      if (registeredEvents.has(registration.eventId)) continue;
+      registeredEvents.add(registration.eventId);
+
+      await tx.registration.update({ where: { id: registration.id }, data: asUser });
+      mergedEvents.push(registration.eventId);
+    }
+
+    for (const entry of waitingListEntries) {
+      if (waitingEvents.has(entry.eventId)) continue;
+      waitingEvents.add(entry.eventId);
+
+      await tx.waitingList.update({ where: { id: entry.id }, data: asUser });
+      mergedEvents.push(entry.eventId);
+    }
+
+    if (mergedEvents.length > 0) {
+      await recordRegistrationHistory(
+        tx,
+        [...new Set(mergedEvents)].map((eventId) => ({
+          userId: user.id,
+          eventId,
+          action: RegistrationAction.GUEST_REGISTRATION_MERGED,
+          reason: "Guest registration moved to the account",
+        }))
+      );
+    }
+
+    return mergedEvents.length;
+  });
+
+  if (merged > 0) {
+    logger.info(`Merged ${merged} guest registrations into user ${user.id}`);
+  }
+
+  return merged;
+}
@@ -0,0 +1,264 @@
+/**
+ * Invoice PDF rendering
+ *
+ * Lays out an invoice on a single A4 page with pdf-lib. Labels come from the
+ * `Invoice` messages in the invoice's locale; DejaVu Sans is embedded so
+ * Czech and Slovak diacritics render correctly.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { createTranslator } from "next-intl";
+import enMessages from "../../messages/en.json";
+import csMessages from "../../messages/cs.json";
+import { formatCurrency, formatDate, formatDateTime } from "./formatters";
+import type { InvoiceDocument } from "./invoices";
+
+const FONT_DIR = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const COLUMN_WIDTH = CONTENT_WIDTH / 2 - 10;
+
+const TEXT = rgb(0.1, 0.1, 0.12);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.85, 0.86, 0.88);
+
+let fontsPromise: Promise<[Uint8Array, Uint8Array]> | null = null;
+
+function loadFonts(): Promise<[Uint8Array, Uint8Array]> {
+  fontsPromise ??= Promise.all([
+    readFile(path.join(FONT_DIR, "DejaVuSans.ttf")),
+    readFile(path.join(FONT_DIR, "DejaVuSans-Bold.ttf")),
+  ]).then(
+    // Copy out of the Node Buffers, pdf-lib checks for plain Uint8Arrays
+    (fonts) => fonts.map((bytes) => new Uint8Array(bytes)) as [Uint8Array, Uint8Array],
+    (error: unknown) => {
+      fontsPromise = null;
+      throw error;
+    }
+  );
+  return fontsPromise;
+}
+
+function getTranslator(locale: string) {
+  const messages = (locale === "cs" ? csMessages : enMessages) as typeof enMessages;
+  return createTranslator({ locale, messages, namespace: "Invoice" });
+}
+
+/**
+ * Splits text into lines that fit the given width
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+interface TextOptions {
+  x: number;
+  size?: number;
+  bold?: boolean;
+  color?: ReturnType<typeof rgb>;
+  maxWidth?: number;
+  align?: "left" | "right";
+}
+
+/**
+ * Tracks the vertical position while writing the page top to bottom
+ */
+class PageWriter {
+  y = PAGE_HEIGHT - MARGIN;
+  private readonly page: PDFPage;
+  private readonly regular: PDFFont;
+  private readonly bold: PDFFont;
+
+  constructor(page: PDFPage, regular: PDFFont, bold: PDFFont) {
+    this.page = page;
+    this.regular = regular;
+    this.bold = bold;
+  }
+
+  /**
+   * Draws (wrapped) text at the current line without advancing
+   *
+   * @returns Height taken by the text
+   */
+  text(value: string, options: TextOptions): number {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.regular;
+    const lineHeight = size * 1.4;
+    const lines = wrapText(value, font, size, options.maxWidth ?? CONTENT_WIDTH);
+
+    lines.forEach((line, index) => {
+      const x =
+        options.align === "right" ? options.x - font.widthOfTextAtSize(line, size) : options.x;
+      this.page.drawText(line, {
+        x,
+        y: this.y - size - index * lineHeight,
+        size,
+        font,
+        color: options.color ?? TEXT,
+      });
+    });
+
+    return lines.length * lineHeight;
+  }
+
+  /**
+   * Draws lines of text and moves below them
+   */
+  block(lines: string[], options: TextOptions): void {
+    for (const line of lines) {
+      this.y -= this.text(line, options);
+    }
+  }
+
+  rule(gap = 12): void {
+    this.y -= gap;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE,
+    });
+    this.y -= gap;
+  }
+
+  /**
+   * Draws a label and value on one row, the value aligned right
+   */
+  row(label: string, value: string, options: { bold?: boolean; size?: number } = {}): void {
+    const height = this.text(label, { x: MARGIN, ...options, maxWidth: CONTENT_WIDTH - 150 });
+    this.text(value, { x: PAGE_WIDTH - MARGIN, align: "right", ...options });
+    this.y -= height;
+  }
+}
+
+/**
+ * Renders an invoice as a PDF document
+ */
+export async function renderInvoicePdf(invoice: InvoiceDocument): Promise<Uint8Array> {
+  const t = getTranslator(invoice.locale);
+  const timeZone = invoice.event?.timezone;
+  const money = (amount: { toNumber(): number }) =>
+    formatCurrency(amount.toNumber(), invoice.currency, invoice.locale);
+
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  pdf.setTitle(t("documentTitle", { number: invoice.number }));
+  pdf.setAuthor(invoice.supplier.name);
+  pdf.setLanguage(invoice.locale);
+  pdf.setCreationDate(invoice.issuedAt);
+
+  const [regularBytes, boldBytes] = await loadFonts();
+  const regular = await pdf.embedFont(regularBytes, { subset: true });
+  const bold = await pdf.embedFont(boldBytes, { subset: true });
+  const writer = new PageWriter(pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]), regular, bold);
+
+  // Heading
+  writer.text(invoice.vatRate ? t("taxDocumentTitle") : t("title"), {
+    x: MARGIN,
+    size: 20,
+    bold: true,
+  });
+  writer.text(invoice.number, { x: PAGE_WIDTH - MARGIN, size: 14, bold: true, align: "right" });
+  writer.y -= 36;
+  writer.block(
+    [
+      t("issuedAt", { date: formatDate(invoice.issuedAt, invoice.locale, timeZone) }),
+      t("suppliedAt", { date: formatDate(invoice.suppliedAt, invoice.locale, timeZone) }),
+    ],
+    { x: MARGIN, color: MUTED }
+  );
+  writer.rule();
+
+  // Parties
+  const supplierLines = [
+    invoice.supplier.name,
+    invoice.supplier.address,
+    invoice.supplier.companyId && t("companyId", { value: invoice.supplier.companyId }),
+    invoice.supplier.vatId && t("vatId", { value: invoice.supplier.vatId }),
+  ].filter((line): line is string => Boolean(line));
+  const customerLines = [invoice.customer.name, invoice.customer.email].filter(
+    (line): line is string => Boolean(line)
+  );
+
+  writer.text(t("supplier"), { x: MARGIN, bold: true, color: MUTED, size: 9 });
+  writer.text(t("customer"), { x: MARGIN + CONTENT_WIDTH / 2, bold: true, color: MUTED, size: 9 });
+  writer.y -= 16;
+  const top = writer.y;
+  writer.block(supplierLines, { x: MARGIN, maxWidth: COLUMN_WIDTH });
+  const supplierBottom = writer.y;
+  writer.y = top;
+  writer.block(customerLines, { x: MARGIN + CONTENT_WIDTH / 2, maxWidth: COLUMN_WIDTH });
+  writer.y = Math.min(writer.y, supplierBottom);
+  writer.rule();
+
+  // Payment details
+  writer.text(t("paymentDetails"), { x: MARGIN, bold: true, color: MUTED, size: 9 });
+  writer.y -= 16;
+  if (invoice.bankAccount) {
+    const { bankAccount } = invoice;
+    writer.row(t("bank"), bankAccount.bankName);
+    writer.row(t("accountNumber"), `${bankAccount.accountNumber}/${bankAccount.bankCode}`);
+    if (bankAccount.iban) writer.row("IBAN", bankAccount.iban);
+    if (bankAccount.swift) writer.row("SWIFT", bankAccount.swift);
+  }
+  if (invoice.variableSymbol) {
+    writer.row(t("variableSymbol"), invoice.variableSymbol);
+  }
+  writer.row(t("paymentStatus"), t("paid"));
+  writer.rule();
+
+  // Item
+  writer.row(t("item"), t("amount"), { bold: true, size: 9 });
+  writer.y -= 6;
+  const itemHeight = writer.text(invoice.description, { x: MARGIN, maxWidth: CONTENT_WIDTH - 150 });
+  writer.text(money(invoice.total), { x: PAGE_WIDTH - MARGIN, align: "right" });
+  writer.y -= itemHeight;
+  if (invoice.event) {
+    const { event } = invoice;
+    writer.block(
+      [
+        formatDateTime(new Date(event.startDate), invoice.locale, event.timezone),
+        event.venue,
+      ].filter((line): line is string => Boolean(line)),
+      { x: MARGIN, size: 9, color: MUTED, maxWidth: CONTENT_WIDTH - 150 }
+    );
+  }
+  writer.rule();
+
+  // Totals
+  if (invoice.vatRate) {
+    writer.row(t("taxBase"), money(invoice.total.minus(invoice.vatAmount)));
+    writer.row(t("vat", { rate: invoice.vatRate.toNumber() }), money(invoice.vatAmount));
+    writer.y -= 4;
+  }
+  writer.row(t("total"), money(invoice.total), { bold: true, size: 13 });
+  writer.y -= 12;
+  if (!invoice.vatRate) {
+    writer.block([t("notVatPayer")], { x: MARGIN, size: 9, color: MUTED });
+  }
+  writer.block([t("alreadyPaid")], { x: MARGIN, size: 9, color: MUTED });
+
+  return pdf.save();
+}
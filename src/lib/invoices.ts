@@ -0,0 +1,366 @@
+/**
+ * Invoices (receipts) for completed payments
+ *
+ * Every COMPLETED payment gets one invoice, numbered sequentially per
+ * calendar year ("2026-00042", with an optional `invoices.number_prefix`).
+ * The organiser, attendee, event and bank account details are copied onto
+ * the invoice when it is issued, so the PDF can be re-rendered identically
+ * at any time. Prices include VAT; when `invoices.vat_payer` is on, the VAT
+ * share is computed with `invoices.vat_rate`.
+ */
+
+import { PaymentStatus, Prisma, type Invoice } from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockPayment } from "./event-availability";
+import { getBooleanConfig, getNumberConfig, getStringConfig } from "./system-config";
+import { getRegistrationRecipient } from "./registration-notifications";
+import { sendTemplatedEmail } from "./notification-templates";
+import { renderInvoicePdf } from "./invoice-pdf";
+import { formatCurrency } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+export const INVOICE_LOCALES = ["en", "cs"] as const;
+
+export interface InvoiceSupplier {
+  name: string;
+  address: string | null;
+  /** Company registration number (IČO) */
+  companyId: string | null;
+  /** VAT number (DIČ) */
+  vatId: string | null;
+}
+
+export interface InvoiceCustomer {
+  name: string | null;
+  email: string;
+}
+
+export interface InvoiceEvent {
+  title: string;
+  /** ISO date string */
+  startDate: string;
+  timezone: string;
+  venue: string | null;
+}
+
+export interface InvoiceBankAccount {
+  bankName: string;
+  accountNumber: string;
+  bankCode: string;
+  iban: string | null;
+  swift: string | null;
+}
+
+/**
+ * Everything printed on an invoice
+ */
+export interface InvoiceDocument {
+  number: string;
+  locale: string;
+  issuedAt: Date;
+  suppliedAt: Date;
+  currency: string;
+  total: Prisma.Decimal;
+  vatRate: Prisma.Decimal | null;
+  vatAmount: Prisma.Decimal;
+  description: string;
+  variableSymbol: string | null;
+  supplier: InvoiceSupplier;
+  customer: InvoiceCustomer;
+  event: InvoiceEvent | null;
+  bankAccount: InvoiceBankAccount | null;
+}
+
+/**
+ * Formats an invoice number: prefix, year and the zero-padded sequence
+ */
+export function formatInvoiceNumber(prefix: string, year: number, sequence: number): string {
+  return `${prefix}${year}-${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * VAT included in a gross amount, rounded to cents
+ */
+export function calculateIncludedVat(total: Prisma.Decimal, rate: Prisma.Decimal): Prisma.Decimal {
+  return total.mul(rate).div(rate.plus(100)).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+async function getInvoiceSupplier(): Promise<InvoiceSupplier> {
+  const optional = async (key: string) => (await getStringConfig(key, "")).trim() || null;
+
+  return {
+    name: (await getStringConfig("invoices.supplier_name", "")).trim() || "Event organiser",
+    address: await optional("invoices.supplier_address"),
+    companyId: await optional("invoices.supplier_company_id"),
+    vatId: await optional("invoices.supplier_vat_id"),
+  };
+}
+
+async function nextInvoiceSequence(tx: Prisma.TransactionClient, year: number): Promise<number> {
+  const [row] = await tx.$queryRaw<{ lastValue: number }[]>`
+    INSERT INTO invoice_sequences (year, "lastValue", "updatedAt")
+    VALUES (${year}, 1, NOW())
+    ON CONFLICT (year) DO UPDATE
+      SET "lastValue" = invoice_sequences."lastValue" + 1, "updatedAt" = NOW()
+    RETURNING "lastValue"`;
+
+  if (!row) {
+    throw new Error(`Failed to advance invoice sequence for ${year}`);
+  }
+  return Number(row.lastValue);
+}
+
+/**
+ * Issues the invoice for a completed payment, or returns the one already issued
+ *
+ * The number is drawn in the same transaction that stores the invoice, so a
+ * failed issue does not leave a gap in the numbering.
+ */
+export async function issueInvoice(paymentId: string): Promise<ServiceResult<Invoice>> {
+  const [vatPayer, vatRate, prefix, supplier] = await Promise.all([
+    getBooleanConfig("invoices.vat_payer", false),
+    getNumberConfig("invoices.vat_rate", 21),
+    getStringConfig("invoices.number_prefix", ""),
+    getInvoiceSupplier(),
+  ]);
+
+  return prisma.$transaction(async (tx): Promise<ServiceResult<Invoice>> => {
+    await lockPayment(tx, paymentId);
+
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        invoice: true,
+        user: { select: { email: true, name: true, preferredLocale: true } },
+        event: {
+          select: {
+            title: true,
+            startDate: true,
+            timezone: true,
+            venue: true,
+            city: true,
+            isOnline: true,
+          },
+        },
+        bankAccount: true,
+      },
+    });
+    if (!payment) {
+      return fail("PAYMENT_NOT_FOUND", "Payment not found", 404);
+    }
+    if (payment.invoice) {
+      return ok(payment.invoice);
+    }
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      return fail("PAYMENT_NOT_COMPLETED", "Invoices are issued for completed payments only", 409, {
+        status: payment.status,
+      });
+    }
+
+    const issuedAt = new Date();
+    const year = issuedAt.getUTCFullYear();
+    const sequence = await nextInvoiceSequence(tx, year);
+    const locale = (INVOICE_LOCALES as readonly string[]).includes(payment.user.preferredLocale)
+      ? payment.user.preferredLocale
+      : "en";
+    const rate = vatPayer ? new Prisma.Decimal(vatRate) : null;
+    const { event, bankAccount } = payment;
+
+    const invoice = await tx.invoice.create({
+      data: {
+        number: formatInvoiceNumber(prefix.trim(), year, sequence),
+        year,
+        sequence,
+        paymentId,
+        locale,
+        issuedAt,
+        suppliedAt: payment.paidAt ?? payment.verifiedAt ?? payment.createdAt,
+        currency: payment.currency,
+        total: payment.amount,
+        vatRate: rate,
+        vatAmount: rate ? calculateIncludedVat(payment.amount, rate) : new Prisma.Decimal(0),
+        description: event?.title ?? payment.description ?? "Payment",
+        variableSymbol: payment.variableSymbol,
+        supplier: { ...supplier },
+        customer: { name: payment.user.name, email: payment.user.email },
+        ...(event && {
+          event: {
+            title: event.title,
+            startDate: event.startDate.toISOString(),
+            timezone: event.timezone,
+            venue: event.isOnline
+              ? "Online"
+              : [event.venue, event.city].filter(Boolean).join(", ") || null,
+          },
+        }),
+        ...(bankAccount && {
+          bankAccount: {
+            bankName: bankAccount.bankName,
+            accountNumber: bankAccount.accountNumber,
+            bankCode: bankAccount.bankCode,
+            iban: bankAccount.iban,
+            swift: bankAccount.swift,
+          },
+        }),
+      },
+    });
+
+    return ok(invoice);
+  });
+}
+
+function isObject(value: Prisma.JsonValue): value is Prisma.JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Reads the stored snapshots of an invoice back into a printable document
+ */
+export function toInvoiceDocument(invoice: Invoice): InvoiceDocument {
+  const supplier = isObject(invoice.supplier) ? invoice.supplier : {};
+  const customer = isObject(invoice.customer) ? invoice.customer : {};
+  const text = (value: Prisma.JsonValue | undefined) => (typeof value === "string" ? value : null);
+
+  return {
+    number: invoice.number,
+    locale: invoice.locale,
+    issuedAt: invoice.issuedAt,
+    suppliedAt: invoice.suppliedAt,
+    currency: invoice.currency,
+    total: invoice.total,
+    vatRate: invoice.vatRate,
+    vatAmount: invoice.vatAmount,
+    description: invoice.description,
+    variableSymbol: invoice.variableSymbol,
+    supplier: {
+      name: text(supplier["name"]) ?? "",
+      address: text(supplier["address"]),
+      companyId: text(supplier["companyId"]),
+      vatId: text(supplier["vatId"]),
+    },
+    customer: { name: text(customer["name"]), email: text(customer["email"]) ?? "" },
+    event:
+      invoice.event && isObject(invoice.event)
+        ? {
+            title: text(invoice.event["title"]) ?? invoice.description,
+            startDate: text(invoice.event["startDate"]) ?? invoice.suppliedAt.toISOString(),
+            timezone: text(invoice.event["timezone"]) ?? "UTC",
+            venue: text(invoice.event["venue"]),
+          }
+        : null,
+    bankAccount:
+      invoice.bankAccount && isObject(invoice.bankAccount)
+        ? {
+            bankName: text(invoice.bankAccount["bankName"]) ?? "",
+            accountNumber: text(invoice.bankAccount["accountNumber"]) ?? "",
+            bankCode: text(invoice.bankAccount["bankCode"]) ?? "",
+            iban: text(invoice.bankAccount["iban"]),
+            swift: text(invoice.bankAccount["swift"]),
+          }
+        : null,
+  };
+}
+
+/**
+ * File name of an invoice PDF
+ */
+export function getInvoiceFileName(invoice: Pick<Invoice, "number">): string {
+  return `invoice-${invoice.number.replace(/[^\w-]+/g, "-")}.pdf`;
+}
+
+/**
+ * Download URL of an invoice PDF (requires being signed in as its owner)
+ */
+export function getInvoiceUrl(invoiceId: string): string {
+  return `${getBaseUrl()}/api/invoices/${invoiceId}/pdf`;
+}
+
+export interface InvoiceAccessInput {
+  invoiceId: string;
+  userId: string;
+  /** Staff with `payments.view` may download any invoice */
+  canViewAll?: boolean;
+}
+
+/**
+ * Loads an invoice for download by its owner or by staff
+ */
+export async function getInvoiceForDownload(
+  input: InvoiceAccessInput
+): Promise<ServiceResult<Invoice>> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: input.invoiceId },
+    include: { payment: { select: { userId: true } } },
+  });
+
+  // Other people's invoices look like missing ones
+  if (!invoice || (!input.canViewAll && invoice.payment.userId !== input.userId)) {
+    return fail("INVOICE_NOT_FOUND", "Invoice not found", 404);
+  }
+
+  return ok(invoice);
+}
+
+/**
+ * Invoices of a user's payments, newest first
+ */
+export async function getUserInvoices(userId: string): Promise<Invoice[]> {
+  return prisma.invoice.findMany({
+    where: { payment: { userId } },
+    orderBy: { issuedAt: "desc" },
+  });
+}
+
+/**
+ * Issues the invoice for a completed payment and emails it to the attendee
+ * as a PDF attachment
+ */
+export async function sendPaymentReceipt(paymentId: string): Promise<void> {
+  const issued = await issueInvoice(paymentId);
+  if (!issued.success) {
+    logger.warn(`Failed to issue invoice for payment ${paymentId}: ${issued.error.message}`);
+    return;
+  }
+
+  const invoice = issued.data;
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { user: { select: { email: true, name: true, preferredLocale: true } } },
+  });
+  if (!payment) return;
+
+  const recipient = getRegistrationRecipient({
+    userId: payment.userId,
+    guestEmail: null,
+    guestName: null,
+    user: payment.user,
+  });
+  if (!recipient) return;
+
+  const pdf = await renderInvoicePdf(toInvoiceDocument(invoice));
+  const result = await sendTemplatedEmail({
+    templateName: "payment_receipt",
+    recipient: { ...recipient, locale: invoice.locale },
+    eventId: payment.eventId,
+    variables: {
+      invoiceNumber: invoice.number,
+      description: invoice.description,
+      amount: formatCurrency(Number(invoice.total), invoice.currency, invoice.locale),
+      invoiceUrl: getInvoiceUrl(invoice.id),
+    },
+    metadata: { paymentId, invoiceId: invoice.id },
+    attachments: [
+      {
+        filename: getInvoiceFileName(invoice),
+        content: Buffer.from(pdf),
+        contentType: "application/pdf",
+      },
+    ],
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send receipt for payment ${paymentId}: ${result.error}`);
+  }
+}
@@ -69,59 +69,16 @@ export async function requireAuth(): Promise<KindeUser> {
 }
 
 /**
- * Check if user has specific permissions
+ * Permission names granted by the Kinde session's claims
+ *
+ * Only part of a user's rights; see ./authorization for the merged set.
  */
-export async function hasPermission(permission: string): Promise<boolean> {
+export async function getKindePermissions(): Promise<string[]> {
   try {
     const { getPermissions } = await getKindeServerSession();
     const permissions = await getPermissions();
 
-    if (!permissions) {
-      return false;
-    }
-
-    // Check if the permission exists in the permissions object
-    return permission in permissions;
-  } catch (error) {
-    logger.error("Error checking permissions:", error);
-    return false;
-  }
-}
-
-/**
- * Check if user has specific role
- */
-export async function hasRole(role: string): Promise<boolean> {
-  try {
-    const { getRoles } = await getKindeServerSession();
-    const roles = await getRoles();
-
-    if (!roles) {
-      return false;
-    }
-
-    // Check if the role exists in the roles array
-    return roles.some((r) => r.name === role);
-  } catch (error) {
-    logger.error("Error checking roles:", error);
-    return false;
-  }
-}
-
-/**
- * Get user permissions
- */
-export async function getUserPermissions(): Promise<string[]> {
-  try {
-    const { getPermissions } = await getKindeServerSession();
-    const permissions = await getPermissions();
-
-    if (!permissions) {
-      return [];
-    }
-
-    // Convert permissions object to array of permission names
-    return Object.keys(permissions);
+    return permissions?.permissions ?? [];
   } catch (error) {
     logger.error("Error getting permissions:", error);
     return [];
@@ -129,19 +86,14 @@ export async function getUserPermissions(): Promise<string[]> {
 }
 
 /**
- * Get user roles
+ * Role names granted by the Kinde session's claims
  */
-export async function getUserRoles(): Promise<string[]> {
+export async function getKindeRoles(): Promise<string[]> {
   try {
     const { getRoles } = await getKindeServerSession();
     const roles = await getRoles();
 
-    if (!roles) {
-      return [];
-    }
-
-    // Extract role names from the roles array
-    return roles.map((role) => role.name);
+    return roles?.map((role) => role.name) ?? [];
   } catch (error) {
     logger.error("Error getting roles:", error);
     return [];
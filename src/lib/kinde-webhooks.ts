@@ -0,0 +1,276 @@
+/**
+ * Kinde webhooks
+ *
+ * Kinde posts each event as a JWT signed with RS256 by one of the keys of its
+ * JSON Web Key Set. The key set comes from `KINDE_WEBHOOK_JWKS`, either a URL
+ * or the path of a JSON file (so a local key can sign test events), and
+ * defaults to the issuer's `/.well-known/jwks.json`. Tokens must be fresh and
+ * each event is applied once, so a captured request cannot be replayed. User
+ * events keep the database users in step with their Kinde identities.
+ */
+
+import { createPublicKey, verify, type JsonWebKey } from "crypto";
+import { readFile } from "fs/promises";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { removeKindeUser, syncKindeUser } from "./users";
+import { logger } from "./logger";
+import { ok, fail, type ServiceResult } from "@/types/service";
+import { kindeWebhookEventSchema, type KindeWebhookEvent } from "./validations/kinde-webhook";
+
+export interface WebhookJwk extends JsonWebKey {
+  kid?: string;
+}
+
+export interface WebhookJwks {
+  keys: WebhookJwk[];
+}
+
+/** How long a fetched key set is reused before it is fetched again */
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+/**
+ * Least time between two fetches of the key set, so tokens naming unknown
+ * keys cannot make us fetch it on every request
+ */
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+/** Leeway for the token's issue, expiry and not-before times */
+const CLOCK_SKEW_SECONDS = 60;
+
+/** How long after it was issued a token is still accepted */
+const MAX_TOKEN_AGE_SECONDS = 5 * 60;
+
+let cachedJwks: { source: string; jwks: WebhookJwks; loadedAt: number } | null = null;
+
+function getJwksSource(): string {
+  const configured = process.env["KINDE_WEBHOOK_JWKS"];
+  if (configured) {
+    return configured;
+  }
+
+  const issuer = process.env["KINDE_ISSUER_URL"];
+  if (!issuer) {
+    throw new Error("KINDE_WEBHOOK_JWKS or KINDE_ISSUER_URL is required to verify Kinde webhooks");
+  }
+  return `${issuer.replace(/\/+$/, "")}/.well-known/jwks.json`;
+}
+
+/**
+ * Reads a key set from a URL or a JSON file
+ */
+export async function loadWebhookJwks(source: string = getJwksSource()): Promise<WebhookJwks> {
+  let json: unknown;
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`Fetching the key set from ${source} failed with ${response.status}`);
+    }
+    json = await response.json();
+  } else {
+    json = JSON.parse(await readFile(source, "utf8"));
+  }
+
+  const keys = json && typeof json === "object" && "keys" in json ? json.keys : null;
+  if (!Array.isArray(keys)) {
+    throw new Error(`${source} is not a JSON Web Key Set`);
+  }
+  return { keys };
+}
+
+/**
+ * The configured key set, reloaded when it is stale or `refresh` is set
+ * (after Kinde rotated its keys); a refresh within a minute of the last
+ * fetch keeps the cached set
+ */
+async function getWebhookJwks(refresh: boolean, now: Date): Promise<WebhookJwks> {
+  const source = getJwksSource();
+  const age = cachedJwks?.source === source ? now.getTime() - cachedJwks.loadedAt : Infinity;
+  if (cachedJwks && age < (refresh ? JWKS_MIN_REFRESH_MS : JWKS_CACHE_MS)) {
+    return cachedJwks.jwks;
+  }
+
+  const jwks = await loadWebhookJwks(source);
+  cachedJwks = { source, jwks, loadedAt: now.getTime() };
+  return jwks;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function readKeyId(token: string): string | null {
+  const header = decodeSegment(token.split(".")[0] ?? "");
+  return typeof header?.["kid"] === "string" ? header["kid"] : null;
+}
+
+/**
+ * Verifies an RS256 JWT against a key set and checks that it is fresh: it
+ * must carry `exp` and `iat`, and have been issued in the last few minutes
+ *
+ * @returns The token claims, or null when the token is malformed, signed by
+ * an unknown key, expired or too old
+ */
+export function verifyWebhookToken(
+  token: string,
+  jwks: WebhookJwks,
+  now: Date = new Date()
+): Record<string, unknown> | null {
+  const [encodedHeader, encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedHeader || !encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const header = decodeSegment(encodedHeader);
+  if (header?.["alg"] !== "RS256") {
+    return null;
+  }
+
+  const kid = header["kid"];
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signatureBytes = Buffer.from(signature, "base64url");
+  const verified = jwks.keys
+    .filter((key) => key.kty === "RSA" && (kid === undefined || key.kid === kid))
+    .some((key) => {
+      try {
+        const publicKey = createPublicKey({ key, format: "jwk" });
+        return verify("RSA-SHA256", signed, publicKey, signatureBytes);
+      } catch {
+        return false;
+      }
+    });
+  if (!verified) {
+    return null;
+  }
+
+  const claims = decodeSegment(encodedPayload);
+  const exp = claims?.["exp"];
+  const iat = claims?.["iat"];
+  const nbf = claims?.["nbf"];
+  const seconds = now.getTime() / 1000;
+  if (
+    !claims ||
+    typeof exp !== "number" ||
+    typeof iat !== "number" ||
+    exp + CLOCK_SKEW_SECONDS <= seconds ||
+    iat - CLOCK_SKEW_SECONDS > seconds ||
+    seconds - iat > MAX_TOKEN_AGE_SECONDS ||
+    (typeof nbf === "number" && nbf - CLOCK_SKEW_SECONDS > seconds)
+  ) {
+    return null;
+  }
+
+  return claims;
+}
+
+/**
+ * Verifies a webhook request body and reads the event it carries
+ *
+ * @returns The event, or null when the token is not a valid Kinde event
+ */
+export async function readKindeWebhook(
+  token: string,
+  now: Date = new Date()
+): Promise<KindeWebhookEvent | null> {
+  let jwks = await getWebhookJwks(false, now);
+
+  const kid = readKeyId(token);
+  if (kid && !jwks.keys.some((key) => key.kid === kid)) {
+    jwks = await getWebhookJwks(true, now);
+  }
+
+  const claims = verifyWebhookToken(token, jwks, now);
+  if (!claims) {
+    return null;
+  }
+
+  const parsed = kindeWebhookEventSchema.safeParse(claims);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Applies a Kinde event once: the event id is recorded before the event is
+ * applied, and released again when applying it fails so Kinde can retry
+ */
+export async function handleKindeWebhookEvent(
+  event: KindeWebhookEvent,
+  now: Date = new Date()
+): Promise<ServiceResult<{ handled: boolean }>> {
+  try {
+    await prisma.kindeWebhookEvent.create({
+      data: { eventId: event.event_id, type: event.type, receivedAt: now },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      logger.info(`Skipping Kinde webhook event ${event.event_id}, already processed`);
+      return ok({ handled: false });
+    }
+    throw error;
+  }
+
+  try {
+    const result = await applyKindeWebhookEvent(event, now);
+    if (!result.success) {
+      await releaseKindeWebhookEvent(event.event_id);
+    }
+    return result;
+  } catch (error) {
+    await releaseKindeWebhookEvent(event.event_id);
+    throw error;
+  }
+}
+
+async function releaseKindeWebhookEvent(eventId: string): Promise<void> {
+  await prisma.kindeWebhookEvent.deleteMany({ where: { eventId } });
+}
+
+/**
+ * Applies a Kinde user event to the database; other events are ignored
+ */
+async function applyKindeWebhookEvent(
+  event: KindeWebhookEvent,
+  now: Date
+): Promise<ServiceResult<{ handled: boolean }>> {
+  const kindeUser = event.data?.user;
+
+  switch (event.type) {
+    case "user.created":
+    case "user.updated": {
+      if (!kindeUser) {
+        return fail("INVALID_EVENT", `${event.type} event without a user`, 400);
+      }
+
+      const result = await syncKindeUser(
+        {
+          kindeId: kindeUser.id,
+          email: kindeUser.email ?? null,
+          firstName: kindeUser.first_name,
+          lastName: kindeUser.last_name,
+          phoneNumber: kindeUser.phone,
+        },
+        now
+      );
+      return result.success ? ok({ handled: true }) : result;
+    }
+
+    case "user.deleted": {
+      if (!kindeUser) {
+        return fail("INVALID_EVENT", `${event.type} event without a user`, 400);
+      }
+
+      const result = await removeKindeUser(kindeUser.id, now);
+      return result.success ? ok({ handled: true }) : result;
+    }
+
+    default:
+      logger.debug(`Ignoring Kinde webhook event ${event.type} (${event.event_id})`);
+      return ok({ handled: false });
+  }
+}
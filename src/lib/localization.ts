@@ -0,0 +1,50 @@
+/**
+ * Helpers for models that store per-locale overrides in a `translations`
+ * JSON column, e.g. {"en": {"title": "..."}, "cs": {"title": "..."}}
+ */
+
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Reads a translated string field for a locale
+ *
+ * @returns The translated value, or undefined when the locale or field is missing
+ */
+export function getTranslatedField(
+  translations: Prisma.JsonValue | null | undefined,
+  locale: string,
+  field: string
+): string | undefined {
+  if (!translations || typeof translations !== "object" || Array.isArray(translations)) {
+    return undefined;
+  }
+
+  const localized = translations[locale];
+  if (!localized || typeof localized !== "object" || Array.isArray(localized)) {
+    return undefined;
+  }
+
+  const value = localized[field];
+  return typeof value === "string" && value.trim() !== "" ? value : undefined;
+}
+
+/**
+ * Returns a copy of an entity with the given fields replaced by their
+ * translations for the locale, keeping the base values where no translation exists
+ */
+export function localizeFields<T extends { translations: Prisma.JsonValue }, K extends keyof T>(
+  entity: T,
+  locale: string,
+  fields: readonly K[]
+): T {
+  const localized = { ...entity };
+
+  for (const field of fields) {
+    const translated = getTranslatedField(entity.translations, locale, String(field));
+    if (translated !== undefined) {
+      localized[field] = translated as T[K];
+    }
+  }
+
+  return localized;
+}
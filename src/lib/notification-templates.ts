@@ -0,0 +1,160 @@
+/**
+ * Database-backed notification templates
+ *
+ * Renders `NotificationTemplate` rows (seeded in prisma/seed.ts) for the
+ * recipient's locale, sends them through Resend and records a
+ * `NotificationLog` entry for every attempt.
+ */
+
+import { NotificationStatus, NotificationType, type Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sendEmail } from "./email";
+import { getBooleanConfig } from "./system-config";
+import { logger } from "./logger";
+import type { NotificationResult } from "./notifications";
+import type { EmailAttachment } from "@/types/email";
+
+export type TemplateVariables = Record<string, string | number | null | undefined>;
+
+export interface TemplateRecipient {
+  email: string;
+  name?: string | null;
+  userId?: string | null;
+  locale?: string | null;
+}
+
+export interface TemplatedEmailOptions {
+  templateName: string;
+  recipient: TemplateRecipient;
+  variables: TemplateVariables;
+  eventId?: string | null;
+  metadata?: Prisma.InputJsonObject;
+  attachments?: EmailAttachment[];
+}
+
+const DEFAULT_LOCALE = "en";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Replaces `{{variable}}` placeholders in a template string
+ *
+ * @param template - Template text
+ * @param variables - Values to substitute; missing values render as empty strings
+ * @param escape - Whether to HTML-escape substituted values (for HTML bodies)
+ */
+export function renderTemplateString(
+  template: string,
+  variables: TemplateVariables,
+  escape = false
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = variables[name];
+    if (value === null || value === undefined) return "";
+    return escape ? escapeHtml(String(value)) : String(value);
+  });
+}
+
+/**
+ * Picks the template content for a locale, falling back to English
+ */
+function pickLocalizedContent(content: Prisma.JsonValue, locale: string): string | null {
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    return null;
+  }
+
+  const localized = content[locale] ?? content[DEFAULT_LOCALE];
+  return typeof localized === "string" ? localized : null;
+}
+
+/**
+ * Sends an email rendered from a named notification template
+ */
+export async function sendTemplatedEmail(
+  options: TemplatedEmailOptions
+): Promise<NotificationResult> {
+  const { templateName, recipient, variables, eventId, metadata, attachments } = options;
+
+  try {
+    const notificationsEnabled = await getBooleanConfig("email.notifications_enabled", true);
+    if (!notificationsEnabled) {
+      logger.info(`Email notifications disabled, skipping "${templateName}" to ${recipient.email}`);
+      return { success: false, error: "Email notifications are disabled" };
+    }
+
+    const template = await prisma.notificationTemplate.findUnique({
+      where: { name: templateName },
+    });
+
+    if (!template || !template.isActive || template.type !== NotificationType.EMAIL) {
+      logger.warn(`Notification template "${templateName}" is missing or inactive`);
+      return { success: false, error: `Template "${templateName}" is not available` };
+    }
+
+    const locale = recipient.locale ?? DEFAULT_LOCALE;
+    const body = pickLocalizedContent(template.content, locale);
+    if (!body) {
+      return { success: false, error: `Template "${templateName}" has no content for ${locale}` };
+    }
+
+    const allVariables: TemplateVariables = { userName: recipient.name ?? "", ...variables };
+    const subject = renderTemplateString(template.subject ?? templateName, allVariables);
+    const html = renderTemplateString(body, allVariables, true);
+
+    const result = await sendEmail({
+      from: process.env["DEFAULT_FROM_EMAIL"] || "noreply@yourdomain.com",
+      to: recipient.email,
+      subject,
+      html,
+      ...(attachments && { attachments }),
+    });
+
+    await prisma.notificationLog.create({
+      data: {
+        templateId: template.id,
+        userId: recipient.userId ?? null,
+        type: NotificationType.EMAIL,
+        status: result.success ? NotificationStatus.SENT : NotificationStatus.FAILED,
+        recipient: recipient.email,
+        subject,
+        content: html,
+        eventId: eventId ?? null,
+        ...(result.success ? { sentAt: new Date() } : { failedAt: new Date() }),
+        errorMessage: result.success ? null : result.error.message,
+        ...(metadata && { metadata }),
+      },
+    });
+
+    return result.success
+      ? { success: true, messageId: result.data.id }
+      : { success: false, error: result.error.message };
+  } catch (error) {
+    logger.error(`Failed to send templated email "${templateName}":`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Sends the same template to multiple recipients, one email each
+ */
+export async function sendTemplatedEmails(
+  messages: TemplatedEmailOptions[]
+): Promise<NotificationResult[]> {
+  const results: NotificationResult[] = [];
+
+  for (const message of messages) {
+    results.push(await sendTemplatedEmail(message));
+  }
+
+  return results;
+}
@@ -0,0 +1,435 @@
+/**
+ * Payment claims ("I have paid")
+ *
+ * An attendee who sent the bank transfer can claim the payment before it
+ * shows up on a statement. The claim is a PENDING `Payment` with `claimedAt`
+ * set; it keeps the pending payment from expiring until staff verify it
+ * (completing the payment and confirming the registration) or reject it.
+ * A rejected claim leaves the registration waiting for payment, unless staff
+ * also cancel it to release the seats. Claims left unverified for
+ * `payments.claim_escalation_hours` are escalated to the event manager.
+ */
+
+import {
+  AuditAction,
+  PaymentStatus,
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  type Payment,
+  type Prisma,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockEvent } from "./event-availability";
+import { completePendingPayment, OPEN_PAYMENT_CLAIM, type CompletedPayment } from "./payments";
+import { recordRegistrationHistory, type RegistrationHistoryEntry } from "./registration-history";
+import { recordAuditLog } from "./audit";
+import {
+  getRegistrationRecipient,
+  sendRegistrationConfirmation,
+} from "./registration-notifications";
+import { sendTemplatedEmail } from "./notification-templates";
+import { sendPaymentReceipt } from "./invoices";
+import { promoteFromWaitingList } from "./waiting-list";
+import { getNumberConfig } from "./system-config";
+import { formatCurrency, formatDate, formatDateTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type {
+  ClaimPaymentInput,
+  PaymentClaimQuery,
+  ReviewPaymentClaimInput,
+} from "./validations/payment";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const claimInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  event: { select: { id: true, title: true, slug: true, startDate: true, timezone: true } },
+  pendingPayment: { select: { id: true, expiresAt: true, variableSymbol: true } },
+} satisfies Prisma.PaymentInclude;
+
+export type PaymentClaim = Prisma.PaymentGetPayload<{ include: typeof claimInclude }>;
+
+export type ClaimPaymentOptions = ClaimPaymentInput & {
+  pendingPaymentId: string;
+  userId: string;
+};
+
+/**
+ * Records an attendee's claim that they sent the payment
+ */
+export async function claimPayment(input: ClaimPaymentOptions): Promise<ServiceResult<Payment>> {
+  const found = await prisma.pendingPayment.findUnique({
+    where: { id: input.pendingPaymentId },
+    select: { userId: true, eventId: true },
+  });
+  if (!found || found.userId !== input.userId) {
+    return fail("PENDING_PAYMENT_NOT_FOUND", "Pending payment not found", 404);
+  }
+
+  return prisma.$transaction(async (tx): Promise<ServiceResult<Payment>> => {
+    // Serializes with expiry and completion, which take the same lock
+    await lockEvent(tx, found.eventId);
+
+    const pendingPayment = await tx.pendingPayment.findUniqueOrThrow({
+      where: { id: input.pendingPaymentId },
+      include: { payments: { where: OPEN_PAYMENT_CLAIM, select: { id: true } } },
+    });
+    if (pendingPayment.status !== PendingPaymentStatus.PENDING) {
+      return fail(
+        "PAYMENT_NOT_OPEN",
+        `This pending payment is ${pendingPayment.status.toLowerCase()}`,
+        409,
+        { status: pendingPayment.status }
+      );
+    }
+    if (pendingPayment.payments.length > 0) {
+      return fail("ALREADY_CLAIMED", "This payment has already been claimed", 409);
+    }
+
+    // The variable symbol is unique among payments, so the claim only gets
+    // it once verified
+    const payment = await tx.payment.create({
+      data: {
+        userId: pendingPayment.userId,
+        eventId: pendingPayment.eventId,
+        pendingPaymentId: pendingPayment.id,
+        amount: pendingPayment.amount,
+        currency: pendingPayment.currency,
+        method: pendingPayment.paymentMethod,
+        status: PaymentStatus.PENDING,
+        bankAccountId: pendingPayment.bankAccountId,
+        description: pendingPayment.description,
+        claimedAt: new Date(),
+        notes: input.note || null,
+      },
+    });
+
+    await recordRegistrationHistory(tx, {
+      userId: pendingPayment.userId,
+      eventId: pendingPayment.eventId,
+      action: RegistrationAction.PAYMENT_CLAIMED,
+      reason: input.note || null,
+      performedById: input.userId,
+    });
+
+    logger.info(`User ${input.userId} claimed payment of pending payment ${pendingPayment.id}`);
+
+    return ok(payment);
+  });
+}
+
+export interface PaymentClaimFilter extends PaymentClaimQuery {
+  now?: Date;
+}
+
+/**
+ * Claims awaiting verification, oldest first
+ */
+export async function getPaymentClaims(filter: PaymentClaimFilter = {}): Promise<PaymentClaim[]> {
+  const now = filter.now ?? new Date();
+
+  return prisma.payment.findMany({
+    where: {
+      ...OPEN_PAYMENT_CLAIM,
+      ...(filter.eventId && { eventId: filter.eventId }),
+      ...(filter.minAgeHours !== undefined && {
+        claimedAt: { lte: new Date(now.getTime() - filter.minAgeHours * HOUR_MS) },
+      }),
+    },
+    include: claimInclude,
+    orderBy: [{ claimedAt: "asc" }, { id: "asc" }],
+  });
+}
+
+export type ReviewPaymentClaimOptions = ReviewPaymentClaimInput & {
+  paymentId: string;
+  performedById: string;
+};
+
+export interface ReviewedPaymentClaim {
+  payment: Payment;
+  /** Registrations cancelled together with a rejected claim */
+  cancelledRegistrations: number;
+}
+
+/**
+ * Verifies or rejects a payment claim
+ */
+export async function reviewPaymentClaim(
+  input: ReviewPaymentClaimOptions
+): Promise<ServiceResult<ReviewedPaymentClaim>> {
+  const claim = await prisma.payment.findUnique({ where: { id: input.paymentId } });
+  if (!claim?.claimedAt || !claim.pendingPaymentId || !claim.eventId) {
+    return fail("CLAIM_NOT_FOUND", "Payment claim not found", 404);
+  }
+  const { eventId, pendingPaymentId } = claim;
+
+  const result = await prisma.$transaction(
+    async (tx): Promise<ServiceResult<ReviewedPaymentClaim & Partial<CompletedPayment>>> => {
+      await lockEvent(tx, eventId);
+
+      const current = await tx.payment.findUniqueOrThrow({ where: { id: claim.id } });
+      if (current.status !== PaymentStatus.PENDING) {
+        return fail("CLAIM_NOT_OPEN", "This payment claim has already been reviewed", 409, {
+          status: current.status,
+        });
+      }
+
+      if (input.action === "VERIFY") {
+        const completed = await completePendingPayment(tx, {
+          pendingPaymentId,
+          amount: current.amount,
+          paidAt: current.claimedAt ?? new Date(),
+          verifiedById: input.performedById,
+          method: current.method,
+          verificationNotes: input.notes ?? null,
+        });
+        if (!completed.success) {
+          return completed;
+        }
+
+        await recordAuditLog(tx, {
+          userId: input.performedById,
+          action: AuditAction.UPDATE,
+          resource: "Payment",
+          resourceId: claim.id,
+          newData: { status: PaymentStatus.COMPLETED },
+          description: "Verified payment claim",
+        });
+
+        return ok({ ...completed.data, cancelledRegistrations: 0 });
+      }
+
+      const payment = await tx.payment.update({
+        where: { id: claim.id },
+        data: {
+          status: PaymentStatus.FAILED,
+          verifiedBy: input.performedById,
+          verificationNotes: input.notes,
+        },
+      });
+      const cancelledRegistrations = await recordClaimRejection(tx, payment, input);
+
+      await recordAuditLog(tx, {
+        userId: input.performedById,
+        action: AuditAction.UPDATE,
+        resource: "Payment",
+        resourceId: claim.id,
+        newData: { status: PaymentStatus.FAILED, cancelledRegistrations },
+        description: `Rejected payment claim: ${input.notes}`,
+      });
+
+      return ok({ payment, cancelledRegistrations });
+    }
+  );
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { payment, cancelledRegistrations, confirmedRegistrationId } = result.data;
+  if (input.action === "VERIFY") {
+    if (confirmedRegistrationId) {
+      await sendRegistrationConfirmation(confirmedRegistrationId);
+    }
+    await sendPaymentReceipt(payment.id);
+  } else {
+    if (cancelledRegistrations > 0) {
+      await promoteFromWaitingList(eventId);
+    }
+    await sendClaimRejected(payment.id, cancelledRegistrations > 0);
+  }
+
+  const outcome = input.action === "VERIFY" ? "verified" : "rejected";
+  logger.info(`Payment claim ${payment.id} ${outcome} by ${input.performedById}`);
+
+  return ok({ payment, cancelledRegistrations });
+}
+
+/**
+ * Records the rejection in the registration history and, when requested,
+ * cancels the registration and its pending payment
+ *
+ * @returns Number of cancelled registrations
+ */
+async function recordClaimRejection(
+  tx: Prisma.TransactionClient,
+  payment: Payment,
+  input: Extract<ReviewPaymentClaimOptions, { action: "REJECT" }>
+): Promise<number> {
+  const eventId = payment.eventId ?? "";
+  const leader = await tx.registration.findFirst({
+    where: { pendingPaymentId: payment.pendingPaymentId, groupLeaderId: null },
+  });
+
+  const history: RegistrationHistoryEntry[] = [
+    {
+      userId: payment.userId,
+      eventId,
+      action: RegistrationAction.PAYMENT_FAILED,
+      previousStatus: leader?.status ?? null,
+      newStatus: leader?.status ?? null,
+      reason: input.notes,
+      performedById: input.performedById,
+    },
+  ];
+
+  let cancelled = 0;
+  if (input.cancelRegistration && leader?.status === RegistrationStatus.PENDING) {
+    const now = new Date();
+    const members = await tx.registration.findMany({
+      where: { groupLeaderId: leader.id, status: { not: RegistrationStatus.CANCELLED } },
+    });
+    const registrations = [leader, ...members];
+
+    const { count } = await tx.registration.updateMany({
+      where: { id: { in: registrations.map(({ id }) => id) } },
+      data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+    });
+    cancelled = count;
+
+    await tx.pendingPayment.updateMany({
+      where: { id: payment.pendingPaymentId ?? "", status: PendingPaymentStatus.PENDING },
+      data: { status: PendingPaymentStatus.CANCELLED, cancelledAt: now },
+    });
+    history.push({
+      userId: payment.userId,
+      eventId,
+      action: RegistrationAction.PENDING_PAYMENT_CANCELLED,
+      reason: input.notes,
+      performedById: input.performedById,
+    });
+
+    for (const registration of registrations) {
+      if (!registration.userId) continue;
+      history.push({
+        userId: registration.userId,
+        eventId,
+        action: RegistrationAction.CANCELLED,
+        previousStatus: registration.status,
+        newStatus: RegistrationStatus.CANCELLED,
+        reason: input.notes,
+        performedById: input.performedById,
+      });
+    }
+  }
+
+  await recordRegistrationHistory(tx, history);
+  return cancelled;
+}
+
+async function sendClaimRejected(paymentId: string, cancelled: boolean): Promise<void> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      user: { select: { email: true, name: true, preferredLocale: true } },
+      event: { select: { id: true, title: true, slug: true, startDate: true, timezone: true } },
+      pendingPayment: { select: { expiresAt: true } },
+    },
+  });
+  if (!payment?.event) return;
+
+  const recipient = getRegistrationRecipient({
+    userId: payment.userId,
+    guestEmail: null,
+    guestName: null,
+    user: payment.user,
+  });
+  if (!recipient) return;
+
+  const { event } = payment;
+  const result = await sendTemplatedEmail({
+    templateName: cancelled ? "payment_claim_rejected_cancelled" : "payment_claim_rejected",
+    recipient,
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+      amount: formatCurrency(Number(payment.amount), payment.currency, recipient.locale),
+      reason: payment.verificationNotes ?? "",
+      paymentDeadline: payment.pendingPayment
+        ? formatDateTime(payment.pendingPayment.expiresAt, recipient.locale, event.timezone)
+        : "",
+      eventUrl: `${getBaseUrl()}/${recipient.locale}/events/${event.slug}`,
+    },
+    metadata: { paymentId },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send claim rejection of payment ${paymentId}: ${result.error}`);
+  }
+}
+
+/**
+ * Emails the event manager (or creator) about claims that stayed unverified
+ * for `payments.claim_escalation_hours`, once per claim
+ *
+ * @returns Number of escalated claims
+ */
+export async function escalateStalePaymentClaims(now: Date = new Date()): Promise<number> {
+  const hours = await getNumberConfig("payments.claim_escalation_hours", 48);
+  if (hours <= 0) return 0;
+
+  const stale = await prisma.payment.findMany({
+    where: {
+      ...OPEN_PAYMENT_CLAIM,
+      escalatedAt: null,
+      claimedAt: { lte: new Date(now.getTime() - hours * HOUR_MS) },
+    },
+    include: {
+      user: { select: { name: true, email: true } },
+      event: {
+        select: {
+          id: true,
+          title: true,
+          timezone: true,
+          creator: { select: { id: true, email: true, name: true, preferredLocale: true } },
+          manager: { select: { id: true, email: true, name: true, preferredLocale: true } },
+        },
+      },
+    },
+    orderBy: { claimedAt: "asc" },
+  });
+
+  let escalated = 0;
+  for (const claim of stale) {
+    // Mark first so overlapping runs do not escalate twice
+    const { count } = await prisma.payment.updateMany({
+      where: { id: claim.id, escalatedAt: null },
+      data: { escalatedAt: now },
+    });
+    if (count === 0 || !claim.event) continue;
+
+    const { event } = claim;
+    const contact = event.manager ?? event.creator;
+    const locale = contact.preferredLocale;
+    const result = await sendTemplatedEmail({
+      templateName: "payment_claim_escalated",
+      recipient: { email: contact.email, name: contact.name, userId: contact.id, locale },
+      eventId: event.id,
+      variables: {
+        eventTitle: event.title,
+        attendee: claim.user.name ?? claim.user.email,
+        amount: formatCurrency(Number(claim.amount), claim.currency, locale),
+        claimedAt: formatDateTime(claim.claimedAt ?? now, locale, event.timezone),
+        reviewUrl: `${getBaseUrl()}/${locale}/dashboard/payments/claims?eventId=${event.id}`,
+      },
+      metadata: { paymentId: claim.id },
+    });
+
+    if (result.success) {
+      escalated++;
+    } else {
+      logger.warn(`Failed to escalate payment claim ${claim.id}: ${result.error}`);
+    }
+  }
+
+  if (escalated > 0) {
+    logger.info(`Escalated ${escalated} unverified payment claims`);
+  }
+
+  return escalated;
+}
@@ -0,0 +1,196 @@
+/**
+ * Payment QR code payloads
+ *
+ * Encoders for the two payment QR standards read by Slovak and Czech banking
+ * apps:
+ * - PAY by square (Slovak Banking Association): tab-separated fields with a
+ *   CRC32 checksum, LZMA-compressed and base32hex-encoded
+ * - SPD "QR Platba" (Czech Banking Association): a plain `SPD*1.0*KEY:value`
+ *   string
+ *
+ * Both formats only allow a subset of ASCII in practice, so free text is
+ * transliterated before encoding.
+ */
+
+import { compress } from "lzma1";
+
+export interface PaymentQrInput {
+  iban: string;
+  swift?: string | null;
+  /** Amount in the currency's major unit, e.g. "25.00" */
+  amount: string;
+  currency: string;
+  dueDate?: Date | null;
+  variableSymbol?: string | null;
+  constantSymbol?: string | null;
+  specificSymbol?: string | null;
+  /** Message for the recipient, shown in the payer's banking app */
+  note?: string | null;
+  /** Recipient name (SPD only) */
+  recipientName?: string | null;
+}
+
+// Lengths limited by the formats; banks reject longer values
+const NOTE_MAX_LENGTH = 140;
+const SPD_MESSAGE_MAX_LENGTH = 60;
+const SPD_RECIPIENT_MAX_LENGTH = 35;
+
+/**
+ * Strips diacritics and characters outside printable ASCII
+ *
+ * @example toPaymentText("Přednáška: Úvod") // "Prednaska: Uvod"
+ */
+export function toPaymentText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Formats a date as YYYYMMDD (UTC)
+ */
+function formatPaymentDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Amounts without trailing zeros, as the formats expect ("25" rather than "25.00")
+ */
+function formatPaymentAmount(amount: string): string {
+  return String(Number(amount));
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/**
+ * CRC32 (IEEE 802.3) checksum
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC32_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const BASE32HEX_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUV";
+
+/**
+ * RFC 4648 base32hex without padding
+ */
+export function toBase32Hex(data: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of data) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32HEX_ALPHABET[(buffer >>> bits) & 0x1f];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    output += BASE32HEX_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return output;
+}
+
+// Size of the LZMA "alone" header (properties, dictionary size, data size),
+// which PAY by square omits because decoders use fixed properties
+const LZMA_HEADER_LENGTH = 13;
+
+/**
+ * Encodes a single payment order as a PAY by square string
+ */
+export function encodePayBySquare(input: PaymentQrInput): string {
+  const fields = [
+    "", // Invoice ID
+    "1", // Number of payments
+    "1", // Payment type: payment order
+    formatPaymentAmount(input.amount),
+    input.currency.toUpperCase(),
+    input.dueDate ? formatPaymentDate(input.dueDate) : "",
+    input.variableSymbol ?? "",
+    input.constantSymbol ?? "",
+    input.specificSymbol ?? "",
+    "", // Originator's reference, used instead of the symbols in SEPA payments
+    input.note ? toPaymentText(input.note).slice(0, NOTE_MAX_LENGTH) : "",
+    "1", // Number of bank accounts
+    normalizeIban(input.iban),
+    input.swift?.trim().toUpperCase() ?? "",
+    "0", // No standing order extension
+    "0", // No direct debit extension
+  ];
+
+  const data = new TextEncoder().encode(
+    fields.map((field) => field.replace(/\t/g, " ")).join("\t")
+  );
+  const checksummed = new Uint8Array(4 + data.length);
+  new DataView(checksummed.buffer).setUint32(0, crc32(data), true);
+  checksummed.set(data, 4);
+
+  const compressed = compress(checksummed).subarray(LZMA_HEADER_LENGTH);
+
+  // Header: by square type, version, document type and reserved nibbles
+  // (all zero for a v1.0.0 payment order), then the uncompressed length
+  const output = new Uint8Array(4 + compressed.length);
+  new DataView(output.buffer).setUint16(2, checksummed.length, true);
+  output.set(compressed, 4);
+
+  return toBase32Hex(output);
+}
+
+/**
+ * SPD values cannot contain the field separator
+ */
+function toSpdValue(text: string): string {
+  return toPaymentText(text).replace(/\*/g, "").toUpperCase();
+}
+
+/**
+ * Encodes a payment as a Czech SPD ("QR Platba") string
+ */
+export function encodeSpd(input: PaymentQrInput): string {
+  const account = [normalizeIban(input.iban), input.swift?.trim().toUpperCase()]
+    .filter(Boolean)
+    .join("+");
+
+  const fields: [string, string | null | undefined][] = [
+    ["ACC", account],
+    ["AM", Number(input.amount).toFixed(2)],
+    ["CC", input.currency.toUpperCase()],
+    ["DT", input.dueDate ? formatPaymentDate(input.dueDate) : null],
+    ["X-VS", input.variableSymbol],
+    ["X-KS", input.constantSymbol],
+    ["X-SS", input.specificSymbol],
+    ["MSG", input.note ? toSpdValue(input.note).slice(0, SPD_MESSAGE_MAX_LENGTH) : null],
+    [
+      "RN",
+      input.recipientName
+        ? toSpdValue(input.recipientName).slice(0, SPD_RECIPIENT_MAX_LENGTH)
+        : null,
+    ],
+  ];
+
+  return ["SPD*1.0", ...fields.flatMap(([key, value]) => (value ? [`${key}:${value}`] : []))].join(
+    "*"
+  );
+}
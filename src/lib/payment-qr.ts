@@ -0,0 +1,271 @@
+/**
+ * Payment QR codes
+ *
+ * Builds the QR payload of a `Payment` or `PendingPayment` in the format of
+ * its bank account (PAY by square or Czech SPD) and renders it as an image.
+ * The payload is stored in `qrCodeData` and the image route in `qrCodeUrl`;
+ * both are refreshed whenever the amount, symbols or account change.
+ *
+ * The bank account is the payment's own, falling back to the default active
+ * account. QR codes are only offered when `payments.qr_code_enabled` is on,
+ * the account has `qrCodeEnabled` and an IBAN.
+ */
+
+import QRCode from "qrcode";
+import {
+  PaymentQrFormat,
+  PaymentStatus,
+  PendingPaymentStatus,
+  type BankAccount,
+  type Prisma,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { encodePayBySquare, encodeSpd, type PaymentQrInput } from "./payment-qr-codes";
+import { getBooleanConfig } from "./system-config";
+import { getBaseUrl } from "./auth";
+import { OPEN_PAYMENT_CLAIM } from "./payments";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+export type PaymentQrSource = "payment" | "pending-payment";
+
+export type PaymentQrImageFormat = "svg" | "png";
+
+const ROUTE_SEGMENTS: Record<PaymentQrSource, string> = {
+  payment: "payments",
+  "pending-payment": "pending-payments",
+};
+
+/**
+ * Image route of a payment's QR code
+ */
+export function getPaymentQrUrl(source: PaymentQrSource, id: string): string {
+  return `${getBaseUrl()}/api/${ROUTE_SEGMENTS[source]}/${id}/qr`;
+}
+
+/**
+ * Builds the QR payload in the account's format
+ */
+export function buildPaymentQrPayload(
+  bankAccount: Pick<BankAccount, "iban" | "swift" | "name" | "qrCodeFormat"> & { iban: string },
+  payment: Omit<PaymentQrInput, "iban" | "swift" | "recipientName">
+): string {
+  const input: PaymentQrInput = {
+    ...payment,
+    iban: bankAccount.iban,
+    swift: bankAccount.swift,
+    recipientName: bankAccount.name,
+  };
+
+  return bankAccount.qrCodeFormat === PaymentQrFormat.SPD
+    ? encodeSpd(input)
+    : encodePayBySquare(input);
+}
+
+/**
+ * Bank account to pay into: the payment's own, or the default active account
+ */
+async function resolveBankAccount(bankAccount: BankAccount | null): Promise<BankAccount | null> {
+  if (bankAccount) {
+    return bankAccount.isActive ? bankAccount : null;
+  }
+
+  return prisma.bankAccount.findFirst({
+    where: { isDefault: true, isActive: true },
+  });
+}
+
+/**
+ * Whether payments into the account can be offered as a QR code
+ */
+async function isQrAvailable(bankAccount: BankAccount | null): Promise<boolean> {
+  if (!bankAccount?.qrCodeEnabled || !bankAccount.iban) return false;
+  return getBooleanConfig("payments.qr_code_enabled", true);
+}
+
+export interface PaymentQr {
+  payload: string;
+  format: PaymentQrFormat;
+  url: string;
+  bankAccount: Pick<BankAccount, "name" | "bankName" | "iban" | "swift">;
+}
+
+interface PayableRecord {
+  id: string;
+  userId: string;
+  amount: Prisma.Decimal;
+  currency: string;
+  variableSymbol: string | null;
+  constantSymbol: string | null;
+  specificSymbol: string | null;
+  description: string | null;
+  qrCodeData: string | null;
+  qrCodeUrl: string | null;
+  bankAccount: BankAccount | null;
+}
+
+export interface GetPaymentQrInput {
+  source: PaymentQrSource;
+  id: string;
+  /** User requesting the code; only the payer may see it */
+  userId: string;
+  /** Payment staff may see the code of any payment */
+  canViewAll?: boolean;
+}
+
+/**
+ * Generates (or refreshes) the QR code of an unpaid payment
+ */
+export async function getPaymentQr(input: GetPaymentQrInput): Promise<ServiceResult<PaymentQr>> {
+  const { source, id } = input;
+
+  let record: PayableRecord | null;
+  let payable: boolean;
+  let dueDate: Date | null = null;
+  if (source === "payment") {
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: { bankAccount: true },
+    });
+    record = payment;
+    payable = payment?.status === PaymentStatus.PENDING;
+  } else {
+    const pendingPayment = await prisma.pendingPayment.findUnique({
+      where: { id },
+      include: { bankAccount: true },
+    });
+    record = pendingPayment;
+    payable = pendingPayment?.status === PendingPaymentStatus.PENDING;
+    dueDate = pendingPayment?.expiresAt ?? null;
+  }
+
+  // Other users' payments are reported as missing rather than forbidden,
+  // whatever their status
+  if (!record || (record.userId !== input.userId && !input.canViewAll)) {
+    return fail("PAYMENT_NOT_FOUND", "Payment not found", 404);
+  }
+  if (!payable) {
+    return fail("PAYMENT_NOT_PAYABLE", "This payment is no longer awaiting payment", 409);
+  }
+
+  const bankAccount = await resolveBankAccount(record.bankAccount);
+  if (!bankAccount?.iban || !(await isQrAvailable(bankAccount))) {
+    return fail("QR_CODE_UNAVAILABLE", "QR payment is not available for this payment", 404);
+  }
+
+  const payload = buildPaymentQrPayload(
+    { ...bankAccount, iban: bankAccount.iban },
+    {
+      amount: record.amount.toFixed(2),
+      currency: record.currency,
+      dueDate,
+      variableSymbol: record.variableSymbol,
+      constantSymbol: record.constantSymbol,
+      specificSymbol: record.specificSymbol,
+      note: record.description,
+    }
+  );
+  const url = getPaymentQrUrl(source, id);
+
+  if (record.qrCodeData !== payload || record.qrCodeUrl !== url) {
+    const data = { qrCodeData: payload, qrCodeUrl: url };
+    if (source === "payment") {
+      await prisma.payment.update({ where: { id }, data });
+    } else {
+      await prisma.pendingPayment.update({ where: { id }, data });
+    }
+  }
+
+  return ok({
+    payload,
+    format: bankAccount.qrCodeFormat,
+    url,
+    bankAccount: {
+      name: bankAccount.name,
+      bankName: bankAccount.bankName,
+      iban: bankAccount.iban,
+      swift: bankAccount.swift,
+    },
+  });
+}
+
+export interface PaymentInstructions {
+  pendingPaymentId: string;
+  amount: Prisma.Decimal;
+  currency: string;
+  dueDate: Date;
+  variableSymbol: string | null;
+  constantSymbol: string | null;
+  specificSymbol: string | null;
+  bankAccount: Pick<
+    BankAccount,
+    "name" | "bankName" | "accountNumber" | "bankCode" | "iban" | "swift"
+  > | null;
+  /** QR code image, when QR payment is available */
+  qrCodeUrl: string | null;
+  /** When the attendee reported the payment as sent, if awaiting verification */
+  claimedAt: Date | null;
+}
+
+/**
+ * Bank transfer details of a user's unpaid pending payment, for the event page
+ */
+export async function getPaymentInstructions(
+  pendingPaymentId: string,
+  userId: string
+): Promise<PaymentInstructions | null> {
+  const pendingPayment = await prisma.pendingPayment.findUnique({
+    where: { id: pendingPaymentId },
+    include: {
+      bankAccount: true,
+      payments: { where: OPEN_PAYMENT_CLAIM, select: { claimedAt: true }, take: 1 },
+    },
+  });
+  if (
+    !pendingPayment ||
+    pendingPayment.userId !== userId ||
+    pendingPayment.status !== PendingPaymentStatus.PENDING
+  ) {
+    return null;
+  }
+
+  const bankAccount = await resolveBankAccount(pendingPayment.bankAccount);
+
+  return {
+    pendingPaymentId: pendingPayment.id,
+    amount: pendingPayment.amount,
+    currency: pendingPayment.currency,
+    dueDate: pendingPayment.expiresAt,
+    variableSymbol: pendingPayment.variableSymbol,
+    constantSymbol: pendingPayment.constantSymbol,
+    specificSymbol: pendingPayment.specificSymbol,
+    bankAccount: bankAccount && {
+      name: bankAccount.name,
+      bankName: bankAccount.bankName,
+      accountNumber: bankAccount.accountNumber,
+      bankCode: bankAccount.bankCode,
+      iban: bankAccount.iban,
+      swift: bankAccount.swift,
+    },
+    qrCodeUrl: (await isQrAvailable(bankAccount))
+      ? getPaymentQrUrl("pending-payment", pendingPayment.id)
+      : null,
+    claimedAt: pendingPayment.payments[0]?.claimedAt ?? null,
+  };
+}
+
+// PAY by square payloads are long, so the images get low error correction
+// and a size banking apps scan reliably from a phone screen
+const QR_OPTIONS = { errorCorrectionLevel: "L", margin: 2, width: 320 } as const;
+
+/**
+ * Renders a payment QR payload as an SVG or PNG image
+ */
+export async function renderPaymentQr(
+  payload: string,
+  format: PaymentQrImageFormat
+): Promise<Buffer> {
+  if (format === "svg") {
+    return Buffer.from(await QRCode.toString(payload, { ...QR_OPTIONS, type: "svg" }));
+  }
+  return QRCode.toBuffer(payload, QR_OPTIONS);
+}
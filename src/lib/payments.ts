@@ -0,0 +1,179 @@
+/**
+ * Payment service
+ *
+ * Turns a paid `PendingPayment` into a COMPLETED `Payment` and confirms the
+ * registration whose seat it held. When the attendee already claimed the
+ * payment ("I have paid"), the claimed `Payment` is the one completed.
+ * Registrations for events that require approval stay PENDING until an event
+ * manager approves them; approving a registration whose payment has arrived
+ * confirms it right away.
+ */
+
+import {
+  PaymentMethod,
+  PaymentStatus,
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  type Payment,
+  type Prisma,
+} from "@prisma/client";
+import { lockEvent } from "./event-availability";
+import { recordRegistrationHistory } from "./registration-history";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+/**
+ * Payments an attendee claimed to have sent that staff have not verified yet
+ */
+export const OPEN_PAYMENT_CLAIM = {
+  status: PaymentStatus.PENDING,
+  claimedAt: { not: null },
+} satisfies Prisma.PaymentWhereInput;
+
+/**
+ * Unlinks the payments of a cancelled registration that is being re-opened,
+ * so the payment for the new registration can be linked to it
+ */
+export async function detachRegistrationPayments(
+  tx: Prisma.TransactionClient,
+  registrationId: string
+): Promise<void> {
+  await tx.payment.updateMany({ where: { registrationId }, data: { registrationId: null } });
+}
+
+export interface CompletePendingPaymentInput {
+  pendingPaymentId: string;
+  /** Amount actually received; may differ when staff accept a partial payment */
+  amount: Prisma.Decimal;
+  paidAt: Date;
+  verifiedById: string | null;
+  method?: PaymentMethod;
+  /** External reference, e.g. the bank's transaction ID */
+  reference?: string | null;
+  notes?: string | null;
+  /** Staff remarks on a verified payment claim */
+  verificationNotes?: string | null;
+}
+
+export interface CompletedPayment {
+  payment: Payment;
+  /** Registration confirmed by the payment, for the confirmation email */
+  confirmedRegistrationId: string | null;
+}
+
+/**
+ * Records the payment of a pending payment and confirms its registration
+ *
+ * Must run in a transaction; it takes the event lock since it changes the
+ * registration status.
+ */
+export async function completePendingPayment(
+  tx: Prisma.TransactionClient,
+  input: CompletePendingPaymentInput
+): Promise<ServiceResult<CompletedPayment>> {
+  const found = await tx.pendingPayment.findUnique({ where: { id: input.pendingPaymentId } });
+  if (!found) {
+    return fail("PENDING_PAYMENT_NOT_FOUND", "Pending payment not found", 404);
+  }
+
+  await lockEvent(tx, found.eventId);
+
+  // Re-read under the lock so a concurrent completion or expiry is seen
+  const pendingPayment = await tx.pendingPayment.findUniqueOrThrow({
+    where: { id: found.id },
+    include: { event: { select: { requiresApproval: true } } },
+  });
+  if (pendingPayment.status !== PendingPaymentStatus.PENDING) {
+    return fail(
+      "PAYMENT_NOT_OPEN",
+      `This pending payment is ${pendingPayment.status.toLowerCase()}`,
+      409,
+      { status: pendingPayment.status }
+    );
+  }
+
+  const registration =
+    (await tx.registration.findFirst({
+      where: { pendingPaymentId: pendingPayment.id, groupLeaderId: null },
+    })) ??
+    (await tx.registration.findUnique({
+      where: {
+        userId_eventId: { userId: pendingPayment.userId, eventId: pendingPayment.eventId },
+      },
+    }));
+
+  const claim = await tx.payment.findFirst({
+    where: { pendingPaymentId: pendingPayment.id, ...OPEN_PAYMENT_CLAIM },
+  });
+
+  const now = new Date();
+  const completion = {
+    registrationId: registration && !registration.paymentId ? registration.id : null,
+    amount: input.amount,
+    currency: pendingPayment.currency,
+    method: input.method ?? PaymentMethod.BANK_TRANSFER,
+    status: PaymentStatus.COMPLETED,
+    bankAccountId: pendingPayment.bankAccountId,
+    variableSymbol: pendingPayment.variableSymbol,
+    constantSymbol: pendingPayment.constantSymbol,
+    specificSymbol: pendingPayment.specificSymbol,
+    paidAt: input.paidAt,
+    verifiedAt: now,
+    verifiedBy: input.verifiedById,
+    description: pendingPayment.description,
+    // Keep the attendee's note on the claim unless staff add their own
+    notes: input.notes ?? claim?.notes ?? null,
+    reference: input.reference ?? null,
+    verificationNotes: input.verificationNotes ?? null,
+  } satisfies Prisma.PaymentUncheckedUpdateInput;
+
+  const payment = claim
+    ? await tx.payment.update({ where: { id: claim.id }, data: completion })
+    : await tx.payment.create({
+        data: {
+          userId: pendingPayment.userId,
+          eventId: pendingPayment.eventId,
+          pendingPaymentId: pendingPayment.id,
+          ...completion,
+        },
+      });
+
+  await tx.pendingPayment.update({
+    where: { id: pendingPayment.id },
+    data: { status: PendingPaymentStatus.PROCESSED, processedAt: now },
+  });
+
+  let confirmedRegistrationId: string | null = null;
+  if (registration) {
+    const confirms =
+      registration.status === RegistrationStatus.PENDING &&
+      (registration.approvedAt !== null || !pendingPayment.event.requiresApproval);
+    const newStatus = confirms ? RegistrationStatus.CONFIRMED : registration.status;
+
+    await tx.registration.update({
+      where: { id: registration.id },
+      data: {
+        ...(!registration.paymentId && { paymentId: payment.id }),
+        ...(confirms && { status: newStatus, confirmedAt: now }),
+      },
+    });
+    if (confirms) {
+      await tx.registration.updateMany({
+        where: { groupLeaderId: registration.id, status: RegistrationStatus.PENDING },
+        data: { status: newStatus, confirmedAt: now },
+      });
+      confirmedRegistrationId = registration.id;
+    }
+
+    await recordRegistrationHistory(tx, {
+      userId: pendingPayment.userId,
+      eventId: pendingPayment.eventId,
+      action: RegistrationAction.PAYMENT_COMPLETED,
+      previousStatus: registration.status,
+      newStatus,
+      performedById: input.verifiedById,
+    });
+  }
+
+  return ok({ payment, confirmedRegistrationId });
+}
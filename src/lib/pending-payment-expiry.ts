@@ -0,0 +1,281 @@
+/**
+ * Pending payment expiry and reminders
+ *
+ * A pending payment holds the seats of an unpaid registration until its
+ * `expiresAt`. Shortly before that the attendee gets a reminder
+ * (`payments.reminder_days_before_expiry` days ahead); once it passes the
+ * payment is EXPIRED, the still-PENDING registration and its group are
+ * cancelled, and the freed seats go to the waiting list. Registrations that
+ * staff already confirmed keep their seats, and payments the attendee claimed
+ * to have sent do not expire while the claim awaits verification.
+ */
+
+import {
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  type Prisma,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockEvent } from "./event-availability";
+import { recordRegistrationHistory, type RegistrationHistoryEntry } from "./registration-history";
+import { promoteFromWaitingList } from "./waiting-list";
+import { getRegistrationRecipient } from "./registration-notifications";
+import { sendTemplatedEmail } from "./notification-templates";
+import { getNumberConfig } from "./system-config";
+import { formatCurrency, formatDate, formatDateTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { OPEN_PAYMENT_CLAIM } from "./payments";
+import { logger } from "./logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const notificationInclude = {
+  user: { select: { email: true, name: true, preferredLocale: true } },
+  event: { select: { id: true, title: true, slug: true, startDate: true, timezone: true } },
+} satisfies Prisma.PendingPaymentInclude;
+
+type PendingPaymentForNotification = Prisma.PendingPaymentGetPayload<{
+  include: typeof notificationInclude;
+}>;
+
+function getPaymentRecipient(pendingPayment: PendingPaymentForNotification) {
+  return getRegistrationRecipient({
+    userId: pendingPayment.userId,
+    guestEmail: null,
+    guestName: null,
+    user: pendingPayment.user,
+  });
+}
+
+export interface ExpiredPendingPaymentsResult {
+  expired: number;
+  cancelledRegistrations: number;
+  promoted: number;
+}
+
+/**
+ * Expires one overdue pending payment and cancels the registrations whose
+ * seats it held
+ *
+ * @returns Number of cancelled registrations, or null when the payment was
+ *   no longer open (paid, cancelled or claimed in the meantime)
+ */
+async function expirePendingPayment(
+  pendingPaymentId: string,
+  eventId: string,
+  now: Date
+): Promise<number | null> {
+  return prisma.$transaction(async (tx) => {
+    await lockEvent(tx, eventId);
+
+    const pendingPayment = await tx.pendingPayment.findUnique({
+      where: { id: pendingPaymentId },
+      include: {
+        registrations: true,
+        payments: { where: OPEN_PAYMENT_CLAIM, select: { id: true } },
+      },
+    });
+    if (
+      !pendingPayment ||
+      pendingPayment.status !== PendingPaymentStatus.PENDING ||
+      pendingPayment.payments.length > 0
+    ) {
+      return null;
+    }
+
+    await tx.pendingPayment.update({
+      where: { id: pendingPayment.id },
+      data: { status: PendingPaymentStatus.EXPIRED },
+    });
+
+    const history: RegistrationHistoryEntry[] = [
+      {
+        userId: pendingPayment.userId,
+        eventId,
+        action: RegistrationAction.PENDING_PAYMENT_EXPIRED,
+        previousStatus: PendingPaymentStatus.PENDING,
+        newStatus: PendingPaymentStatus.EXPIRED,
+        reason: `Payment deadline ${pendingPayment.expiresAt.toISOString()} passed`,
+      },
+    ];
+
+    const leaders = pendingPayment.registrations.filter(
+      (registration) =>
+        registration.groupLeaderId === null && registration.status === RegistrationStatus.PENDING
+    );
+    let cancelled = 0;
+
+    if (leaders.length > 0) {
+      const leaderIds = leaders.map((registration) => registration.id);
+      const members = await tx.registration.findMany({
+        where: { groupLeaderId: { in: leaderIds }, status: { not: RegistrationStatus.CANCELLED } },
+      });
+      const registrations = [...leaders, ...members];
+
+      const { count } = await tx.registration.updateMany({
+        where: { id: { in: registrations.map((registration) => registration.id) } },
+        data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+      });
+      cancelled = count;
+
+      for (const registration of registrations) {
+        if (!registration.userId) continue;
+        history.push({
+          userId: registration.userId,
+          eventId,
+          action: RegistrationAction.CANCELLED,
+          previousStatus: registration.status,
+          newStatus: RegistrationStatus.CANCELLED,
+          reason: "Payment not received by the deadline",
+        });
+      }
+    }
+
+    await recordRegistrationHistory(tx, history);
+    return cancelled;
+  });
+}
+
+/**
+ * Expires pending payments whose deadline passed, releases their seats and
+ * promotes waiting list entries into them
+ */
+export async function expireOverduePendingPayments(
+  now: Date = new Date()
+): Promise<ExpiredPendingPaymentsResult> {
+  const overdue = await prisma.pendingPayment.findMany({
+    where: {
+      status: PendingPaymentStatus.PENDING,
+      expiresAt: { lte: now },
+      payments: { none: OPEN_PAYMENT_CLAIM },
+    },
+    select: { id: true, eventId: true },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  const affectedEvents = new Set<string>();
+  const notify: string[] = [];
+  let expired = 0;
+  let cancelledRegistrations = 0;
+
+  for (const { id, eventId } of overdue) {
+    const cancelled = await expirePendingPayment(id, eventId, now);
+    if (cancelled === null) continue;
+
+    expired++;
+    if (cancelled > 0) {
+      cancelledRegistrations += cancelled;
+      affectedEvents.add(eventId);
+      notify.push(id);
+    }
+  }
+
+  let promoted = 0;
+  for (const eventId of affectedEvents) {
+    promoted += await promoteFromWaitingList(eventId);
+  }
+
+  for (const id of notify) {
+    await sendPendingPaymentExpired(id);
+  }
+
+  if (expired > 0) {
+    logger.info(
+      `Expired ${expired} pending payments, cancelled ${cancelledRegistrations} registrations, promoted ${promoted}`
+    );
+  }
+
+  return { expired, cancelledRegistrations, promoted };
+}
+
+async function sendPendingPaymentExpired(pendingPaymentId: string): Promise<void> {
+  const pendingPayment = await prisma.pendingPayment.findUnique({
+    where: { id: pendingPaymentId },
+    include: notificationInclude,
+  });
+  if (!pendingPayment) return;
+
+  const recipient = getPaymentRecipient(pendingPayment);
+  if (!recipient) return;
+
+  const { event } = pendingPayment;
+  const result = await sendTemplatedEmail({
+    templateName: "pending_payment_expired",
+    recipient,
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+      eventUrl: `${getBaseUrl()}/${recipient.locale}/events/${event.slug}`,
+    },
+    metadata: { pendingPaymentId },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send payment expiry notice ${pendingPaymentId}: ${result.error}`);
+  }
+}
+
+/**
+ * Emails a reminder for open pending payments that expire within
+ * `payments.reminder_days_before_expiry` days, once per payment
+ *
+ * @returns Number of reminders sent
+ */
+export async function sendPendingPaymentReminders(now: Date = new Date()): Promise<number> {
+  const days = await getNumberConfig("payments.reminder_days_before_expiry", 2);
+  if (days <= 0) return 0;
+
+  const due = await prisma.pendingPayment.findMany({
+    where: {
+      status: PendingPaymentStatus.PENDING,
+      reminderSentAt: null,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + days * DAY_MS) },
+      payments: { none: OPEN_PAYMENT_CLAIM },
+    },
+    include: notificationInclude,
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let sent = 0;
+  for (const pendingPayment of due) {
+    // Claim the reminder first so overlapping runs do not email twice
+    const { count } = await prisma.pendingPayment.updateMany({
+      where: { id: pendingPayment.id, reminderSentAt: null },
+      data: { reminderSentAt: now },
+    });
+    if (count === 0) continue;
+
+    const recipient = getPaymentRecipient(pendingPayment);
+    if (!recipient) continue;
+
+    const { event } = pendingPayment;
+    const result = await sendTemplatedEmail({
+      templateName: "payment_reminder",
+      recipient,
+      eventId: event.id,
+      variables: {
+        eventTitle: event.title,
+        eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+        amount: formatCurrency(
+          Number(pendingPayment.amount),
+          pendingPayment.currency,
+          recipient.locale
+        ),
+        variableSymbol: pendingPayment.variableSymbol,
+        paymentDeadline: formatDateTime(pendingPayment.expiresAt, recipient.locale, event.timezone),
+        eventUrl: `${getBaseUrl()}/${recipient.locale}/events/${event.slug}`,
+      },
+      metadata: { pendingPaymentId: pendingPayment.id },
+    });
+
+    if (result.success) {
+      sent++;
+    } else {
+      logger.warn(`Failed to send payment reminder ${pendingPayment.id}: ${result.error}`);
+    }
+  }
+
+  return sent;
+}
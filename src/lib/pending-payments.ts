@@ -0,0 +1,173 @@
+/**
+ * Pending payment service
+ *
+ * Creates the `PendingPayment` rows that hold a seat for a paid event until
+ * the attendee's bank transfer arrives. Each one gets a variable symbol the
+ * transfer is matched by.
+ */
+
+import {
+  PaymentMethod,
+  PendingPaymentStatus,
+  Prisma,
+  RegistrationAction,
+  type Event,
+  type PendingPayment,
+  type PendingPaymentType,
+} from "@prisma/client";
+import { recordRegistrationHistory } from "./registration-history";
+import { toPricingMetadata, type PriceQuote } from "./pricing";
+import { getNumberConfig } from "./system-config";
+import { allocateVariableSymbol } from "./variable-symbols";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PayableEvent = Pick<
+  Event,
+  "id" | "title" | "price" | "currency" | "bankAccountId" | "requiresPayment" | "startDate"
+>;
+
+/**
+ * Whether registering for the event may cost money
+ *
+ * The base price alone does not tell, since price tiers (a VIP ticket, say)
+ * may charge for an event whose base price is zero; what a registration
+ * costs, possibly nothing, comes from its quote.
+ */
+export function isPaidEvent(event: Pick<Event, "requiresPayment">): boolean {
+  return event.requiresPayment;
+}
+
+/**
+ * Computes the payment deadline: the configured number of days from now,
+ * but never later than the event start
+ */
+export async function getPendingPaymentDeadline(
+  event: Pick<Event, "startDate">,
+  now: Date = new Date()
+): Promise<Date> {
+  const days = await getNumberConfig("payments.pending_payment_days", 7);
+  const deadline = new Date(now.getTime() + days * DAY_MS);
+  return deadline < event.startDate ? deadline : event.startDate;
+}
+
+/**
+ * Price of the given number of seats
+ */
+export function getSeatsAmount(event: Pick<Event, "price">, seats: number): Prisma.Decimal {
+  return (event.price ?? new Prisma.Decimal(0)).mul(seats);
+}
+
+export interface CreatePendingPaymentInput {
+  userId: string;
+  event: PayableEvent;
+  type: PendingPaymentType;
+  /** Seats paid for (the whole group for group registrations) */
+  seats?: number;
+  performedById?: string | null;
+  metadata?: Prisma.InputJsonObject;
+  /** Price of the seats; without one they are charged at the event's base price */
+  quote?: PriceQuote;
+}
+
+/**
+ * Whether a re-opened pending payment may keep its variable symbol
+ *
+ * A processed payment's symbol belongs to the `Payment` it became, and a
+ * symbol already on a payment (such as an attendee's claim) is never reused.
+ */
+async function keepsVariableSymbol(
+  tx: Prisma.TransactionClient,
+  pendingPayment: PendingPayment
+): Promise<boolean> {
+  const { status, variableSymbol } = pendingPayment;
+  if (!variableSymbol || status === PendingPaymentStatus.PROCESSED) {
+    return false;
+  }
+
+  const payment = await tx.payment.findUnique({ where: { variableSymbol }, select: { id: true } });
+  return payment === null;
+}
+
+/**
+ * Creates (or re-opens) the pending payment for a user's seat at an event
+ *
+ * Pending payments are unique per user, event and type, so an earlier
+ * cancelled, expired or processed row is reset instead of inserting a new
+ * one. It keeps its variable symbol unless the symbol already went to a
+ * payment, in which case a fresh one is allocated. A still open row is only
+ * updated to the new amount and deadline. A quote's breakdown is stored
+ * under `metadata.pricing`.
+ */
+export async function createPendingPayment(
+  tx: Prisma.TransactionClient,
+  input: CreatePendingPaymentInput
+): Promise<PendingPayment> {
+  const { userId, event, type, quote } = input;
+  const metadata = quote
+    ? { ...input.metadata, pricing: toPricingMetadata(quote) }
+    : input.metadata;
+
+  const data = {
+    amount: quote ? quote.total : getSeatsAmount(event, input.seats ?? 1),
+    currency: event.currency,
+    status: PendingPaymentStatus.PENDING,
+    paymentMethod: PaymentMethod.BANK_TRANSFER,
+    bankAccountId: event.bankAccountId,
+    expiresAt: await getPendingPaymentDeadline(event),
+    description: event.title,
+    ...(metadata && { metadata }),
+  };
+
+  const existing = await tx.pendingPayment.findUnique({
+    where: { userId_eventId_type: { userId, eventId: event.id, type } },
+  });
+
+  let pendingPayment: PendingPayment;
+  if (!existing) {
+    pendingPayment = await tx.pendingPayment.create({
+      data: { ...data, userId, eventId: event.id, type },
+    });
+  } else if (existing.status === PendingPaymentStatus.PENDING) {
+    pendingPayment = await tx.pendingPayment.update({ where: { id: existing.id }, data });
+  } else {
+    pendingPayment = await tx.pendingPayment.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        createdAt: new Date(),
+        cancelledAt: null,
+        processedAt: null,
+        reminderSentAt: null,
+        ...(!(await keepsVariableSymbol(tx, existing)) && {
+          variableSymbol: null,
+          qrCodeData: null,
+          qrCodeUrl: null,
+        }),
+      },
+    });
+  }
+
+  if (!pendingPayment.variableSymbol) {
+    pendingPayment = await tx.pendingPayment.update({
+      where: { id: pendingPayment.id },
+      data: {
+        variableSymbol: await allocateVariableSymbol(tx, {
+          eventId: event.id,
+          userId,
+          pendingPaymentId: pendingPayment.id,
+        }),
+      },
+    });
+  }
+
+  await recordRegistrationHistory(tx, {
+    userId,
+    eventId: event.id,
+    action: RegistrationAction.PENDING_PAYMENT_CREATED,
+    newStatus: PendingPaymentStatus.PENDING,
+    performedById: input.performedById ?? null,
+  });
+
+  return pendingPayment;
+}
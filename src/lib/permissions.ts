@@ -0,0 +1,132 @@
+/**
+ * Permission registry
+ *
+ * Every permission the application checks, with a short description for
+ * role management. Roles (in the database or as Kinde claims) grant them by
+ * name or by wildcard: "events.*" grants every events permission and "*"
+ * grants everything.
+ *
+ * Free of server imports, so client components can use it as well.
+ */
+
+export const PERMISSIONS = {
+  "events.view": "View published events",
+  "events.register": "Register for events",
+  "events.early_access": "Register before registration opens to everyone",
+  "events.create": "Create events",
+  "events.update": "Edit events, their prices and discount codes",
+  "events.delete": "Delete events",
+  "events.manage_registrations": "Approve, reject and manage registrations",
+  "events.check_in": "Check attendees in",
+  "events.export_data": "Export event and attendee data",
+
+  "users.view": "View user accounts",
+  "users.moderate": "Moderate user accounts",
+  "users.view_registrations": "View the registrations of users",
+  "users.export_data": "Export user data",
+  "users.manage_roles": "Grant and revoke user roles",
+
+  "payments.view": "View payments and revenue",
+  "payments.verify": "Verify and reconcile payments",
+  "payments.refund": "Refund payments",
+  "payments.manage_accounts": "Manage payment accounts",
+
+  "bankaccounts.view": "View bank accounts",
+  "bankaccounts.create": "Add bank accounts",
+  "bankaccounts.update": "Edit bank accounts",
+  "bankaccounts.delete": "Delete bank accounts",
+
+  "reports.view": "View reports",
+  "reports.financial": "View financial reports",
+  "reports.analytics": "View analytics",
+  "reports.export": "Export reports",
+
+  "documents.view": "View event documents",
+  "documents.upload": "Upload event documents",
+  "documents.delete": "Delete event documents",
+
+  "categories.create": "Create event categories",
+  "categories.update": "Edit event categories",
+  "categories.delete": "Delete event categories",
+
+  "audit.view": "View the audit log",
+  "audit.export": "Export the audit log",
+
+  "profile.view": "View their own profile",
+  "profile.update": "Edit their own profile",
+
+  "videos.view": "View videos",
+  "videos.create": "Create videos",
+  "videos.react": "React to videos",
+
+  "video_categories.create": "Create video categories",
+  "video_categories.update": "Edit video categories",
+  "video_categories.delete": "Delete video categories",
+
+  "admin.roles": "Create and edit roles and their permissions",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * Permission groups ("events", "users", ...), in registry order
+ */
+export const PERMISSION_GROUPS = [
+  ...new Set(PERMISSION_NAMES.map((permission) => permission.split(".")[0] ?? permission)),
+];
+
+/**
+ * Whether a string names a registered permission
+ */
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+/**
+ * The registered permissions with their descriptions, per group
+ */
+export function getPermissionGroups(): {
+  group: string;
+  permissions: { name: Permission; description: string }[];
+}[] {
+  return PERMISSION_GROUPS.map((group) => ({
+    group,
+    permissions: PERMISSION_NAMES.filter((permission) => permission.startsWith(`${group}.`)).map(
+      (permission) => ({ name: permission, description: PERMISSIONS[permission] })
+    ),
+  }));
+}
+
+/**
+ * Whether a string is a grant a role may hold: a registered permission, the
+ * wildcard of a permission group ("events.*") or "*"
+ */
+export function isPermissionGrant(value: string): boolean {
+  if (value === "*" || isPermission(value)) return true;
+  return value.endsWith(".*") && PERMISSION_GROUPS.includes(value.slice(0, -2));
+}
+
+/**
+ * Whether a single grant (a permission name or wildcard) covers the permission
+ */
+function grantCovers(grant: string, permission: Permission): boolean {
+  if (grant === "*" || grant === permission) return true;
+  return grant.endsWith(".*") && permission.startsWith(grant.slice(0, -1));
+}
+
+/**
+ * Whether any of the grants covers the permission
+ */
+export function grantsPermission(grants: readonly string[], permission: Permission): boolean {
+  return grants.some((grant) => grantCovers(grant, permission));
+}
+
+/**
+ * The registered permissions the grants cover, with wildcards expanded;
+ * unknown names are dropped
+ */
+export function expandPermissions(grants: readonly string[]): Permission[] {
+  return PERMISSION_NAMES.filter((permission) => grantsPermission(grants, permission));
+}
@@ -0,0 +1,367 @@
+/**
+ * Registration pricing
+ *
+ * An event's `price` is its base seat price. Price tiers offer other seat
+ * prices under conditions (registered before a date, holding a role, a
+ * minimum group size, a registration or ticket type), and a discount code
+ * takes a share of the resulting subtotal off.
+ *
+ * Without a ticket type the attendee pays the cheapest of the base price and
+ * every applicable tier. A ticket type (student, VIP, corporate) is priced by
+ * its own tiers only, since it may cost more than the base price; it is not
+ * available when none of them applies.
+ *
+ * The registration engine quotes inside its transaction and stores the
+ * breakdown under `metadata.pricing` of the pending payment.
+ */
+
+import {
+  Prisma,
+  RegistrationType,
+  type DiscountCode,
+  type Event,
+  type PriceTier,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { findUsableDiscountCode, getDiscountAmount } from "./discount-codes";
+import { isPaidEvent } from "./pending-payments";
+import { getUserRoles } from "./roles";
+import { omitUndefined } from "./utils";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import {
+  TICKET_TYPES,
+  type CreatePriceTierInput,
+  type PriceQuoteQuery,
+  type TicketType,
+  type UpdatePriceTierInput,
+} from "./validations/pricing";
+
+export type PriceTierConditions = Pick<
+  PriceTier,
+  | "id"
+  | "name"
+  | "price"
+  | "validUntil"
+  | "registrationType"
+  | "roleId"
+  | "minGroupSize"
+  | "isActive"
+>;
+
+export interface PricingContext {
+  /** When the registration is priced (registration or waiting list join time) */
+  at: Date;
+  seats: number;
+  /** Roles the attendee holds */
+  roleIds: readonly string[];
+  ticketType?: TicketType | null | undefined;
+}
+
+export interface UnitPrice {
+  unitPrice: Prisma.Decimal;
+  tier: Pick<PriceTier, "id" | "name"> | null;
+}
+
+export interface PriceQuote extends UnitPrice {
+  currency: string;
+  seats: number;
+  basePrice: Prisma.Decimal;
+  ticketType: TicketType | null;
+  subtotal: Prisma.Decimal;
+  discount: Prisma.Decimal;
+  discountCode: Pick<DiscountCode, "id" | "code"> | null;
+  total: Prisma.Decimal;
+}
+
+/**
+ * Registration type of a registration priced without a ticket type
+ */
+export function groupRegistrationType(seats: number): RegistrationType {
+  return seats > 1 ? RegistrationType.GROUP : RegistrationType.INDIVIDUAL;
+}
+
+/**
+ * The ticket type a registration was priced with, if any
+ */
+export function ticketTypeOf(registrationType: RegistrationType | null): TicketType | null {
+  return TICKET_TYPES.find((type) => type === registrationType) ?? null;
+}
+
+/**
+ * Whether every condition set on the tier holds
+ */
+export function isPriceTierApplicable(tier: PriceTierConditions, context: PricingContext): boolean {
+  if (!tier.isActive) return false;
+  if (tier.validUntil && tier.validUntil < context.at) return false;
+  if (tier.roleId && !context.roleIds.includes(tier.roleId)) return false;
+  if (tier.minGroupSize !== null && context.seats < tier.minGroupSize) return false;
+  if (tier.registrationType) {
+    return (
+      tier.registrationType === context.ticketType ||
+      tier.registrationType === groupRegistrationType(context.seats)
+    );
+  }
+  return true;
+}
+
+/**
+ * Picks the seat price for a registration
+ *
+ * @returns The price and the tier it comes from (null for the base price),
+ *   or null when the chosen ticket type has no applicable tier
+ */
+export function selectUnitPrice(
+  basePrice: Prisma.Decimal,
+  tiers: PriceTierConditions[],
+  context: PricingContext
+): UnitPrice | null {
+  const applicable = tiers.filter((tier) => isPriceTierApplicable(tier, context));
+  const { ticketType } = context;
+
+  const candidates = ticketType
+    ? applicable.filter((tier) => tier.registrationType === ticketType)
+    : applicable;
+
+  let best: UnitPrice | null = ticketType ? null : { unitPrice: basePrice, tier: null };
+  for (const tier of candidates) {
+    if (!best || tier.price.lessThan(best.unitPrice)) {
+      best = { unitPrice: tier.price, tier: { id: tier.id, name: tier.name } };
+    }
+  }
+  return best;
+}
+
+export interface QuoteRegistrationInput {
+  event: Pick<Event, "id" | "price" | "currency">;
+  /** The attendee; guests only get untyped, role-free tiers */
+  userId: string | null;
+  seats: number;
+  ticketType?: TicketType | null | undefined;
+  discountCode?: string | null | undefined;
+  /** Defaults to now */
+  at?: Date;
+  /** Registration being re-priced, whose own discount code use does not count */
+  excludeRegistrationId?: string | null;
+}
+
+/**
+ * Prices a registration for the given number of seats
+ */
+export async function quoteRegistrationPrice(
+  db: Prisma.TransactionClient,
+  input: QuoteRegistrationInput
+): Promise<ServiceResult<PriceQuote>> {
+  const { event, seats } = input;
+  const at = input.at ?? new Date();
+  const basePrice = event.price ?? new Prisma.Decimal(0);
+
+  const tiers = await db.priceTier.findMany({ where: { eventId: event.id, isActive: true } });
+  const roleIds = input.userId
+    ? (await getUserRoles(db, input.userId, at)).map(({ id }) => id)
+    : [];
+
+  const ticketType = input.ticketType ?? null;
+  const price = selectUnitPrice(basePrice, tiers, { at, seats, roleIds, ticketType });
+  if (!price) {
+    return fail("TICKET_TYPE_UNAVAILABLE", "This ticket type is not available to you", 409, {
+      ticketType,
+    });
+  }
+
+  const subtotal = price.unitPrice.mul(seats);
+  let discount = new Prisma.Decimal(0);
+  let discountCode: PriceQuote["discountCode"] = null;
+
+  if (input.discountCode) {
+    const code = await findUsableDiscountCode(db, input.discountCode, {
+      event,
+      at,
+      excludeRegistrationId: input.excludeRegistrationId ?? null,
+    });
+    if (!code.success) return code;
+
+    discount = getDiscountAmount(code.data, subtotal);
+    discountCode = { id: code.data.id, code: code.data.code };
+  }
+
+  return ok({
+    ...price,
+    currency: event.currency,
+    seats,
+    basePrice,
+    ticketType,
+    subtotal,
+    discount,
+    discountCode,
+    total: subtotal.sub(discount),
+  });
+}
+
+/**
+ * Price the user would pay for registering now, shown before they register
+ */
+export async function previewRegistrationPrice(
+  eventId: string,
+  userId: string,
+  query: PriceQuoteQuery
+): Promise<ServiceResult<PriceQuote>> {
+  return prisma.$transaction(async (tx): Promise<ServiceResult<PriceQuote>> => {
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, price: true, currency: true, requiresPayment: true },
+    });
+    if (!event) {
+      return fail("EVENT_NOT_FOUND", "Event not found", 404);
+    }
+    if (!isPaidEvent(event)) {
+      return fail("EVENT_NOT_PAID", "Registration for this event is free", 409);
+    }
+
+    return quoteRegistrationPrice(tx, {
+      event,
+      userId,
+      seats: query.seats,
+      ticketType: query.ticketType,
+      discountCode: query.discountCode,
+    });
+  });
+}
+
+/**
+ * Prices a registration again that was priced before, e.g. after its group
+ * size changed or when it leaves the waiting list
+ *
+ * A discount code or ticket type that no longer applies is dropped instead
+ * of failing, since the attendee already holds their place.
+ */
+export async function requoteRegistrationPrice(
+  db: Prisma.TransactionClient,
+  input: QuoteRegistrationInput
+): Promise<PriceQuote> {
+  const quoted = await quoteRegistrationPrice(db, input);
+  if (quoted.success) return quoted.data;
+
+  if (input.discountCode) {
+    return requoteRegistrationPrice(db, { ...input, discountCode: null });
+  }
+  if (input.ticketType) {
+    return requoteRegistrationPrice(db, { ...input, ticketType: null });
+  }
+  throw new Error(`Failed to price registration: ${quoted.error.code}`);
+}
+
+/**
+ * The quote as stored under `metadata.pricing` of a pending payment
+ */
+export function toPricingMetadata(quote: PriceQuote): Prisma.InputJsonObject {
+  return {
+    currency: quote.currency,
+    seats: quote.seats,
+    basePrice: quote.basePrice.toFixed(2),
+    unitPrice: quote.unitPrice.toFixed(2),
+    tier: quote.tier,
+    ticketType: quote.ticketType,
+    subtotal: quote.subtotal.toFixed(2),
+    discount: quote.discount.toFixed(2),
+    discountCode: quote.discountCode?.code ?? null,
+    total: quote.total.toFixed(2),
+  };
+}
+
+function mapPriceTierWriteError(error: unknown): ServiceResult<never> {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2003") {
+      return fail("ROLE_NOT_FOUND", "Role not found", 404);
+    }
+    if (error.code === "P2025") {
+      return fail("PRICE_TIER_NOT_FOUND", "Price tier not found", 404);
+    }
+  }
+
+  throw error;
+}
+
+/**
+ * Tiers shown on the event page: active ones that have not run out, cheapest first
+ */
+export async function getAdvertisedPriceTiers(
+  eventId: string,
+  now: Date = new Date()
+): Promise<Pick<PriceTier, "id" | "name" | "price" | "validUntil" | "registrationType">[]> {
+  return prisma.priceTier.findMany({
+    where: { eventId, isActive: true, OR: [{ validUntil: null }, { validUntil: { gt: now } }] },
+    select: { id: true, name: true, price: true, validUntil: true, registrationType: true },
+    orderBy: [{ price: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Price tiers of an event, cheapest first
+ */
+export async function listPriceTiers(eventId: string): Promise<PriceTier[]> {
+  return prisma.priceTier.findMany({
+    where: { eventId },
+    orderBy: [{ price: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Adds a price tier to an event
+ */
+export async function createPriceTier(
+  eventId: string,
+  input: CreatePriceTierInput
+): Promise<ServiceResult<PriceTier>> {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+  if (!event) {
+    return fail("EVENT_NOT_FOUND", "Event not found", 404);
+  }
+
+  try {
+    const tier = await prisma.priceTier.create({
+      data: { ...omitUndefined(input), eventId },
+    });
+    logger.info(`Added price tier ${tier.id} to event ${eventId}`);
+    return ok(tier);
+  } catch (error) {
+    return mapPriceTierWriteError(error);
+  }
+}
+
+/**
+ * Partially updates a price tier; unpaid registrations keep the price they
+ * were quoted
+ */
+export async function updatePriceTier(
+  eventId: string,
+  tierId: string,
+  input: UpdatePriceTierInput
+): Promise<ServiceResult<PriceTier>> {
+  const existing = await prisma.priceTier.findFirst({ where: { id: tierId, eventId } });
+  if (!existing) {
+    return fail("PRICE_TIER_NOT_FOUND", "Price tier not found", 404);
+  }
+
+  try {
+    return ok(await prisma.priceTier.update({ where: { id: tierId }, data: omitUndefined(input) }));
+  } catch (error) {
+    return mapPriceTierWriteError(error);
+  }
+}
+
+/**
+ * Deletes a price tier; payment breakdowns keep its name
+ */
+export async function deletePriceTier(
+  eventId: string,
+  tierId: string
+): Promise<ServiceResult<Pick<PriceTier, "id">>> {
+  const { count } = await prisma.priceTier.deleteMany({ where: { id: tierId, eventId } });
+  if (count === 0) {
+    return fail("PRICE_TIER_NOT_FOUND", "Price tier not found", 404);
+  }
+
+  logger.info(`Deleted price tier ${tierId} of event ${eventId}`);
+  return ok({ id: tierId });
+}
@@ -0,0 +1,418 @@
+/**
+ * Refund workflow
+ *
+ * Staff request a full or partial refund of a completed payment; the payment
+ * moves to REFUND_PENDING until the outbound bank transfer is recorded, then
+ * to PARTIALLY_REFUNDED or REFUNDED depending on how much has been returned.
+ * A payment has at most one open refund at a time. Every step is written to
+ * the audit trail and the attendee's registration history, and the attendee
+ * is emailed once the money is on its way.
+ */
+
+import {
+  AuditAction,
+  EventStatus,
+  PaymentStatus,
+  Prisma,
+  RefundStatus,
+  RegistrationAction,
+  type Refund,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockPayment } from "./event-availability";
+import { recordAuditLog } from "./audit";
+import { recordRegistrationHistory } from "./registration-history";
+import { getRegistrationRecipient } from "./registration-notifications";
+import { sendTemplatedEmail } from "./notification-templates";
+import { formatCurrency, formatDate } from "./formatters";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type {
+  RefundEventPaymentsInput,
+  RequestRefundInput,
+  UpdateRefundInput,
+} from "./validations/payment";
+
+/**
+ * Payment statuses a new refund can be requested from
+ */
+export const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Amount already returned to the attendee by completed refunds
+ */
+async function getRefundedAmount(
+  tx: Prisma.TransactionClient,
+  paymentId: string
+): Promise<Prisma.Decimal> {
+  const { _sum } = await tx.refund.aggregate({
+    where: { paymentId, status: RefundStatus.COMPLETED },
+    _sum: { amount: true },
+  });
+  return _sum.amount ?? new Prisma.Decimal(0);
+}
+
+function toAuditData(refund: Refund): Prisma.InputJsonObject {
+  return {
+    paymentId: refund.paymentId,
+    amount: refund.amount.toFixed(2),
+    currency: refund.currency,
+    status: refund.status,
+    reason: refund.reason,
+    bankReference: refund.bankReference,
+  };
+}
+
+export type RequestRefundOptions = RequestRefundInput & {
+  paymentId: string;
+  requestedById: string;
+};
+
+/**
+ * Requests a refund of a completed payment
+ *
+ * The recipient account defaults to the account the payment came from, when
+ * it was matched from a bank statement.
+ */
+export async function requestRefund(input: RequestRefundOptions): Promise<ServiceResult<Refund>> {
+  const { paymentId, requestedById } = input;
+
+  return prisma.$transaction(async (tx): Promise<ServiceResult<Refund>> => {
+    if (!(await lockPayment(tx, paymentId))) {
+      return fail("PAYMENT_NOT_FOUND", "Payment not found", 404);
+    }
+
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        bankTransactions: {
+          where: { counterpartyAccount: { not: null } },
+          select: { counterpartyAccount: true, counterpartyName: true },
+          take: 1,
+        },
+      },
+    });
+
+    if (payment.status === PaymentStatus.REFUND_PENDING) {
+      return fail("REFUND_IN_PROGRESS", "This payment already has a refund in progress", 409);
+    }
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      return fail(
+        "PAYMENT_NOT_REFUNDABLE",
+        `A ${payment.status.toLowerCase()} payment cannot be refunded`,
+        409,
+        { status: payment.status }
+      );
+    }
+
+    const refundable = payment.amount.minus(await getRefundedAmount(tx, paymentId));
+    const amount = input.amount !== undefined ? new Prisma.Decimal(input.amount) : refundable;
+    if (amount.lessThanOrEqualTo(0) || amount.greaterThan(refundable)) {
+      return fail(
+        "REFUND_EXCEEDS_PAYMENT",
+        `At most ${refundable.toFixed(2)} ${payment.currency} can be refunded`,
+        400,
+        { refundable: refundable.toFixed(2) }
+      );
+    }
+
+    const source = payment.bankTransactions[0];
+    const refund = await tx.refund.create({
+      data: {
+        paymentId,
+        amount,
+        currency: payment.currency,
+        reason: input.reason,
+        recipientName: input.recipientName ?? source?.counterpartyName ?? null,
+        recipientAccount: input.recipientAccount ?? source?.counterpartyAccount ?? null,
+        requestedById,
+      },
+    });
+
+    await tx.payment.update({
+      where: { id: paymentId },
+      data: { status: PaymentStatus.REFUND_PENDING },
+    });
+
+    await recordAuditLog(tx, {
+      userId: requestedById,
+      action: AuditAction.CREATE,
+      resource: "Refund",
+      resourceId: refund.id,
+      newData: toAuditData(refund),
+      description: `Refund of ${amount.toFixed(2)} ${payment.currency} requested for payment ${paymentId}: ${input.reason}`,
+    });
+
+    if (payment.eventId) {
+      await recordRegistrationHistory(tx, {
+        userId: payment.userId,
+        eventId: payment.eventId,
+        action: RegistrationAction.REFUND_REQUESTED,
+        previousStatus: payment.status,
+        newStatus: PaymentStatus.REFUND_PENDING,
+        reason: input.reason,
+        performedById: requestedById,
+      });
+    }
+
+    return ok(refund);
+  });
+}
+
+export type UpdateRefundOptions = UpdateRefundInput & {
+  refundId: string;
+  performedById: string;
+};
+
+/**
+ * Records the outbound transfer of a pending refund, or cancels it
+ */
+export async function updateRefund(input: UpdateRefundOptions): Promise<ServiceResult<Refund>> {
+  const { refundId, performedById } = input;
+
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<Refund>> => {
+    const found = await tx.refund.findUnique({ where: { id: refundId } });
+    if (!found) {
+      return fail("REFUND_NOT_FOUND", "Refund not found", 404);
+    }
+
+    await lockPayment(tx, found.paymentId);
+
+    // Re-read under the payment lock so a concurrent update is seen
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: { payment: true },
+    });
+    if (refund.status !== RefundStatus.PENDING) {
+      return fail("REFUND_NOT_PENDING", `This refund is ${refund.status.toLowerCase()}`, 409, {
+        status: refund.status,
+      });
+    }
+
+    const { payment } = refund;
+    const now = new Date();
+    const refunded = await getRefundedAmount(tx, payment.id);
+
+    let updated: Refund;
+    let paymentStatus: PaymentStatus;
+    if (input.action === "COMPLETE") {
+      updated = await tx.refund.update({
+        where: { id: refundId },
+        data: {
+          status: RefundStatus.COMPLETED,
+          bankReference: input.bankReference,
+          transferredAt: input.transferredAt ?? now,
+          ...(input.recipientAccount && { recipientAccount: input.recipientAccount }),
+          completedById: performedById,
+          completedAt: now,
+          notes: input.notes ?? null,
+        },
+      });
+      paymentStatus = refunded.plus(refund.amount).greaterThanOrEqualTo(payment.amount)
+        ? PaymentStatus.REFUNDED
+        : PaymentStatus.PARTIALLY_REFUNDED;
+    } else {
+      updated = await tx.refund.update({
+        where: { id: refundId },
+        data: { status: RefundStatus.CANCELLED, cancelledAt: now, notes: input.notes },
+      });
+      paymentStatus = refunded.greaterThan(0)
+        ? PaymentStatus.PARTIALLY_REFUNDED
+        : PaymentStatus.COMPLETED;
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: paymentStatus,
+        ...(paymentStatus === PaymentStatus.REFUNDED && { refundedAt: updated.transferredAt }),
+      },
+    });
+
+    await recordAuditLog(tx, {
+      userId: performedById,
+      action: AuditAction.UPDATE,
+      resource: "Refund",
+      resourceId: refundId,
+      oldData: toAuditData(refund),
+      newData: toAuditData(updated),
+      changes: { status: { from: refund.status, to: updated.status } },
+      description:
+        input.action === "COMPLETE"
+          ? `Refund of ${refund.amount.toFixed(2)} ${refund.currency} sent (${input.bankReference})`
+          : `Refund of ${refund.amount.toFixed(2)} ${refund.currency} cancelled: ${input.notes}`,
+    });
+
+    if (input.action === "COMPLETE" && payment.eventId) {
+      await recordRegistrationHistory(tx, {
+        userId: payment.userId,
+        eventId: payment.eventId,
+        action: RegistrationAction.PAYMENT_REFUNDED,
+        previousStatus: PaymentStatus.REFUND_PENDING,
+        newStatus: paymentStatus,
+        reason: refund.reason,
+        performedById,
+      });
+    }
+
+    return ok(updated);
+  });
+
+  if (result.success && result.data.status === RefundStatus.COMPLETED) {
+    await sendRefundNotification(result.data.id);
+  }
+
+  return result;
+}
+
+/**
+ * Emails the attendee that their refund has been sent
+ */
+async function sendRefundNotification(refundId: string): Promise<void> {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      payment: {
+        include: {
+          user: { select: { email: true, name: true, preferredLocale: true } },
+          event: { select: { id: true, title: true, startDate: true, timezone: true } },
+        },
+      },
+    },
+  });
+  if (!refund) return;
+
+  const { payment } = refund;
+  const recipient = getRegistrationRecipient({
+    userId: payment.userId,
+    guestEmail: null,
+    guestName: null,
+    user: payment.user,
+  });
+  if (!recipient) return;
+
+  const result = await sendTemplatedEmail({
+    templateName: "payment_refunded",
+    recipient,
+    eventId: payment.eventId,
+    variables: {
+      eventTitle: payment.event?.title ?? payment.description ?? "",
+      eventDate: payment.event
+        ? formatDate(payment.event.startDate, recipient.locale, payment.event.timezone)
+        : "",
+      amount: formatCurrency(Number(refund.amount), refund.currency, recipient.locale),
+      recipientAccount: refund.recipientAccount ?? "",
+      bankReference: refund.bankReference ?? "",
+    },
+    metadata: { refundId, paymentId: payment.id },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send refund notification ${refundId}: ${result.error}`);
+  }
+}
+
+export type RefundEventPaymentsOptions = RefundEventPaymentsInput & {
+  eventId: string;
+  requestedById: string;
+};
+
+export interface BulkRefundResult {
+  requested: number;
+  /** Payments that could not be refunded, e.g. because a refund is already in progress */
+  skipped: { paymentId: string; code: string }[];
+}
+
+/**
+ * Requests a full refund of every completed payment for a cancelled event
+ */
+export async function refundEventPayments(
+  input: RefundEventPaymentsOptions
+): Promise<ServiceResult<BulkRefundResult>> {
+  const event = await prisma.event.findUnique({
+    where: { id: input.eventId },
+    select: { status: true },
+  });
+  if (!event) {
+    return fail("EVENT_NOT_FOUND", "Event not found", 404);
+  }
+  if (event.status !== EventStatus.CANCELLED) {
+    return fail(
+      "EVENT_NOT_CANCELLED",
+      "Only payments for cancelled events can be bulk refunded",
+      409
+    );
+  }
+
+  const payments = await prisma.payment.findMany({
+    where: {
+      eventId: input.eventId,
+      status: { in: [...REFUNDABLE_PAYMENT_STATUSES, PaymentStatus.REFUND_PENDING] },
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const summary: BulkRefundResult = { requested: 0, skipped: [] };
+  for (const { id } of payments) {
+    const result = await requestRefund({
+      paymentId: id,
+      reason: input.reason,
+      requestedById: input.requestedById,
+    });
+
+    if (result.success) {
+      summary.requested++;
+    } else {
+      summary.skipped.push({ paymentId: id, code: result.error.code });
+    }
+  }
+
+  logger.info(
+    `Requested ${summary.requested} refunds for cancelled event ${input.eventId} (${summary.skipped.length} skipped)`
+  );
+
+  return ok(summary);
+}
+
+/**
+ * Refunds of a payment, newest first
+ */
+export async function getPaymentRefunds(paymentId: string): Promise<ServiceResult<Refund[]>> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { refunds: { orderBy: { createdAt: "desc" } } },
+  });
+  if (!payment) {
+    return fail("PAYMENT_NOT_FOUND", "Payment not found", 404);
+  }
+  return ok(payment.refunds);
+}
+
+const pendingRefundInclude = {
+  payment: {
+    select: {
+      id: true,
+      amount: true,
+      variableSymbol: true,
+      user: { select: { id: true, name: true, email: true } },
+      event: { select: { id: true, title: true } },
+    },
+  },
+} satisfies Prisma.RefundInclude;
+
+export type PendingRefund = Prisma.RefundGetPayload<{ include: typeof pendingRefundInclude }>;
+
+/**
+ * Refunds waiting for their outbound transfer, oldest first
+ */
+export async function getPendingRefunds(): Promise<PendingRefund[]> {
+  return prisma.refund.findMany({
+    where: { status: RefundStatus.PENDING },
+    include: pendingRefundInclude,
+    orderBy: { createdAt: "asc" },
+  });
+}
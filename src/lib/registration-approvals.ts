@@ -0,0 +1,316 @@
+/**
+ * Registration approvals
+ *
+ * Registrations for events with `requiresApproval` (and any free registration
+ * left PENDING because `registration.auto_confirm` is off) wait here until an
+ * event manager reviews them. Approving re-checks capacity against the seats
+ * already approved, since pending registrations may outnumber the seats once
+ * the capacity is lowered. Approved paid registrations stay PENDING until the
+ * payment arrives; `approvedAt` tells them apart from the ones still waiting.
+ */
+
+import {
+  PendingPaymentStatus,
+  RegistrationAction,
+  RegistrationStatus,
+  type Event,
+  type Prisma,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockEvent } from "./event-availability";
+import { recordRegistrationHistory, type RegistrationHistoryEntry } from "./registration-history";
+import { sendRegistrationReviewed } from "./registration-notifications";
+import { registrationListInclude, type RegistrationWithUser } from "./registrations";
+import { promoteFromWaitingList } from "./waiting-list";
+import { logger } from "./logger";
+import { ok, type ServiceResult } from "@/types/service";
+import type { ReviewRegistrationsInput } from "./validations/registration";
+
+/**
+ * Group leaders (or individual attendees) whose registration awaits review
+ */
+const awaitingApprovalWhere = {
+  status: RegistrationStatus.PENDING,
+  approvedAt: null,
+  groupLeaderId: null,
+  AND: [
+    // Paid registrations of events without approval only wait for their payment
+    { OR: [{ event: { requiresApproval: true } }, { requiresPayment: false }] },
+    // Seats offered from the waiting list are reviewed once claimed
+    {
+      OR: [
+        { waitingListEntry: { is: null } },
+        { waitingListEntry: { is: { claimedAt: { not: null } } } },
+      ],
+    },
+  ],
+} satisfies Prisma.RegistrationWhereInput;
+
+/**
+ * Seats of registrations that no longer need review
+ */
+function approvedSeatsWhere(eventId: string): Prisma.RegistrationWhereInput {
+  return {
+    eventId,
+    groupLeaderId: null,
+    OR: [
+      { status: { in: [RegistrationStatus.CONFIRMED, RegistrationStatus.ATTENDED] } },
+      { status: RegistrationStatus.PENDING, approvedAt: { not: null } },
+    ],
+  };
+}
+
+export interface ApprovalQueueEvent {
+  event: Pick<Event, "id" | "title" | "slug" | "startDate" | "timezone" | "capacity">;
+  /** Seats taken by confirmed and already approved registrations */
+  approvedSeats: number;
+  registrations: RegistrationWithUser[];
+}
+
+/**
+ * Lists registrations awaiting review, grouped by event (soonest event first,
+ * oldest registration first)
+ */
+export async function getApprovalQueue(): Promise<ApprovalQueueEvent[]> {
+  const registrations = await prisma.registration.findMany({
+    where: { ...awaitingApprovalWhere, event: { startDate: { gt: new Date() } } },
+    include: {
+      ...registrationListInclude,
+      event: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          startDate: true,
+          timezone: true,
+          capacity: true,
+        },
+      },
+    },
+    orderBy: [{ registeredAt: "asc" }, { id: "asc" }],
+  });
+
+  const queue = new Map<string, ApprovalQueueEvent>();
+  for (const { event, ...registration } of registrations) {
+    const entry = queue.get(event.id) ?? { event, approvedSeats: 0, registrations: [] };
+    entry.registrations.push(registration);
+    queue.set(event.id, entry);
+  }
+
+  for (const entry of queue.values()) {
+    const approved = await prisma.registration.aggregate({
+      where: approvedSeatsWhere(entry.event.id),
+      _sum: { groupSize: true },
+    });
+    entry.approvedSeats = approved._sum.groupSize ?? 0;
+  }
+
+  return [...queue.values()].sort(
+    (a, b) => a.event.startDate.getTime() - b.event.startDate.getTime()
+  );
+}
+
+export interface ReviewFailure {
+  registrationId: string;
+  code: string;
+  message: string;
+}
+
+export interface ReviewResult {
+  approved: string[];
+  rejected: string[];
+  failed: ReviewFailure[];
+}
+
+export interface ReviewRegistrationsOptions extends ReviewRegistrationsInput {
+  performedById: string;
+}
+
+/**
+ * Approves or rejects registrations in bulk
+ *
+ * Each event is reviewed in its own transaction under the event lock.
+ * Registrations that cannot be reviewed (already reviewed, or no seats left
+ * to approve them) are reported in `failed` without affecting the rest.
+ */
+export async function reviewRegistrations(
+  input: ReviewRegistrationsOptions
+): Promise<ServiceResult<ReviewResult>> {
+  const { decision, performedById } = input;
+  const reason = input.reason ?? null;
+  const result: ReviewResult = { approved: [], rejected: [], failed: [] };
+
+  const found = await prisma.registration.findMany({
+    where: { id: { in: input.registrationIds } },
+    select: { id: true, eventId: true },
+  });
+
+  const idsByEvent = new Map<string, string[]>();
+  for (const { id, eventId } of found) {
+    idsByEvent.set(eventId, [...(idsByEvent.get(eventId) ?? []), id]);
+  }
+
+  const foundIds = new Set(found.map(({ id }) => id));
+  for (const registrationId of input.registrationIds) {
+    if (!foundIds.has(registrationId)) {
+      result.failed.push({
+        registrationId,
+        code: "REGISTRATION_NOT_FOUND",
+        message: "Registration not found",
+      });
+    }
+  }
+
+  for (const [eventId, registrationIds] of idsByEvent) {
+    const reviewed = await prisma.$transaction((tx) =>
+      reviewEventRegistrations(tx, eventId, registrationIds, { decision, reason, performedById })
+    );
+
+    result.approved.push(...reviewed.approved);
+    result.rejected.push(...reviewed.rejected);
+    result.failed.push(...reviewed.failed);
+
+    for (const registrationId of [...reviewed.approved, ...reviewed.rejected]) {
+      await sendRegistrationReviewed(registrationId, reason);
+    }
+
+    // Rejected registrations free their seats
+    if (reviewed.rejected.length > 0) {
+      await promoteFromWaitingList(eventId);
+    }
+  }
+
+  logger.info(
+    `User ${performedById} reviewed registrations: ${result.approved.length} approved, ` +
+      `${result.rejected.length} rejected, ${result.failed.length} failed`
+  );
+
+  return ok(result);
+}
+
+interface ReviewContext {
+  decision: ReviewRegistrationsInput["decision"];
+  reason: string | null;
+  performedById: string;
+}
+
+async function reviewEventRegistrations(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  registrationIds: string[],
+  context: ReviewContext
+): Promise<ReviewResult> {
+  await lockEvent(tx, eventId);
+
+  const event = await tx.event.findUniqueOrThrow({ where: { id: eventId } });
+  const result: ReviewResult = { approved: [], rejected: [], failed: [] };
+
+  // Earlier registrations get the remaining seats first
+  const registrations = await tx.registration.findMany({
+    where: { id: { in: registrationIds }, eventId, ...awaitingApprovalWhere },
+    include: { pendingPayment: true },
+    orderBy: [{ registeredAt: "asc" }, { id: "asc" }],
+  });
+
+  const reviewable = new Set(registrations.map(({ id }) => id));
+  for (const registrationId of registrationIds) {
+    if (!reviewable.has(registrationId)) {
+      result.failed.push({
+        registrationId,
+        code: "NOT_AWAITING_APPROVAL",
+        message: "This registration is not awaiting approval",
+      });
+    }
+  }
+
+  const approved = await tx.registration.aggregate({
+    where: approvedSeatsWhere(eventId),
+    _sum: { groupSize: true },
+  });
+  let approvedSeats = approved._sum.groupSize ?? 0;
+
+  const now = new Date();
+  const history: RegistrationHistoryEntry[] = [];
+
+  for (const registration of registrations) {
+    const members = await tx.registration.findMany({
+      where: { groupLeaderId: registration.id, status: RegistrationStatus.PENDING },
+    });
+
+    let newStatus: RegistrationStatus;
+    if (context.decision === "APPROVE") {
+      if (approvedSeats + registration.groupSize > event.capacity) {
+        result.failed.push({
+          registrationId: registration.id,
+          code: "CAPACITY_EXCEEDED",
+          message: "Not enough seats left to approve this registration",
+        });
+        continue;
+      }
+      approvedSeats += registration.groupSize;
+
+      // Paid registrations are confirmed once their payment arrives
+      const awaitingPayment = registration.pendingPayment?.status === PendingPaymentStatus.PENDING;
+      newStatus = awaitingPayment ? RegistrationStatus.PENDING : RegistrationStatus.CONFIRMED;
+      const confirmedAt = newStatus === RegistrationStatus.CONFIRMED ? now : null;
+
+      await tx.registration.update({
+        where: { id: registration.id },
+        data: { status: newStatus, approvedAt: now, confirmedAt },
+      });
+      await tx.registration.updateMany({
+        where: { id: { in: members.map(({ id }) => id) } },
+        data: { status: newStatus, approvedAt: now, confirmedAt },
+      });
+      result.approved.push(registration.id);
+    } else {
+      newStatus = RegistrationStatus.REJECTED;
+
+      await tx.registration.update({
+        where: { id: registration.id },
+        data: { status: newStatus },
+      });
+      await tx.registration.updateMany({
+        where: { id: { in: members.map(({ id }) => id) } },
+        data: { status: newStatus },
+      });
+
+      if (registration.pendingPayment?.status === PendingPaymentStatus.PENDING) {
+        await tx.pendingPayment.update({
+          where: { id: registration.pendingPayment.id },
+          data: { status: PendingPaymentStatus.CANCELLED, cancelledAt: now },
+        });
+        if (registration.userId) {
+          history.push({
+            userId: registration.userId,
+            eventId,
+            action: RegistrationAction.PENDING_PAYMENT_CANCELLED,
+            reason: context.reason,
+            performedById: context.performedById,
+          });
+        }
+      }
+      result.rejected.push(registration.id);
+    }
+
+    for (const attendee of [registration, ...members]) {
+      if (!attendee.userId) continue;
+      history.push({
+        userId: attendee.userId,
+        eventId,
+        action:
+          context.decision === "APPROVE"
+            ? RegistrationAction.ADMIN_APPROVED
+            : RegistrationAction.ADMIN_REJECTED,
+        previousStatus: attendee.status,
+        newStatus,
+        reason: context.reason,
+        performedById: context.performedById,
+      });
+    }
+  }
+
+  await recordRegistrationHistory(tx, history);
+
+  return result;
+}
@@ -0,0 +1,46 @@
+import type { Prisma, RegistrationAction } from "@prisma/client";
+
+export interface RegistrationHistoryEntry {
+  userId: string;
+  eventId: string;
+  action: RegistrationAction;
+  previousStatus?: string | null;
+  newStatus?: string | null;
+  reason?: string | null;
+  adminNotes?: string | null;
+  performedById?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Record one or more registration history entries
+ *
+ * `RegistrationHistory.userId` is required, so guest registrations (no user)
+ * are not tracked here; callers simply omit them.
+ */
+export async function recordRegistrationHistory(
+  db: Prisma.TransactionClient,
+  entries: RegistrationHistoryEntry | RegistrationHistoryEntry[]
+): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+
+  if (list.length === 0) {
+    return;
+  }
+
+  await db.registrationHistory.createMany({
+    data: list.map((entry) => ({
+      userId: entry.userId,
+      eventId: entry.eventId,
+      action: entry.action,
+      previousStatus: entry.previousStatus ?? null,
+      newStatus: entry.newStatus ?? null,
+      reason: entry.reason ?? null,
+      adminNotes: entry.adminNotes ?? null,
+      performedById: entry.performedById ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+    })),
+  });
+}
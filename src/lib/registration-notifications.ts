@@ -0,0 +1,164 @@
+/**
+ * Attendee emails about their own registration, and invitations for the
+ * friends of group leaders
+ */
+
+import { RegistrationStatus, type Registration, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sendTemplatedEmail, type TemplateRecipient } from "./notification-templates";
+import { friendClaimSubject, parseGroupFriends } from "./group-friends";
+import { createSignedToken } from "./signed-tokens";
+import { createTicketCode, getTicketQrUrl, getTicketUrl } from "./tickets";
+import { formatDate, formatTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+
+/**
+ * Emails the attendee that their registration is confirmed, with their ticket
+ */
+export async function sendRegistrationConfirmation(registrationId: string): Promise<void> {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    include: { event: true, user: true },
+  });
+
+  if (!registration) return;
+
+  const recipient = getRegistrationRecipient(registration);
+  if (!recipient) return;
+
+  const { event } = registration;
+  const ticketCode = createTicketCode(registration, event);
+  const result = await sendTemplatedEmail({
+    templateName: "registration_confirmation",
+    recipient,
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+      eventTime: formatTime(event.startDate, recipient.locale, event.timezone),
+      eventVenue: event.isOnline ? "Online" : [event.venue, event.city].filter(Boolean).join(", "),
+      ticketUrl: getTicketUrl(recipient.locale, ticketCode),
+      ticketQrUrl: getTicketQrUrl(ticketCode),
+    },
+    metadata: { registrationId },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send registration confirmation ${registrationId}: ${result.error}`);
+  }
+}
+
+export type AttendeeRecipient = TemplateRecipient & { locale: string };
+
+/**
+ * A registration or waiting list entry with its (optional) user account
+ */
+export type RecipientSource = Pick<Registration, "userId" | "guestEmail" | "guestName"> & {
+  user: Pick<User, "email" | "name" | "preferredLocale"> | null;
+};
+
+/**
+ * Resolves who should receive emails about a registration or waiting list
+ * entry: the account holder, or the guest contact details
+ */
+export function getRegistrationRecipient(source: RecipientSource): AttendeeRecipient | null {
+  const email = source.user?.email ?? source.guestEmail;
+  if (!email) return null;
+
+  return {
+    email,
+    name: source.user?.name ?? source.guestName,
+    userId: source.userId,
+    locale: source.user?.preferredLocale ?? "en",
+  };
+}
+
+/**
+ * Emails claim links to a group's friends who have an email address and
+ * have not claimed their seat yet
+ *
+ * @param friendIds - Only invite these friends (defaults to all of them)
+ */
+export async function sendFriendInvitations(leaderId: string, friendIds?: string[]): Promise<void> {
+  const leader = await prisma.registration.findUnique({
+    where: { id: leaderId },
+    include: { event: true, user: true },
+  });
+
+  if (!leader || leader.event.startDate <= new Date()) return;
+
+  const { event } = leader;
+  const leaderRecipient = getRegistrationRecipient(leader);
+  const locale = leaderRecipient?.locale ?? "en";
+  const invitees = parseGroupFriends(leader.friendsData).filter(
+    (friend) => !friend.registrationId && (!friendIds || friendIds.includes(friend.id))
+  );
+
+  for (const friend of invitees) {
+    if (!friend.email) continue;
+
+    // Links stay valid until the event starts
+    const token = createSignedToken(
+      "group-friend-claim",
+      friendClaimSubject(leader.id, friend.id),
+      event.startDate
+    );
+    const result = await sendTemplatedEmail({
+      templateName: "group_friend_invitation",
+      recipient: { email: friend.email, name: friend.name, locale },
+      eventId: event.id,
+      variables: {
+        leaderName: leaderRecipient?.name ?? "",
+        eventTitle: event.title,
+        eventDate: formatDate(event.startDate, locale, event.timezone),
+        claimUrl: `${getBaseUrl()}/${locale}/registrations/claim?token=${encodeURIComponent(token)}`,
+      },
+      metadata: { registrationId: leader.id, friendId: friend.id },
+    });
+
+    if (!result.success) {
+      logger.warn(
+        `Failed to invite friend ${friend.id} of registration ${leader.id}: ${result.error}`
+      );
+    }
+  }
+}
+
+/**
+ * Emails the attendee whether an event manager approved or rejected their
+ * registration
+ */
+export async function sendRegistrationReviewed(
+  registrationId: string,
+  reason: string | null
+): Promise<void> {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    include: { event: true, user: true },
+  });
+
+  if (!registration) return;
+
+  const recipient = getRegistrationRecipient(registration);
+  if (!recipient) return;
+
+  const { event } = registration;
+  const rejected = registration.status === RegistrationStatus.REJECTED;
+  const result = await sendTemplatedEmail({
+    templateName: rejected ? "registration_rejected" : "registration_approved",
+    recipient,
+    eventId: event.id,
+    variables: {
+      eventTitle: event.title,
+      eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+      eventUrl: `${getBaseUrl()}/${recipient.locale}/events/${event.slug}`,
+      reason: reason ?? "",
+    },
+    metadata: { registrationId },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send review outcome of registration ${registrationId}: ${result.error}`);
+  }
+}
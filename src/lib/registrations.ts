@@ -0,0 +1,557 @@
+/**
+ * Registration engine
+ *
+ * Registers users for events inside a transaction that holds the event row
+ * lock, so seat counting and the insert happen atomically:
+ *
+ * 1. the registration window must be open
+ * 2. occupied seats (PENDING + CONFIRMED, counting `groupSize`) must leave room,
+ *    otherwise the attendee overflows to the waiting list when it is enabled
+ * 3. events with `requiresApproval` or a price start as PENDING,
+ *    everything else is CONFIRMED (unless `registration.auto_confirm` is off)
+ *
+ * A leader registering friends takes one seat per friend; the friends are
+ * managed in ./group-registrations. Paid registrations are priced by
+ * ./pricing (price tiers, ticket types and discount codes). Guests without an
+ * account register through ./guest-registrations, which calls in here once
+ * their email is verified.
+ */
+
+import {
+  PendingPaymentStatus,
+  PendingPaymentType,
+  RegistrationAction,
+  RegistrationSource,
+  RegistrationStatus,
+  type Event,
+  type PendingPayment,
+  type Prisma,
+  type Registration,
+  type WaitingList,
+} from "@prisma/client";
+import { prisma, paginate, type PaginatedResult } from "./prisma";
+import {
+  SEAT_HOLDING_STATUSES,
+  countTakenSeats,
+  getRegistrationWindowState,
+  lockEvent,
+} from "./event-availability";
+import { createPendingPayment, isPaidEvent } from "./pending-payments";
+import { detachRegistrationPayments } from "./payments";
+import { groupRegistrationType, quoteRegistrationPrice, type PriceQuote } from "./pricing";
+import { recordRegistrationHistory } from "./registration-history";
+import { sendFriendInvitations, sendRegistrationConfirmation } from "./registration-notifications";
+import {
+  buildGroupFriends,
+  parseGroupFriends,
+  toFriendsJson,
+  type GroupFriend,
+} from "./group-friends";
+import { cancelGroupMembers, detachGroupFriend, getMaxGroupSize } from "./group-registrations";
+import { promoteFromWaitingList } from "./waiting-list";
+import { getBooleanConfig } from "./system-config";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+import type { GroupFriendInput, RegistrationListQuery } from "./validations/registration";
+import type { TicketType } from "./validations/pricing";
+
+/**
+ * Contact details of an attendee registering without an account
+ */
+export interface GuestAttendee {
+  email: string;
+  name: string;
+  phone?: string | null | undefined;
+}
+
+export interface RegisterForEventInput {
+  eventId: string;
+  /** The registering account, or null for a guest */
+  userId: string | null;
+  /** Required when `userId` is null */
+  guest?: GuestAttendee | undefined;
+  notes?: string | undefined;
+  dietaryRequirements?: string | undefined;
+  specialRequests?: string | undefined;
+  /** Friends taking a seat each in the leader's group */
+  friends?: GroupFriendInput[] | undefined;
+  /** Ticket type picked for a paid event; it needs a price tier of that type */
+  ticketType?: TicketType | undefined;
+  discountCode?: string | undefined;
+  source?: RegistrationSource;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export type RegistrationOutcome =
+  | { outcome: "REGISTERED"; registration: Registration; pendingPayment: PendingPayment | null }
+  | { outcome: "WAITING_LIST"; waitingListEntry: WaitingList };
+
+/**
+ * Registration with the attendee fields shown to event managers
+ */
+export const registrationListInclude = {
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.RegistrationInclude;
+
+export type RegistrationWithUser = Prisma.RegistrationGetPayload<{
+  include: typeof registrationListInclude;
+}>;
+
+/**
+ * Account or guest columns identifying the attendee of a new row
+ */
+function attendeeFields(input: RegisterForEventInput) {
+  if (input.userId) {
+    return { userId: input.userId };
+  }
+
+  return {
+    userId: null,
+    guestEmail: input.guest?.email ?? null,
+    guestName: input.guest?.name ?? null,
+    guestPhone: input.guest?.phone ?? null,
+    isGuestRequest: true,
+  };
+}
+
+/**
+ * Places an attendee on the event's waiting list, or fails when the event
+ * has no (or a full) waiting list
+ *
+ * The entry keeps the ticket type and discount code, so the promotion is
+ * priced as the registration would have been.
+ */
+async function joinWaitingList(
+  tx: Prisma.TransactionClient,
+  event: Event,
+  input: RegisterForEventInput,
+  friends: GroupFriend[],
+  previousEntry: WaitingList | null,
+  quote: PriceQuote | null
+): Promise<ServiceResult<RegistrationOutcome>> {
+  if (!event.allowWaitingList) {
+    return fail("EVENT_FULL", "The event is full", 409);
+  }
+
+  const waiting = await tx.waitingList.aggregate({
+    where: { eventId: event.id, promotedAt: null },
+    _count: true,
+    _max: { position: true },
+  });
+
+  if (event.maxWaitingList !== null && waiting._count >= event.maxWaitingList) {
+    return fail("WAITING_LIST_FULL", "The event and its waiting list are full", 409);
+  }
+
+  const data = {
+    position: (waiting._max.position ?? 0) + 1,
+    groupSize: 1 + friends.length,
+    isGroupEntry: friends.length > 0,
+    registrationType: quote?.ticketType ?? groupRegistrationType(1 + friends.length),
+    friendsData: toFriendsJson(friends),
+    joinedAt: new Date(),
+    notifiedAt: null,
+    promotedAt: null,
+    registrationId: null,
+    pendingPaymentId: null,
+    claimExpiresAt: null,
+    claimedAt: null,
+    skippedAt: null,
+    notes: input.notes ?? null,
+    dietaryRequirements: input.dietaryRequirements ?? null,
+    specialRequests: input.specialRequests ?? null,
+    discountCode: quote?.discountCode?.code ?? null,
+  };
+
+  // An entry from an earlier promotion is re-queued, since (userId, eventId) is unique
+  const waitingListEntry = previousEntry
+    ? await tx.waitingList.update({ where: { id: previousEntry.id }, data })
+    : await tx.waitingList.create({
+        data: { ...data, ...attendeeFields(input), eventId: event.id },
+      });
+
+  if (input.userId) {
+    await recordRegistrationHistory(tx, {
+      userId: input.userId,
+      eventId: event.id,
+      action: RegistrationAction.MOVED_TO_WAITING_LIST,
+      reason: "Event is full",
+      ipAddress: input.ipAddress ?? null,
+      userAgent: input.userAgent ?? null,
+    });
+  }
+
+  return ok({ outcome: "WAITING_LIST", waitingListEntry });
+}
+
+/**
+ * Registers a user (or a verified guest) for an event
+ */
+export async function registerForEvent(
+  input: RegisterForEventInput
+): Promise<ServiceResult<RegistrationOutcome>> {
+  const { eventId, userId, guest } = input;
+  if (!userId && !guest) {
+    throw new Error("A registration needs either a user or guest details");
+  }
+
+  const friends = buildGroupFriends(input.friends ?? []);
+  const groupSize = 1 + friends.length;
+
+  const maxGroupSize = await getMaxGroupSize();
+  if (groupSize > maxGroupSize) {
+    return fail("GROUP_TOO_LARGE", `Groups are limited to ${maxGroupSize} people`, 400, {
+      maxGroupSize,
+    });
+  }
+
+  const autoConfirm = await getBooleanConfig("registration.auto_confirm", true);
+
+  const result = await prisma.$transaction(
+    async (tx): Promise<ServiceResult<RegistrationOutcome>> => {
+      await lockEvent(tx, eventId);
+
+      const event = await tx.event.findUnique({ where: { id: eventId } });
+      if (!event) {
+        return fail("EVENT_NOT_FOUND", "Event not found", 404);
+      }
+
+      const windowState = getRegistrationWindowState(event);
+      if (windowState === "NOT_OPEN") {
+        return fail("REGISTRATION_NOT_OPEN", "Registration has not opened yet", 409, {
+          opensAt: event.registrationStartDate,
+        });
+      }
+      if (windowState === "CLOSED") {
+        return fail("REGISTRATION_CLOSED", "Registration for this event is closed", 409);
+      }
+
+      if (!userId && isPaidEvent(event)) {
+        return fail("ACCOUNT_REQUIRED", "Paid events require an account", 409);
+      }
+
+      // Guests are matched on the same unique columns the rows are stored under
+      const attendeeWhere = userId
+        ? { eventId, userId }
+        : {
+            eventId,
+            userId: null,
+            guestEmail: guest?.email ?? null,
+            guestName: guest?.name ?? null,
+          };
+
+      if (!userId) {
+        const activeGuest = await tx.registration.findFirst({
+          where: {
+            eventId,
+            guestEmail: guest?.email ?? null,
+            status: { in: SEAT_HOLDING_STATUSES },
+          },
+        });
+        if (activeGuest) {
+          return fail("ALREADY_REGISTERED", "This email is already registered for this event", 409);
+        }
+      }
+
+      const existing = await tx.registration.findFirst({ where: attendeeWhere });
+
+      if (existing?.status === RegistrationStatus.REJECTED) {
+        return fail("REGISTRATION_REJECTED", "Your registration for this event was rejected", 409);
+      }
+      if (existing && existing.status !== RegistrationStatus.CANCELLED) {
+        return fail("ALREADY_REGISTERED", "You are already registered for this event", 409, {
+          registrationId: existing.id,
+          status: existing.status,
+        });
+      }
+
+      const waitingEntry = await tx.waitingList.findFirst({ where: attendeeWhere });
+      if (waitingEntry && !waitingEntry.promotedAt) {
+        return fail("ALREADY_ON_WAITING_LIST", "You are already on the waiting list", 409, {
+          waitingListId: waitingEntry.id,
+          position: waitingEntry.position,
+        });
+      }
+
+      // Priced before the capacity check, so an unavailable ticket type or
+      // discount code fails instead of queueing the attendee
+      let quote: PriceQuote | null = null;
+      if (userId && isPaidEvent(event)) {
+        const quoted = await quoteRegistrationPrice(tx, {
+          event,
+          userId,
+          seats: groupSize,
+          ticketType: input.ticketType,
+          discountCode: input.discountCode,
+          excludeRegistrationId: existing?.id ?? null,
+        });
+        if (!quoted.success) return quoted;
+        quote = quoted.data;
+      }
+
+      const takenSeats = (await countTakenSeats([eventId], tx)).get(eventId) ?? 0;
+      if (takenSeats + groupSize > event.capacity) {
+        return joinWaitingList(tx, event, input, friends, waitingEntry, quote);
+      }
+
+      // A discount may make the registration free
+      const requiresPayment = quote !== null && quote.total.greaterThan(0);
+      const status =
+        event.requiresApproval || requiresPayment || !autoConfirm
+          ? RegistrationStatus.PENDING
+          : RegistrationStatus.CONFIRMED;
+
+      const now = new Date();
+      const data = {
+        status,
+        registrationSource: input.source ?? RegistrationSource.WEB_FORM,
+        registrationType: quote?.ticketType ?? groupRegistrationType(groupSize),
+        isGroupLeader: true,
+        groupLeaderId: null,
+        friendPosition: null,
+        groupSize,
+        friendsData: toFriendsJson(friends),
+        requiresPayment,
+        paymentId: null,
+        pendingPaymentId: null,
+        discountCodeId: quote?.discountCode?.id ?? null,
+        registeredAt: now,
+        confirmedAt: status === RegistrationStatus.CONFIRMED ? now : null,
+        approvedAt: null,
+        cancelledAt: null,
+        notes: input.notes ?? null,
+        dietaryRequirements: input.dietaryRequirements ?? null,
+        specialRequests: input.specialRequests ?? null,
+      };
+
+      // A cancelled registration is re-opened, since attendees are unique per
+      // event; it starts without the payments of its earlier registration
+      if (existing) {
+        await detachRegistrationPayments(tx, existing.id);
+      }
+      let registration = existing
+        ? await tx.registration.update({ where: { id: existing.id }, data })
+        : await tx.registration.create({ data: { ...data, ...attendeeFields(input), eventId } });
+
+      // Guests have no history or payments, since both belong to a user
+      if (!userId) {
+        return ok({ outcome: "REGISTERED", registration, pendingPayment: null });
+      }
+
+      const context = { ipAddress: input.ipAddress ?? null, userAgent: input.userAgent ?? null };
+      await recordRegistrationHistory(tx, [
+        {
+          userId,
+          eventId,
+          action: RegistrationAction.REGISTERED,
+          previousStatus: existing?.status ?? null,
+          newStatus: status,
+          ...context,
+        },
+        ...(friends.length > 0
+          ? [
+              {
+                userId,
+                eventId,
+                action: RegistrationAction.GROUP_REGISTRATION_CREATED,
+                reason: `Group of ${groupSize}`,
+                ...context,
+              },
+            ]
+          : []),
+      ]);
+
+      let pendingPayment: PendingPayment | null = null;
+      if (requiresPayment) {
+        pendingPayment = await createPendingPayment(tx, {
+          userId,
+          event,
+          type: PendingPaymentType.REGISTRATION,
+          seats: groupSize,
+          metadata: { registrationId: registration.id },
+          ...(quote && { quote }),
+        });
+
+        registration = await tx.registration.update({
+          where: { id: registration.id },
+          data: { pendingPaymentId: pendingPayment.id },
+        });
+      }
+
+      return ok({ outcome: "REGISTERED", registration, pendingPayment });
+    }
+  );
+
+  if (result.success && result.data.outcome === "REGISTERED") {
+    const { registration } = result.data;
+    logger.info(
+      `${userId ? `User ${userId}` : "Guest"} registered for event ${eventId} (${registration.status})`
+    );
+
+    if (registration.status === RegistrationStatus.CONFIRMED) {
+      await sendRegistrationConfirmation(registration.id);
+    }
+    if (friends.length > 0) {
+      await sendFriendInvitations(registration.id);
+    }
+  }
+
+  return result;
+}
+
+export interface CancelRegistrationInput {
+  registrationId: string;
+  /** The cancelling user, or null for a guest using their cancellation link */
+  performedById: string | null;
+  /** Event managers may cancel any registration; attendees only their own */
+  asManager?: boolean;
+  /** The caller proved ownership with a signed cancellation link */
+  viaSignedLink?: boolean;
+  reason?: string | undefined;
+}
+
+/**
+ * Cancels a registration, releases its pending payment and offers the freed
+ * seats to the waiting list
+ *
+ * Cancelling a group leader cancels the whole group; a friend cancelling
+ * their own seat leaves the group instead.
+ */
+export async function cancelRegistration(
+  input: CancelRegistrationInput
+): Promise<ServiceResult<Registration>> {
+  const { registrationId, performedById } = input;
+
+  const found = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    select: { eventId: true, userId: true },
+  });
+
+  // Attendees cannot probe other people's registrations
+  const isOwner = found?.userId ? found.userId === performedById : false;
+  if (!found || !(input.asManager || input.viaSignedLink || isOwner)) {
+    return fail("REGISTRATION_NOT_FOUND", "Registration not found", 404);
+  }
+
+  const now = new Date();
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<Registration>> => {
+    await lockEvent(tx, found.eventId);
+
+    const registration = await tx.registration.findUniqueOrThrow({
+      where: { id: registrationId },
+      include: { pendingPayment: true },
+    });
+
+    if (!SEAT_HOLDING_STATUSES.includes(registration.status)) {
+      return fail(
+        "REGISTRATION_NOT_ACTIVE",
+        `A ${registration.status} registration cannot be cancelled`,
+        409
+      );
+    }
+
+    const reason = input.reason ?? null;
+    const leader = registration.groupLeaderId
+      ? await tx.registration.findUnique({
+          where: { id: registration.groupLeaderId },
+          include: { pendingPayment: true },
+        })
+      : null;
+    const friend = parseGroupFriends(leader?.friendsData).find(
+      (entry) => entry.registrationId === registrationId
+    );
+
+    if (leader && friend) {
+      await detachGroupFriend(tx, leader, friend, { performedById, reason, now });
+      return ok(await tx.registration.findUniqueOrThrow({ where: { id: registrationId } }));
+    }
+
+    const { pendingPayment, ...rest } = registration;
+    const cancelled = await tx.registration.update({
+      where: { id: registrationId },
+      data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+    });
+
+    const cancelPayment = pendingPayment?.status === PendingPaymentStatus.PENDING;
+    if (pendingPayment && cancelPayment) {
+      await tx.pendingPayment.update({
+        where: { id: pendingPayment.id },
+        data: { status: PendingPaymentStatus.CANCELLED, cancelledAt: now },
+      });
+    }
+
+    await cancelGroupMembers(tx, registrationId, { performedById, reason, now });
+
+    if (rest.userId) {
+      await recordRegistrationHistory(tx, [
+        {
+          userId: rest.userId,
+          eventId: rest.eventId,
+          action: RegistrationAction.CANCELLED,
+          previousStatus: rest.status,
+          newStatus: RegistrationStatus.CANCELLED,
+          reason,
+          performedById,
+        },
+        ...(cancelPayment
+          ? [
+              {
+                userId: rest.userId,
+                eventId: rest.eventId,
+                action: RegistrationAction.PENDING_PAYMENT_CANCELLED,
+                reason,
+                performedById,
+              },
+            ]
+          : []),
+      ]);
+    }
+
+    return ok(cancelled);
+  });
+
+  if (result.success) {
+    logger.info(`Registration ${registrationId} cancelled by ${performedById ?? "guest link"}`);
+    await promoteFromWaitingList(found.eventId);
+  }
+
+  return result;
+}
+
+export interface EventAttendance {
+  registration: Registration | null;
+  waitingListEntry: WaitingList | null;
+}
+
+/**
+ * The user's registration and waiting list entry for an event, for the event page
+ */
+export async function getEventAttendance(
+  eventId: string,
+  userId: string
+): Promise<EventAttendance> {
+  const where = { userId_eventId: { userId, eventId } };
+  const [registration, waitingListEntry] = await Promise.all([
+    prisma.registration.findUnique({ where }),
+    prisma.waitingList.findUnique({ where }),
+  ]);
+
+  return { registration, waitingListEntry };
+}
+
+/**
+ * Lists registrations of an event for event managers
+ */
+export async function listEventRegistrations(
+  eventId: string,
+  query: RegistrationListQuery
+): Promise<PaginatedResult<RegistrationWithUser>> {
+  return paginate<RegistrationWithUser>(
+    prisma.registration,
+    { ...(query.page && { page: query.page }), ...(query.limit && { limit: query.limit }) },
+    { eventId, ...(query.status && { status: query.status }) },
+    registrationListInclude,
+    [{ registeredAt: "asc" }, { id: "asc" }]
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Revenue reports
+ *
+ * Sums the payments received and the refunds sent in a period per event,
+ * converted to a single report currency (`reports.base_currency` unless
+ * chosen otherwise). Every amount is converted at the stored ECB rate of the
+ * day it moved, so reports of past periods do not change as rates do.
+ * Amounts without a stored rate are left out of the totals and listed
+ * separately, so staff know which rates to import.
+ */
+
+import { PaymentStatus, Prisma, RefundStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { convertAmount, loadExchangeRates } from "./exchange-rates";
+import { getStringConfig } from "./system-config";
+import type { RevenueReportQuery } from "./validations/payment";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Payment states in which the money was received
+ */
+const RECEIVED_STATUSES = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.REFUND_PENDING,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+export interface RevenueReportEvent {
+  eventId: string;
+  title: string;
+  startDate: Date;
+  payments: number;
+  received: Prisma.Decimal;
+  refunded: Prisma.Decimal;
+  net: Prisma.Decimal;
+  /** Currencies the event was paid in */
+  currencies: string[];
+}
+
+export interface UnconvertedAmount {
+  kind: "payment" | "refund";
+  id: string;
+  amount: Prisma.Decimal;
+  currency: string;
+  date: Date;
+}
+
+export interface RevenueReport {
+  currency: string;
+  from: Date;
+  to: Date;
+  events: RevenueReportEvent[];
+  totals: {
+    payments: number;
+    received: Prisma.Decimal;
+    refunded: Prisma.Decimal;
+    net: Prisma.Decimal;
+  };
+  unconverted: UnconvertedAmount[];
+}
+
+/**
+ * Builds the revenue report of a period
+ */
+export async function getRevenueReport(query: RevenueReportQuery): Promise<RevenueReport> {
+  const { from, to } = query;
+  // `to` is the last day of the period
+  const end = new Date(to.getTime() + DAY_MS);
+  const currency = query.currency ?? (await getStringConfig("reports.base_currency", "EUR"));
+  const eventFilter = query.eventId ? { eventId: query.eventId } : { eventId: { not: null } };
+
+  const [payments, refunds] = await Promise.all([
+    prisma.payment.findMany({
+      where: { ...eventFilter, status: { in: RECEIVED_STATUSES }, paidAt: { gte: from, lt: end } },
+      select: { id: true, eventId: true, amount: true, currency: true, paidAt: true },
+    }),
+    prisma.refund.findMany({
+      where: {
+        status: RefundStatus.COMPLETED,
+        completedAt: { gte: from, lt: end },
+        payment: eventFilter,
+      },
+      select: {
+        id: true,
+        amount: true,
+        currency: true,
+        completedAt: true,
+        payment: { select: { eventId: true } },
+      },
+    }),
+  ]);
+
+  const currencies = new Set([currency, ...payments.map((p) => p.currency)]);
+  refunds.forEach((refund) => currencies.add(refund.currency));
+  const rates = await loadExchangeRates([...currencies], from, end);
+
+  const totals = new Map<string, Omit<RevenueReportEvent, "title" | "startDate" | "net">>();
+  const totalsOf = (eventId: string) => {
+    let entry = totals.get(eventId);
+    if (!entry) {
+      entry = {
+        eventId,
+        payments: 0,
+        received: new Prisma.Decimal(0),
+        refunded: new Prisma.Decimal(0),
+        currencies: [],
+      };
+      totals.set(eventId, entry);
+    }
+    return entry;
+  };
+
+  const unconverted: UnconvertedAmount[] = [];
+
+  for (const payment of payments) {
+    const date = payment.paidAt ?? from;
+    const amount = convertAmount(rates, payment.amount, payment.currency, currency, date);
+    if (!amount) {
+      unconverted.push({
+        kind: "payment",
+        id: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        date,
+      });
+      continue;
+    }
+
+    const entry = totalsOf(payment.eventId ?? "");
+    entry.payments++;
+    entry.received = entry.received.add(amount);
+    if (!entry.currencies.includes(payment.currency)) {
+      entry.currencies.push(payment.currency);
+    }
+  }
+
+  for (const refund of refunds) {
+    const date = refund.completedAt ?? to;
+    const amount = convertAmount(rates, refund.amount, refund.currency, currency, date);
+    if (!amount) {
+      unconverted.push({
+        kind: "refund",
+        id: refund.id,
+        amount: refund.amount,
+        currency: refund.currency,
+        date,
+      });
+      continue;
+    }
+
+    const entry = totalsOf(refund.payment.eventId ?? "");
+    entry.refunded = entry.refunded.add(amount);
+  }
+
+  const events = await prisma.event.findMany({
+    where: { id: { in: [...totals.keys()] } },
+    select: { id: true, title: true, startDate: true },
+    orderBy: { startDate: "asc" },
+  });
+
+  const rows = events.flatMap((event) => {
+    const entry = totals.get(event.id);
+    if (!entry) return [];
+    return [
+      {
+        ...entry,
+        title: event.title,
+        startDate: event.startDate,
+        net: entry.received.sub(entry.refunded),
+      },
+    ];
+  });
+
+  const received = rows.reduce((sum, row) => sum.add(row.received), new Prisma.Decimal(0));
+  const refunded = rows.reduce((sum, row) => sum.add(row.refunded), new Prisma.Decimal(0));
+
+  return {
+    currency,
+    from,
+    to,
+    events: rows,
+    totals: {
+      payments: rows.reduce((sum, row) => sum + row.payments, 0),
+      received,
+      refunded,
+      net: received.sub(refunded),
+    },
+    unconverted,
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Role grants
+ *
+ * Admins grant roles to users as `UserRole` rows, permanently or until an
+ * `expiresAt`. A user's `primaryRole` is always their highest-priority
+ * active grant. Shortly before a grant lapses the holder gets a reminder
+ * (`roles.reminder_days_before_expiry` days ahead); once it lapses the job
+ * deactivates it, recalculates the primary role and tells the holder. Inactive
+ * grants are kept for a while as history and removed by the cleanup job.
+ */
+
+import { AuditAction, type Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { activeRoleAssignmentWhere } from "./roles";
+import { recordAuditLog } from "./audit";
+import { sendTemplatedEmail } from "./notification-templates";
+import { getNumberConfig } from "./system-config";
+import { formatDateTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { ok, fail, type ServiceResult } from "@/types/service";
+import type { GrantRoleInput, RoleGrantListQuery } from "./validations/role";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const roleGrantInclude = {
+  user: { select: { id: true, email: true, name: true, preferredLocale: true } },
+  role: { select: { id: true, name: true, displayName: true, color: true, priority: true } },
+} satisfies Prisma.UserRoleInclude;
+
+export type RoleGrant = Prisma.UserRoleGetPayload<{ include: typeof roleGrantInclude }>;
+
+function toAuditData(grant: RoleGrant): Prisma.InputJsonObject {
+  return {
+    userId: grant.userId,
+    role: grant.role.name,
+    expiresAt: grant.expiresAt?.toISOString() ?? null,
+    isActive: grant.isActive,
+  };
+}
+
+function getGrantRecipient(grant: RoleGrant) {
+  return {
+    email: grant.user.email,
+    name: grant.user.name,
+    userId: grant.user.id,
+    locale: grant.user.preferredLocale ?? "en",
+  };
+}
+
+/**
+ * Sets the user's primary role to their highest-priority active grant, or
+ * none when they hold no grant
+ *
+ * @returns The new primary role id
+ */
+export async function recalculatePrimaryRole(
+  db: Prisma.TransactionClient,
+  userId: string,
+  at: Date = new Date()
+): Promise<string | null> {
+  const top = await db.userRole.findFirst({
+    where: { userId, ...activeRoleAssignmentWhere(at) },
+    orderBy: [{ role: { priority: "desc" } }, { assignedAt: "asc" }],
+    select: { roleId: true },
+  });
+
+  const primaryRoleId = top?.roleId ?? null;
+  await db.user.update({ where: { id: userId }, data: { primaryRoleId } });
+  return primaryRoleId;
+}
+
+/**
+ * Active role grants, soonest expiry first
+ */
+export async function listRoleGrants(query: RoleGrantListQuery = {}): Promise<RoleGrant[]> {
+  return prisma.userRole.findMany({
+    where: {
+      ...activeRoleAssignmentWhere(),
+      ...(query.userId && { userId: query.userId }),
+      ...(query.roleId && { roleId: query.roleId }),
+      ...(query.temporary && { expiresAt: { not: null, gt: new Date() } }),
+    },
+    include: roleGrantInclude,
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { assignedAt: "desc" }],
+  });
+}
+
+/**
+ * Grants a role to a user, or renews their grant with the new expiry
+ */
+export async function grantRole(
+  input: GrantRoleInput,
+  assignedById: string,
+  now: Date = new Date()
+): Promise<ServiceResult<RoleGrant>> {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: input.userId ? { id: input.userId } : { email: input.email ?? "" },
+      select: { id: true },
+    });
+    if (!user) {
+      return fail("USER_NOT_FOUND", "User not found", 404);
+    }
+
+    const role = await tx.role.findUnique({ where: { id: input.roleId }, select: { id: true } });
+    if (!role) {
+      return fail("ROLE_NOT_FOUND", "Role not found", 404);
+    }
+
+    const assignment = {
+      assignedBy: assignedById,
+      assignedAt: now,
+      expiresAt: input.expiresAt ?? null,
+      isActive: true,
+      expiryReminderSentAt: null,
+    };
+    const grant = await tx.userRole.upsert({
+      where: { userId_roleId: { userId: user.id, roleId: role.id } },
+      create: { userId: user.id, roleId: role.id, ...assignment },
+      update: assignment,
+      include: roleGrantInclude,
+    });
+
+    await recalculatePrimaryRole(tx, user.id, now);
+    await recordAuditLog(tx, {
+      userId: assignedById,
+      action: AuditAction.CREATE,
+      resource: "UserRole",
+      resourceId: grant.id,
+      newData: toAuditData(grant),
+      description: grant.expiresAt
+        ? `Role ${grant.role.name} granted to ${grant.user.email} until ${grant.expiresAt.toISOString()}`
+        : `Role ${grant.role.name} granted to ${grant.user.email}`,
+    });
+
+    return ok(grant);
+  });
+}
+
+/**
+ * Revokes a role grant before it expires
+ */
+export async function revokeRoleGrant(
+  grantId: string,
+  revokedById: string,
+  now: Date = new Date()
+): Promise<ServiceResult<RoleGrant>> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.userRole.updateMany({
+      where: { id: grantId, isActive: true },
+      data: { isActive: false },
+    });
+    if (count === 0) {
+      return fail("ROLE_GRANT_NOT_FOUND", "Role grant not found", 404);
+    }
+
+    const grant = await tx.userRole.findUniqueOrThrow({
+      where: { id: grantId },
+      include: roleGrantInclude,
+    });
+    await recalculatePrimaryRole(tx, grant.userId, now);
+    await recordAuditLog(tx, {
+      userId: revokedById,
+      action: AuditAction.UPDATE,
+      resource: "UserRole",
+      resourceId: grant.id,
+      oldData: toAuditData({ ...grant, isActive: true }),
+      newData: toAuditData(grant),
+      description: `Role ${grant.role.name} revoked from ${grant.user.email}`,
+    });
+
+    return ok(grant);
+  });
+}
+
+/**
+ * Deactivates the grants whose expiry passed and recalculates the primary
+ * roles of their holders
+ *
+ * @returns Number of grants that lapsed
+ */
+export async function expireRoleGrants(now: Date = new Date()): Promise<number> {
+  const lapsed = await prisma.userRole.findMany({
+    where: { isActive: true, expiresAt: { lte: now } },
+    select: { id: true },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  const notify: RoleGrant[] = [];
+  for (const { id } of lapsed) {
+    const grant = await prisma.$transaction(async (tx) => {
+      // Only one of overlapping runs gets to deactivate the grant
+      const { count } = await tx.userRole.updateMany({
+        where: { id, isActive: true },
+        data: { isActive: false },
+      });
+      if (count === 0) return null;
+
+      const expired = await tx.userRole.findUniqueOrThrow({
+        where: { id },
+        include: roleGrantInclude,
+      });
+      await recalculatePrimaryRole(tx, expired.userId, now);
+      await recordAuditLog(tx, {
+        action: AuditAction.UPDATE,
+        resource: "UserRole",
+        resourceId: id,
+        oldData: toAuditData({ ...expired, isActive: true }),
+        newData: toAuditData(expired),
+        description: `Role ${expired.role.name} of ${expired.user.email} expired`,
+      });
+      return expired;
+    });
+
+    if (grant) notify.push(grant);
+  }
+
+  for (const grant of notify) {
+    await sendRoleGrantEmail("role_grant_expired", grant);
+  }
+
+  if (notify.length > 0) {
+    logger.info(`Expired ${notify.length} role grants`);
+  }
+
+  return notify.length;
+}
+
+/**
+ * Emails a reminder for grants that expire within
+ * `roles.reminder_days_before_expiry` days, once per grant
+ *
+ * @returns Number of reminders sent
+ */
+export async function sendRoleGrantExpiryReminders(now: Date = new Date()): Promise<number> {
+  const days = await getNumberConfig("roles.reminder_days_before_expiry", 3);
+  if (days <= 0) return 0;
+
+  const due = await prisma.userRole.findMany({
+    where: {
+      isActive: true,
+      expiryReminderSentAt: null,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + days * DAY_MS) },
+    },
+    include: roleGrantInclude,
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let sent = 0;
+  for (const grant of due) {
+    // Claim the reminder first so overlapping runs do not email twice
+    const { count } = await prisma.userRole.updateMany({
+      where: { id: grant.id, expiryReminderSentAt: null },
+      data: { expiryReminderSentAt: now },
+    });
+    if (count === 0) continue;
+
+    if (await sendRoleGrantEmail("role_grant_expiring", grant)) {
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+async function sendRoleGrantEmail(
+  templateName: "role_grant_expiring" | "role_grant_expired",
+  grant: RoleGrant
+): Promise<boolean> {
+  const recipient = getGrantRecipient(grant);
+  const result = await sendTemplatedEmail({
+    templateName,
+    recipient,
+    variables: {
+      roleName: grant.role.displayName,
+      expiresAt: grant.expiresAt ? formatDateTime(grant.expiresAt, recipient.locale) : null,
+      dashboardUrl: `${getBaseUrl()}/${recipient.locale}/dashboard`,
+    },
+    metadata: { userRoleId: grant.id },
+  });
+
+  if (!result.success) {
+    logger.warn(`Failed to send ${templateName} email for role grant ${grant.id}: ${result.error}`);
+  }
+  return result.success;
+}
@@ -0,0 +1,306 @@
+/**
+ * Role management
+ *
+ * Admins define roles and the permission grants they carry. System roles
+ * (seeded) can be edited but not deleted, and exactly one role is the
+ * default that users without any role get. Every change is written to the
+ * audit log, so a role's permissions can be traced over time.
+ */
+
+import { AuditAction, Prisma, type Role } from "@prisma/client";
+import { prisma } from "./prisma";
+import { activeRoleAssignmentWhere, parseRolePermissions } from "./roles";
+import { recordAuditLog } from "./audit";
+import { omitUndefined } from "./utils";
+import { logger } from "./logger";
+import { ok, fail, type ServiceResult } from "@/types/service";
+import type { CreateRoleInput, UpdateRoleInput } from "./validations/role";
+
+export type RoleWithHolders = Role & { holders: number };
+
+export interface RoleHolder {
+  grantId: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  assignedAt: Date;
+  expiresAt: Date | null;
+}
+
+export interface RolePermissionChange {
+  id: string;
+  action: AuditAction;
+  timestamp: Date;
+  /** Who made the change, null for the system */
+  changedBy: { id: string; email: string; name: string | null } | null;
+  added: string[];
+  removed: string[];
+}
+
+const ROLE_AUDIT_RESOURCE = "Role";
+
+function toAuditData(role: Role): Prisma.InputJsonObject {
+  return {
+    name: role.name,
+    displayName: role.displayName,
+    description: role.description,
+    color: role.color,
+    priority: role.priority,
+    isDefault: role.isDefault,
+    permissions: parseRolePermissions(role.permissions),
+  };
+}
+
+/**
+ * Permission grants added and removed between two versions of a role
+ */
+export function diffPermissions(
+  before: readonly string[],
+  after: readonly string[]
+): { added: string[]; removed: string[] } {
+  return {
+    added: after.filter((permission) => !before.includes(permission)),
+    removed: before.filter((permission) => !after.includes(permission)),
+  };
+}
+
+function mapRoleWriteError(error: unknown): ServiceResult<never> {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      return fail("ROLE_EXISTS", "A role with this name already exists", 409);
+    }
+    if (error.code === "P2025") {
+      return fail("ROLE_NOT_FOUND", "Role not found", 404);
+    }
+  }
+
+  throw error;
+}
+
+function rolePricedFailure(): ServiceResult<never> {
+  return fail(
+    "ROLE_HAS_PRICE_TIERS",
+    "Remove the event price tiers for this role before deleting it",
+    409
+  );
+}
+
+/**
+ * Roles with the number of users holding them, highest priority first
+ */
+export async function listRoles(): Promise<RoleWithHolders[]> {
+  const roles = await prisma.role.findMany({
+    include: { _count: { select: { userRoles: { where: activeRoleAssignmentWhere() } } } },
+    orderBy: [{ priority: "desc" }, { name: "asc" }],
+  });
+
+  return roles.map(({ _count, ...role }) => ({ ...role, holders: _count.userRoles }));
+}
+
+/**
+ * Users holding the role through an active grant
+ */
+export async function getRoleHolders(roleId: string): Promise<RoleHolder[]> {
+  const grants = await prisma.userRole.findMany({
+    where: { roleId, ...activeRoleAssignmentWhere() },
+    include: { user: { select: { id: true, email: true, name: true } } },
+    orderBy: { assignedAt: "desc" },
+  });
+
+  return grants.map((grant) => ({
+    grantId: grant.id,
+    userId: grant.user.id,
+    email: grant.user.email,
+    name: grant.user.name,
+    assignedAt: grant.assignedAt,
+    expiresAt: grant.expiresAt,
+  }));
+}
+
+/**
+ * How the role's permissions changed over time, newest first; changes that
+ * left the permissions alone are skipped
+ */
+export async function getRolePermissionHistory(roleId: string): Promise<RolePermissionChange[]> {
+  const entries = await prisma.auditLog.findMany({
+    where: { resource: ROLE_AUDIT_RESOURCE, resourceId: roleId },
+    include: { user: { select: { id: true, email: true, name: true } } },
+    orderBy: { timestamp: "desc" },
+  });
+
+  const readPermissions = (data: Prisma.JsonValue) =>
+    data && typeof data === "object" && !Array.isArray(data)
+      ? parseRolePermissions(data["permissions"] ?? null)
+      : [];
+
+  return entries.flatMap((entry) => {
+    const { added, removed } = diffPermissions(
+      readPermissions(entry.oldData),
+      readPermissions(entry.newData)
+    );
+    if (added.length === 0 && removed.length === 0) return [];
+
+    return [
+      {
+        id: entry.id,
+        action: entry.action,
+        timestamp: entry.timestamp,
+        changedBy: entry.user,
+        added,
+        removed,
+      },
+    ];
+  });
+}
+
+/**
+ * Makes the role the only default role
+ */
+async function makeDefaultRole(tx: Prisma.TransactionClient, roleId: string): Promise<void> {
+  await tx.role.updateMany({
+    where: { isDefault: true, id: { not: roleId } },
+    data: { isDefault: false },
+  });
+}
+
+/**
+ * Creates a custom role
+ */
+export async function createRole(
+  input: CreateRoleInput,
+  createdById: string
+): Promise<ServiceResult<Role>> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const role = await tx.role.create({
+        data: { ...omitUndefined(input), isSystem: false },
+      });
+      if (role.isDefault) {
+        await makeDefaultRole(tx, role.id);
+      }
+
+      await recordAuditLog(tx, {
+        userId: createdById,
+        action: AuditAction.CREATE,
+        resource: ROLE_AUDIT_RESOURCE,
+        resourceId: role.id,
+        newData: toAuditData(role),
+        description: `Role ${role.name} created`,
+      });
+
+      logger.info(`Created role ${role.name}`);
+      return ok(role);
+    });
+  } catch (error) {
+    return mapRoleWriteError(error);
+  }
+}
+
+/**
+ * Partially updates a role; the default role stays default until another
+ * role is made default
+ */
+export async function updateRole(
+  id: string,
+  input: UpdateRoleInput,
+  updatedById: string
+): Promise<ServiceResult<Role>> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.role.findUnique({ where: { id } });
+      if (!existing) {
+        return fail("ROLE_NOT_FOUND", "Role not found", 404);
+      }
+      if (existing.isSystem && input.name !== undefined && input.name !== existing.name) {
+        return fail("ROLE_SYSTEM", "System roles cannot be renamed", 409);
+      }
+      if (existing.isDefault && input.isDefault === false) {
+        return fail(
+          "ROLE_DEFAULT_REQUIRED",
+          "Make another role the default instead of unsetting the default role",
+          409
+        );
+      }
+
+      const role = await tx.role.update({ where: { id }, data: omitUndefined(input) });
+      if (role.isDefault && !existing.isDefault) {
+        await makeDefaultRole(tx, role.id);
+      }
+
+      const changes = diffPermissions(
+        parseRolePermissions(existing.permissions),
+        parseRolePermissions(role.permissions)
+      );
+      await recordAuditLog(tx, {
+        userId: updatedById,
+        action: AuditAction.UPDATE,
+        resource: ROLE_AUDIT_RESOURCE,
+        resourceId: role.id,
+        oldData: toAuditData(existing),
+        newData: toAuditData(role),
+        changes,
+        description: `Role ${role.name} updated`,
+      });
+
+      return ok(role);
+    });
+  } catch (error) {
+    return mapRoleWriteError(error);
+  }
+}
+
+/**
+ * Deletes a custom role that nobody holds
+ */
+export async function deleteRole(
+  id: string,
+  deletedById: string
+): Promise<ServiceResult<Pick<Role, "id">>> {
+  const role = await prisma.role.findUnique({
+    where: { id },
+    include: {
+      _count: {
+        select: { userRoles: { where: activeRoleAssignmentWhere() }, priceTiers: true },
+      },
+    },
+  });
+
+  if (!role) {
+    return fail("ROLE_NOT_FOUND", "Role not found", 404);
+  }
+  if (role.isSystem) {
+    return fail("ROLE_SYSTEM", "System roles cannot be deleted", 409);
+  }
+  if (role.isDefault) {
+    return fail("ROLE_DEFAULT", "Make another role the default before deleting this one", 409);
+  }
+  if (role._count.userRoles > 0) {
+    return fail("ROLE_IN_USE", "Revoke the role from its holders before deleting it", 409);
+  }
+  if (role._count.priceTiers > 0) {
+    return rolePricedFailure();
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.role.delete({ where: { id } });
+      await recordAuditLog(tx, {
+        userId: deletedById,
+        action: AuditAction.DELETE,
+        resource: ROLE_AUDIT_RESOURCE,
+        resourceId: id,
+        oldData: toAuditData(role),
+        description: `Role ${role.name} deleted`,
+      });
+    });
+
+    logger.info(`Deleted role ${role.name}`);
+    return ok({ id });
+  } catch (error) {
+    // A price tier for the role was added after the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2003") {
+      return rolePricedFailure();
+    }
+    return mapRoleWriteError(error);
+  }
+}
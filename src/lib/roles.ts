@@ -0,0 +1,84 @@
+/**
+ * Database roles
+ *
+ * A user holds their `primaryRole` plus every `UserRole` assignment that is
+ * active and not expired. Users without any role get the default roles
+ * (`isDefault`), so new accounts can use the site before anyone assigns them
+ * one. Each role grants the permission names (or wildcards) in its
+ * `permissions` JSON array.
+ */
+
+import type { Prisma, Role } from "@prisma/client";
+
+export interface RoleAccess {
+  /** Names of the roles held, e.g. "EVENT_MANAGER" */
+  roles: string[];
+  /** Permission names and wildcards the roles grant */
+  permissions: string[];
+}
+
+type RoleGrants = Pick<Role, "id" | "name" | "permissions" | "priority">;
+
+const roleGrantsSelect = { id: true, name: true, permissions: true, priority: true } as const;
+
+/**
+ * Filter for the role assignments that are in force at the given time
+ */
+export function activeRoleAssignmentWhere(at: Date = new Date()): Prisma.UserRoleWhereInput {
+  return { isActive: true, OR: [{ expiresAt: null }, { expiresAt: { gt: at } }] };
+}
+
+/**
+ * Permission names stored in a role's `permissions` JSON, ignoring anything
+ * that is not a string
+ */
+export function parseRolePermissions(permissions: Prisma.JsonValue): string[] {
+  return Array.isArray(permissions)
+    ? permissions.filter((permission): permission is string => typeof permission === "string")
+    : [];
+}
+
+/**
+ * Roles the user holds at the given time; the default roles when they hold none
+ */
+export async function getUserRoles(
+  db: Prisma.TransactionClient,
+  userId: string,
+  at: Date = new Date()
+): Promise<RoleGrants[]> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      primaryRole: { select: roleGrantsSelect },
+      userRoles: {
+        where: activeRoleAssignmentWhere(at),
+        select: { role: { select: roleGrantsSelect } },
+      },
+    },
+  });
+  if (!user) return [];
+
+  const roles = new Map<string, RoleGrants>();
+  for (const role of [user.primaryRole, ...user.userRoles.map(({ role }) => role)]) {
+    if (role) roles.set(role.id, role);
+  }
+  if (roles.size > 0) return [...roles.values()];
+
+  return db.role.findMany({ where: { isDefault: true }, select: roleGrantsSelect });
+}
+
+/**
+ * Role names and permission grants of a user from the database
+ */
+export async function getUserRoleAccess(
+  db: Prisma.TransactionClient,
+  userId: string,
+  at: Date = new Date()
+): Promise<RoleAccess> {
+  const roles = await getUserRoles(db, userId, at);
+
+  return {
+    roles: roles.map(({ name }) => name),
+    permissions: [...new Set(roles.flatMap((role) => parseRolePermissions(role.permissions)))],
+  };
+}
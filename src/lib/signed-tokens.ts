@@ -0,0 +1,95 @@
+/**
+ * Signed, expiring tokens for links sent by email
+ *
+ * Tokens are `<payload>.<signature>` where the payload is base64url-encoded
+ * JSON `{ p: purpose, s: subject, e: expiry (unix seconds) }` and the
+ * signature is an HMAC-SHA256 of the payload keyed with `JWT_SECRET`.
+ * The purpose is part of the signed payload, so a token issued for one flow
+ * cannot be replayed against another.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type TokenPurpose =
+  | "waiting-list-claim"
+  | "group-friend-claim"
+  | "guest-verification"
+  | "guest-cancellation"
+  | "ticket";
+
+export interface VerifiedToken {
+  subject: string;
+  expiresAt: Date;
+}
+
+interface TokenPayload {
+  p: TokenPurpose;
+  s: string;
+  e: number;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env["JWT_SECRET"];
+  if (!secret) {
+    throw new Error("JWT_SECRET environment variable is required to sign tokens");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * Creates a token binding a subject (usually a record ID) to a purpose until `expiresAt`
+ */
+export function createSignedToken(purpose: TokenPurpose, subject: string, expiresAt: Date): string {
+  const payload: TokenPayload = {
+    p: purpose,
+    s: subject,
+    e: Math.floor(expiresAt.getTime() / 1000),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verifies a token's signature, purpose and expiry
+ *
+ * @returns The token subject, or null when the token is invalid or expired
+ */
+export function verifySignedToken(
+  token: string,
+  purpose: TokenPurpose,
+  now: Date = new Date()
+): VerifiedToken | null {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: Partial<TokenPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (payload.p !== purpose || typeof payload.s !== "string" || typeof payload.e !== "number") {
+    return null;
+  }
+
+  const expiresAt = new Date(payload.e * 1000);
+  if (expiresAt <= now) {
+    return null;
+  }
+
+  return { subject: payload.s, expiresAt };
+}
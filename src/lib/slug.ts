@@ -0,0 +1,235 @@
+/**
+ * Slug service
+ *
+ * Generates URL slugs for events, event categories, video categories and
+ * video clips. Slugs are transliterated to ASCII (Czech/Slovak diacritics
+ * included), deduplicated against the database with numeric suffixes and
+ * kept as `SlugRedirect` rows when they change so that old links keep
+ * resolving.
+ */
+
+import { Prisma, SlugEntityType } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export const MAX_SLUG_LENGTH = 100;
+
+/**
+ * Characters that Unicode normalization does not decompose into ASCII
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+  "&": " and ",
+};
+
+/**
+ * Slug used when the source text has no usable characters (e.g. only emoji)
+ */
+const FALLBACK_SLUGS: Record<SlugEntityType, string> = {
+  [SlugEntityType.EVENT]: "event",
+  [SlugEntityType.EVENT_CATEGORY]: "category",
+  [SlugEntityType.VIDEO_CATEGORY]: "video-category",
+  [SlugEntityType.VIDEO_CLIP]: "video",
+};
+
+// Room reserved for a "-<n>" suffix when looking up existing slugs
+const SUFFIX_RESERVE = 6;
+
+/**
+ * Converts text into a lowercase ASCII slug
+ *
+ * @example slugify("Přednáška: Úvod do Reactu") // "prednaska-uvod-do-reactu"
+ */
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH): string {
+  const ascii = text
+    .toLowerCase()
+    .replace(/[ßæœøłđðþı&]/g, (char) => TRANSLITERATIONS[char] ?? char)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+  return ascii
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Appends a numeric suffix, trimming the base so the result fits the length limit
+ */
+export function withSlugSuffix(base: string, counter: number): string {
+  if (counter <= 1) return base;
+
+  const suffix = `-${counter}`;
+  const trimmed = base.slice(0, MAX_SLUG_LENGTH - suffix.length).replace(/-+$/, "");
+  return `${trimmed}${suffix}`;
+}
+
+/**
+ * Picks the first free slug from `base`, `base-2`, `base-3`, ...
+ */
+export function pickAvailableSlug(base: string, taken: Iterable<string>): string {
+  const takenSet = new Set(taken);
+
+  let counter = 1;
+  while (takenSet.has(withSlugSuffix(base, counter))) {
+    counter++;
+  }
+
+  return withSlugSuffix(base, counter);
+}
+
+/**
+ * Lists current slugs starting with `prefix` for an entity type
+ */
+async function findSlugsWithPrefix(
+  db: Prisma.TransactionClient,
+  entityType: SlugEntityType,
+  prefix: string,
+  excludeId?: string
+): Promise<string[]> {
+  const args = {
+    where: {
+      slug: { startsWith: prefix },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { slug: true },
+  };
+
+  let rows: Array<{ slug: string }>;
+  switch (entityType) {
+    case SlugEntityType.EVENT:
+      rows = await db.event.findMany(args);
+      break;
+    case SlugEntityType.EVENT_CATEGORY:
+      rows = await db.eventCategory.findMany(args);
+      break;
+    case SlugEntityType.VIDEO_CATEGORY:
+      rows = await db.videoCategory.findMany(args);
+      break;
+    case SlugEntityType.VIDEO_CLIP:
+      rows = await db.videoClip.findMany(args);
+      break;
+  }
+
+  return rows.map((row) => row.slug);
+}
+
+export interface GenerateSlugOptions {
+  /** Entity being renamed; its own current and previous slugs are not treated as taken */
+  excludeId?: string | undefined;
+  db?: Prisma.TransactionClient;
+}
+
+/**
+ * Generates a slug from `source` that is not used by another entity of the
+ * same type, either as a current slug or as a redirect
+ */
+export async function generateUniqueSlug(
+  entityType: SlugEntityType,
+  source: string,
+  options: GenerateSlugOptions = {}
+): Promise<string> {
+  const { excludeId, db = prisma } = options;
+  const base = slugify(source) || FALLBACK_SLUGS[entityType];
+  const prefix = base.slice(0, MAX_SLUG_LENGTH - SUFFIX_RESERVE);
+
+  const [current, redirects] = await Promise.all([
+    findSlugsWithPrefix(db, entityType, prefix, excludeId),
+    db.slugRedirect.findMany({
+      where: {
+        entityType,
+        oldSlug: { startsWith: prefix },
+        ...(excludeId && { entityId: { not: excludeId } }),
+      },
+      select: { oldSlug: true },
+    }),
+  ]);
+
+  return pickAvailableSlug(base, [...current, ...redirects.map((redirect) => redirect.oldSlug)]);
+}
+
+/**
+ * Records a slug change: the old slug becomes a redirect to the entity and
+ * any redirect that pointed at the new slug is dropped, since a live slug
+ * always wins over a redirect
+ */
+export async function recordSlugChange(
+  db: Prisma.TransactionClient,
+  entityType: SlugEntityType,
+  entityId: string,
+  oldSlug: string,
+  newSlug: string
+): Promise<void> {
+  if (oldSlug === newSlug) return;
+
+  await releaseSlug(db, entityType, newSlug);
+  await db.slugRedirect.upsert({
+    where: { entityType_oldSlug: { entityType, oldSlug } },
+    create: { entityType, entityId, oldSlug },
+    update: { entityId },
+  });
+}
+
+/**
+ * Removes any redirect occupying a slug that has just been assigned to an entity
+ */
+export async function releaseSlug(
+  db: Prisma.TransactionClient,
+  entityType: SlugEntityType,
+  slug: string
+): Promise<void> {
+  await db.slugRedirect.deleteMany({ where: { entityType, oldSlug: slug } });
+}
+
+/**
+ * Looks up the entity a previous slug redirects to
+ *
+ * @returns The entity ID, or null when the slug was never used
+ */
+export async function findSlugRedirect(
+  entityType: SlugEntityType,
+  slug: string
+): Promise<string | null> {
+  const redirect = await prisma.slugRedirect.findUnique({
+    where: { entityType_oldSlug: { entityType, oldSlug: slug } },
+    select: { entityId: true },
+  });
+
+  return redirect?.entityId ?? null;
+}
+
+/**
+ * Whether a Prisma error is a unique-constraint violation on a slug column
+ */
+export function isSlugConflict(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+    return false;
+  }
+
+  const target = error.meta?.["target"];
+  return Array.isArray(target) ? target.includes("slug") : String(target).includes("slug");
+}
+
+/**
+ * Runs a write that uses a generated slug, retrying when a concurrent write
+ * claimed the same slug between generation and insert
+ */
+export async function withSlugRetry<T>(write: () => Promise<T>, attempts = 3): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (attempt >= attempts || !isSlugConflict(error)) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { prisma } from "./prisma";
+import { logger } from "./logger";
+
+/**
+ * Typed accessors for `SystemConfig` rows
+ *
+ * Values are stored as strings; each accessor parses the value and falls back
+ * to the provided default when the key is missing or malformed.
+ */
+
+async function getRawConfigValue(key: string): Promise<string | null> {
+  try {
+    const config = await prisma.systemConfig.findUnique({ where: { key } });
+    return config?.value ?? null;
+  } catch (error) {
+    logger.error(`Error reading system config "${key}":`, error);
+    return null;
+  }
+}
+
+export async function getStringConfig(key: string, defaultValue: string): Promise<string> {
+  return (await getRawConfigValue(key)) ?? defaultValue;
+}
+
+export async function getNumberConfig(key: string, defaultValue: number): Promise<number> {
+  const value = await getRawConfigValue(key);
+  if (value === null) return defaultValue;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : defaultValue;
+}
+
+export async function getBooleanConfig(key: string, defaultValue: boolean): Promise<boolean> {
+  const value = await getRawConfigValue(key);
+  if (value === null) return defaultValue;
+
+  return value.trim().toLowerCase() === "true";
+}
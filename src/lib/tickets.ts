@@ -0,0 +1,331 @@
+/**
+ * Tickets and event check-in
+ *
+ * A confirmed registration's ticket is a signed token whose subject is the
+ * registration ID, so a forged or edited code never matches a registration.
+ * Scanning a ticket marks the registration ATTENDED; reusing it is rejected.
+ * Once the event has started, closing the check-in marks everyone still
+ * CONFIRMED as NO_SHOW.
+ *
+ * Friends who never claimed their seat have no ticket of their own and enter
+ * with the group leader, whose check-in lists the whole group.
+ */
+
+import QRCode from "qrcode";
+import {
+  RegistrationAction,
+  RegistrationStatus,
+  type Event,
+  type Prisma,
+  type Registration,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { lockEvent } from "./event-availability";
+import { parseGroupFriends } from "./group-friends";
+import { recordRegistrationHistory } from "./registration-history";
+import { createSignedToken, verifySignedToken } from "./signed-tokens";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the ticket code of a registration; it stays valid for a day after
+ * the event ends
+ */
+export function createTicketCode(
+  registration: Pick<Registration, "id">,
+  event: Pick<Event, "startDate" | "endDate">
+): string {
+  const endsAt = event.endDate ?? event.startDate;
+  return createSignedToken("ticket", registration.id, new Date(endsAt.getTime() + DAY_MS));
+}
+
+/**
+ * Public ticket page of a registration
+ */
+export function getTicketUrl(locale: string, code: string): string {
+  return `${getBaseUrl()}/${locale}/tickets/${encodeURIComponent(code)}`;
+}
+
+/**
+ * QR code image of a ticket, linked from emails and the ticket page
+ */
+export function getTicketQrUrl(code: string): string {
+  return `${getBaseUrl()}/api/tickets/${encodeURIComponent(code)}/qr`;
+}
+
+/**
+ * Renders the ticket code as a PNG QR code
+ */
+export async function renderTicketQr(code: string): Promise<Buffer> {
+  return QRCode.toBuffer(code, { errorCorrectionLevel: "M", margin: 2, width: 320 });
+}
+
+/**
+ * Scanners may read the ticket page URL instead of the bare code
+ */
+export function normalizeTicketCode(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/tickets\/([^/?#]+)/);
+  return match?.[1] ? decodeURIComponent(match[1]) : trimmed;
+}
+
+const ticketInclude = {
+  event: {
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      startDate: true,
+      endDate: true,
+      timezone: true,
+      venue: true,
+      city: true,
+      isOnline: true,
+    },
+  },
+  user: { select: { name: true, email: true } },
+} satisfies Prisma.RegistrationInclude;
+
+export type TicketRegistration = Prisma.RegistrationGetPayload<{ include: typeof ticketInclude }>;
+
+/**
+ * Loads the registration behind a ticket code, for the ticket page
+ */
+export async function getTicket(code: string): Promise<TicketRegistration | null> {
+  const verified = verifySignedToken(code, "ticket");
+  if (!verified) return null;
+
+  return prisma.registration.findUnique({
+    where: { id: verified.subject },
+    include: ticketInclude,
+  });
+}
+
+export interface CheckInMember {
+  name: string;
+  registrationId: string | null;
+  status: RegistrationStatus | null;
+  checkedInAt: Date | null;
+}
+
+export interface CheckInResult {
+  registrationId: string;
+  attendee: string;
+  groupSize: number;
+  checkedInAt: Date;
+  /** The group's friends, when the ticket belongs to a group leader */
+  members: CheckInMember[];
+}
+
+function attendeeName(
+  registration: Pick<Registration, "guestName" | "guestEmail"> & {
+    user: { name: string | null; email: string } | null;
+  }
+): string {
+  return (
+    registration.user?.name ??
+    registration.guestName ??
+    registration.user?.email ??
+    registration.guestEmail ??
+    ""
+  );
+}
+
+export interface CheckInInput {
+  eventId: string;
+  code: string;
+  performedById: string;
+}
+
+/**
+ * Checks in the attendee of a ticket
+ *
+ * Only CONFIRMED registrations of the scanned event are let in; a second
+ * scan fails with ALREADY_CHECKED_IN and tells staff when the first one was.
+ */
+export async function checkInTicket(input: CheckInInput): Promise<ServiceResult<CheckInResult>> {
+  const { eventId, performedById } = input;
+  const verified = verifySignedToken(normalizeTicketCode(input.code), "ticket");
+  if (!verified) {
+    return fail("INVALID_TICKET", "This ticket is invalid or has expired", 400);
+  }
+
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<CheckInResult>> => {
+    await lockEvent(tx, eventId);
+
+    const registration = await tx.registration.findUnique({
+      where: { id: verified.subject },
+      include: {
+        user: { select: { name: true, email: true } },
+        groupMembers: { select: { id: true, status: true, checkedInAt: true } },
+      },
+    });
+
+    if (!registration || registration.eventId !== eventId) {
+      return fail("TICKET_WRONG_EVENT", "This ticket is not for this event", 409);
+    }
+
+    const attendee = attendeeName(registration);
+    if (registration.status === RegistrationStatus.ATTENDED) {
+      return fail("ALREADY_CHECKED_IN", `${attendee} has already checked in`, 409, {
+        attendee,
+        checkedInAt: registration.checkedInAt,
+      });
+    }
+    if (registration.status !== RegistrationStatus.CONFIRMED) {
+      return fail(
+        "TICKET_NOT_VALID",
+        `A ${registration.status} registration cannot check in`,
+        409,
+        {
+          attendee,
+          status: registration.status,
+        }
+      );
+    }
+
+    const now = new Date();
+    await tx.registration.update({
+      where: { id: registration.id },
+      data: { status: RegistrationStatus.ATTENDED, checkedInAt: now },
+    });
+
+    if (registration.userId) {
+      await recordRegistrationHistory(tx, {
+        userId: registration.userId,
+        eventId,
+        action: RegistrationAction.CHECKED_IN,
+        previousStatus: registration.status,
+        newStatus: RegistrationStatus.ATTENDED,
+        performedById,
+      });
+    }
+
+    const members = parseGroupFriends(registration.friendsData).map((friend): CheckInMember => {
+      const claimed = registration.groupMembers.find(
+        (member) => member.id === friend.registrationId
+      );
+      return {
+        name: friend.name,
+        registrationId: claimed?.id ?? null,
+        status: claimed?.status ?? null,
+        checkedInAt: claimed?.checkedInAt ?? null,
+      };
+    });
+
+    return ok({
+      registrationId: registration.id,
+      attendee,
+      groupSize: registration.groupSize,
+      checkedInAt: now,
+      members,
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Registration ${result.data.registrationId} checked in by ${performedById}`);
+  }
+
+  return result;
+}
+
+export interface CheckInStats {
+  confirmed: number;
+  checkedIn: number;
+  noShows: number;
+}
+
+/**
+ * Registrations of an event by check-in state, for the check-in screen
+ */
+export async function getCheckInStats(eventId: string): Promise<CheckInStats> {
+  const groups = await prisma.registration.groupBy({
+    by: ["status"],
+    where: {
+      eventId,
+      status: {
+        in: [RegistrationStatus.CONFIRMED, RegistrationStatus.ATTENDED, RegistrationStatus.NO_SHOW],
+      },
+    },
+    _count: true,
+  });
+
+  const count = (status: RegistrationStatus) =>
+    groups.find((group) => group.status === status)?._count ?? 0;
+
+  return {
+    confirmed: count(RegistrationStatus.CONFIRMED),
+    checkedIn: count(RegistrationStatus.ATTENDED),
+    noShows: count(RegistrationStatus.NO_SHOW),
+  };
+}
+
+/**
+ * Closes the check-in of a started event: every registration still CONFIRMED
+ * becomes NO_SHOW
+ *
+ * @returns Number of registrations marked as no-shows
+ */
+export async function closeCheckIn(
+  eventId: string,
+  performedById: string
+): Promise<ServiceResult<{ noShows: number }>> {
+  const result = await prisma.$transaction(
+    async (tx): Promise<ServiceResult<{ noShows: number }>> => {
+      await lockEvent(tx, eventId);
+
+      const event = await tx.event.findUnique({ where: { id: eventId } });
+      if (!event) {
+        return fail("EVENT_NOT_FOUND", "Event not found", 404);
+      }
+      if (event.startDate > new Date()) {
+        return fail("EVENT_NOT_STARTED", "Check-in can only be closed once the event starts", 409);
+      }
+
+      const absent = await tx.registration.findMany({
+        where: { eventId, status: RegistrationStatus.CONFIRMED },
+        select: { id: true, userId: true },
+      });
+      if (absent.length === 0) {
+        return ok({ noShows: 0 });
+      }
+
+      await tx.registration.updateMany({
+        where: { id: { in: absent.map(({ id }) => id) } },
+        data: { status: RegistrationStatus.NO_SHOW },
+      });
+
+      await recordRegistrationHistory(
+        tx,
+        absent.flatMap(({ userId }) =>
+          userId
+            ? [
+                {
+                  userId,
+                  eventId,
+                  action: RegistrationAction.MARKED_NO_SHOW,
+                  previousStatus: RegistrationStatus.CONFIRMED,
+                  newStatus: RegistrationStatus.NO_SHOW,
+                  reason: "Did not check in",
+                  performedById,
+                },
+              ]
+            : []
+        )
+      );
+
+      return ok({ noShows: absent.length });
+    }
+  );
+
+  if (result.success) {
+    logger.info(
+      `Check-in of event ${eventId} closed by ${performedById}: ${result.data.noShows} no-shows`
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,29 @@
+/**
+ * Account status
+ *
+ * Only ACTIVE accounts and accounts still PENDING_VERIFICATION may use the
+ * site; INACTIVE accounts (deleted in Kinde) and SUSPENDED ones are shut out
+ * by the server guards. A suspension stops counting at its end date, before
+ * the job in ./user-suspensions reactivates the account for the record.
+ */
+
+import { UserStatus, type User } from "@prisma/client";
+
+/** Why an account may not use the site */
+export type AccountRestriction = "SUSPENDED" | "INACTIVE";
+
+/**
+ * Whether the account is shut out at the given time, and why
+ */
+export function getAccountRestriction(
+  user: Pick<User, "status" | "suspendedUntil">,
+  now: Date = new Date()
+): AccountRestriction | null {
+  if (user.status === UserStatus.INACTIVE) {
+    return "INACTIVE";
+  }
+  if (user.status === UserStatus.SUSPENDED && (!user.suspendedUntil || user.suspendedUntil > now)) {
+    return "SUSPENDED";
+  }
+  return null;
+}
@@ -0,0 +1,301 @@
+/**
+ * User suspensions
+ *
+ * Moderators suspend an account with a reason, until a date or until they
+ * reactivate it; see ./user-status for what a suspension blocks. They only
+ * act on accounts whose roles rank below their own. The hourly
+ * job reactivates accounts whose suspension has reached its end date. With
+ * `users.cancel_registrations_on_suspension` enabled, suspending an account
+ * also cancels its registrations for upcoming events.
+ */
+
+import { AuditAction, UserStatus, type Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { SEAT_HOLDING_STATUSES } from "./event-availability";
+import { cancelRegistration } from "./registrations";
+import { recordAuditLog } from "./audit";
+import { getUserRoles, parseRolePermissions } from "./roles";
+import { getBooleanConfig } from "./system-config";
+import { logger } from "./logger";
+import { ok, fail, type ServiceResult } from "@/types/service";
+import type { SuspendUserInput } from "./validations/user";
+
+export const suspendedUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  status: true,
+  suspendedAt: true,
+  suspendedUntil: true,
+  suspensionReason: true,
+} satisfies Prisma.UserSelect;
+
+export type SuspendedUser = Prisma.UserGetPayload<{ select: typeof suspendedUserSelect }>;
+
+export interface UserSuspension {
+  user: SuspendedUser;
+  /** Upcoming registrations cancelled with the suspension */
+  cancelledRegistrations: number;
+}
+
+const USER_AUDIT_RESOURCE = "User";
+
+// Grants of user administrators, whom no moderator may suspend or reactivate
+const ADMINISTRATOR_GRANTS = ["*", "users.*", "admin.*"];
+
+function toAuditData(user: SuspendedUser): Prisma.InputJsonObject {
+  return {
+    status: user.status,
+    suspendedUntil: user.suspendedUntil?.toISOString() ?? null,
+    suspensionReason: user.suspensionReason,
+  };
+}
+
+/**
+ * Whether the moderator ranks above the account: its highest role priority
+ * is below the moderator's and none of its roles makes it an administrator
+ */
+async function outranks(
+  tx: Prisma.TransactionClient,
+  moderatorId: string,
+  userId: string,
+  now: Date
+): Promise<boolean> {
+  const [moderatorRoles, userRoles] = await Promise.all([
+    getUserRoles(tx, moderatorId, now),
+    getUserRoles(tx, userId, now),
+  ]);
+  const highestPriority = (roles: typeof userRoles) =>
+    Math.max(0, ...roles.map(({ priority }) => priority));
+
+  const isAdministrator = userRoles
+    .flatMap((role) => parseRolePermissions(role.permissions))
+    .some((grant) => ADMINISTRATOR_GRANTS.includes(grant));
+
+  return !isAdministrator && highestPriority(userRoles) < highestPriority(moderatorRoles);
+}
+
+function outrankedFailure<T>(): ServiceResult<T> {
+  return fail(
+    "USER_OUTRANKS_MODERATOR",
+    "You cannot moderate an account whose role ranks at or above yours",
+    403
+  );
+}
+
+/**
+ * Accounts currently suspended, the ones suspended longest ago first
+ */
+export async function listSuspendedUsers(): Promise<SuspendedUser[]> {
+  return prisma.user.findMany({
+    where: { status: UserStatus.SUSPENDED },
+    select: suspendedUserSelect,
+    orderBy: { suspendedAt: "asc" },
+  });
+}
+
+/**
+ * Cancels the user's registrations for events that have not started yet,
+ * as a manager would
+ *
+ * @returns Number of registrations cancelled
+ */
+async function cancelUpcomingRegistrations(
+  userId: string,
+  performedById: string,
+  now: Date
+): Promise<number> {
+  const registrations = await prisma.registration.findMany({
+    where: {
+      userId,
+      status: { in: SEAT_HOLDING_STATUSES },
+      event: { startDate: { gt: now } },
+    },
+    select: { id: true },
+  });
+
+  let cancelled = 0;
+  for (const { id } of registrations) {
+    const result = await cancelRegistration({
+      registrationId: id,
+      performedById,
+      asManager: true,
+      reason: "Account suspended",
+    });
+    if (result.success) {
+      cancelled++;
+    } else {
+      logger.warn(`Could not cancel registration ${id} of suspended user ${userId}:`, result.error);
+    }
+  }
+
+  return cancelled;
+}
+
+/**
+ * Suspends an account, until `until` or until it is reactivated; suspending
+ * a suspended account replaces the reason and end date
+ */
+export async function suspendUser(
+  input: SuspendUserInput,
+  suspendedById: string,
+  now: Date = new Date()
+): Promise<ServiceResult<UserSuspension>> {
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<SuspendedUser>> => {
+    const existing = await tx.user.findUnique({
+      where: input.userId ? { id: input.userId } : { email: input.email ?? "" },
+      select: suspendedUserSelect,
+    });
+    if (!existing) {
+      return fail("USER_NOT_FOUND", "User not found", 404);
+    }
+    if (existing.id === suspendedById) {
+      return fail("CANNOT_SUSPEND_SELF", "You cannot suspend your own account", 409);
+    }
+    if (existing.status === UserStatus.INACTIVE) {
+      return fail("USER_INACTIVE", "Inactive accounts cannot be suspended", 409);
+    }
+    if (!(await outranks(tx, suspendedById, existing.id, now))) {
+      return outrankedFailure();
+    }
+
+    const user = await tx.user.update({
+      where: { id: existing.id },
+      data: {
+        status: UserStatus.SUSPENDED,
+        suspendedAt: now,
+        suspendedUntil: input.until ?? null,
+        suspensionReason: input.reason,
+      },
+      select: suspendedUserSelect,
+    });
+
+    await recordAuditLog(tx, {
+      userId: suspendedById,
+      action: AuditAction.UPDATE,
+      resource: USER_AUDIT_RESOURCE,
+      resourceId: user.id,
+      oldData: toAuditData(existing),
+      newData: toAuditData(user),
+      description: user.suspendedUntil
+        ? `${user.email} suspended until ${user.suspendedUntil.toISOString()}`
+        : `${user.email} suspended`,
+    });
+
+    return ok(user);
+  });
+  if (!result.success) {
+    return result;
+  }
+
+  const user = result.data;
+  const cancelRegistrations = await getBooleanConfig(
+    "users.cancel_registrations_on_suspension",
+    false
+  );
+  const cancelledRegistrations = cancelRegistrations
+    ? await cancelUpcomingRegistrations(user.id, suspendedById, now)
+    : 0;
+
+  logger.info(
+    `Suspended user ${user.id}` +
+      (cancelledRegistrations > 0 ? `, cancelled ${cancelledRegistrations} registrations` : "")
+  );
+  return ok({ user, cancelledRegistrations });
+}
+
+/**
+ * Ends a suspension, by a moderator or (without `reactivatedById`) because
+ * its end date passed
+ */
+async function endSuspension(
+  tx: Prisma.TransactionClient,
+  existing: SuspendedUser,
+  reactivatedById: string | null
+): Promise<SuspendedUser> {
+  const user = await tx.user.update({
+    where: { id: existing.id },
+    data: {
+      status: UserStatus.ACTIVE,
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null,
+    },
+    select: suspendedUserSelect,
+  });
+
+  await recordAuditLog(tx, {
+    userId: reactivatedById,
+    action: AuditAction.UPDATE,
+    resource: USER_AUDIT_RESOURCE,
+    resourceId: user.id,
+    oldData: toAuditData(existing),
+    newData: toAuditData(user),
+    description: reactivatedById
+      ? `${user.email} reactivated`
+      : `Suspension of ${user.email} ended`,
+  });
+
+  return user;
+}
+
+/**
+ * Reactivates a suspended account
+ */
+export async function reactivateUser(
+  userId: string,
+  reactivatedById: string,
+  now: Date = new Date()
+): Promise<ServiceResult<SuspendedUser>> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.user.findUnique({
+      where: { id: userId },
+      select: suspendedUserSelect,
+    });
+    if (!existing) {
+      return fail("USER_NOT_FOUND", "User not found", 404);
+    }
+    if (existing.status !== UserStatus.SUSPENDED) {
+      return fail("USER_NOT_SUSPENDED", "The account is not suspended", 409);
+    }
+    if (!(await outranks(tx, reactivatedById, existing.id, now))) {
+      return outrankedFailure();
+    }
+
+    const user = await endSuspension(tx, existing, reactivatedById);
+    logger.info(`Reactivated user ${user.id}`);
+    return ok(user);
+  });
+}
+
+/**
+ * Reactivates the accounts whose suspension has reached its end date
+ *
+ * @returns Number of accounts reactivated
+ */
+export async function liftExpiredSuspensions(now: Date = new Date()): Promise<number> {
+  const expired = await prisma.user.findMany({
+    where: { status: UserStatus.SUSPENDED, suspendedUntil: { lte: now } },
+    select: suspendedUserSelect,
+  });
+
+  let lifted = 0;
+  for (const existing of expired) {
+    const user = await prisma.$transaction(async (tx) => {
+      // Only one of overlapping runs gets to lift the suspension
+      const { count } = await tx.user.updateMany({
+        where: { id: existing.id, status: UserStatus.SUSPENDED, suspendedUntil: { lte: now } },
+        data: { status: UserStatus.ACTIVE },
+      });
+      return count > 0 ? endSuspension(tx, existing, null) : null;
+    });
+
+    if (user) lifted++;
+  }
+
+  if (lifted > 0) {
+    logger.info(`Lifted ${lifted} expired suspensions`);
+  }
+
+  return lifted;
+}
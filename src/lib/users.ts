@@ -0,0 +1,283 @@
+import { cache } from "react";
+import { AuditAction, Prisma, UserStatus, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getCurrentUser } from "./kinde-auth";
+import { mergeGuestRegistrations } from "./guest-registrations";
+import { recordAuditLog } from "./audit";
+import { getAccountRestriction } from "./user-status";
+import { logger } from "./logger";
+import { ok, fail, type ServiceResult } from "@/types/service";
+import type { RequestContext } from "./api-utils";
+
+/**
+ * A Kinde identity as reported by a session or a webhook
+ */
+export interface KindeProfile {
+  kindeId: string;
+  email: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  phoneNumber?: string | null;
+}
+
+export interface SyncedUser {
+  user: User;
+  /** Whether the account was created by this sync */
+  created: boolean;
+}
+
+const USER_AUDIT_RESOURCE = "User";
+
+/**
+ * Get the database user for the current Kinde session, as long as the
+ * account may use the site; suspended and inactive accounts get null
+ */
+export async function getCurrentAppUser(): Promise<User | null> {
+  const user = await getCurrentAccount();
+  return user && !getAccountRestriction(user) ? user : null;
+}
+
+/**
+ * Get the database user for the current Kinde session, whatever its status
+ *
+ * Matches on `kindeId` first and falls back to the email address for
+ * accounts created before they were linked to Kinde, linking them on the way.
+ * An email match already linked to a different Kinde identity is refused.
+ * Resolved once per request, so the first sign-in links the account once.
+ */
+export const getCurrentAccount = cache(async (): Promise<User | null> => {
+  try {
+    const kindeUser = await getCurrentUser();
+
+    if (!kindeUser) {
+      return null;
+    }
+
+    const byKindeId = await prisma.user.findUnique({ where: { kindeId: kindeUser.id } });
+    if (byKindeId) {
+      return byKindeId;
+    }
+
+    if (!kindeUser.email) {
+      return null;
+    }
+
+    const byEmail = await prisma.user.findUnique({
+      where: { email: kindeUser.email.toLowerCase() },
+    });
+
+    // An account linked to another Kinde identity is not this user's
+    return byEmail && !byEmail.kindeId ? await linkKindeAccount(byEmail, kindeUser.id) : null;
+  } catch (error) {
+    logger.error("Error resolving current application user:", error);
+    return null;
+  }
+});
+
+/**
+ * Links an account to its Kinde identity on first sign-in and moves over
+ * the guest registrations made with its email
+ */
+async function linkKindeAccount(
+  user: User,
+  kindeId: string,
+  data: Prisma.UserUpdateInput = {}
+): Promise<User> {
+  const linked = await prisma.user.update({ where: { id: user.id }, data: { ...data, kindeId } });
+  await mergeGuestRegistrations(linked);
+  return linked;
+}
+
+/**
+ * Profile fields Kinde knows; missing values never clear what is stored
+ */
+function toProfileData(profile: KindeProfile): Prisma.UserUpdateInput {
+  const name = [profile.firstName, profile.lastName].filter(Boolean).join(" ");
+
+  return {
+    ...(profile.firstName && { firstName: profile.firstName }),
+    ...(profile.lastName && { lastName: profile.lastName }),
+    ...(name && { name }),
+    ...(profile.phoneNumber && { phoneNumber: profile.phoneNumber }),
+  };
+}
+
+/**
+ * Creates an account for a new Kinde identity with the default role as its
+ * primary role
+ */
+async function createKindeUser(profile: KindeProfile, email: string, now: Date): Promise<User> {
+  return prisma.$transaction(async (tx) => {
+    const defaultRole = await tx.role.findFirst({
+      where: { isDefault: true },
+      orderBy: { priority: "desc" },
+      select: { id: true },
+    });
+
+    const user = await tx.user.create({
+      data: {
+        ...(toProfileData(profile) as Prisma.UserUncheckedCreateInput),
+        kindeId: profile.kindeId,
+        email,
+        ...(defaultRole && {
+          primaryRoleId: defaultRole.id,
+          userRoles: { create: { roleId: defaultRole.id, assignedAt: now } },
+        }),
+      },
+    });
+
+    await recordAuditLog(tx, {
+      userId: user.id,
+      action: AuditAction.CREATE,
+      resource: USER_AUDIT_RESOURCE,
+      resourceId: user.id,
+      newData: { email, kindeId: profile.kindeId, primaryRoleId: user.primaryRoleId },
+      description: `User ${email} created from Kinde`,
+    });
+
+    return user;
+  });
+}
+
+/**
+ * Creates or updates the database user of a Kinde identity
+ *
+ * Accounts are matched on `kindeId`, then on the email address, which links
+ * accounts made before the identity existed. New accounts start pending
+ * verification and get the default role.
+ */
+export async function syncKindeUser(
+  profile: KindeProfile,
+  now: Date = new Date()
+): Promise<ServiceResult<SyncedUser>> {
+  const email = profile.email?.toLowerCase() ?? null;
+
+  try {
+    const byKindeId = await prisma.user.findUnique({ where: { kindeId: profile.kindeId } });
+    if (byKindeId) {
+      const user = await prisma.user.update({
+        where: { id: byKindeId.id },
+        data: { ...toProfileData(profile), ...(email && { email }) },
+      });
+      return ok({ user, created: false });
+    }
+
+    const byEmail = email ? await prisma.user.findUnique({ where: { email } }) : null;
+    if (byEmail?.kindeId) {
+      return fail("EMAIL_IN_USE", "The email address belongs to another Kinde account", 409);
+    }
+    if (byEmail) {
+      const user = await linkKindeAccount(byEmail, profile.kindeId, toProfileData(profile));
+      logger.info(`Linked user ${user.id} to Kinde account ${profile.kindeId}`);
+      return ok({ user, created: false });
+    }
+
+    if (!email) {
+      return fail("EMAIL_REQUIRED", "Kinde account has no email address", 422);
+    }
+
+    const user = await createKindeUser(profile, email, now);
+    await mergeGuestRegistrations(user);
+    logger.info(`Created user ${user.id} for Kinde account ${profile.kindeId}`);
+    return ok({ user, created: true });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return fail("EMAIL_IN_USE", "The email address belongs to another account", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Unlinks and deactivates the account of a deleted Kinde identity; its
+ * registrations and payments stay on record
+ *
+ * @returns The deactivated user, or null when no account had the identity
+ */
+export async function removeKindeUser(
+  kindeId: string,
+  now: Date = new Date()
+): Promise<ServiceResult<Pick<User, "id"> | null>> {
+  const user = await prisma.user.findUnique({ where: { kindeId } });
+  if (!user) {
+    return ok(null);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { kindeId: null, status: UserStatus.INACTIVE },
+    });
+    await recordAuditLog(tx, {
+      userId: user.id,
+      action: AuditAction.UPDATE,
+      resource: USER_AUDIT_RESOURCE,
+      resourceId: user.id,
+      oldData: { kindeId, status: user.status },
+      newData: { kindeId: null, status: UserStatus.INACTIVE },
+      description: `Kinde account of ${user.email} deleted on ${now.toISOString()}`,
+    });
+  });
+
+  logger.info(`Deactivated user ${user.id} after its Kinde account was deleted`);
+  return ok({ id: user.id });
+}
+
+/**
+ * Brings the signed-in user's account up to date after a Kinde login
+ *
+ * Creates or links the account, records the login time and activates
+ * accounts still pending verification, as Kinde has verified the email by
+ * now. Every login is written to the audit log.
+ *
+ * @returns The account, or null when nobody is signed in or it cannot be synced
+ */
+export async function recordCurrentUserLogin(
+  context: RequestContext,
+  now: Date = new Date()
+): Promise<User | null> {
+  const kindeUser = await getCurrentUser();
+  if (!kindeUser) {
+    return null;
+  }
+
+  const synced = await syncKindeUser(
+    {
+      kindeId: kindeUser.id,
+      email: kindeUser.email,
+      firstName: kindeUser.given_name ?? null,
+      lastName: kindeUser.family_name ?? null,
+    },
+    now
+  );
+  if (!synced.success) {
+    logger.warn(`Could not sync Kinde account ${kindeUser.id}: ${synced.error.message}`);
+    return null;
+  }
+
+  const { user: existing } = synced.data;
+  const activate = existing.status === UserStatus.PENDING_VERIFICATION;
+
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.update({
+      where: { id: existing.id },
+      data: { lastLoginAt: now, ...(activate && { status: UserStatus.ACTIVE }) },
+    });
+
+    await recordAuditLog(tx, {
+      userId: user.id,
+      action: AuditAction.LOGIN,
+      resource: USER_AUDIT_RESOURCE,
+      resourceId: user.id,
+      ...(activate && {
+        oldData: { status: existing.status },
+        newData: { status: user.status },
+      }),
+      description: activate ? "Signed in for the first time" : "Signed in",
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+
+    return user;
+  });
+}
@@ -4,3 +4,24 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * The keys of `T` with `undefined` dropped from their values; keys that could
+ * be undefined become optional
+ */
+export type OmitUndefined<T> = {
+  [K in keyof T as undefined extends T[K] ? never : K]: T[K];
+} & {
+  [K in keyof T as undefined extends T[K] ? K : never]?: Exclude<T[K], undefined>;
+};
+
+/**
+ * Drops the keys whose value is undefined, e.g. to turn validated partial
+ * input into Prisma data (with `exactOptionalPropertyTypes`, Prisma's input
+ * types do not accept an explicit undefined)
+ */
+export function omitUndefined<T extends object>(input: T): OmitUndefined<T> {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as OmitUndefined<T>;
+}
@@ -0,0 +1,186 @@
+/**
+ * Event validation schemas
+ *
+ * Shared by the /api/events collection and item routes. Enforces the
+ * application-level constraints listed in the Prisma schema TODOs.
+ */
+
+import { z } from "zod";
+import { EventStatus, EventType } from "@prisma/client";
+import { SUPPORTED_CURRENCIES } from "@/lib/currencies";
+import { MAX_SLUG_LENGTH } from "@/lib/slug";
+
+/**
+ * Per-locale translated event fields
+ * Example: {"en": {"title": "Event Title"}, "cs": {"title": "Název akce"}}
+ */
+export const eventTranslationsSchema = z.record(
+  z.string().min(2).max(5),
+  z.object({
+    title: z.string().min(1).max(200).optional(),
+    description: z.string().max(10000).optional(),
+    shortDescription: z.string().max(500).optional(),
+  })
+);
+
+export const slugSchema = z
+  .string()
+  .min(1)
+  .max(MAX_SLUG_LENGTH)
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    "Slug may only contain lowercase letters, digits and dashes"
+  );
+
+const eventFieldsSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200),
+  // Generated from the title when omitted
+  slug: slugSchema.optional(),
+  description: z.string().max(10000).nullable().optional(),
+  shortDescription: z.string().max(500).nullable().optional(),
+
+  type: z.nativeEnum(EventType).optional(),
+  capacity: z.number().int().min(1).max(10000),
+  price: z.number().min(0).nullable().optional(),
+  currency: z
+    .string()
+    .transform((value) => value.toUpperCase())
+    .pipe(z.enum(SUPPORTED_CURRENCIES))
+    .optional(),
+
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  timezone: z.string().min(1).optional(),
+
+  venue: z.string().max(200).nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  city: z.string().max(100).nullable().optional(),
+  country: z.string().max(100).nullable().optional(),
+  isOnline: z.boolean().optional(),
+  onlineUrl: z.string().url().nullable().optional(),
+
+  registrationStartDate: z.coerce.date().nullable().optional(),
+  registrationEndDate: z.coerce.date().nullable().optional(),
+  requiresApproval: z.boolean().optional(),
+  allowWaitingList: z.boolean().optional(),
+  maxWaitingList: z.number().int().min(0).nullable().optional(),
+
+  requiresPayment: z.boolean().optional(),
+  bankAccountId: z.string().min(1).nullable().optional(),
+
+  translations: eventTranslationsSchema.nullable().optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  imageUrl: z.string().url().nullable().optional(),
+  websiteUrl: z.string().url().nullable().optional(),
+
+  managerId: z.string().min(1).nullable().optional(),
+  categoryId: z.string().min(1).nullable().optional(),
+});
+
+export type EventDateFields = {
+  startDate?: Date | undefined;
+  endDate?: Date | null | undefined;
+  registrationStartDate?: Date | null | undefined;
+  registrationEndDate?: Date | null | undefined;
+};
+
+/**
+ * Cross-field date checks shared by create, update and the event service
+ * (which re-runs them against the merged, persisted values on update)
+ */
+export function getEventDateIssues(
+  data: EventDateFields
+): Array<{ path: keyof EventDateFields; message: string }> {
+  const issues: Array<{ path: keyof EventDateFields; message: string }> = [];
+
+  if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+    issues.push({ path: "endDate", message: "End date must be after start date" });
+  }
+
+  if (data.startDate && data.registrationEndDate && data.registrationEndDate > data.startDate) {
+    issues.push({
+      path: "registrationEndDate",
+      message: "Registration must close before the event starts",
+    });
+  }
+
+  if (
+    data.registrationStartDate &&
+    data.registrationEndDate &&
+    data.registrationEndDate <= data.registrationStartDate
+  ) {
+    issues.push({
+      path: "registrationEndDate",
+      message: "Registration end date must be after registration start date",
+    });
+  }
+
+  return issues;
+}
+
+function validateEventDates(data: EventDateFields, ctx: z.RefinementCtx) {
+  for (const issue of getEventDateIssues(data)) {
+    ctx.addIssue({ code: "custom", path: [issue.path], message: issue.message });
+  }
+}
+
+/**
+ * Validation schema for creating an event
+ *
+ * New events start as DRAFT or PUBLISHED; later status changes go through
+ * the status transition endpoint.
+ */
+export const createEventSchema = eventFieldsSchema
+  .extend({
+    status: z.enum([EventStatus.DRAFT, EventStatus.PUBLISHED]).optional(),
+  })
+  .superRefine(validateEventDates);
+
+/**
+ * Validation schema for partially updating an event
+ */
+export const updateEventSchema = eventFieldsSchema
+  .partial()
+  .superRefine(validateEventDates)
+  .refine((data) => Object.keys(data).length > 0, { message: "No fields to update" });
+
+/**
+ * Validation schema for an event status transition
+ */
+export const eventStatusTransitionSchema = z.object({
+  status: z.nativeEnum(EventStatus),
+  reason: z.string().trim().min(1).max(1000).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+});
+
+const booleanQuerySchema = z.enum(["true", "false"]).transform((value) => value === "true");
+
+/**
+ * Validation schema for the event list query string
+ */
+export const eventListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.nativeEnum(EventStatus).optional(),
+  type: z.nativeEnum(EventType).optional(),
+  categoryId: z.string().min(1).optional(),
+  city: z.string().min(1).optional(),
+  isOnline: booleanQuerySchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  tags: z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+    .optional(),
+  search: z.string().min(1).max(100).optional(),
+});
+
+export type CreateEventInput = z.infer<typeof createEventSchema>;
+export type UpdateEventInput = z.infer<typeof updateEventSchema>;
+export type EventListQuery = z.infer<typeof eventListQuerySchema>;
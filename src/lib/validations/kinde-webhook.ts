@@ -0,0 +1,30 @@
+/**
+ * Kinde webhook payload schemas
+ *
+ * Only the user fields the application stores are read; Kinde sends more.
+ */
+
+import { z } from "zod";
+
+const optionalText = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => value || null);
+
+export const kindeWebhookUserSchema = z.object({
+  id: z.string().min(1),
+  email: z.string().trim().toLowerCase().email().nullish(),
+  first_name: optionalText,
+  last_name: optionalText,
+  phone: optionalText,
+});
+
+export const kindeWebhookEventSchema = z.object({
+  type: z.string().min(1),
+  event_id: z.string().min(1),
+  data: z.object({ user: kindeWebhookUserSchema }).partial().nullish(),
+});
+
+export type KindeWebhookUser = z.infer<typeof kindeWebhookUserSchema>;
+export type KindeWebhookEvent = z.infer<typeof kindeWebhookEventSchema>;
@@ -0,0 +1,149 @@
+/**
+ * Payment validation schemas
+ */
+
+import { z } from "zod";
+import { BankStatementFormat } from "@prisma/client";
+import { SUPPORTED_CURRENCIES } from "@/lib/currencies";
+
+/**
+ * Maximum size of an uploaded bank statement
+ */
+export const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Validation schema for the form fields sent with a bank statement upload
+ */
+export const importBankStatementSchema = z.object({
+  format: z.nativeEnum(BankStatementFormat).optional(),
+  bankAccountId: z.string().min(1).optional(),
+});
+
+/**
+ * Validation schema for resolving a transfer on the reconciliation review list
+ */
+export const resolveBankTransactionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("MATCH"),
+    pendingPaymentId: z.string().min(1),
+    note: z.string().trim().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal("IGNORE"),
+    note: z.string().trim().min(1).max(1000),
+  }),
+]);
+
+/**
+ * Validation schema for requesting a refund of a payment; a missing amount
+ * refunds everything not refunded yet
+ */
+export const requestRefundSchema = z.object({
+  amount: z.number().positive().multipleOf(0.01).optional(),
+  reason: z.string().trim().min(1).max(500),
+  recipientName: z.string().trim().min(1).max(200).optional(),
+  recipientAccount: z.string().trim().min(1).max(50).optional(),
+});
+
+/**
+ * Validation schema for recording the outbound transfer of a refund, or
+ * cancelling the refund
+ */
+export const updateRefundSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("COMPLETE"),
+    bankReference: z.string().trim().min(1).max(100),
+    transferredAt: z.coerce.date().optional(),
+    recipientAccount: z.string().trim().min(1).max(50).optional(),
+    notes: z.string().trim().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal("CANCEL"),
+    notes: z.string().trim().min(1).max(1000),
+  }),
+]);
+
+/**
+ * Validation schema for refunding every payment of a cancelled event
+ */
+export const refundEventPaymentsSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * Validation schema for an attendee's "I have paid" claim
+ */
+export const claimPaymentSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Validation schema for filtering the payment claim verification queue
+ */
+export const paymentClaimQuerySchema = z.object({
+  eventId: z.string().min(1).optional(),
+  /** Only claims at least this many hours old */
+  minAgeHours: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 365)
+    .optional(),
+});
+
+/**
+ * Validation schema for verifying or rejecting a payment claim; rejecting
+ * may also cancel the registration to release its seats
+ */
+export const reviewPaymentClaimSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("VERIFY"),
+    notes: z.string().trim().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal("REJECT"),
+    notes: z.string().trim().min(1).max(1000),
+    cancelRegistration: z.boolean().default(false),
+  }),
+]);
+
+/**
+ * Maximum size of an uploaded ECB reference rate file (the full history is
+ * several megabytes)
+ */
+export const MAX_EXCHANGE_RATES_SIZE = 20 * 1024 * 1024;
+
+const reportDaySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+  .transform((value) => new Date(`${value}T00:00:00Z`));
+
+/**
+ * Validation schema for the revenue report query string; the period covers
+ * whole days (UTC) from `from` through `to`
+ */
+export const revenueReportQuerySchema = z
+  .object({
+    from: reportDaySchema,
+    to: reportDaySchema,
+    currency: z
+      .string()
+      .transform((value) => value.toUpperCase())
+      .pipe(z.enum(SUPPORTED_CURRENCIES))
+      .optional(),
+    eventId: z.string().min(1).optional(),
+  })
+  .refine((data) => data.to >= data.from, {
+    path: ["to"],
+    message: "The period must end on or after its start",
+  });
+
+export type ImportBankStatementInput = z.infer<typeof importBankStatementSchema>;
+export type ResolveBankTransactionInput = z.infer<typeof resolveBankTransactionSchema>;
+export type RequestRefundInput = z.infer<typeof requestRefundSchema>;
+export type UpdateRefundInput = z.infer<typeof updateRefundSchema>;
+export type RefundEventPaymentsInput = z.infer<typeof refundEventPaymentsSchema>;
+export type ClaimPaymentInput = z.infer<typeof claimPaymentSchema>;
+export type PaymentClaimQuery = z.infer<typeof paymentClaimQuerySchema>;
+export type ReviewPaymentClaimInput = z.infer<typeof reviewPaymentClaimSchema>;
+export type RevenueReportQuery = z.infer<typeof revenueReportQuerySchema>;
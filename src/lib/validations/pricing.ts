@@ -0,0 +1,116 @@
+/**
+ * Pricing validation schemas: price tiers and discount codes
+ */
+
+import { z } from "zod";
+import { RegistrationType } from "@prisma/client";
+import { SUPPORTED_CURRENCIES } from "@/lib/currencies";
+
+/**
+ * Ticket types an attendee may pick when registering; each needs a price
+ * tier of that type on the event
+ */
+export const TICKET_TYPES = [
+  RegistrationType.STUDENT,
+  RegistrationType.VIP,
+  RegistrationType.CORPORATE,
+] as const;
+
+export type TicketType = (typeof TICKET_TYPES)[number];
+
+/**
+ * Registration types a price tier may be limited to (guests never pay)
+ */
+const TIER_REGISTRATION_TYPES = [
+  RegistrationType.INDIVIDUAL,
+  RegistrationType.GROUP,
+  ...TICKET_TYPES,
+] as const;
+
+const priceTierFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  price: z.number().min(0),
+  validUntil: z.coerce.date().nullable().optional(),
+  registrationType: z.enum(TIER_REGISTRATION_TYPES).nullable().optional(),
+  roleId: z.string().min(1).nullable().optional(),
+  minGroupSize: z.number().int().min(2).max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for adding a price tier to an event
+ */
+export const createPriceTierSchema = priceTierFieldsSchema;
+
+/**
+ * Validation schema for changing a price tier
+ */
+export const updatePriceTierSchema = priceTierFieldsSchema.partial();
+
+export const discountCodeSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.toUpperCase())
+  .pipe(
+    z.string().regex(/^[A-Z0-9_-]{3,40}$/, "Codes are 3-40 letters, digits, dashes or underscores")
+  );
+
+const discountCodeFieldsSchema = z.object({
+  code: discountCodeSchema,
+  description: z.string().trim().max(500).nullable().optional(),
+  eventId: z.string().min(1).nullable().optional(),
+  percentOff: z.number().gt(0).max(100).nullable().optional(),
+  amountOff: z.number().gt(0).nullable().optional(),
+  currency: z
+    .string()
+    .transform((value) => value.toUpperCase())
+    .pipe(z.enum(SUPPORTED_CURRENCIES))
+    .nullable()
+    .optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for creating a discount code; it takes a percentage,
+ * an amount in a given currency, or both off
+ */
+export const createDiscountCodeSchema = discountCodeFieldsSchema
+  .refine((data) => Boolean(data.percentOff || data.amountOff), {
+    message: "A discount needs percentOff or amountOff",
+    path: ["percentOff"],
+  })
+  .refine((data) => !data.amountOff || Boolean(data.currency), {
+    message: "A currency is required with amountOff",
+    path: ["currency"],
+  });
+
+/**
+ * Validation schema for changing a discount code; the combined result is
+ * checked again by the service
+ */
+export const updateDiscountCodeSchema = discountCodeFieldsSchema.partial();
+
+/**
+ * Validation schema for listing discount codes
+ */
+export const discountCodeListQuerySchema = z.object({
+  eventId: z.string().min(1).optional(),
+});
+
+/**
+ * Validation schema for previewing the price of a registration
+ */
+export const priceQuoteQuerySchema = z.object({
+  seats: z.coerce.number().int().min(1).max(100).default(1),
+  ticketType: z.enum(TICKET_TYPES).optional(),
+  discountCode: discountCodeSchema.optional(),
+});
+
+export type CreatePriceTierInput = z.infer<typeof createPriceTierSchema>;
+export type UpdatePriceTierInput = z.infer<typeof updatePriceTierSchema>;
+export type CreateDiscountCodeInput = z.infer<typeof createDiscountCodeSchema>;
+export type UpdateDiscountCodeInput = z.infer<typeof updateDiscountCodeSchema>;
+export type PriceQuoteQuery = z.infer<typeof priceQuoteQuerySchema>;
@@ -0,0 +1,91 @@
+/**
+ * Registration validation schemas
+ */
+
+import { z } from "zod";
+import { RegistrationStatus } from "@prisma/client";
+import { routing } from "@/i18n/routing";
+import { TICKET_TYPES, discountCodeSchema } from "./pricing";
+
+/**
+ * Validation schema for a friend registered by a group leader
+ */
+export const groupFriendSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().toLowerCase().email().optional(),
+  phone: z.string().trim().max(50).optional(),
+  dietaryRequirements: z.string().trim().max(500).optional(),
+  specialRequests: z.string().trim().max(1000).optional(),
+});
+
+const registrationDetailsSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+  dietaryRequirements: z.string().trim().max(500).optional(),
+  specialRequests: z.string().trim().max(1000).optional(),
+  friends: z.array(groupFriendSchema).max(50).optional(),
+});
+
+/**
+ * Validation schema for registering the current user for an event,
+ * optionally bringing friends (the group size limit is checked by the service)
+ * and picking a ticket type or a discount code for paid events
+ */
+export const createRegistrationSchema = registrationDetailsSchema.extend({
+  ticketType: z.enum(TICKET_TYPES).optional(),
+  discountCode: discountCodeSchema.optional(),
+});
+
+/**
+ * Validation schema for registering without an account; the registration is
+ * only made once the guest verifies their email
+ */
+export const guestRegistrationSchema = registrationDetailsSchema.extend({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().toLowerCase().email(),
+  phone: z.string().trim().max(50).optional(),
+  locale: z.enum(routing.locales).default(routing.defaultLocale),
+});
+
+/**
+ * Validation schema for handing group leadership to a friend
+ */
+export const transferGroupLeadershipSchema = z.object({
+  friendId: z.string().min(1),
+});
+
+/**
+ * Validation schema for approving or rejecting registrations in bulk;
+ * rejections must give the attendee a reason
+ */
+export const reviewRegistrationsSchema = z
+  .object({
+    registrationIds: z.array(z.string().min(1)).min(1).max(100),
+    decision: z.enum(["APPROVE", "REJECT"]),
+    reason: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.decision === "APPROVE" || Boolean(data.reason), {
+    message: "A reason is required when rejecting registrations",
+    path: ["reason"],
+  });
+
+/**
+ * Validation schema for a scanned or typed ticket code at check-in
+ */
+export const checkInSchema = z.object({
+  code: z.string().trim().min(1).max(2000),
+});
+
+/**
+ * Validation schema for the event registration list query string
+ */
+export const registrationListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.nativeEnum(RegistrationStatus).optional(),
+});
+
+export type GroupFriendInput = z.infer<typeof groupFriendSchema>;
+export type CreateRegistrationInput = z.infer<typeof createRegistrationSchema>;
+export type GuestRegistrationInput = z.infer<typeof guestRegistrationSchema>;
+export type ReviewRegistrationsInput = z.infer<typeof reviewRegistrationsSchema>;
+export type RegistrationListQuery = z.infer<typeof registrationListQuerySchema>;
@@ -0,0 +1,77 @@
+/**
+ * Role validation schemas
+ */
+
+import { z } from "zod";
+import { isPermissionGrant } from "@/lib/permissions";
+
+const roleFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .pipe(
+      z.string().regex(/^[A-Z][A-Z0-9_]{1,49}$/, "Names are 2-50 letters, digits or underscores")
+    ),
+  displayName: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, "Colors are hex values like #FF5733")
+    .nullable()
+    .optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isDefault: z.boolean().optional(),
+  permissions: z
+    .array(z.string().refine(isPermissionGrant, "Unknown permission"))
+    .max(200)
+    .transform((permissions) => [...new Set(permissions)]),
+});
+
+/**
+ * Validation schema for creating a role
+ */
+export const createRoleSchema = roleFieldsSchema;
+
+/**
+ * Validation schema for changing a role; system roles keep their name
+ */
+export const updateRoleSchema = roleFieldsSchema.partial();
+
+/**
+ * Validation schema for granting a role to a user, by id or email; without
+ * `expiresAt` the grant is permanent
+ */
+export const grantRoleSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.string().trim().toLowerCase().email().optional(),
+    roleId: z.string().min(1),
+    expiresAt: z.coerce.date().nullable().optional(),
+  })
+  .refine((data) => Boolean(data.userId || data.email), {
+    message: "A userId or email is required",
+    path: ["userId"],
+  })
+  .refine((data) => !data.expiresAt || data.expiresAt.getTime() > Date.now(), {
+    message: "The expiry must be in the future",
+    path: ["expiresAt"],
+  });
+
+/**
+ * Validation schema for listing role grants
+ */
+export const roleGrantListQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  roleId: z.string().min(1).optional(),
+  /** Only grants that have an expiry */
+  temporary: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type GrantRoleInput = z.infer<typeof grantRoleSchema>;
+export type RoleGrantListQuery = z.infer<typeof roleGrantListQuerySchema>;
@@ -0,0 +1,27 @@
+/**
+ * User account validation schemas
+ */
+
+import { z } from "zod";
+
+/**
+ * Validation schema for suspending a user, by id or email; without `until`
+ * the suspension lasts until the user is reactivated
+ */
+export const suspendUserSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.string().trim().toLowerCase().email().optional(),
+    reason: z.string().trim().min(1).max(1000),
+    until: z.coerce.date().nullable().optional(),
+  })
+  .refine((data) => Boolean(data.userId || data.email), {
+    message: "A userId or email is required",
+    path: ["userId"],
+  })
+  .refine((data) => !data.until || data.until.getTime() > Date.now(), {
+    message: "The end date must be in the future",
+    path: ["until"],
+  });
+
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
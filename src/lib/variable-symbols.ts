@@ -0,0 +1,239 @@
+/**
+ * Variable symbols
+ *
+ * Slovak and Czech bank transfers identify the payment by its variable
+ * symbol: up to 10 digits. Symbols are drawn from counters in
+ * `VariableSymbolSequence` under the scheme set by
+ * `payments.variable_symbol_scheme`:
+ * - "event" (default): the event's prefix followed by a 6-digit sequence,
+ *   e.g. 42000017 for the 17th payment of the event with prefix 42
+ * - "year": the last two digits of the year followed by an 8-digit sequence
+ * - "sequence": a single global sequence
+ *
+ * Symbols never start with a zero, since banks may drop leading zeros.
+ * Each issued symbol is recorded in `IssuedVariableSymbol`; that row is never
+ * deleted, so a symbol seen on a bank statement always leads back to its
+ * payer and is never handed out again, even when the scheme changes.
+ */
+
+import type { Prisma, Registration } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getStringConfig } from "./system-config";
+import { logger } from "./logger";
+
+export const VARIABLE_SYMBOL_MAX_LENGTH = 10;
+
+export type VariableSymbolScheme = "event" | "year" | "sequence";
+
+const SCHEMES: VariableSymbolScheme[] = ["event", "year", "sequence"];
+
+// Digits after the event prefix and the year
+const EVENT_SEQUENCE_DIGITS = 6;
+const YEAR_SEQUENCE_DIGITS = 8;
+
+// Values skipped because an earlier scheme already issued the symbol, before giving up
+const MAX_COLLISIONS = 100;
+
+/**
+ * Reads the configured scheme, falling back to "event" for unknown values
+ */
+export async function getVariableSymbolScheme(): Promise<VariableSymbolScheme> {
+  const value = await getStringConfig("payments.variable_symbol_scheme", "event");
+  const scheme = SCHEMES.find((candidate) => candidate === value.trim().toLowerCase());
+  if (!scheme) {
+    logger.warn(`Unknown variable symbol scheme "${value}", using "event"`);
+  }
+  return scheme ?? "event";
+}
+
+/**
+ * Normalizes a variable symbol read from a bank statement or typed by hand
+ *
+ * @returns The digits without leading zeros, or null if it is not a valid symbol
+ */
+export function normalizeVariableSymbol(input: string): string | null {
+  const digits = input.replace(/\s+/g, "").replace(/^0+/, "");
+  return /^[1-9]\d{0,9}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Increments a counter, creating it on first use
+ *
+ * The upsert locks the counter row until the transaction ends, so concurrent
+ * allocations from the same counter are serialized.
+ */
+async function nextSequenceValue(tx: Prisma.TransactionClient, key: string): Promise<number> {
+  const [row] = await tx.$queryRaw<{ lastValue: bigint }[]>`
+    INSERT INTO variable_symbol_sequences (key, "lastValue", "updatedAt")
+    VALUES (${key}, 1, NOW())
+    ON CONFLICT (key) DO UPDATE
+      SET "lastValue" = variable_symbol_sequences."lastValue" + 1, "updatedAt" = NOW()
+    RETURNING "lastValue"`;
+
+  if (!row) {
+    throw new Error(`Failed to advance variable symbol sequence "${key}"`);
+  }
+  return Number(row.lastValue);
+}
+
+/**
+ * Returns the event's symbol prefix, assigning the next free one on first use
+ */
+async function getEventPrefix(tx: Prisma.TransactionClient, eventId: string): Promise<string> {
+  const event = await tx.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { variableSymbolPrefix: true },
+  });
+  if (event.variableSymbolPrefix) {
+    return event.variableSymbolPrefix;
+  }
+
+  const prefix = String(await nextSequenceValue(tx, "event-prefix"));
+  if (prefix.length > VARIABLE_SYMBOL_MAX_LENGTH - EVENT_SEQUENCE_DIGITS) {
+    throw new Error("Variable symbol event prefixes are exhausted");
+  }
+
+  // Only set when still empty, in case a concurrent allocation got here first
+  await tx.event.updateMany({
+    where: { id: eventId, variableSymbolPrefix: null },
+    data: { variableSymbolPrefix: prefix },
+  });
+
+  const updated = await tx.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { variableSymbolPrefix: true },
+  });
+  return updated.variableSymbolPrefix ?? prefix;
+}
+
+async function nextCandidate(
+  tx: Prisma.TransactionClient,
+  scheme: VariableSymbolScheme,
+  eventId: string,
+  now: Date
+): Promise<string> {
+  const build = (prefix: string, value: number, digits: number) => {
+    const sequence = String(value).padStart(digits, "0");
+    if (sequence.length > digits) {
+      throw new Error(`Variable symbols with prefix ${prefix} are exhausted`);
+    }
+    return `${prefix}${sequence}`;
+  };
+
+  switch (scheme) {
+    case "event": {
+      const prefix = await getEventPrefix(tx, eventId);
+      const value = await nextSequenceValue(tx, `event:${prefix}`);
+      return build(prefix, value, EVENT_SEQUENCE_DIGITS);
+    }
+    case "year": {
+      const prefix = String(now.getUTCFullYear() % 100);
+      const value = await nextSequenceValue(tx, `year:${prefix}`);
+      return build(prefix, value, YEAR_SEQUENCE_DIGITS);
+    }
+    case "sequence": {
+      const value = await nextSequenceValue(tx, "global");
+      if (String(value).length > VARIABLE_SYMBOL_MAX_LENGTH) {
+        throw new Error("Variable symbols are exhausted");
+      }
+      return String(value);
+    }
+  }
+}
+
+export interface AllocateVariableSymbolInput {
+  eventId: string;
+  userId: string;
+  pendingPaymentId?: string | null;
+  paymentId?: string | null;
+}
+
+/**
+ * Issues a new, never used variable symbol for a payment
+ *
+ * Must run in the transaction that stores the symbol on the payment. Values
+ * already issued under another scheme, or set on a payment by hand, are
+ * skipped.
+ */
+export async function allocateVariableSymbol(
+  tx: Prisma.TransactionClient,
+  input: AllocateVariableSymbolInput
+): Promise<string> {
+  const scheme = await getVariableSymbolScheme();
+  const now = new Date();
+
+  for (let attempt = 0; attempt < MAX_COLLISIONS; attempt++) {
+    const symbol = await nextCandidate(tx, scheme, input.eventId, now);
+
+    // Symbols entered by hand before the allocator existed are not in the ledger
+    const [payment, pendingPayment] = await Promise.all([
+      tx.payment.findUnique({ where: { variableSymbol: symbol }, select: { id: true } }),
+      tx.pendingPayment.findUnique({ where: { variableSymbol: symbol }, select: { id: true } }),
+    ]);
+    if (payment || pendingPayment) continue;
+
+    // Skips (rather than fails on) a symbol that is already taken, which would
+    // abort the transaction
+    const { count } = await tx.issuedVariableSymbol.createMany({
+      data: [
+        {
+          symbol,
+          userId: input.userId,
+          eventId: input.eventId,
+          pendingPaymentId: input.pendingPaymentId ?? null,
+          paymentId: input.paymentId ?? null,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    if (count === 1) {
+      return symbol;
+    }
+  }
+
+  throw new Error(`Could not allocate a free variable symbol for event ${input.eventId}`);
+}
+
+export interface VariableSymbolOwner {
+  symbol: string;
+  issuedAt: Date;
+  userId: string | null;
+  eventId: string | null;
+  registration: Registration | null;
+  pendingPaymentId: string | null;
+  paymentId: string | null;
+}
+
+/**
+ * Finds who a variable symbol was issued to, e.g. for a bank statement line
+ *
+ * @returns The owner, or null for symbols this system never issued
+ */
+export async function findVariableSymbolOwner(input: string): Promise<VariableSymbolOwner | null> {
+  const symbol = normalizeVariableSymbol(input);
+  if (!symbol) return null;
+
+  const issued = await prisma.issuedVariableSymbol.findUnique({ where: { symbol } });
+  if (!issued) return null;
+
+  const [registration, pendingPayment, payment] = await Promise.all([
+    issued.userId && issued.eventId
+      ? prisma.registration.findUnique({
+          where: { userId_eventId: { userId: issued.userId, eventId: issued.eventId } },
+        })
+      : null,
+    prisma.pendingPayment.findUnique({ where: { variableSymbol: symbol }, select: { id: true } }),
+    prisma.payment.findUnique({ where: { variableSymbol: symbol }, select: { id: true } }),
+  ]);
+
+  return {
+    symbol,
+    issuedAt: issued.issuedAt,
+    userId: issued.userId,
+    eventId: issued.eventId,
+    registration,
+    pendingPaymentId: pendingPayment?.id ?? issued.pendingPaymentId,
+    paymentId: payment?.id ?? issued.paymentId,
+  };
+}
@@ -0,0 +1,482 @@
+/**
+ * Waiting list promotion
+ *
+ * When seats free up, the first waiting list entries (by position) whose
+ * `groupSize` fits the free seats are promoted: a PENDING registration holds
+ * their seats, paid events get a WAITING_LIST_PROMOTION pending payment, and
+ * the attendee is emailed a signed link to claim the seat. Entries that are
+ * not claimed before `claimExpiresAt` are skipped and their seats go to the
+ * next people in line.
+ */
+
+import {
+  EventStatus,
+  PendingPaymentStatus,
+  PendingPaymentType,
+  RegistrationAction,
+  RegistrationSource,
+  RegistrationStatus,
+  type Event,
+  type Prisma,
+  type Registration,
+  type WaitingList,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { countTakenSeats, lockEvent } from "./event-availability";
+import { createPendingPayment, isPaidEvent } from "./pending-payments";
+import { detachRegistrationPayments } from "./payments";
+import { groupRegistrationType, requoteRegistrationPrice, ticketTypeOf } from "./pricing";
+import { recordRegistrationHistory } from "./registration-history";
+import {
+  getRegistrationRecipient,
+  sendFriendInvitations,
+  sendRegistrationConfirmation,
+  type AttendeeRecipient,
+} from "./registration-notifications";
+import { sendTemplatedEmail } from "./notification-templates";
+import { createSignedToken, verifySignedToken } from "./signed-tokens";
+import { getNumberConfig } from "./system-config";
+import { formatDate, formatDateTime } from "./formatters";
+import { getBaseUrl } from "./auth";
+import { logger } from "./logger";
+import { fail, ok, type ServiceResult } from "@/types/service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const recipientInclude = {
+  user: { select: { email: true, name: true, preferredLocale: true } },
+} satisfies Prisma.WaitingListInclude;
+
+type WaitingListEntryWithUser = Prisma.WaitingListGetPayload<{ include: typeof recipientInclude }>;
+
+interface PromotedEntry {
+  entry: WaitingList;
+  claimExpiresAt: Date;
+  recipient: AttendeeRecipient | null;
+}
+
+/**
+ * Claim deadline for a promotion: `waiting_list.claim_window_hours` from now
+ * (48 by default), but never later than the event start
+ */
+async function getClaimDeadline(event: Pick<Event, "startDate">, now: Date): Promise<Date> {
+  const hours = await getNumberConfig("waiting_list.claim_window_hours", 48);
+  const deadline = new Date(now.getTime() + hours * HOUR_MS);
+  return deadline < event.startDate ? deadline : event.startDate;
+}
+
+/**
+ * Picks the entries to promote: in position order, every entry whose group
+ * still fits the remaining free seats
+ */
+export function selectEntriesToPromote<T extends Pick<WaitingList, "groupSize">>(
+  entries: T[],
+  freeSeats: number
+): T[] {
+  const selected: T[] = [];
+  let remaining = freeSeats;
+
+  for (const entry of entries) {
+    if (remaining <= 0) break;
+    if (entry.groupSize > remaining) continue;
+
+    selected.push(entry);
+    remaining -= entry.groupSize;
+  }
+
+  return selected;
+}
+
+/**
+ * Finds the registration row an entry's attendee already has for the event,
+ * since registrations are unique per user (or per guest name and email)
+ */
+async function findExistingRegistration(
+  tx: Prisma.TransactionClient,
+  entry: WaitingList
+): Promise<Registration | null> {
+  if (entry.userId) {
+    return tx.registration.findUnique({
+      where: { userId_eventId: { userId: entry.userId, eventId: entry.eventId } },
+    });
+  }
+
+  return tx.registration.findFirst({
+    where: { eventId: entry.eventId, guestEmail: entry.guestEmail, guestName: entry.guestName },
+  });
+}
+
+/**
+ * Creates the seat-holding registration (and pending payment) for one entry
+ */
+async function promoteEntry(
+  tx: Prisma.TransactionClient,
+  event: Event,
+  entry: WaitingListEntryWithUser,
+  claimExpiresAt: Date,
+  now: Date
+): Promise<PromotedEntry> {
+  const existing = await findExistingRegistration(tx, entry);
+
+  // Priced as of joining the list, with the ticket type and code entered then
+  const quote =
+    entry.userId && isPaidEvent(event)
+      ? await requoteRegistrationPrice(tx, {
+          event,
+          userId: entry.userId,
+          seats: entry.groupSize,
+          ticketType: ticketTypeOf(entry.registrationType),
+          discountCode: entry.discountCode,
+          at: entry.joinedAt,
+          excludeRegistrationId: existing?.id ?? null,
+        })
+      : null;
+  const requiresPayment = quote !== null && quote.total.greaterThan(0);
+
+  const data = {
+    status: RegistrationStatus.PENDING,
+    registrationType:
+      quote && !quote.ticketType ? groupRegistrationType(entry.groupSize) : entry.registrationType,
+    registrationSource: RegistrationSource.WAITING_LIST_PROMOTION,
+    isGroupLeader: true,
+    groupLeaderId: null,
+    friendPosition: null,
+    groupSize: entry.groupSize,
+    friendsData: (entry.friendsData ?? []) as Prisma.InputJsonValue,
+    guestEmail: entry.guestEmail,
+    guestName: entry.guestName,
+    guestPhone: entry.guestPhone,
+    isGuestRequest: entry.isGuestRequest,
+    requiresPayment,
+    paymentId: null,
+    pendingPaymentId: null,
+    discountCodeId: quote?.discountCode?.id ?? null,
+    registeredAt: now,
+    confirmedAt: null,
+    approvedAt: null,
+    cancelledAt: null,
+    notes: entry.notes,
+    dietaryRequirements: entry.dietaryRequirements,
+    specialRequests: entry.specialRequests,
+  };
+
+  // A cancelled registration is re-opened without its earlier payments
+  if (existing) {
+    await detachRegistrationPayments(tx, existing.id);
+  }
+  let registration = existing
+    ? await tx.registration.update({ where: { id: existing.id }, data })
+    : await tx.registration.create({ data: { ...data, userId: entry.userId, eventId: event.id } });
+
+  let pendingPaymentId: string | null = null;
+  if (requiresPayment && quote && entry.userId) {
+    const pendingPayment = await createPendingPayment(tx, {
+      userId: entry.userId,
+      event,
+      type: PendingPaymentType.WAITING_LIST_PROMOTION,
+      seats: entry.groupSize,
+      metadata: { waitingListId: entry.id, registrationId: registration.id },
+      quote,
+    });
+    pendingPaymentId = pendingPayment.id;
+
+    registration = await tx.registration.update({
+      where: { id: registration.id },
+      data: { pendingPaymentId },
+    });
+  }
+
+  const promoted = await tx.waitingList.update({
+    where: { id: entry.id },
+    data: {
+      promotedAt: now,
+      notifiedAt: now,
+      claimExpiresAt,
+      registrationId: registration.id,
+      pendingPaymentId,
+    },
+  });
+
+  if (entry.userId) {
+    await recordRegistrationHistory(tx, {
+      userId: entry.userId,
+      eventId: event.id,
+      action: RegistrationAction.PROMOTED_FROM_WAITING_LIST,
+      previousStatus: existing?.status ?? null,
+      newStatus: RegistrationStatus.PENDING,
+      reason: `Seat held until ${claimExpiresAt.toISOString()}`,
+    });
+  }
+
+  return { entry: promoted, claimExpiresAt, recipient: getRegistrationRecipient(entry) };
+}
+
+/**
+ * Promotes waiting list entries into the event's free seats
+ *
+ * Safe to call whenever seats may have been freed (cancellation, expiry,
+ * capacity increase); it does nothing when the event is full or closed.
+ *
+ * @returns Number of entries promoted
+ */
+export async function promoteFromWaitingList(eventId: string): Promise<number> {
+  const now = new Date();
+
+  const { event, promoted } = await prisma.$transaction(async (tx) => {
+    await lockEvent(tx, eventId);
+
+    const event = await tx.event.findUnique({ where: { id: eventId } });
+    if (!event || event.status !== EventStatus.PUBLISHED || event.startDate <= now) {
+      return { event, promoted: [] };
+    }
+
+    const takenSeats = (await countTakenSeats([eventId], tx)).get(eventId) ?? 0;
+    const freeSeats = event.capacity - takenSeats;
+    if (freeSeats <= 0) {
+      return { event, promoted: [] };
+    }
+
+    const waiting = await tx.waitingList.findMany({
+      where: { eventId, promotedAt: null },
+      include: recipientInclude,
+      orderBy: [{ position: "asc" }, { joinedAt: "asc" }],
+    });
+
+    const claimExpiresAt = await getClaimDeadline(event, now);
+    const promoted: PromotedEntry[] = [];
+    for (const entry of selectEntriesToPromote(waiting, freeSeats)) {
+      promoted.push(await promoteEntry(tx, event, entry, claimExpiresAt, now));
+    }
+
+    return { event, promoted };
+  });
+
+  if (!event || promoted.length === 0) {
+    return 0;
+  }
+
+  logger.info(`Promoted ${promoted.length} waiting list entries for event ${eventId}`);
+
+  for (const { entry, claimExpiresAt, recipient } of promoted) {
+    if (!recipient) continue;
+
+    const token = createSignedToken("waiting-list-claim", entry.id, claimExpiresAt);
+    const result = await sendTemplatedEmail({
+      templateName: "waiting_list_promotion",
+      recipient,
+      eventId,
+      variables: {
+        eventTitle: event.title,
+        eventDate: formatDate(event.startDate, recipient.locale, event.timezone),
+        claimDeadline: formatDateTime(claimExpiresAt, recipient.locale, event.timezone),
+        confirmationUrl: `${getBaseUrl()}/${recipient.locale}/waiting-list/claim?token=${encodeURIComponent(token)}`,
+      },
+      metadata: { waitingListId: entry.id },
+    });
+
+    if (!result.success) {
+      logger.warn(`Failed to notify promoted waiting list entry ${entry.id}: ${result.error}`);
+    }
+  }
+
+  return promoted.length;
+}
+
+export interface PromotionClaimDetails {
+  entry: WaitingList;
+  event: Pick<Event, "id" | "title" | "slug" | "startDate" | "timezone">;
+}
+
+/**
+ * Loads a promotion from a claim link without changing anything, for the claim page
+ */
+export async function getPromotionForClaim(token: string): Promise<PromotionClaimDetails | null> {
+  const verified = verifySignedToken(token, "waiting-list-claim");
+  if (!verified) return null;
+
+  const entry = await prisma.waitingList.findUnique({
+    where: { id: verified.subject },
+    include: {
+      event: { select: { id: true, title: true, slug: true, startDate: true, timezone: true } },
+    },
+  });
+
+  if (!entry) return null;
+
+  const { event, ...rest } = entry;
+  return { entry: rest, event };
+}
+
+/**
+ * Claims a promoted seat from the emailed link
+ *
+ * Free events without approval are confirmed immediately; paid events stay
+ * PENDING until the payment arrives, and approval events until approved.
+ * Claiming twice is harmless.
+ */
+export async function claimWaitingListPromotion(
+  token: string
+): Promise<ServiceResult<Registration>> {
+  const verified = verifySignedToken(token, "waiting-list-claim");
+  if (!verified) {
+    return fail("INVALID_TOKEN", "This link is invalid or has expired", 400);
+  }
+
+  const now = new Date();
+  let newlyClaimed = false;
+  const result = await prisma.$transaction(async (tx): Promise<ServiceResult<Registration>> => {
+    const entry = await tx.waitingList.findUnique({ where: { id: verified.subject } });
+    if (!entry?.registrationId) {
+      return fail("PROMOTION_NOT_FOUND", "Waiting list promotion not found", 404);
+    }
+
+    await lockEvent(tx, entry.eventId);
+
+    const [event, registration] = await Promise.all([
+      tx.event.findUniqueOrThrow({ where: { id: entry.eventId } }),
+      tx.registration.findUniqueOrThrow({ where: { id: entry.registrationId } }),
+    ]);
+
+    if (entry.claimedAt) {
+      return ok(registration);
+    }
+
+    const expired =
+      entry.skippedAt !== null ||
+      (entry.claimExpiresAt !== null && entry.claimExpiresAt <= now) ||
+      registration.status === RegistrationStatus.CANCELLED;
+    if (expired) {
+      return fail("CLAIM_EXPIRED", "The deadline to claim this seat has passed", 410);
+    }
+
+    const confirm = !event.requiresApproval && !registration.requiresPayment;
+    const claimed = await tx.registration.update({
+      where: { id: registration.id },
+      data: confirm ? { status: RegistrationStatus.CONFIRMED, confirmedAt: now } : {},
+    });
+
+    await tx.waitingList.update({ where: { id: entry.id }, data: { claimedAt: now } });
+
+    if (confirm && registration.userId) {
+      await recordRegistrationHistory(tx, {
+        userId: registration.userId,
+        eventId: event.id,
+        action: RegistrationAction.CONFIRMED,
+        previousStatus: registration.status,
+        newStatus: RegistrationStatus.CONFIRMED,
+        reason: "Claimed waiting list promotion",
+      });
+    }
+
+    newlyClaimed = true;
+    return ok(claimed);
+  });
+
+  if (result.success && newlyClaimed) {
+    if (result.data.status === RegistrationStatus.CONFIRMED) {
+      await sendRegistrationConfirmation(result.data.id);
+    }
+    // Friends of a promoted group are invited once the leader takes the seats
+    await sendFriendInvitations(result.data.id);
+  }
+
+  return result;
+}
+
+export interface ExpiredPromotionsResult {
+  expired: number;
+  promoted: number;
+}
+
+/**
+ * Releases promoted seats whose claim deadline passed and offers them to
+ * the next entries on the waiting list
+ */
+export async function expireUnclaimedPromotions(
+  now: Date = new Date()
+): Promise<ExpiredPromotionsResult> {
+  const overdue = await prisma.waitingList.findMany({
+    where: {
+      promotedAt: { not: null },
+      claimedAt: null,
+      skippedAt: null,
+      claimExpiresAt: { lte: now },
+    },
+    select: { id: true, eventId: true },
+  });
+
+  const affectedEvents = new Set<string>();
+  let expired = 0;
+
+  for (const { id, eventId } of overdue) {
+    const skipped = await prisma.$transaction(async (tx) => {
+      await lockEvent(tx, eventId);
+
+      const entry = await tx.waitingList.findUnique({
+        where: { id },
+        include: { registration: true, pendingPayment: true },
+      });
+      if (!entry || entry.claimedAt || entry.skippedAt) {
+        return false;
+      }
+
+      const { registration, pendingPayment } = entry;
+      if (registration?.status === RegistrationStatus.PENDING) {
+        await tx.registration.update({
+          where: { id: registration.id },
+          data: { status: RegistrationStatus.CANCELLED, cancelledAt: now },
+        });
+      }
+
+      if (pendingPayment?.status === PendingPaymentStatus.PENDING) {
+        await tx.pendingPayment.update({
+          where: { id: pendingPayment.id },
+          data: { status: PendingPaymentStatus.CANCELLED, cancelledAt: now },
+        });
+      }
+
+      await tx.waitingList.update({ where: { id }, data: { skippedAt: now } });
+
+      if (entry.userId) {
+        await recordRegistrationHistory(tx, [
+          {
+            userId: entry.userId,
+            eventId,
+            action: RegistrationAction.CANCELLED,
+            previousStatus: registration?.status ?? null,
+            newStatus: RegistrationStatus.CANCELLED,
+            reason: "Waiting list claim deadline passed",
+          },
+          ...(pendingPayment?.status === PendingPaymentStatus.PENDING
+            ? [
+                {
+                  userId: entry.userId,
+                  eventId,
+                  action: RegistrationAction.PENDING_PAYMENT_CANCELLED,
+                  reason: "Waiting list claim deadline passed",
+                },
+              ]
+            : []),
+        ]);
+      }
+
+      return true;
+    });
+
+    if (skipped) {
+      expired++;
+      affectedEvents.add(eventId);
+    }
+  }
+
+  let promoted = 0;
+  for (const eventId of affectedEvents) {
+    promoted += await promoteFromWaitingList(eventId);
+  }
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} unclaimed waiting list promotions, promoted ${promoted}`);
+  }
+
+  return { expired, promoted };
+}
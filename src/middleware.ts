@@ -1,13 +1,15 @@
 import createIntlMiddleware from "next-intl/middleware";
+import { withAuth } from "@kinde-oss/kinde-auth-nextjs/middleware";
 import { routing } from "./i18n/routing";
+import { isProtectedPath, localeFromPathname, loginUrl } from "./lib/auth-routes";
 import { type NextRequest, NextResponse } from "next/server";
 
 // Create the internationalization middleware
 const intlMiddleware = createIntlMiddleware(routing);
 
-// Simple middleware that handles internationalization and auth routes
+// Middleware that handles internationalization, auth routes and the dashboard
 export default function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+  const { pathname, search } = request.nextUrl;
 
   // Handle auth routes - they should NOT be internationalized
   if (pathname.startsWith("/api/auth/")) {
@@ -15,6 +17,20 @@ export default function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Dashboard pages need a session; signed-out visitors go to the login in
+  // their language and come back afterwards. Permissions are checked by the
+  // pages themselves, as they need the database.
+  if (isProtectedPath(pathname)) {
+    return withAuth(
+      request,
+      {
+        loginPage: loginUrl(localeFromPathname(pathname), pathname + search),
+        isReturnToCurrentPage: false,
+      },
+      () => intlMiddleware(request)
+    ) as Promise<NextResponse>;
+  }
+
   // For all other routes, apply internationalization
   return intlMiddleware(request);
 }
@@ -27,6 +43,8 @@ export const config = {
     "/(en|cs)/:path*",
     // Auth routes
     "/api/auth/:path*",
+    // Public event pages linked without a locale prefix
+    "/events/:path*",
     // Dashboard and other protected routes
     "/dashboard/:path*",
     "/(en|cs)/dashboard/:path*",
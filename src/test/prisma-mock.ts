@@ -0,0 +1,51 @@
+import { vi, type Mock } from "vitest";
+import type { Prisma, PrismaClient } from "@prisma/client";
+
+type TransactionClient = Prisma.TransactionClient;
+
+/**
+ * The model delegates and raw query methods a test mocks, named as on the
+ * Prisma client so a typo or a renamed model fails the type check
+ */
+/* eslint-disable no-unused-vars */
+export type MockedDelegates = {
+  [Model in keyof TransactionClient]?: TransactionClient[Model] extends (
+    ...args: never[]
+  ) => unknown
+    ? Mock
+    : { [Method in keyof TransactionClient[Model]]?: Mock };
+};
+
+type TransactionCallback = (client: unknown) => Promise<unknown>;
+/* eslint-enable no-unused-vars */
+
+export type MockTransactionClient<T extends MockedDelegates> = T & TransactionClient;
+
+export type MockPrismaClient<T extends MockedDelegates> = T & { $transaction: Mock } & PrismaClient;
+
+/**
+ * A transaction client mock, accepted wherever a service takes a
+ * `Prisma.TransactionClient`
+ */
+export function mockTransactionClient<T extends MockedDelegates>(
+  delegates: T
+): MockTransactionClient<T> {
+  return delegates as MockTransactionClient<T>;
+}
+
+/**
+ * A Prisma client mock whose interactive transactions run with `tx`, or with
+ * the client itself when no transaction client is given
+ *
+ * Load it in `vi.hoisted` with a dynamic import, as the mocked module is
+ * set up before the test file's imports run.
+ */
+export function mockPrismaClient<T extends MockedDelegates>(
+  delegates: T,
+  tx?: TransactionClient
+): MockPrismaClient<T> {
+  const client: MockedDelegates = Object.assign(delegates, {
+    $transaction: vi.fn(async (callback: TransactionCallback) => callback(tx ?? client)),
+  });
+  return client as MockPrismaClient<T>;
+}
@@ -35,8 +35,9 @@ global.IntersectionObserver = vi.fn().mockImplementation(() => ({
   disconnect: vi.fn(),
 }));
 
-// Mock next-intl
-vi.mock("next-intl", () => ({
+// Mock next-intl hooks; the formatters run for real
+vi.mock("next-intl", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next-intl")>()),
   useTranslations: (namespace?: string) => (key: string, values?: Record<string, any>) => {
     // Simple mock that returns the key with namespace
     const fullKey = namespace ? `${namespace}.${key}` : key;
@@ -152,7 +153,8 @@ vi.mock("@/components/auth/session-provider", () => ({
 // Mock Kinde auth helper
 vi.mock("@/lib/kinde-auth", () => ({
   getCurrentUser: vi.fn().mockReturnValue(null),
-  getUserPermissions: vi.fn().mockReturnValue([]),
+  getKindePermissions: vi.fn().mockResolvedValue([]),
+  getKindeRoles: vi.fn().mockResolvedValue([]),
 }));
 
 // Mock environment variables
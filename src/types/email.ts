@@ -16,6 +16,18 @@ export interface EmailTemplateData {
   [key: string]: string | number | boolean | null | undefined;
 }
 
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+  /** File name shown to the recipient */
+  filename: string;
+  /** File content */
+  content: Buffer;
+  /** MIME type, e.g. "application/pdf" */
+  contentType?: string;
+}
+
 /**
  * Base email configuration interface
  */
@@ -36,6 +48,8 @@ export interface BaseEmailConfig {
   tags?: Array<{ name: string; value: string }>;
   /** Optional email headers */
   headers?: Record<string, string>;
+  /** Optional file attachments */
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Result types shared by server-side domain services (events, registrations, payments)
+ */
+
+/**
+ * Error returned by a domain service
+ */
+export interface ServiceError {
+  /** Machine-readable error code (e.g. "EVENT_NOT_FOUND") */
+  code: string;
+  /** Human-readable error message */
+  message: string;
+  /** HTTP status code a route handler should respond with */
+  statusCode: number;
+  /** Additional error details */
+  details?: unknown;
+}
+
+/**
+ * Result wrapper for domain service operations
+ */
+export type ServiceResult<T> = { success: true; data: T } | { success: false; error: ServiceError };
+
+/**
+ * Creates a successful service result
+ */
+export function ok<T>(data: T): ServiceResult<T> {
+  return { success: true, data };
+}
+
+/**
+ * Creates a failed service result
+ */
+export function fail<T = never>(
+  code: string,
+  message: string,
+  statusCode: number,
+  details?: unknown
+): ServiceResult<T> {
+  return {
+    success: false,
+    error: { code, message, statusCode, ...(details !== undefined && { details }) },
+  };
+}